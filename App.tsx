@@ -7,8 +7,14 @@ import { StatusBar } from 'expo-status-bar';
 import { AuthProvider } from './src/context/AuthContext';
 import { TeamProvider } from './src/context/TeamContext';
 import { DealershipProvider } from './src/context/DealershipContext';
+import { CatalogProvider } from './src/context/CatalogContext';
 import { NotificationProvider } from './src/context/NotificationContext';
+import { OfflineQueueProvider } from './src/context/OfflineQueueContext';
+import { ReminderProvider } from './src/context/ReminderContext';
+import { AppLockProvider } from './src/context/AppLockContext';
+import { AppLockOverlay } from './src/components/AppLockOverlay';
 import { AppNavigator } from './src/navigation/AppNavigator';
+import { navigationRef, deepLinkRouter } from './src/services/deepLink.service';
 import { theme } from './src/utils/theme';
 
 /**
@@ -22,12 +28,21 @@ export default function App(): React.JSX.Element {
         <AuthProvider>
           <TeamProvider>
             <DealershipProvider>
-              <NotificationProvider>
-                <NavigationContainer>
-                  <StatusBar style="auto" />
-                  <AppNavigator />
-                </NavigationContainer>
-              </NotificationProvider>
+              <CatalogProvider>
+                <NotificationProvider>
+                  <OfflineQueueProvider>
+                    <ReminderProvider>
+                      <AppLockProvider>
+                        <NavigationContainer ref={navigationRef} onReady={() => deepLinkRouter.flush()}>
+                          <StatusBar style="auto" />
+                          <AppNavigator />
+                        </NavigationContainer>
+                        <AppLockOverlay />
+                      </AppLockProvider>
+                    </ReminderProvider>
+                  </OfflineQueueProvider>
+                </NotificationProvider>
+              </CatalogProvider>
             </DealershipProvider>
           </TeamProvider>
         </AuthProvider>
@@ -1,14 +1,82 @@
-import { apiClient } from './client';
+import { apiClient, handleApiCall } from './client';
+import { bookingListSchema, bookingDetailSchema, importListSchema } from './contracts';
+import { offlineQueue } from '../services/offlineQueue.service';
+import { reminderScheduler, afterMutation } from '../services/reminders.service';
+import { invalidateOnSuccess, CacheTarget } from '../services/entityCache.service';
+import { syncBookingStock } from '../services/stockReservation.service';
+import { getStockActionForStatus } from '../utils/stockReservation';
+import {
+  BookingTransitionSubject,
+  BookingTransitionError,
+  checkBookingTransition,
+  partitionBookingTransitions,
+} from '../utils/bookingStateMachine';
+import type { UserRole } from '../context/AuthContext';
 import { 
   Booking, 
   BookingFilters, 
   PaginatedResponse, 
   ApiResponse,
   BookingStatus,
+  StockAvailability,
   BulkImportResponse,
   ImportProgress
 } from '../services/types';
 
+export interface BulkStatusUpdateResult {
+  updated: number;
+  failed: number;
+  results: Array<{
+    bookingId: string;
+    status: 'updated' | 'failed';
+    error?: string;
+  }>;
+}
+
+/**
+ * The booking as last loaded and the role saving a change to it. A status in the change
+ * is checked against the booking state machine before it is sent or queued.
+ */
+export interface BookingChangeContext {
+  booking: BookingTransitionSubject;
+  role: UserRole | null | undefined;
+}
+
+/**
+ * Reject a single-booking status move the state machine does not allow. Fields saved in
+ * the same change count towards the new status's requirements.
+ */
+const assertStatusChange = (
+  id: string,
+  data: Parameters<typeof checkBookingTransition>[3] & { status?: BookingStatus },
+  { booking, role }: BookingChangeContext
+) => {
+  if (!data.status) return;
+  const check = checkBookingTransition(booking, data.status, role, data);
+  if (!check.allowed) {
+    throw new BookingTransitionError(data.status, [{ bookingId: id, reasons: check.reasons }]);
+  }
+};
+
+// Cache entries a booking mutation makes stale: the records themselves, booking lists and dashboard figures
+const bookingCacheTargets = (...ids: string[]): CacheTarget[] => [
+  ...ids.map(id => ({ type: 'booking' as const, id })),
+  { prefix: 'list:booking' },
+  { prefix: 'dashboard' },
+];
+
+/**
+ * Reserve, release or sell the booking's stock unit after a status change has reached
+ * the server. Stock failures are logged and never fail the booking update.
+ */
+const syncStockAfterStatusChange = (bookingId: string, status?: BookingStatus) => {
+  if (!status || !getStockActionForStatus(status)) return;
+  bookingAPI
+    .getBookingById(bookingId)
+    .then(booking => syncBookingStock({ ...booking, status }))
+    .catch(error => console.error('❌ [StockReservation] Failed to update stock for booking:', bookingId, error));
+};
+
 class BookingAPI {
   async getBookings(params?: BookingFilters): Promise<PaginatedResponse<Booking>> {
     const queryParams = new URLSearchParams();
@@ -23,12 +91,16 @@ class BookingAPI {
     if (params?.dealershipId) queryParams.append('dealershipId', params.dealershipId);
     if (params?.dealershipCode) queryParams.append('dealershipCode', params.dealershipCode);
     if (params?.scope) queryParams.append('scope', params.scope);
+    if (params?.updatedSince) queryParams.append('updatedSince', params.updatedSince);
 
-    return apiClient.get(`/bookings?${queryParams.toString()}`);
+    return handleApiCall(
+      () => apiClient.get(`/bookings?${queryParams.toString()}`),
+      bookingListSchema
+    );
   }
 
-  async getBookingById(id: string): Promise<ApiResponse<Booking>> {
-    return apiClient.get(`/bookings/${id}`);
+  async getBookingById(id: string): Promise<Booking> {
+    return handleApiCall(() => apiClient.get(`/bookings/${id}`), bookingDetailSchema);
   }
 
   async getMyBookings(params?: BookingFilters): Promise<PaginatedResponse<Booking>> {
@@ -41,8 +113,12 @@ class BookingAPI {
     if (params?.dealershipId) queryParams.append('dealershipId', params.dealershipId);
     if (params?.dealershipCode) queryParams.append('dealershipCode', params.dealershipCode);
     if (params?.scope) queryParams.append('scope', params.scope);
+    if (params?.updatedSince) queryParams.append('updatedSince', params.updatedSince);
 
-    return apiClient.get(`/bookings/advisor/my-bookings?${queryParams.toString()}`);
+    return handleApiCall(
+      () => apiClient.get(`/bookings/advisor/my-bookings?${queryParams.toString()}`),
+      bookingListSchema
+    );
   }
 
   async createBooking(data: {
@@ -61,8 +137,20 @@ class BookingAPI {
     financeRequired?: boolean;
   financerName?: string;
   remarks?: string;
-  }): Promise<ApiResponse<Booking>> {
-    return apiClient.post('/bookings', data);
+    stockAvailability?: StockAvailability;
+    enquiryId?: string;
+  }): Promise<Booking> {
+    const created = await invalidateOnSuccess(
+      handleApiCall(
+        () => apiClient.post<ApiResponse<{ booking: Booking }>>('/bookings', data),
+        bookingDetailSchema
+      ),
+      ...bookingCacheTargets()
+    );
+    reminderScheduler.syncBooking(created).catch(error =>
+      console.error('❌ [Reminders] Failed to schedule delivery reminder:', error)
+    );
+    return created;
   }
 
   async updateBooking(id: string, data: {
@@ -94,8 +182,24 @@ class BookingAPI {
     adminRemarks?: string;
   chassisNumber?: string;
   allocationOrderNumber?: string;
-  }): Promise<ApiResponse<Booking>> {
-    return apiClient.put(`/bookings/${id}`, data);
+  }, context: BookingChangeContext): Promise<Booking> {
+    assertStatusChange(id, data, context);
+    const booking = await afterMutation(
+      invalidateOnSuccess(
+        handleApiCall(() => offlineQueue.runOrEnqueue<ApiResponse<{ booking: Booking }>>({
+          entityType: 'booking',
+          entityId: id,
+          label: data.customerName ? `Booking update: ${data.customerName}` : 'Booking update',
+          method: 'put',
+          url: `/bookings/${id}`,
+          data,
+        }), bookingDetailSchema),
+        ...bookingCacheTargets(id)
+      ),
+      () => reminderScheduler.applyBookingUpdate(id, data)
+    );
+    syncStockAfterStatusChange(id, data.status);
+    return booking;
   }
 
   async updateBookingStatus(id: string, data: {
@@ -105,17 +209,33 @@ class BookingAPI {
   financerName?: string;
   advisorRemarks?: string;
     stockAvailability?: string;
-  }): Promise<ApiResponse<Booking>> {
-    return apiClient.put(`/bookings/${id}/update-status`, data);
+  }, context: BookingChangeContext): Promise<Booking> {
+    assertStatusChange(id, data, context);
+    const booking = await afterMutation(
+      invalidateOnSuccess(
+        handleApiCall(() => offlineQueue.runOrEnqueue<ApiResponse<{ booking: Booking }>>({
+          entityType: 'booking',
+          entityId: id,
+          label: data.status ? `Booking status: ${data.status}` : 'Booking update',
+          method: 'put',
+          url: `/bookings/${id}/update-status`,
+          data,
+        }), bookingDetailSchema),
+        ...bookingCacheTargets(id)
+      ),
+      () => reminderScheduler.applyBookingUpdate(id, data)
+    );
+    syncStockAfterStatusChange(id, data.status);
+    return booking;
   }
 
   // Phase 2: Update Vahan Date
   async updateVahanDate(id: string, vahanDate: string): Promise<ApiResponse<Booking>> {
-    return apiClient.put(`/bookings/${id}/vahan-date`, { vahanDate });
+    return invalidateOnSuccess(apiClient.put(`/bookings/${id}/vahan-date`, { vahanDate }), ...bookingCacheTargets(id));
   }
 
   async deleteBooking(id: string): Promise<ApiResponse<void>> {
-    return apiClient.delete(`/bookings/${id}`);
+    return invalidateOnSuccess(apiClient.delete(`/bookings/${id}`), ...bookingCacheTargets(id));
   }
 
   async bulkAssignBookings(bookingIds: string[], advisorId: string): Promise<ApiResponse<{
@@ -129,7 +249,11 @@ class BookingAPI {
       error?: string;
     }>;
   }>> {
-    return apiClient.post('/bookings/bulk-assign', { bookingIds, advisorId });
+    const response = await invalidateOnSuccess(
+      apiClient.post('/bookings/bulk-assign', { bookingIds, advisorId }),
+      ...bookingCacheTargets(...bookingIds)
+    );
+    return response.data;
   }
 
   async autoAssignBookings(bookingIds: string[], strategy: 'ROUND_ROBIN' | 'LEAST_LOAD' | 'RANDOM'): Promise<ApiResponse<{
@@ -141,15 +265,21 @@ class BookingAPI {
       advisorName: string;
     }>;
   }>> {
-    return apiClient.post('/bookings/auto-assign', { bookingIds, strategy });
+    return invalidateOnSuccess(
+      apiClient.post('/bookings/auto-assign', { bookingIds, strategy }),
+      ...bookingCacheTargets(...bookingIds)
+    );
   }
 
   async assignBooking(bookingId: string, advisorId: string): Promise<ApiResponse<Booking>> {
-    return apiClient.patch(`/bookings/${bookingId}/assign`, { advisorId });
+    return invalidateOnSuccess(
+      apiClient.patch(`/bookings/${bookingId}/assign`, { advisorId }),
+      ...bookingCacheTargets(bookingId)
+    );
   }
 
   async unassignBooking(bookingId: string): Promise<ApiResponse<Booking>> {
-    return apiClient.patch(`/bookings/${bookingId}/unassign`, {});
+    return invalidateOnSuccess(apiClient.patch(`/bookings/${bookingId}/unassign`, {}), ...bookingCacheTargets(bookingId));
   }
 
   async getBookingAuditLog(bookingId: string): Promise<ApiResponse<{
@@ -177,11 +307,14 @@ class BookingAPI {
     const formData = new FormData();
     formData.append('file', file);
     
-    return apiClient.post('/bookings/import', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
+    const request = apiClient
+      .post<BulkImportResponse>('/bookings/import', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      })
+      .then(response => response.data);
+    return invalidateOnSuccess(request, ...bookingCacheTargets());
   }
 
   async getImportProgress(importId: string): Promise<ApiResponse<ImportProgress>> {
@@ -196,7 +329,10 @@ class BookingAPI {
     if (params?.page) queryParams.append('page', params.page.toString());
     if (params?.limit) queryParams.append('limit', params.limit.toString());
 
-    return apiClient.get(`/bookings/imports?${queryParams.toString()}`);
+    return handleApiCall(
+      () => apiClient.get(`/bookings/imports?${queryParams.toString()}`),
+      importListSchema
+    );
   }
 
   // Additional comprehensive methods from technical guide
@@ -220,7 +356,10 @@ class BookingAPI {
     if (filters?.variant) params.append('variant', filters.variant);
     if (filters?.color) params.append('color', filters.color);
 
-    return apiClient.get(`/bookings/search?${params.toString()}`);
+    return handleApiCall(
+      () => apiClient.get(`/bookings/search?${params.toString()}`),
+      bookingListSchema
+    );
   }
 
   // Analytics and reporting
@@ -297,16 +436,35 @@ class BookingAPI {
   }
 
   // Bulk operations
-  async bulkUpdateStatus(bookingIds: string[], status: BookingStatus): Promise<ApiResponse<{
-    updated: number;
-    failed: number;
-    results: Array<{
-      bookingId: string;
-      status: 'updated' | 'failed';
-      error?: string;
-    }>;
-  }>> {
-    return apiClient.post('/bookings/bulk-update-status', { bookingIds, status });
+  // Rejects the whole batch with a BookingTransitionError if any booking cannot make the move
+  async bulkUpdateStatus(
+    bookings: Array<BookingTransitionSubject & { id: string }>,
+    status: BookingStatus,
+    role?: UserRole | null
+  ): Promise<ApiResponse<BulkStatusUpdateResult>> {
+    const { blocked } = partitionBookingTransitions(bookings, status, role);
+    if (blocked.length > 0) {
+      throw new BookingTransitionError(status, blocked);
+    }
+
+    const bookingIds = bookings.map(booking => booking.id);
+    const request = apiClient
+      .post<ApiResponse<BulkStatusUpdateResult>>('/bookings/bulk-update-status', { bookingIds, status })
+      .then(response => response.data);
+    const response = await invalidateOnSuccess(request, ...bookingCacheTargets(...bookingIds));
+
+    // Reminders and stock only follow the bookings the server actually moved
+    const updatedIds = (response.data?.results || [])
+      .filter(result => result.status === 'updated')
+      .map(result => result.bookingId);
+    updatedIds.forEach(id => syncStockAfterStatusChange(id, status));
+    const applyReminders = async () => {
+      for (const id of updatedIds) {
+        await reminderScheduler.applyBookingUpdate(id, { status });
+      }
+    };
+    applyReminders().catch(error => console.error('❌ [Reminders] Failed to update reminder:', error));
+    return response;
   }
 
   async bulkUpdateRemarks(bookingIds: string[], remarks: {
@@ -324,7 +482,10 @@ class BookingAPI {
       error?: string;
     }>;
   }>> {
-    return apiClient.post('/bookings/bulk-update-remarks', { bookingIds, remarks });
+    return invalidateOnSuccess(
+      apiClient.post('/bookings/bulk-update-remarks', { bookingIds, remarks }),
+      ...bookingCacheTargets(...bookingIds)
+    );
   }
 
   // Download bookings with filters
@@ -350,4 +511,12 @@ class BookingAPI {
 }
 
 export const bookingAPI = new BookingAPI();
+
+// Status changes made offline move stock once the outbox has delivered them
+offlineQueue.onReplayed(item => {
+  if (item.entityType === 'booking' && item.entityId) {
+    syncStockAfterStatusChange(item.entityId, item.data?.status);
+  }
+});
+
 export default bookingAPI;
\ No newline at end of file
@@ -1,13 +1,15 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { auth } from '../config/firebase';
+import { tokenManager } from '../services/tokenManager.service';
+import { secureStorage } from '../services/secureStorage.service';
 import { appConfig } from '../config/env';
+import { Schema, ApiContractError, parseResponse } from './schema';
 
 /**
  * API Client Configuration
  * 
  * Production-ready axios client with comprehensive features:
- * - Automatic Firebase authentication token injection
+ * - Automatic Firebase authentication token injection (cached by the token manager)
  * - Token refresh on 401 errors
  * - Request/response logging (development only)
  * - Comprehensive error handling
@@ -45,44 +47,17 @@ apiClient.interceptors.request.use(
         return config;
       }
 
-      // Get Firebase ID token from current user
-      const user = auth.currentUser;
-      
-      let token: string | null = null;
-      
-      // ✅ Try to get token from Firebase user first
-      if (user) {
-        // Force refresh token if it's close to expiration
-        token = await user.getIdToken(true);
-        
-        // Store token in AsyncStorage for fallback
-        if (token) {
-          await AsyncStorage.setItem('firebaseToken', token);
-        }
-        
-        // Debug logging for token
+      // ✅ Cached Firebase ID token; only refreshed when it is close to expiry.
+      // Before Firebase restores the session this is the last stored token, if any.
+      const token = await tokenManager.getToken();
+
+      if (!token && !auth.currentUser) {
         if (__DEV__) {
-          console.log('🔑 Firebase token obtained:', token ? 'YES' : 'NO');
-          console.log('🔑 Token length:', token ? token.length : 0);
-        }
-      } else {
-        // ✅ Fallback: Check AsyncStorage for stored token
-        token = await AsyncStorage.getItem('firebaseToken');
-        
-        if (token) {
-          if (__DEV__) {
-            console.log('🔑 Using stored token from AsyncStorage');
-          }
-        } else {
-          if (__DEV__) {
-            console.log('⏭️  Skipping request - not authenticated:', config.url);
-            console.warn('⚠️ No Firebase user found for API request');
-          }
-          // Clear any stale auth data if no user and no token
-          await AsyncStorage.removeItem('@auth_token');
-          await AsyncStorage.removeItem('@auth_user');
-          await AsyncStorage.removeItem('userProfile');
+          console.log('⏭️  Skipping request - not authenticated:', config.url);
+          console.warn('⚠️ No Firebase user found for API request');
         }
+        // Clear any stale auth data if no user and no token
+        await secureStorage.clearCredentials();
       }
       
       // ✅ Attach token to request if available
@@ -112,9 +87,7 @@ apiClient.interceptors.request.use(
       }
       
       // If token fetch fails, clear auth data and return config
-      await AsyncStorage.removeItem('@auth_token');
-      await AsyncStorage.removeItem('@auth_user');
-      await AsyncStorage.removeItem('userProfile');
+      await secureStorage.clearCredentials();
       
       return config;
     }
@@ -170,8 +143,11 @@ apiClient.interceptors.response.use(
             console.log('🔄 Attempting to refresh Firebase token...');
           }
           
-          // Force refresh the token
-          const newToken = await user.getIdToken(true);
+          // Force refresh the token; parallel 401s share one refresh
+          const newToken = await tokenManager.getToken({ forceRefresh: true });
+          if (!newToken) {
+            throw new Error('No token returned after refresh');
+          }
           
           if (__DEV__) {
             console.log('✅ New token obtained, length:', newToken.length);
@@ -190,9 +166,7 @@ apiClient.interceptors.response.use(
           }
           
           // No user, clear stored data and reject
-          await AsyncStorage.removeItem('@auth_token');
-          await AsyncStorage.removeItem('@auth_user');
-          await AsyncStorage.removeItem('userProfile');
+          await secureStorage.clearCredentials();
           
           return Promise.reject({
             ...error,
@@ -206,9 +180,7 @@ apiClient.interceptors.response.use(
         }
         
         // Clear all auth data on refresh failure
-        await AsyncStorage.removeItem('@auth_token');
-        await AsyncStorage.removeItem('@auth_user');
-        await AsyncStorage.removeItem('userProfile');
+        await secureStorage.clearCredentials();
         
         return Promise.reject({
           ...error,
@@ -301,26 +273,27 @@ export function debounce<T extends (...args: any[]) => any>(
 export interface ApiResponse<T = any> {
   success: boolean;
   message: string;
-  data?: T;
+  data: T;
+}
+
+/**
+ * Pagination block returned with every list endpoint
+ */
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
 }
 
 /**
  * Paginated response interface
+ * List endpoints return `{ <entity>s: [...], pagination }`; the contract layer normalises
+ * that envelope to `items` so every list is consumed the same way.
  */
 export interface PaginatedResponse<T> {
-  success: boolean;
-  message: string;
-  data: {
-    enquiries?: T[];
-    bookings?: T[];
-    quotations?: T[];
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      totalPages: number;
-    };
-  };
+  items: T[];
+  pagination: Pagination;
 }
 
 /**
@@ -335,13 +308,19 @@ export interface ApiError {
 
 /**
  * Utility function to handle API calls with consistent error handling
+ *
+ * When a schema is supplied the payload must use the standard `{ success, data }` envelope
+ * and `data` is validated against it; a mismatch throws ApiContractError. Calls without a
+ * schema keep the legacy unwrapping and log a warning when the envelope is missing.
  */
 export async function handleApiCall<T>(
-  apiCall: () => Promise<AxiosResponse<ApiResponse<T> | any>>
+  apiCall: () => Promise<AxiosResponse<ApiResponse<T> | any>>,
+  schema?: Schema<T>
 ): Promise<T> {
   try {
     const response = await apiCall();
     const payload: any = response.data;
+    const endpoint = `${response.config?.method?.toUpperCase() || 'GET'} ${response.config?.url || ''}`;
 
     const hasExplicitSuccess = typeof payload?.success === 'boolean';
     const statusFlag =
@@ -363,20 +342,67 @@ export async function handleApiCall<T>(
       throw new Error(message);
     }
 
-    const data =
-      payload?.data !== undefined
-        ? payload.data
-        : payload?.results !== undefined
-        ? payload.results
-        : payload;
+    if (schema) {
+      if (!payload || typeof payload !== 'object' || !('data' in payload)) {
+        console.error(`❌ [API contract] ${endpoint} returned no "data" envelope`);
+        throw new ApiContractError(endpoint, [
+          { path: 'data', message: 'response envelope is missing the "data" field' },
+        ]);
+      }
+      return parseResponse(schema, payload.data, endpoint);
+    }
+
+    if (payload?.data !== undefined) {
+      return payload.data as T;
+    }
 
-    return data as T;
+    if (__DEV__) {
+      console.warn(`⚠️ [API contract] ${endpoint} returned no "data" envelope; using raw payload`);
+    }
+    return (payload?.results !== undefined ? payload.results : payload) as T;
   } catch (error) {
     console.error('API call failed:', error);
     throw error;
   }
 }
 
+/**
+ * Result of reading a list endpoint page by page.
+ * complete is false when maxPages was reached before the last page.
+ */
+export interface AllPagesResult<T> {
+  items: T[];
+  total: number;
+  complete: boolean;
+}
+
+/**
+ * Read every page of a list endpoint, for screens and jobs that need the whole list
+ * rather than the first page (e.g. reconciling reminders or handing over all open work).
+ * Pages without pagination metadata are read until one comes back short.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number, limit: number) => Promise<Pick<PaginatedResponse<T>, 'items'> & Partial<PaginatedResponse<T>>>,
+  { pageSize = 100, maxPages = 50 }: { pageSize?: number; maxPages?: number } = {}
+): Promise<AllPagesResult<T>> {
+  const items: T[] = [];
+  let page = 1;
+  let total = 0;
+  let more = true;
+
+  while (more && page <= maxPages) {
+    const response = await fetchPage(page, pageSize);
+    const received = response.items || [];
+    items.push(...received);
+    total = response.pagination?.total ?? items.length;
+    const totalPages = response.pagination?.totalPages;
+    more = totalPages ? page < totalPages : received.length >= pageSize;
+    page += 1;
+  }
+
+  return { items, total: Math.max(total, items.length), complete: !more };
+}
+
 /**
  * Health check endpoint to verify API connectivity
  */
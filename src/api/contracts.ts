@@ -0,0 +1,189 @@
+/**
+ * API Contracts
+ *
+ * Response schemas per endpoint, declared against the canonical entity types.
+ * Only the fields screens rely on are validated; everything else passes through.
+ */
+
+import { s, Schema } from './schema';
+import type { Pagination, PaginatedResponse } from './client';
+import {
+  Enquiry,
+  EnquiryStatus,
+  EnquiryCategory,
+  Booking,
+  BookingStatus,
+  RemarkHistoryEntry,
+} from '../services/types';
+import type { Quotation, QuotationStatus } from './quotations';
+import type { StockRecord } from './stock';
+import type { User } from './users';
+import type { File } from './files';
+
+// ========== COMMON ==========
+
+export const paginationSchema = s.object<Pagination>({
+  page: s.number(),
+  limit: s.number(),
+  total: s.number(),
+  totalPages: s.number(),
+});
+
+/**
+ * Normalise the backend's `{ <key>: T[], pagination }` envelope into a PaginatedResponse.
+ * A missing pagination block is tolerated (derived from the item count); a missing list is not.
+ */
+export function paginated<T>(key: string, item: Schema<T>): Schema<PaginatedResponse<T>> {
+  const envelope = s.object<{ items: T[]; pagination?: Pagination }>({
+    items: s.array(item),
+    pagination: s.optional(paginationSchema),
+  });
+
+  return {
+    parse: (value, path, issues) => {
+      const source = (value ?? {}) as Record<string, unknown>;
+      const before = issues.length;
+      const parsed = envelope.parse(
+        { items: source[key], pagination: source.pagination },
+        path,
+        issues
+      );
+      // Report the backend's key name rather than the internal one
+      issues.slice(before).forEach(issue => {
+        issue.path = issue.path.replace(/^items/, key);
+      });
+
+      const items = parsed.items || [];
+      return {
+        items,
+        pagination: parsed.pagination || {
+          page: 1,
+          limit: items.length,
+          total: items.length,
+          totalPages: items.length > 0 ? 1 : 0,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Import history rows differ per entity and are display-only, so only the envelope is checked
+ */
+export const importListSchema = paginated('imports', s.unknown());
+
+const personSchema = s.optional(
+  s.object<{ firebaseUid: string; name: string; email: string }>({
+    name: s.string(),
+  })
+);
+
+export const remarkHistoryEntrySchema = s.object<RemarkHistoryEntry>({
+  id: s.string(),
+  remark: s.string(),
+  createdAt: s.string(),
+  cancelled: s.optional(s.boolean()),
+});
+
+// ========== ENQUIRIES ==========
+
+export const enquirySchema = s.object<Enquiry>({
+  id: s.string(),
+  customerName: s.string(),
+  customerEmail: s.optional(s.string()),
+  variant: s.optional(s.string()),
+  status: s.enumOf(EnquiryStatus),
+  category: s.enumOf(EnquiryCategory),
+  expectedBookingDate: s.optional(s.string()),
+  nextFollowUpDate: s.optional(s.string()),
+  assignedToUserId: s.optional(s.string()),
+  createdAt: s.string(),
+  createdBy: personSchema,
+  assignedTo: personSchema,
+  remarkHistory: s.optional(s.array(remarkHistoryEntrySchema)),
+});
+
+export const enquiryListSchema = paginated('enquiries', enquirySchema);
+
+export const enquiryDetailSchema = s.field('enquiry', enquirySchema);
+
+// ========== BOOKINGS ==========
+
+export const bookingSchema = s.object<Booking>({
+  id: s.string(),
+  customerName: s.string(),
+  status: s.enumOf(BookingStatus),
+  advisorId: s.optional(s.string()),
+  advisor: personSchema,
+  expectedDeliveryDate: s.optional(s.string()),
+  financerName: s.optional(s.string()),
+  chassisNumber: s.optional(s.string()),
+  allocationOrderNumber: s.optional(s.string()),
+  remarkHistory: s.optional(s.array(remarkHistoryEntrySchema)),
+  createdAt: s.string(),
+});
+
+export const bookingListSchema = paginated('bookings', bookingSchema);
+
+export const bookingDetailSchema = s.field('booking', bookingSchema);
+
+// ========== QUOTATIONS ==========
+
+const quotationStatuses: readonly QuotationStatus[] = [
+  'PENDING',
+  'SENT',
+  'ACCEPTED',
+  'REJECTED',
+  'DRAFT',
+  'VIEWED',
+  'APPROVED',
+  'EXPIRED',
+];
+
+export const quotationSchema = s.object<Quotation>({
+  id: s.string(),
+  status: s.oneOf(quotationStatuses),
+  enquiryId: s.optional(s.string()),
+  amount: s.optional(s.number()),
+  pdfUrl: s.optional(s.string()),
+  createdAt: s.string(),
+});
+
+export const quotationListSchema = paginated('quotations', quotationSchema);
+
+export const quotationArraySchema = s.array(quotationSchema);
+
+export const quotationDetailSchema = s.field('quotation', quotationSchema);
+
+// ========== STOCK ==========
+
+// Counts come under either naming scheme and are read by mapStock, so only identity is checked
+export const stockSchema = s.object<StockRecord>({
+  id: s.string(),
+  variant: s.string(),
+});
+
+export const stockListSchema = paginated('vehicles', stockSchema);
+
+// ========== FILES ==========
+
+export const fileListSchema = paginated('files', s.object<File>({ id: s.string() }));
+
+// ========== USERS ==========
+
+const roleNames: readonly User['role']['name'][] = [
+  'ADMIN',
+  'GENERAL_MANAGER',
+  'SALES_MANAGER',
+  'TEAM_LEAD',
+  'CUSTOMER_ADVISOR',
+];
+
+export const userSchema = s.object<User>({
+  firebaseUid: s.string(),
+  name: s.string(),
+  email: s.string(),
+  role: s.object<User['role']>({ name: s.oneOf(roleNames) }),
+});
+
+export const userListSchema = paginated('users', userSchema);
@@ -1,4 +1,8 @@
-import { apiClient } from './client';
+import { apiClient, handleApiCall } from './client';
+import { enquiryListSchema, enquiryDetailSchema, importListSchema } from './contracts';
+import { offlineQueue } from '../services/offlineQueue.service';
+import { reminderScheduler, afterMutation } from '../services/reminders.service';
+import { invalidateOnSuccess, CacheTarget } from '../services/entityCache.service';
 import {
   Enquiry,
   EnquiryFilters,
@@ -10,6 +14,21 @@ import {
   UpdateEnquiryRequest,
 } from '../services/types';
 
+// Cache entries an enquiry mutation makes stale: the records themselves, enquiry lists and dashboard figures
+const enquiryCacheTargets = (...ids: string[]): CacheTarget[] => [
+  ...ids.map(id => ({ type: 'enquiry' as const, id })),
+  { prefix: 'list:enquiry' },
+  { prefix: 'dashboard' },
+];
+
+export interface BulkEnquiryImportResult {
+  importId: string;
+  message: string;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+}
+
 class EnquiryAPI {
   async getEnquiries(params?: EnquiryFilters): Promise<PaginatedResponse<Enquiry>> {
     const queryParams = new URLSearchParams();
@@ -24,25 +43,66 @@ class EnquiryAPI {
     if (params?.dealershipId) queryParams.append('dealershipId', params.dealershipId);
     if (params?.dealershipCode) queryParams.append('dealershipCode', params.dealershipCode);
     if (params?.scope) queryParams.append('scope', params.scope);
+    if (params?.updatedSince) queryParams.append('updatedSince', params.updatedSince);
 
-    return apiClient.get(`/enquiries?${queryParams.toString()}`);
+    return handleApiCall(
+      () => apiClient.get(`/enquiries?${queryParams.toString()}`),
+      enquiryListSchema
+    );
   }
 
-  async getEnquiryById(id: string): Promise<ApiResponse<Enquiry>> {
-    return apiClient.get(`/enquiries/${id}`);
+  async getEnquiryById(id: string): Promise<Enquiry> {
+    return handleApiCall(() => apiClient.get(`/enquiries/${id}`), enquiryDetailSchema);
   }
 
 
-  async createEnquiry(data: CreateEnquiryRequest): Promise<ApiResponse<Enquiry>> {
-    return apiClient.post('/enquiries', data);
-}
+  /**
+   * Rejects with QueuedMutationError when saved offline; the queued enquiry has no id
+   * yet and its follow-up reminder is picked up by the next reconcile
+   */
+  async createEnquiry(data: CreateEnquiryRequest): Promise<Enquiry> {
+    const request = handleApiCall(
+      () =>
+        offlineQueue.runOrEnqueue<ApiResponse<{ enquiry: Enquiry }>>({
+          entityType: 'enquiry',
+          label: `New enquiry: ${data.customerName}`,
+          method: 'post',
+          url: '/enquiries',
+          data,
+        }),
+      enquiryDetailSchema
+    );
+    const created = await invalidateOnSuccess(request, ...enquiryCacheTargets());
+
+    reminderScheduler.syncEnquiry(created).catch(error =>
+      console.error('❌ [Reminders] Failed to schedule follow-up:', error)
+    );
+    return created;
+  }
 
-  async updateEnquiry(id: string, data: UpdateEnquiryRequest): Promise<ApiResponse<Enquiry>> {
-    return apiClient.put(`/enquiries/${id}`, data);
+  /**
+   * Rejects with QueuedMutationError when saved offline; the follow-up reminder is
+   * updated straight away either way
+   */
+  async updateEnquiry(id: string, data: UpdateEnquiryRequest): Promise<Enquiry> {
+    return afterMutation(
+      invalidateOnSuccess(
+        handleApiCall(() => offlineQueue.runOrEnqueue<ApiResponse<{ enquiry: Enquiry }>>({
+          entityType: 'enquiry',
+          entityId: id,
+          label: data.customerName ? `Enquiry update: ${data.customerName}` : 'Enquiry update',
+          method: 'put',
+          url: `/enquiries/${id}`,
+          data,
+        }), enquiryDetailSchema),
+        ...enquiryCacheTargets(id)
+      ),
+      () => reminderScheduler.applyEnquiryUpdate(id, data)
+    );
   }
 
   async deleteEnquiry(id: string): Promise<ApiResponse<void>> {
-    return apiClient.delete(`/enquiries/${id}`);
+    return invalidateOnSuccess(apiClient.delete(`/enquiries/${id}`), ...enquiryCacheTargets(id));
   }
 
   async getEnquiryStats(): Promise<ApiResponse<{
@@ -83,23 +143,47 @@ class EnquiryAPI {
       updateData.lostReason = lostReason;
       updateData.caRemarks = lostReason; // Also send in caRemarks for compatibility
     }
-    return apiClient.put(`/enquiries/${id}`, updateData);
+    return afterMutation(invalidateOnSuccess(apiClient.put(`/enquiries/${id}`, updateData), ...enquiryCacheTargets(id)), () =>
+      reminderScheduler.applyEnquiryUpdate(id, { category })
+    );
   }
 
   async updateStatus(id: string, status: EnquiryStatus): Promise<ApiResponse<Enquiry>> {
-    return apiClient.put(`/enquiries/${id}`, { status });
+    return afterMutation(invalidateOnSuccess(apiClient.put(`/enquiries/${id}`, { status }), ...enquiryCacheTargets(id)), () =>
+      reminderScheduler.applyEnquiryUpdate(id, { status })
+    );
   }
 
   async addNotes(id: string, notes: string): Promise<ApiResponse<Enquiry>> {
-    return apiClient.post(`/enquiries/${id}/notes`, { notes });
+    return invalidateOnSuccess(apiClient.post(`/enquiries/${id}/notes`, { notes }), ...enquiryCacheTargets(id));
   }
 
   async assignEnquiry(id: string, assignedToUserId: string): Promise<ApiResponse<Enquiry>> {
-    return apiClient.post(`/enquiries/${id}/assign`, { assignedToUserId });
+    return invalidateOnSuccess(
+      apiClient.post(`/enquiries/${id}/assign`, { assignedToUserId }),
+      ...enquiryCacheTargets(id)
+    );
   }
 
   async unassignEnquiry(id: string): Promise<ApiResponse<Enquiry>> {
-    return apiClient.post(`/enquiries/${id}/unassign`);
+    return invalidateOnSuccess(apiClient.post(`/enquiries/${id}/unassign`), ...enquiryCacheTargets(id));
+  }
+
+  async bulkAssignEnquiries(enquiryIds: string[], assignedToUserId: string): Promise<ApiResponse<{
+    successful: number;
+    failed: number;
+    assignments: Array<{
+      enquiryId: string;
+      assignedToUserId: string;
+      success: boolean;
+      error?: string;
+    }>;
+  }>> {
+    const response = await invalidateOnSuccess(
+      apiClient.post('/enquiries/bulk-assign', { enquiryIds, assignedToUserId }),
+      ...enquiryCacheTargets(...enquiryIds)
+    );
+    return response.data;
   }
 
   // Additional comprehensive methods from technical guide
@@ -122,11 +206,25 @@ class EnquiryAPI {
 
   // Bulk operations
   async bulkUpdateStatus(enquiryIds: string[], status: EnquiryStatus): Promise<ApiResponse<{ updated: number; failed: number }>> {
-    return apiClient.post('/enquiries/bulk-update-status', { enquiryIds, status });
+    const request = apiClient
+      .post<ApiResponse<{ updated: number; failed: number }>>('/enquiries/bulk-update-status', { enquiryIds, status })
+      .then(response => response.data);
+    return afterMutation(invalidateOnSuccess(request, ...enquiryCacheTargets(...enquiryIds)), async () => {
+      for (const id of enquiryIds) {
+        await reminderScheduler.applyEnquiryUpdate(id, { status });
+      }
+    });
   }
 
   async bulkUpdateCategory(enquiryIds: string[], category: EnquiryCategory): Promise<ApiResponse<{ updated: number; failed: number }>> {
-    return apiClient.post('/enquiries/bulk-update-category', { enquiryIds, category });
+    const request = apiClient
+      .post<ApiResponse<{ updated: number; failed: number }>>('/enquiries/bulk-update-category', { enquiryIds, category })
+      .then(response => response.data);
+    return afterMutation(invalidateOnSuccess(request, ...enquiryCacheTargets(...enquiryIds)), async () => {
+      for (const id of enquiryIds) {
+        await reminderScheduler.applyEnquiryUpdate(id, { category });
+      }
+    });
   }
 
   // Advanced filtering and search
@@ -146,7 +244,10 @@ class EnquiryAPI {
     if (filters?.dateTo) params.append('dateTo', filters.dateTo);
     if (filters?.assignedTo) params.append('assignedTo', filters.assignedTo);
 
-    return apiClient.get(`/enquiries/search?${params.toString()}`);
+    return handleApiCall(
+      () => apiClient.get(`/enquiries/search?${params.toString()}`),
+      enquiryListSchema
+    );
   }
 
   // Analytics and reporting
@@ -211,13 +312,7 @@ class EnquiryAPI {
   }
 
   // Bulk Import - Excel/CSV Upload for Enquiries
-  async uploadBulkEnquiries(file: any): Promise<ApiResponse<{
-    importId: string;
-    message: string;
-    totalRows: number;
-    validRows: number;
-    invalidRows: number;
-  }>> {
+  async uploadBulkEnquiries(file: any): Promise<ApiResponse<BulkEnquiryImportResult>> {
     const formData = new FormData();
     // Handle both file object (from DocumentPicker) and direct file
     if (file.uri) {
@@ -232,12 +327,15 @@ class EnquiryAPI {
       formData.append('file', file);
     }
     
-    return apiClient.post('/enquiries/import', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-      timeout: 30000, // 30 seconds for file uploads
-    });
+    const request = apiClient
+      .post<ApiResponse<BulkEnquiryImportResult>>('/enquiries/import', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        timeout: 30000, // 30 seconds for file uploads
+      })
+      .then(response => response.data);
+    return invalidateOnSuccess(request, ...enquiryCacheTargets());
   }
 
   // Get import progress
@@ -271,7 +369,10 @@ class EnquiryAPI {
     if (params?.page) queryParams.append('page', params.page.toString());
     if (params?.limit) queryParams.append('limit', params.limit.toString());
 
-    return apiClient.get(`/enquiries/imports?${queryParams.toString()}`);
+    return handleApiCall(
+      () => apiClient.get(`/enquiries/imports?${queryParams.toString()}`),
+      importListSchema
+    );
   }
 }
 
@@ -1,5 +1,5 @@
-import { apiClient, handleApiCall, ApiResponse } from './client';
-import { PaginatedResponse } from '../services/types';
+import { apiClient, handleApiCall, ApiResponse, PaginatedResponse } from './client';
+import { fileListSchema } from './contracts';
 
 /**
  * Files API endpoints
@@ -94,9 +94,7 @@ export class FilesAPI {
    * Get files list with filters and pagination
    */
   static async getFiles(params: FileListParams = {}): Promise<PaginatedResponse<File>> {
-    return handleApiCall(() =>
-      apiClient.get<ApiResponse<PaginatedResponse<File>>>('/files', { params })
-    );
+    return handleApiCall(() => apiClient.get('/files', { params }), fileListSchema);
   }
 
   /**
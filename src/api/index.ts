@@ -6,8 +6,9 @@
  */
 
 // Export the main API client and utilities
-export { default as apiClient, debounce, healthCheck } from './client';
-export type { ApiResponse, PaginatedResponse, ApiError } from './client';
+export { default as apiClient, debounce, healthCheck, fetchAllPages } from './client';
+export type { ApiResponse, PaginatedResponse, Pagination, ApiError, AllPagesResult } from './client';
+export { ApiContractError, isApiContractError } from './schema';
 
 // Export Authentication API
 export { default as AuthAPI } from './auth';
@@ -61,11 +62,14 @@ export type {
 export { default as StockAPI } from './stock';
 export type {
   Stock,
+  StockStatus,
+  VehicleUnit,
   CreateStockRequest,
   UpdateStockRequest,
   StockFilters,
   StockListParams,
   StockStats,
+  StockReservation,
 } from './stock';
 
 // Export Dashboard API
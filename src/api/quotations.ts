@@ -1,4 +1,14 @@
 import { apiClient, handleApiCall, ApiResponse, PaginatedResponse } from './client';
+import { quotationListSchema, quotationDetailSchema } from './contracts';
+import { invalidateOnSuccess, CacheTarget } from '../services/entityCache.service';
+import type { Enquiry } from '../services/types';
+
+// Cache entries a quotation mutation makes stale: the records themselves, quotation lists and dashboard figures
+const quotationCacheTargets = (...ids: string[]): CacheTarget[] => [
+  ...ids.map(id => ({ type: 'quotation' as const, id })),
+  { prefix: 'list:quotation' },
+  { prefix: 'dashboard' },
+];
 
 /**
  * Quotations API endpoints
@@ -67,6 +77,10 @@ export interface Quotation {
   notes?: string;
   terms?: string;
   enquiryId?: string;
+  // Fields of the lean backend quotation record
+  amount?: number;
+  pdfUrl?: string;
+  enquiry?: Enquiry;
 }
 
 /**
@@ -83,8 +97,16 @@ export interface CreateQuotationRequest {
  */
 export interface UpdateQuotationRequest {
   amount?: number;
+  // Price breakdown; sent together so the lines and totals stay consistent
+  items?: QuotationItem[];
+  subtotal?: number;
+  taxAmount?: number;
+  discountAmount?: number;
+  totalAmount?: number;
   status?: QuotationStatus;
-  pdfUrl?: string;
+  // null removes a stored PDF that no longer matches the quotation
+  pdfUrl?: string | null;
+  validUntil?: string;
 }
 
 /**
@@ -100,6 +122,8 @@ export interface QuotationFilters {
   minAmount?: number;
   maxAmount?: number;
   expiring?: boolean; // Show only quotations expiring soon
+  dealershipId?: string;
+  dealershipCode?: string;
 }
 
 /**
@@ -110,6 +134,7 @@ export interface QuotationListParams extends QuotationFilters {
   limit?: number;
   sortBy?: 'createdAt' | 'updatedAt' | 'totalAmount' | 'validUntil' | 'quotationNumber';
   sortOrder?: 'asc' | 'desc';
+  updatedSince?: string; // ISO timestamp; only quotations changed after it
 }
 
 /**
@@ -189,11 +214,8 @@ export class QuotationsAPI {
    * });
    * ```
    */
-  static async getQuotations(params?: QuotationListParams): Promise<Quotation[]> {
-    const response = await handleApiCall(() =>
-      apiClient.get<any>('/quotations', { params })
-    );
-    return (response as any).quotations || (response as any).data || [];
+  static async getQuotations(params?: QuotationListParams): Promise<PaginatedResponse<Quotation>> {
+    return handleApiCall(() => apiClient.get('/quotations', { params }), quotationListSchema);
   }
 
   /**
@@ -203,9 +225,7 @@ export class QuotationsAPI {
    * @returns Promise<Quotation>
    */
   static async getQuotation(id: string): Promise<Quotation> {
-    return handleApiCall(() =>
-      apiClient.get<ApiResponse<Quotation>>(`/quotations/${id}`)
-    );
+    return handleApiCall(() => apiClient.get(`/quotations/${id}`), quotationDetailSchema);
   }
 
   /**
@@ -232,9 +252,7 @@ export class QuotationsAPI {
    * ```
    */
   static async createQuotation(quotationData: CreateQuotationRequest): Promise<Quotation> {
-    return handleApiCall(() =>
-      apiClient.post<ApiResponse<Quotation>>('/quotations', quotationData)
-    );
+    return handleApiCall(() => apiClient.post('/quotations', quotationData), quotationDetailSchema);
   }
 
   /**
@@ -245,8 +263,9 @@ export class QuotationsAPI {
    * @returns Promise<Quotation>
    */
   static async updateQuotation(id: string, quotationData: UpdateQuotationRequest): Promise<Quotation> {
-    return handleApiCall(() =>
-      apiClient.put<ApiResponse<Quotation>>(`/quotations/${id}`, quotationData)
+    return invalidateOnSuccess(
+      handleApiCall(() => apiClient.put(`/quotations/${id}`, quotationData), quotationDetailSchema),
+      ...quotationCacheTargets(id)
     );
   }
 
@@ -308,8 +327,9 @@ export class QuotationsAPI {
    * @returns Promise<Quotation>
    */
   static async duplicateQuotation(id: string): Promise<Quotation> {
-    return handleApiCall(() =>
-      apiClient.post<ApiResponse<Quotation>>(`/quotations/${id}/duplicate`)
+    return invalidateOnSuccess(
+      handleApiCall(() => apiClient.post<ApiResponse<Quotation>>(`/quotations/${id}/duplicate`)),
+      ...quotationCacheTargets()
     );
   }
 
@@ -360,11 +380,8 @@ export class QuotationsAPI {
    * @param params - Query parameters
    * @returns Promise<PaginatedResponse<Quotation>>
    */
-  static async getMyQuotations(params?: QuotationListParams): Promise<Quotation[]> {
-    const response = await handleApiCall(() =>
-      apiClient.get<any>('/quotations/my', { params })
-    );
-    return (response as any).quotations || (response as any).data || [];
+  static async getMyQuotations(params?: QuotationListParams): Promise<PaginatedResponse<Quotation>> {
+    return handleApiCall(() => apiClient.get('/quotations/my', { params }), quotationListSchema);
   }
 
   /**
@@ -1,4 +1,6 @@
-import apiClient, { handleApiCall } from './client';
+import apiClient, { handleApiCall, ApiResponse } from './client';
+import { offlineQueue } from '../services/offlineQueue.service';
+import { invalidateOnSuccess } from '../services/entityCache.service';
 import { PendingRemarksSummary, RemarkHistoryEntry } from '../services/types';
 
 class RemarksAPI {
@@ -11,15 +13,36 @@ class RemarksAPI {
   }
 
   async addEnquiryRemark(enquiryId: string, remark: string): Promise<RemarkHistoryEntry> {
-    return handleApiCall(() => apiClient.post(`/remarks/enquiry/${enquiryId}/remarks`, { remark }));
+    const request = handleApiCall<RemarkHistoryEntry>(() =>
+      offlineQueue.runOrEnqueue<ApiResponse<RemarkHistoryEntry>>({
+        entityType: 'enquiry',
+        entityId: enquiryId,
+        label: 'Enquiry remark',
+        method: 'post',
+        url: `/remarks/enquiry/${enquiryId}/remarks`,
+        data: { remark },
+      })
+    );
+    return invalidateOnSuccess(request, { type: 'enquiry', id: enquiryId }, { prefix: 'remarks' }, { prefix: 'dashboard' });
   }
 
   async addBookingRemark(bookingId: string, remark: string): Promise<RemarkHistoryEntry> {
-    return handleApiCall(() => apiClient.post(`/remarks/booking/${bookingId}/remarks`, { remark }));
+    const request = handleApiCall<RemarkHistoryEntry>(() =>
+      offlineQueue.runOrEnqueue<ApiResponse<RemarkHistoryEntry>>({
+        entityType: 'booking',
+        entityId: bookingId,
+        label: 'Booking remark',
+        method: 'post',
+        url: `/remarks/booking/${bookingId}/remarks`,
+        data: { remark },
+      })
+    );
+    return invalidateOnSuccess(request, { type: 'booking', id: bookingId }, { prefix: 'remarks' }, { prefix: 'dashboard' });
   }
 
   async cancelRemark(remarkId: string, reason: string): Promise<RemarkHistoryEntry> {
-    return handleApiCall(() => apiClient.post(`/remarks/remarks/${remarkId}/cancel`, { reason }));
+    const request = handleApiCall<RemarkHistoryEntry>(() => apiClient.post(`/remarks/remarks/${remarkId}/cancel`, { reason }));
+    return invalidateOnSuccess(request, { prefix: 'remarks' }, { prefix: 'dashboard' });
   }
 
   // Phase 2: Team Leader Remark Review
@@ -52,7 +75,8 @@ class RemarksAPI {
   }
 
   async markRemarkAsReviewed(remarkId: string): Promise<RemarkHistoryEntry> {
-    return handleApiCall(() => apiClient.post(`/remarks/remarks/${remarkId}/review`));
+    const request = handleApiCall<RemarkHistoryEntry>(() => apiClient.post(`/remarks/remarks/${remarkId}/review`));
+    return invalidateOnSuccess(request, { prefix: 'remarks' });
   }
 
   async addReviewComment(remarkId: string, comment: string): Promise<RemarkHistoryEntry> {
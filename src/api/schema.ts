@@ -0,0 +1,201 @@
+/**
+ * Response Schemas
+ *
+ * Minimal runtime validation for backend payloads. Schemas are declared against the
+ * canonical entity interfaces, so TypeScript checks the schema and the type agree, and
+ * a backend contract change surfaces as an ApiContractError naming the endpoint and the
+ * offending fields instead of an empty screen.
+ *
+ * Object schemas only validate the keys they list; other keys pass through untouched.
+ */
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  readonly parse: (value: unknown, path: string, issues: SchemaIssue[]) => T;
+}
+
+type Shape<T> = { [K in keyof T]?: Schema<T[K]> };
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const expected = (issues: SchemaIssue[], path: string, type: string, value: unknown) => {
+  issues.push({ path: path || '(root)', message: `expected ${type}, received ${describe(value)}` });
+};
+
+export const s = {
+  string(): Schema<string> {
+    return {
+      parse: (value, path, issues) => {
+        if (typeof value !== 'string') expected(issues, path, 'string', value);
+        return value as string;
+      },
+    };
+  },
+
+  /**
+   * Numbers may arrive as strings from decimal columns; numeric strings are coerced
+   */
+  number(): Schema<number> {
+    return {
+      parse: (value, path, issues) => {
+        if (typeof value === 'number' && Number.isFinite(value)) return value;
+        if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+          return Number(value);
+        }
+        expected(issues, path, 'number', value);
+        return value as number;
+      },
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return {
+      parse: (value, path, issues) => {
+        if (typeof value !== 'boolean') expected(issues, path, 'boolean', value);
+        return value as boolean;
+      },
+    };
+  },
+
+  oneOf<T extends string>(values: readonly T[]): Schema<T> {
+    return {
+      parse: (value, path, issues) => {
+        if (!values.includes(value as T)) {
+          issues.push({
+            path: path || '(root)',
+            message: `expected one of ${values.join(', ')}, received ${JSON.stringify(value)}`,
+          });
+        }
+        return value as T;
+      },
+    };
+  },
+
+  enumOf<E extends Record<string, string>>(enumObject: E): Schema<E[keyof E]> {
+    return s.oneOf(Object.values(enumObject) as E[keyof E][]);
+  },
+
+  unknown(): Schema<any> {
+    return { parse: value => value };
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return {
+      parse: (value, path, issues) =>
+        value === undefined || value === null ? undefined : inner.parse(value, path, issues),
+    };
+  },
+
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+      parse: (value, path, issues) => (value === null ? null : inner.parse(value, path, issues)),
+    };
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+      parse: (value, path, issues) => {
+        if (!Array.isArray(value)) {
+          expected(issues, path, 'array', value);
+          return [];
+        }
+        return value.map((entry, index) => item.parse(entry, `${path}[${index}]`, issues));
+      },
+    };
+  },
+
+  object<T>(shape: Shape<T>): Schema<T> {
+    return {
+      parse: (value, path, issues) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          expected(issues, path, 'object', value);
+          return value as T;
+        }
+        const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+        (Object.keys(shape) as Array<keyof T & string>).forEach(key => {
+          const fieldSchema = shape[key] as Schema<unknown>;
+          const parsed = fieldSchema.parse(result[key], path ? `${path}.${key}` : key, issues);
+          if (parsed === undefined) {
+            delete result[key];
+          } else {
+            result[key] = parsed;
+          }
+        });
+        return result as T;
+      },
+    };
+  },
+
+  /**
+   * Read a single key from an envelope object, e.g. `{ booking: {...} }` → booking
+   */
+  field<T>(key: string, inner: Schema<T>): Schema<T> {
+    return {
+      parse: (value, path, issues) => {
+        if (typeof value !== 'object' || value === null) {
+          expected(issues, path, `object with "${key}"`, value);
+          return value as T;
+        }
+        return inner.parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+      },
+    };
+  },
+
+  /**
+   * Transform the parsed value (only applied when validation succeeded)
+   */
+  map<T, U>(inner: Schema<T>, transform: (value: T) => U): Schema<U> {
+    return {
+      parse: (value, path, issues) => {
+        const before = issues.length;
+        const parsed = inner.parse(value, path, issues);
+        return issues.length === before ? transform(parsed) : (parsed as unknown as U);
+      },
+    };
+  },
+};
+
+/**
+ * Thrown when a response does not match the schema for its endpoint
+ */
+export class ApiContractError extends Error {
+  readonly isContractError = true;
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(endpoint: string, issues: SchemaIssue[]) {
+    super(`Unexpected response from the server (${endpoint}). Please update the app or contact support.`);
+    this.name = 'ApiContractError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+export const isApiContractError = (error: any): error is ApiContractError =>
+  !!error && error.isContractError === true;
+
+/**
+ * Validate a payload against a schema, logging and throwing ApiContractError on mismatch
+ */
+export function parseResponse<T>(schema: Schema<T>, value: unknown, endpoint: string): T {
+  const issues: SchemaIssue[] = [];
+  const parsed = schema.parse(value, '', issues);
+
+  if (issues.length > 0) {
+    console.error(
+      `❌ [API contract] ${endpoint} failed validation (${issues.length} issue${issues.length === 1 ? '' : 's'}):`,
+      issues.slice(0, 10).map(issue => `${issue.path}: ${issue.message}`)
+    );
+    throw new ApiContractError(endpoint, issues);
+  }
+
+  return parsed;
+}
@@ -1,4 +1,23 @@
-import { apiClient, handleApiCall, ApiResponse, PaginatedResponse } from './client';
+import { apiClient, handleApiCall, fetchAllPages, AllPagesResult, ApiResponse, PaginatedResponse } from './client';
+import { stockListSchema } from './contracts';
+import { invalidateOnSuccess, CacheTarget } from '../services/entityCache.service';
+import {
+  FuelType,
+  TransmissionType,
+  Stock,
+  StockStatus,
+  VehicleUnit,
+  VehicleUnitStatus,
+  VehicleUnitListParams,
+  CreateVehicleUnitRequest,
+  UpdateVehicleUnitRequest,
+  StockReservation,
+  CreateStockRequest,
+  UpdateStockRequest,
+  StockListParams,
+  StockStats,
+} from '../types/stock';
+import { normalizeChassisNumber } from '../utils/inventory';
 
 /**
  * Stock API endpoints
@@ -7,95 +26,226 @@ import { apiClient, handleApiCall, ApiResponse, PaginatedResponse } from './clie
  * - CRUD operations for stock
  * - Inventory management
  * - Stock tracking
+ * - Mappers from the backend payloads to the inventory domain model in types/stock
  */
 
+export type {
+  Stock,
+  StockStatus,
+  VehicleUnit,
+  VehicleUnitStatus,
+  VehicleUnitListParams,
+  CreateVehicleUnitRequest,
+  UpdateVehicleUnitRequest,
+  StockReservation,
+  CreateStockRequest,
+  UpdateStockRequest,
+  StockFilters,
+  StockListParams,
+  StockStats,
+} from '../types/stock';
+
 /**
- * Stock interface
+ * Stock entry as the backend sends it. Older endpoints use totalStock/availableStock/
+ * allocatedStock, newer ones quantity/availableQuantity/reservedQuantity, and decimal
+ * columns may arrive as strings; mapStock reads either.
  */
-export interface Stock {
+export interface StockRecord {
   id: string;
-  vehicleId: string;
+  vehicleId?: string;
   variant: string;
-  vcCode: string;
-  color: string;
-  fuelType: string;
-  transmission: string;
-  quantity: number;
-  availableQuantity: number;
-  reservedQuantity: number;
-  location: string;
-  status: 'AVAILABLE' | 'RESERVED' | 'SOLD' | 'MAINTENANCE';
-  price: number;
-  discount?: number;
-  createdAt: string;
-  updatedAt: string;
+  vcCode?: string;
+  modelYear?: string | number;
+  color?: string;
+  fuelType?: string;
+  transmission?: string;
+  quantity?: number | string;
+  availableQuantity?: number | string;
+  reservedQuantity?: number | string;
+  totalStock?: number | string;
+  availableStock?: number | string;
+  allocatedStock?: number | string;
+  status?: string;
+  price?: number | string;
+  discount?: number | string;
+  dealerCode?: string;
+  location?: string;
+  isActive?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
 }
 
 /**
- * Create stock request interface
+ * Vehicle unit as the backend sends it
  */
-export interface CreateStockRequest {
-  vehicleId: string;
-  variant: string;
-  vcCode: string;
-  color: string;
-  fuelType: string;
-  transmission: string;
-  quantity: number;
-  location: string;
-  price: number;
-  discount?: number;
+export interface VehicleUnitRecord {
+  id: string;
+  stockId?: string;
+  vehicleId?: string;
+  vin?: string;
+  vinNumber?: string;
+  chassisNumber?: string;
+  engineNumber?: string;
+  status?: string;
+  arrivalDate?: string;
+  yardLocation?: string;
+  location?: string;
+  bookingId?: string;
+  stock?: Pick<StockRecord, 'variant' | 'color'>;
+  createdAt?: string;
+  updatedAt?: string;
 }
 
 /**
- * Update stock request interface
+ * Stock statistics as the backend sends them; either the per-status counts or the
+ * older inStock/outOfStock summary
  */
-export interface UpdateStockRequest {
-  quantity?: number;
-  location?: string;
-  status?: 'AVAILABLE' | 'RESERVED' | 'SOLD' | 'MAINTENANCE';
-  price?: number;
-  discount?: number;
+export interface StockStatsRecord {
+  totalVehicles?: number | string;
+  availableVehicles?: number | string;
+  reservedVehicles?: number | string;
+  soldVehicles?: number | string;
+  inStock?: number | string;
+  outOfStock?: number | string;
+  totalValue?: number | string;
+  averagePrice?: number | string;
+  stockByLocation?: Array<{ location: string; total: number | string }>;
+  topModels?: Array<{ variant: string; totalStock?: number | string; quantity?: number | string }>;
+}
+
+const toNumber = (value: unknown, fallback = 0): number => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const optionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : toNumber(value);
+
+const STOCK_STATUSES: StockStatus[] = ['AVAILABLE', 'RESERVED', 'SOLD', 'MAINTENANCE'];
+const UNIT_STATUSES: VehicleUnitStatus[] = ['IN_TRANSIT', 'AVAILABLE', 'RESERVED', 'SOLD'];
+
+/**
+ * Map a backend stock entry onto the domain model. Missing counts are derived from
+ * the others and a missing status from what is still available.
+ */
+export function mapStock(record: StockRecord): Stock {
+  const reservedQuantity = toNumber(record.reservedQuantity ?? record.allocatedStock);
+  const availableQuantity = toNumber(record.availableQuantity ?? record.availableStock);
+  const quantity = toNumber(
+    record.quantity ?? record.totalStock,
+    availableQuantity + reservedQuantity
+  );
+
+  const status = (record.status || '').toUpperCase() as StockStatus;
+  const derivedStatus: StockStatus =
+    record.isActive === false
+      ? 'MAINTENANCE'
+      : availableQuantity > 0
+        ? 'AVAILABLE'
+        : reservedQuantity > 0
+          ? 'RESERVED'
+          : 'SOLD';
+
+  return {
+    id: record.id,
+    vehicleId: record.vehicleId,
+    variant: record.variant,
+    vcCode: record.vcCode || undefined,
+    modelYear: record.modelYear !== undefined && record.modelYear !== null ? String(record.modelYear) : undefined,
+    color: record.color || '',
+    fuelType: (record.fuelType || '').toUpperCase() as FuelType,
+    transmission: (record.transmission || '').toUpperCase() as TransmissionType,
+    quantity,
+    availableQuantity,
+    reservedQuantity,
+    status: STOCK_STATUSES.includes(status) ? status : derivedStatus,
+    price: toNumber(record.price),
+    discount: optionalNumber(record.discount),
+    dealerCode: record.dealerCode || undefined,
+    location: record.location || undefined,
+    isActive: record.isActive ?? status !== 'MAINTENANCE',
+    createdAt: record.createdAt || '',
+    updatedAt: record.updatedAt || record.createdAt || '',
+  };
 }
 
 /**
- * Stock filters interface
+ * Map a backend vehicle unit onto the domain model. A unit with no status is in the
+ * yard once it has an arrival date and in transit before that.
  */
-export interface StockFilters {
-  status?: string[];
-  variant?: string[];
-  color?: string[];
-  fuelType?: string[];
-  transmission?: string[];
-  location?: string[];
-  minPrice?: number;
-  maxPrice?: number;
-  availableOnly?: boolean;
+export function mapVehicleUnit(record: VehicleUnitRecord): VehicleUnit {
+  const status = (record.status || '').toUpperCase() as VehicleUnitStatus;
+  const derivedStatus: VehicleUnitStatus = record.bookingId
+    ? 'RESERVED'
+    : record.arrivalDate
+      ? 'AVAILABLE'
+      : 'IN_TRANSIT';
+
+  return {
+    id: record.id,
+    stockId: record.stockId || record.vehicleId || '',
+    vin: record.vin || record.vinNumber || '',
+    chassisNumber: record.chassisNumber || undefined,
+    engineNumber: record.engineNumber || undefined,
+    variant: record.stock?.variant || undefined,
+    color: record.stock?.color || undefined,
+    status: UNIT_STATUSES.includes(status) ? status : derivedStatus,
+    arrivalDate: record.arrivalDate || undefined,
+    yardLocation: record.yardLocation || record.location || undefined,
+    bookingId: record.bookingId || undefined,
+    createdAt: record.createdAt || '',
+    updatedAt: record.updatedAt || record.createdAt || '',
+  };
 }
 
 /**
- * Stock list parameters interface
+ * Map either backend statistics shape onto the domain model
  */
-export interface StockListParams extends StockFilters {
-  page?: number;
-  limit?: number;
-  sortBy?: 'createdAt' | 'updatedAt' | 'price' | 'quantity';
-  sortOrder?: 'asc' | 'desc';
+export function mapStockStats(record: StockStatsRecord): StockStats {
+  const totalVehicles = toNumber(record.totalVehicles);
+  const availableVehicles = toNumber(record.availableVehicles ?? record.inStock);
+  const totalValue = toNumber(record.totalValue);
+
+  return {
+    totalVehicles,
+    availableVehicles,
+    reservedVehicles: toNumber(record.reservedVehicles),
+    soldVehicles: toNumber(record.soldVehicles),
+    outOfStockEntries: toNumber(record.outOfStock),
+    totalValue,
+    averagePrice: toNumber(record.averagePrice, totalVehicles > 0 ? totalValue / totalVehicles : 0),
+    stockByLocation: record.stockByLocation?.map(entry => ({
+      location: entry.location,
+      total: toNumber(entry.total),
+    })),
+    topModels: record.topModels?.map(model => ({
+      variant: model.variant,
+      quantity: toNumber(model.quantity ?? model.totalStock),
+    })),
+  };
 }
 
 /**
- * Stock statistics interface
+ * Request body for a create or update. Counts are sent under both names until every
+ * endpoint reads the quantity fields.
  */
-export interface StockStats {
-  totalVehicles: number;
-  availableVehicles: number;
-  reservedVehicles: number;
-  soldVehicles: number;
-  maintenanceVehicles: number;
-  totalValue: number;
-  averagePrice: number;
+export function toStockPayload(data: UpdateStockRequest): Record<string, unknown> {
+  const payload: Record<string, unknown> = { ...data };
+  if (data.quantity !== undefined) payload.totalStock = data.quantity;
+  if (data.availableQuantity !== undefined) payload.availableStock = data.availableQuantity;
+  if (data.reservedQuantity !== undefined) payload.allocatedStock = data.reservedQuantity;
+  return payload;
 }
 
+/**
+ * Cache entries a stock mutation makes stale
+ */
+const stockCacheTargets = (id?: string): CacheTarget[] => [
+  ...(id ? [{ type: 'stock' as const, id }] : []),
+  { prefix: 'list:stock' },
+  { prefix: 'dashboard' },
+];
+
 /**
  * Stock API class
  */
@@ -104,60 +254,41 @@ export class StockAPI {
    * Get stock list with filters and pagination
    */
   static async getStock(params: StockListParams = {}): Promise<PaginatedResponse<Stock>> {
-    const response = await handleApiCall(() =>
-      apiClient.get<ApiResponse<{ vehicles: Stock[]; pagination: any }>>('/stock', { params })
-    );
-    
-    // Production backend returns: { success: true, message: "...", data: { vehicles: [...], pagination: {...} } }
-    // handleApiCall extracts the data field, so response = { vehicles: [...], pagination: {...} }
-    return {
-      success: true,
-      message: 'Stock retrieved successfully',
-      data: {
-        enquiries: response.vehicles || [],
-        pagination: response.pagination || { page: 1, limit: 20, total: 0, totalPages: 0 }
-      }
-    };
+    // Backend returns { vehicles: [...], pagination }; the contract normalises it to items
+    const response = await handleApiCall(() => apiClient.get('/stock', { params }), stockListSchema);
+    return { ...response, items: response.items.map(mapStock) };
   }
 
   /**
    * Get stock by ID
    */
   static async getStockById(id: string): Promise<Stock> {
-    return handleApiCall(() =>
-      apiClient.get<ApiResponse<Stock>>(`/stock/${id}`)
+    return mapStock(
+      await handleApiCall<StockRecord>(() => apiClient.get<ApiResponse<StockRecord>>(`/stock/${id}`))
     );
   }
 
-  /**
-   * Get vehicle by ID (alias for getStockById for compatibility)
-   */
-  static async getVehicleById(id: string): Promise<Stock> {
-    return this.getStockById(id);
-  }
-
   /**
    * Create new stock entry
    */
   static async createStock(stockData: CreateStockRequest): Promise<Stock> {
-    return handleApiCall(() =>
-      apiClient.post<ApiResponse<Stock>>('/stock', stockData)
+    return invalidateOnSuccess(
+      handleApiCall<StockRecord>(() =>
+        apiClient.post<ApiResponse<StockRecord>>('/stock', toStockPayload(stockData))
+      ).then(mapStock),
+      ...stockCacheTargets()
     );
   }
 
-  /**
-   * Create vehicle (alias for createStock for compatibility)
-   */
-  static async createVehicle(vehicleData: CreateStockRequest): Promise<Stock> {
-    return this.createStock(vehicleData);
-  }
-
   /**
    * Update stock entry
    */
   static async updateStock(id: string, stockData: UpdateStockRequest): Promise<Stock> {
-    return handleApiCall(() =>
-      apiClient.put<ApiResponse<Stock>>(`/stock/${id}`, stockData)
+    return invalidateOnSuccess(
+      handleApiCall<StockRecord>(() =>
+        apiClient.put<ApiResponse<StockRecord>>(`/stock/${id}`, toStockPayload(stockData))
+      ).then(mapStock),
+      ...stockCacheTargets(id)
     );
   }
 
@@ -165,8 +296,9 @@ export class StockAPI {
    * Delete stock entry
    */
   static async deleteStock(id: string): Promise<void> {
-    return handleApiCall(() =>
-      apiClient.delete<ApiResponse<void>>(`/stock/${id}`)
+    return invalidateOnSuccess(
+      handleApiCall(() => apiClient.delete<ApiResponse<void>>(`/stock/${id}`)),
+      ...stockCacheTargets(id)
     );
   }
 
@@ -174,35 +306,133 @@ export class StockAPI {
    * Get stock statistics
    */
   static async getStockStats(): Promise<StockStats> {
-    return handleApiCall(() =>
-      apiClient.get<ApiResponse<StockStats>>('/stock/stats')
+    const stats = await handleApiCall<StockStatsRecord>(() =>
+      apiClient.get<ApiResponse<StockStatsRecord>>('/stock/stats')
     );
+    return mapStockStats(stats || {});
   }
 
   /**
-   * Reserve stock
+   * Individual vehicles (VINs) counted in a stock entry
    */
-  static async reserveStock(id: string, quantity: number): Promise<Stock> {
-    return handleApiCall(() =>
-      apiClient.post<ApiResponse<Stock>>(`/stock/${id}/reserve`, { quantity })
+  static async getStockUnits(id: string): Promise<VehicleUnit[]> {
+    const units = await handleApiCall<VehicleUnitRecord[]>(() =>
+      apiClient.get<ApiResponse<VehicleUnitRecord[]>>(`/stock/${id}/units`)
     );
+    return (units || []).map(mapVehicleUnit);
   }
 
   /**
-   * Release stock reservation
+   * Vehicle units across all stock entries, e.g. everything still in the yard
    */
-  static async releaseStock(id: string, quantity: number): Promise<Stock> {
-    return handleApiCall(() =>
-      apiClient.post<ApiResponse<Stock>>(`/stock/${id}/release`, { quantity })
+  static async getVehicleUnits(params: VehicleUnitListParams = {}): Promise<VehicleUnit[]> {
+    const units = await handleApiCall<VehicleUnitRecord[]>(() =>
+      apiClient.get<ApiResponse<VehicleUnitRecord[]>>('/stock/units', { params })
+    );
+    return (units || []).map(mapVehicleUnit);
+  }
+
+  /**
+   * Every vehicle unit matching the filters, read page by page. complete is false when
+   * the page cap was reached before the last unit.
+   */
+  static async getAllVehicleUnits(
+    params: Omit<VehicleUnitListParams, 'page' | 'limit'> = {}
+  ): Promise<AllPagesResult<VehicleUnit>> {
+    return fetchAllPages(async (page, limit) => ({
+      items: await this.getVehicleUnits({ ...params, page, limit }),
+    }));
+  }
+
+  /**
+   * Get a vehicle unit by ID
+   */
+  static async getVehicleUnitById(id: string): Promise<VehicleUnit> {
+    return mapVehicleUnit(
+      await handleApiCall<VehicleUnitRecord>(() =>
+        apiClient.get<ApiResponse<VehicleUnitRecord>>(`/stock/units/${id}`)
+      )
+    );
+  }
+
+  /**
+   * Add a vehicle to a stock entry
+   */
+  static async createVehicleUnit(unitData: CreateVehicleUnitRequest): Promise<VehicleUnit> {
+    return invalidateOnSuccess(
+      handleApiCall<VehicleUnitRecord>(() =>
+        apiClient.post<ApiResponse<VehicleUnitRecord>>('/stock/units', unitData)
+      ).then(mapVehicleUnit),
+      ...stockCacheTargets(unitData.stockId)
+    );
+  }
+
+  /**
+   * Update a vehicle unit. stockId is the entry it belongs to, whose cached copy is stale.
+   */
+  static async updateVehicleUnit(id: string, stockId: string, unitData: UpdateVehicleUnitRequest): Promise<VehicleUnit> {
+    return invalidateOnSuccess(
+      handleApiCall<VehicleUnitRecord>(() =>
+        apiClient.put<ApiResponse<VehicleUnitRecord>>(`/stock/units/${id}`, unitData)
+      ).then(mapVehicleUnit),
+      ...stockCacheTargets(stockId || undefined)
     );
   }
 
   /**
-   * Mark stock as sold
+   * The unit carrying a chassis number, as recorded on a booking. Matching ignores case
+   * and spaces; null when no unit has it.
    */
-  static async markAsSold(id: string, quantity: number): Promise<Stock> {
+  static async findVehicleUnitByChassis(chassisNumber: string): Promise<VehicleUnit | null> {
+    const normalized = normalizeChassisNumber(chassisNumber);
+    if (!normalized) return null;
+
+    const units = await this.getVehicleUnits({ chassisNumber: normalized });
+    return units.find(unit => normalizeChassisNumber(unit.chassisNumber) === normalized) || null;
+  }
+
+  /**
+   * Reserve stock. With a bookingId the reservation is recorded against that booking.
+   */
+  static async reserveStock(id: string, quantity: number, bookingId?: string): Promise<Stock> {
+    return invalidateOnSuccess(
+      handleApiCall<StockRecord>(() =>
+        apiClient.post<ApiResponse<StockRecord>>(`/stock/${id}/reserve`, { quantity, bookingId })
+      ).then(mapStock),
+      ...stockCacheTargets(id)
+    );
+  }
+
+  /**
+   * Release stock reservation, or only the one held by bookingId
+   */
+  static async releaseStock(id: string, quantity: number, bookingId?: string): Promise<Stock> {
+    return invalidateOnSuccess(
+      handleApiCall<StockRecord>(() =>
+        apiClient.post<ApiResponse<StockRecord>>(`/stock/${id}/release`, { quantity, bookingId })
+      ).then(mapStock),
+      ...stockCacheTargets(id)
+    );
+  }
+
+  /**
+   * Mark stock as sold. With a bookingId that booking's reservation is closed as SOLD.
+   */
+  static async markAsSold(id: string, quantity: number, bookingId?: string): Promise<Stock> {
+    return invalidateOnSuccess(
+      handleApiCall<StockRecord>(() =>
+        apiClient.post<ApiResponse<StockRecord>>(`/stock/${id}/sold`, { quantity, bookingId })
+      ).then(mapStock),
+      ...stockCacheTargets(id)
+    );
+  }
+
+  /**
+   * Reservations on a stock entry, with the bookings holding them
+   */
+  static async getStockReservations(id: string): Promise<StockReservation[]> {
     return handleApiCall(() =>
-      apiClient.post<ApiResponse<Stock>>(`/stock/${id}/sold`, { quantity })
+      apiClient.get<ApiResponse<StockReservation[]>>(`/stock/${id}/reservations`)
     );
   }
 
@@ -210,27 +440,30 @@ export class StockAPI {
    * Get stock by variant
    */
   static async getStockByVariant(variant: string): Promise<Stock[]> {
-    return handleApiCall(() =>
-      apiClient.get<ApiResponse<Stock[]>>('/stock/variant', { params: { variant } })
+    const records = await handleApiCall<StockRecord[]>(() =>
+      apiClient.get<ApiResponse<StockRecord[]>>('/stock/variant', { params: { variant } })
     );
+    return (records || []).map(mapStock);
   }
 
   /**
    * Get stock by color
    */
   static async getStockByColor(color: string): Promise<Stock[]> {
-    return handleApiCall(() =>
-      apiClient.get<ApiResponse<Stock[]>>('/stock/color', { params: { color } })
+    const records = await handleApiCall<StockRecord[]>(() =>
+      apiClient.get<ApiResponse<StockRecord[]>>('/stock/color', { params: { color } })
     );
+    return (records || []).map(mapStock);
   }
 
   /**
    * Search stock
    */
   static async searchStock(query: string): Promise<Stock[]> {
-    return handleApiCall(() =>
-      apiClient.get<ApiResponse<Stock[]>>('/stock/search', { params: { q: query } })
+    const records = await handleApiCall<StockRecord[]>(() =>
+      apiClient.get<ApiResponse<StockRecord[]>>('/stock/search', { params: { q: query } })
     );
+    return (records || []).map(mapStock);
   }
 }
 
@@ -1,4 +1,5 @@
 import { apiClient, handleApiCall, ApiResponse, PaginatedResponse } from './client';
+import { userListSchema } from './contracts';
 
 export type RoleName =
   | 'ADMIN'
@@ -33,20 +34,8 @@ class UsersAPI {
     role?: RoleName;
     isActive?: boolean;
   }): Promise<PaginatedResponse<User>> {
-    const response = await handleApiCall(() =>
-      apiClient.get<ApiResponse<{ users: User[]; pagination: any }>>('/auth/users', { params })
-    );
-    
-    // Production backend returns: { success: true, message: "...", data: { users: [...], pagination: {...} } }
-    // handleApiCall extracts the data field, so response = { users: [...], pagination: {...} }
-    return {
-      success: true,
-      message: 'Users retrieved successfully',
-      data: {
-        enquiries: response.users || [],
-        pagination: response.pagination || { page: 1, limit: 20, total: 0, totalPages: 0 }
-      }
-    };
+    // Backend returns { users: [...], pagination }; the contract normalises it to items
+    return handleApiCall(() => apiClient.get('/auth/users', { params }), userListSchema);
   }
 
   static async getUserById(firebaseUid: string): Promise<User> {
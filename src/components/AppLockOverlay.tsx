@@ -0,0 +1,177 @@
+/**
+ * AppLockOverlay Component
+ * Full-screen cover shown while the app is locked, with PIN entry and a biometric prompt
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Modal, View, StyleSheet, Alert, KeyboardAvoidingView, Platform } from 'react-native';
+import { Text, TextInput, Button, HelperText, Avatar, ActivityIndicator } from 'react-native-paper';
+import { useAppLock } from '../context/AppLockContext';
+import { APP_LOCK_PIN_MAX_LENGTH, isValidPin } from '../utils/appLock';
+import { theme, spacing } from '../utils/theme';
+
+export function AppLockOverlay() {
+  const {
+    status,
+    settings,
+    remainingAttempts,
+    biometricAvailable,
+    unlockWithPin,
+    unlockWithBiometrics,
+  } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const promptedBiometrics = useRef(false);
+
+  const canUseBiometrics = settings.biometricEnabled && biometricAvailable;
+
+  // Offer biometrics straight away each time the app locks
+  useEffect(() => {
+    if (status !== 'locked') {
+      promptedBiometrics.current = false;
+      setPin('');
+      setError(null);
+      return;
+    }
+    if (canUseBiometrics && !promptedBiometrics.current) {
+      promptedBiometrics.current = true;
+      unlockWithBiometrics();
+    }
+  }, [status, canUseBiometrics, unlockWithBiometrics]);
+
+  const handleUnlock = async () => {
+    if (!isValidPin(pin) || checking) return;
+    try {
+      setChecking(true);
+      const result = await unlockWithPin(pin);
+      setPin('');
+      if (result.wiped) {
+        Alert.alert(
+          'Data Removed',
+          'Too many incorrect PINs were entered. Customer data on this device has been removed and you have been signed out.'
+        );
+      } else if (!result.valid) {
+        setError(
+          result.remainingAttempts === 1
+            ? 'Incorrect PIN. One attempt left before data on this device is removed.'
+            : `Incorrect PIN. ${result.remainingAttempts} attempts left.`
+        );
+      }
+    } catch (unlockError: any) {
+      console.error('Error unlocking app:', unlockError);
+      setError(unlockError.message || 'Could not check the PIN. Please try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={status !== 'unlocked'}
+      animationType="fade"
+      // The lock cannot be dismissed with the Android back button
+      onRequestClose={() => undefined}
+    >
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {status === 'loading' ? (
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        ) : (
+          <View style={styles.content}>
+            <Avatar.Icon size={72} icon="lock" style={styles.icon} />
+            <Text variant="headlineSmall" style={styles.title}>
+              MotorSync is locked
+            </Text>
+            <Text variant="bodyMedium" style={styles.subtitle}>
+              Enter your PIN to continue
+            </Text>
+
+            <TextInput
+              mode="outlined"
+              label="PIN"
+              value={pin}
+              onChangeText={text => {
+                setPin(text.replace(/\D/g, ''));
+                setError(null);
+              }}
+              onSubmitEditing={handleUnlock}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={APP_LOCK_PIN_MAX_LENGTH}
+              autoFocus={!canUseBiometrics}
+              style={styles.input}
+            />
+            <HelperText type="error" visible={!!error}>
+              {error}
+            </HelperText>
+            {!error && remainingAttempts < settings.maxFailedAttempts && (
+              <HelperText type="info" visible>
+                {remainingAttempts} attempt(s) left before data on this device is removed
+              </HelperText>
+            )}
+
+            <Button
+              mode="contained"
+              onPress={handleUnlock}
+              loading={checking}
+              disabled={checking || !isValidPin(pin)}
+              style={styles.button}
+            >
+              Unlock
+            </Button>
+
+            {canUseBiometrics && (
+              <Button
+                mode="text"
+                icon="fingerprint"
+                onPress={() => unlockWithBiometrics()}
+                disabled={checking}
+                style={styles.button}
+              >
+                Use Biometrics
+              </Button>
+            )}
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    width: '100%',
+    maxWidth: 360,
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  icon: {
+    backgroundColor: theme.colors.primary,
+    marginBottom: spacing.lg,
+  },
+  title: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.lg,
+  },
+  input: {
+    width: '100%',
+  },
+  button: {
+    width: '100%',
+    marginTop: spacing.sm,
+  },
+});
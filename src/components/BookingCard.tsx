@@ -12,6 +12,9 @@ interface BookingCardProps {
   booking: Booking;
   onPress?: () => void;
   onUpdate?: () => void;
+  onViewCustomer?: () => void;
+  onLongPress?: () => void;
+  selected?: boolean;
   showActions?: boolean;
   userRole?: string;
 }
@@ -20,6 +23,9 @@ export function BookingCard({
   booking,
   onPress,
   onUpdate,
+  onViewCustomer,
+  onLongPress,
+  selected = false,
   showActions = true,
   userRole = 'CUSTOMER_ADVISOR',
 }: BookingCardProps): React.JSX.Element {
@@ -79,7 +85,11 @@ export function BookingCard({
   };
 
   return (
-    <Card style={[styles.card, isOverdue() && styles.overdueCard]} onPress={onPress}>
+    <Card
+      style={[styles.card, isOverdue() && styles.overdueCard, selected && styles.selectedCard]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+    >
       <Card.Content style={styles.content}>
         {/* Header with status */}
         <View style={styles.header}>
@@ -258,6 +268,20 @@ export function BookingCard({
             </Button>
           </View>
         )}
+
+        {showActions && onViewCustomer && (
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              onPress={onViewCustomer}
+              icon="account-details"
+              style={styles.updateButton}
+              compact
+            >
+              Customer 360
+            </Button>
+          </View>
+        )}
       </Card.Content>
     </Card>
   );
@@ -274,6 +298,10 @@ const styles = StyleSheet.create({
     borderLeftWidth: 4,
     borderLeftColor: '#EF4444',
   },
+  selectedCard: {
+    borderWidth: 2,
+    borderColor: '#3B82F6',
+  },
   content: {
     paddingVertical: 16,
     paddingHorizontal: 16,
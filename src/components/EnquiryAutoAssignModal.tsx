@@ -0,0 +1,393 @@
+/**
+ * Enquiry Auto-Assign Modal
+ * Lets a team lead pick the dealership's assignment strategy and rules, previews which
+ * advisor each unassigned enquiry would go to, and applies the plan.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, StyleSheet, Modal, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { Text, Button, Chip, Divider, Icon, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { theme, spacing, borderRadius } from '../utils/theme';
+import { enquiryAPI } from '../api/enquiries';
+import { useAuth } from '../context/AuthContext';
+import { useTeam } from '../context/TeamContext';
+import { useDealership } from '../context/DealershipContext';
+import { useCatalog } from '../context/CatalogContext';
+import { isEnquiryOpen } from '../services/reminders.service';
+import { Enquiry, EnquirySource } from '../services/types';
+import { formatEnquirySource } from '../utils/formatting';
+import {
+  EnquiryAssignmentConfig,
+  LEAD_ASSIGNMENT_STRATEGY_LABELS,
+  LeadAssignmentStrategy,
+  getAssignableAdvisors,
+  planLeadAssignment,
+} from '../utils/leadAssignment';
+
+// Upper bound for the enquiries loaded to find unassigned leads and advisor load
+const ENQUIRY_LIMIT = 500;
+
+const STRATEGIES = Object.keys(LEAD_ASSIGNMENT_STRATEGY_LABELS) as LeadAssignmentStrategy[];
+const SOURCES = Object.values(EnquirySource);
+
+const STATUS_LABELS: Record<string, string> = {
+  inactive: 'Inactive',
+};
+
+interface EnquiryAutoAssignModalProps {
+  visible: boolean;
+  onDismiss: () => void;
+  onAssigned?: (count: number) => void;
+}
+
+const toggle = (list: string[] = [], value: string) =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+export function EnquiryAutoAssignModal({
+  visible,
+  onDismiss,
+  onAssigned,
+}: EnquiryAutoAssignModalProps): React.JSX.Element {
+  const { state: authState } = useAuth();
+  const { teamMembers } = useTeam();
+  const { catalog } = useCatalog();
+  const { enquiryAssignmentConfig, updateEnquiryAssignmentConfig } = useDealership();
+  const user = authState.user;
+
+  const [enquiries, setEnquiries] = useState<Enquiry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [draft, setDraft] = useState<EnquiryAssignmentConfig>(enquiryAssignmentConfig);
+
+  const loadEnquiries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await enquiryAPI.getEnquiries({
+        limit: ENQUIRY_LIMIT,
+        dealershipId: user?.dealership?.id || user?.dealershipId || undefined,
+        dealershipCode: user?.dealership?.code,
+      });
+      setEnquiries(result.items);
+    } catch (error: any) {
+      console.error('Error loading enquiries for assignment:', error);
+      Alert.alert('Error', error.message || 'Failed to load enquiries');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.dealership?.id, user?.dealership?.code, user?.dealershipId]);
+
+  // Fresh data and the saved rules every time the modal opens
+  const handleShow = () => {
+    setDraft(enquiryAssignmentConfig);
+    loadEnquiries();
+  };
+
+  const { available, unavailable } = useMemo(
+    () => getAssignableAdvisors(teamMembers, enquiries),
+    [teamMembers, enquiries]
+  );
+
+  // Leads with no assignee that were not created by an advisor (imports, walk-ins logged by managers)
+  const unassigned = useMemo(() => {
+    const advisorIds = new Set(
+      teamMembers.filter(member => member.role === 'CUSTOMER_ADVISOR').map(member => member.id)
+    );
+    return enquiries.filter(
+      enquiry => isEnquiryOpen(enquiry) && !enquiry.assignedToUserId && !advisorIds.has(enquiry.createdByUserId)
+    );
+  }, [teamMembers, enquiries]);
+
+  const plan = useMemo(() => planLeadAssignment(unassigned, available, draft), [unassigned, available, draft]);
+
+  const models = useMemo(() => {
+    const names = new Set<string>();
+    catalog?.brands.forEach(brand => brand.models.forEach(model => names.add(model.model)));
+    unassigned.forEach(enquiry => enquiry.model && names.add(enquiry.model));
+    return Array.from(names).sort();
+  }, [catalog, unassigned]);
+
+  const perAdvisor = useMemo(() => {
+    const counts = new Map<string, number>();
+    plan.forEach(({ advisor }) => advisor && counts.set(advisor.name, (counts.get(advisor.name) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [plan]);
+
+  const saveRules = async () => {
+    try {
+      await updateEnquiryAssignmentConfig(draft);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save assignment rules');
+      throw error;
+    }
+  };
+
+  const handleSaveRules = () => {
+    saveRules()
+      .then(() => Alert.alert('Rules Saved', 'New enquiries on this device will be previewed with these rules.'))
+      .catch(() => undefined);
+  };
+
+  const handleApply = async () => {
+    const assignments = plan.filter(item => item.advisor);
+    if (assignments.length === 0) return;
+
+    try {
+      setApplying(true);
+      await saveRules();
+      const results = await Promise.allSettled(
+        assignments.map(({ lead, advisor }) => enquiryAPI.assignEnquiry(lead.id, advisor!.id))
+      );
+      const failed = results.filter(result => result.status === 'rejected').length;
+      const assigned = assignments.length - failed;
+
+      Alert.alert(
+        failed > 0 ? 'Assignment Incomplete' : 'Enquiries Assigned',
+        failed > 0
+          ? `${assigned} enquiries assigned, ${failed} failed. Open the modal again to retry the rest.`
+          : `${assigned} enquiries assigned to ${perAdvisor.length} advisors.`
+      );
+      onAssigned?.(assigned);
+      onDismiss();
+    } catch (error) {
+      console.error('Error applying enquiry assignment:', error);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const renderRules = () => {
+    if (draft.strategy === 'MODEL_EXPERTISE') {
+      return available.map(advisor => (
+        <View key={advisor.id} style={styles.ruleRow}>
+          <Text variant="labelLarge">{advisor.name}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {models.map(model => (
+              <Chip
+                key={model}
+                compact
+                selected={(draft.modelExpertise[advisor.id] || []).includes(model)}
+                onPress={() =>
+                  setDraft(prev => ({
+                    ...prev,
+                    modelExpertise: {
+                      ...prev.modelExpertise,
+                      [advisor.id]: toggle(prev.modelExpertise[advisor.id], model),
+                    },
+                  }))
+                }
+              >
+                {model}
+              </Chip>
+            ))}
+          </ScrollView>
+        </View>
+      ));
+    }
+
+    if (draft.strategy === 'BY_SOURCE') {
+      return SOURCES.map(source => (
+        <View key={source} style={styles.ruleRow}>
+          <Text variant="labelLarge">{formatEnquirySource(source)}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {available.map(advisor => (
+              <Chip
+                key={advisor.id}
+                compact
+                selected={(draft.sourceOwners[source] || []).includes(advisor.id)}
+                onPress={() =>
+                  setDraft(prev => ({
+                    ...prev,
+                    sourceOwners: { ...prev.sourceOwners, [source]: toggle(prev.sourceOwners[source], advisor.id) },
+                  }))
+                }
+              >
+                {advisor.name}
+              </Chip>
+            ))}
+          </ScrollView>
+        </View>
+      ));
+    }
+
+    return null;
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator />
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text variant="titleSmall" style={styles.sectionTitle}>Strategy</Text>
+        <View style={styles.wrapRow}>
+          {STRATEGIES.map(strategy => (
+            <Chip
+              key={strategy}
+              selected={draft.strategy === strategy}
+              onPress={() => setDraft(prev => ({ ...prev, strategy }))}
+            >
+              {LEAD_ASSIGNMENT_STRATEGY_LABELS[strategy]}
+            </Chip>
+          ))}
+        </View>
+        {renderRules()}
+
+        <Divider style={styles.divider} />
+        <Text variant="titleSmall" style={styles.sectionTitle}>
+          Advisors · {available.length} available
+        </Text>
+        {available.map(advisor => (
+          <Text key={advisor.id} variant="bodyMedium">
+            {advisor.name} · {advisor.openLeads} open, {advisor.hotLeads} HOT
+          </Text>
+        ))}
+        {unavailable.map(member => (
+          <Text key={member.id} variant="bodyMedium" style={styles.muted}>
+            {member.name} · {STATUS_LABELS[member.status] || member.status}, skipped
+          </Text>
+        ))}
+        {available.length === 0 && (
+          <Text variant="bodyMedium" style={styles.muted}>No active customer advisors.</Text>
+        )}
+
+        <Divider style={styles.divider} />
+        <Text variant="titleSmall" style={styles.sectionTitle}>
+          Preview · {unassigned.length} unassigned {unassigned.length === 1 ? 'enquiry' : 'enquiries'}
+        </Text>
+        {perAdvisor.length > 0 && (
+          <Text variant="bodySmall" style={styles.muted}>
+            {perAdvisor.map(([name, count]) => `${name} +${count}`).join(' · ')}
+          </Text>
+        )}
+        {plan.map(({ lead, advisor, reason }) => (
+          <View key={lead.id} style={styles.planRow}>
+            <View style={styles.planLead}>
+              <Text variant="bodyMedium" numberOfLines={1}>{lead.customerName}</Text>
+              <Text variant="bodySmall" style={styles.muted} numberOfLines={1}>
+                {lead.model} · {formatEnquirySource(lead.source)} · {lead.category}
+              </Text>
+            </View>
+            <Icon source="arrow-right" size={18} color={theme.colors.onSurfaceVariant} />
+            <View style={styles.planAdvisor}>
+              <Text variant="labelLarge" numberOfLines={1}>{advisor?.name || 'Unassigned'}</Text>
+              <Text variant="bodySmall" style={styles.muted} numberOfLines={2}>{reason}</Text>
+            </View>
+          </View>
+        ))}
+        {unassigned.length === 0 && (
+          <Text variant="bodyMedium" style={styles.muted}>Every open enquiry already has an advisor.</Text>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onShow={handleShow} onRequestClose={onDismiss}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onDismiss} disabled={applying}>
+            <Icon source="close" size={24} color={theme.colors.onSurface} />
+          </TouchableOpacity>
+          <Text variant="titleLarge" style={styles.headerTitle}>Auto-assign Enquiries</Text>
+        </View>
+
+        {renderContent()}
+
+        <View style={styles.footer}>
+          <Button mode="outlined" onPress={handleSaveRules} disabled={applying}>
+            Save rules
+          </Button>
+          <Button
+            mode="contained"
+            loading={applying}
+            disabled={applying || loading || plan.every(item => !item.advisor)}
+            onPress={handleApply}
+          >
+            Assign {plan.filter(item => item.advisor).length}
+          </Button>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outlineVariant,
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: spacing.md,
+  },
+  sectionTitle: {
+    marginBottom: spacing.sm,
+  },
+  wrapRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  ruleRow: {
+    marginTop: spacing.sm,
+  },
+  chipRow: {
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+  },
+  divider: {
+    marginVertical: spacing.md,
+  },
+  muted: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  planRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.outlineVariant,
+    padding: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  planLead: {
+    flex: 1,
+  },
+  planAdvisor: {
+    flex: 1,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.outlineVariant,
+  },
+});
+
+export default EnquiryAutoAssignModal;
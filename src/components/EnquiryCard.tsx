@@ -8,6 +8,7 @@ import { View, StyleSheet, TouchableOpacity } from 'react-native';
 import { Card, Text, Chip, IconButton, Button } from 'react-native-paper';
 import { Enquiry, EnquiryCategory } from '../services/types';
 import { formatEnquirySource } from '../utils/formatting';
+import { LeadScore, LeadScoreTier } from '../utils/leadScoring';
 import { spacing, borderRadius, shadows } from '../utils/theme';
 
 interface EnquiryCardProps {
@@ -15,6 +16,8 @@ interface EnquiryCardProps {
   onPress?: () => void;
   onEdit?: () => void;
   onConvertToBooking?: () => void;
+  onViewCustomer?: () => void;
+  leadScore?: LeadScore;
   showActions?: boolean;
   showCreatorInfo?: boolean;
   userRole?: string;
@@ -25,6 +28,8 @@ export function EnquiryCard({
   onPress,
   onEdit,
   onConvertToBooking,
+  onViewCustomer,
+  leadScore,
   showActions = true,
   showCreatorInfo = false,
   userRole,
@@ -55,6 +60,17 @@ export function EnquiryCard({
     }
   };
 
+  const getLeadScoreColors = (tier: LeadScoreTier): { background: string; text: string } => {
+    switch (tier) {
+      case 'hot':
+        return { background: '#FEE2E2', text: '#B91C1C' };
+      case 'warm':
+        return { background: '#FEF3C7', text: '#92400E' };
+      default:
+        return { background: '#E0F2FE', text: '#0369A1' };
+    }
+  };
+
   const formatDate = (dateString?: string): string => {
     if (!dateString) return 'Not set';
     const date = new Date(dateString);
@@ -90,6 +106,15 @@ export function EnquiryCard({
                   OPEN
                 </Text>
               </View>
+              {leadScore && enquiry.category === EnquiryCategory.HOT && (
+                <View
+                  style={[styles.statusBadge, { backgroundColor: getLeadScoreColors(leadScore.tier).background }]}
+                >
+                  <Text style={[styles.statusBadgeText, { color: getLeadScoreColors(leadScore.tier).text }]}>
+                    ⭐ {leadScore.score}
+                  </Text>
+                </View>
+              )}
             </View>
           </View>
         </View>
@@ -174,6 +199,14 @@ export function EnquiryCard({
                 <Text style={styles.editButtonText}>Edit</Text>
               </TouchableOpacity>
             )}
+            {onViewCustomer && (
+              <TouchableOpacity 
+                style={[styles.actionButton, styles.editButton]} 
+                onPress={onViewCustomer}
+              >
+                <Text style={styles.editButtonText}>Customer</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity style={[styles.actionButton, styles.viewButton]} onPress={onPress}>
               <Text style={styles.viewButtonText}>View Details</Text>
             </TouchableOpacity>
@@ -0,0 +1,445 @@
+/**
+ * Import Preview Modal
+ * Column mapping and row-by-row review of a parsed spreadsheet before a bulk import.
+ * Rows with errors can be fixed in place; valid rows can be excluded.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, Modal, FlatList, ScrollView, TouchableOpacity } from 'react-native';
+import {
+  Text,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  HelperText,
+  Icon,
+  Menu,
+  Portal,
+  TextInput,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { theme, spacing, borderRadius } from '../utils/theme';
+import { SpreadsheetData } from '../services/spreadsheetImport.service';
+import {
+  ColumnMapping,
+  ImportFieldDefinition,
+  ImportRow,
+  getUnmappedRequiredFields,
+  suggestColumnMapping,
+} from '../utils/spreadsheetImport';
+
+interface ImportPreviewModalProps<F extends string, R> {
+  visible: boolean;
+  title: string;
+  data: SpreadsheetData | null;
+  fields: ImportFieldDefinition<F>[];
+  // Map and validate all rows; called again whenever the mapping or a cell changes
+  buildRows: (rows: string[][], mapping: ColumnMapping<F>) => ImportRow<F, R>[];
+  // Fields shown as the summary line of each row in the preview
+  summaryFields?: F[];
+  // Import options shown above the row list, e.g. defaults and assignment
+  settings?: React.ReactNode;
+  confirming?: boolean;
+  onCancel: () => void;
+  onConfirm: (rows: ImportRow<F, R>[]) => void;
+}
+
+type Step = 'mapping' | 'preview';
+
+export function ImportPreviewModal<F extends string, R>({
+  visible,
+  title,
+  data,
+  fields,
+  buildRows,
+  summaryFields,
+  settings,
+  confirming = false,
+  onCancel,
+  onConfirm,
+}: ImportPreviewModalProps<F, R>): React.JSX.Element {
+  const [step, setStep] = useState<Step>('mapping');
+  const [mapping, setMapping] = useState<ColumnMapping<F>>({});
+  const [openMenu, setOpenMenu] = useState<F | null>(null);
+  // Edited cells keyed by spreadsheet row number
+  const [edits, setEdits] = useState<Record<number, string[]>>({});
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [editingRow, setEditingRow] = useState<ImportRow<F, R> | null>(null);
+  const [editValues, setEditValues] = useState<Partial<Record<F, string>>>({});
+
+  // Start over for every newly picked file
+  useEffect(() => {
+    if (!data) return;
+    setStep('mapping');
+    setMapping(suggestColumnMapping(data.headers, fields));
+    setEdits({});
+    setExcluded(new Set());
+    setErrorsOnly(false);
+  }, [data, fields]);
+
+  const rows = useMemo(() => {
+    if (!data || step !== 'preview') return [];
+    const cells = data.rows.map((row, index) => edits[index + 2] || row);
+    return buildRows(cells, mapping);
+  }, [data, step, edits, mapping, buildRows]);
+
+  const invalidCount = rows.filter(row => row.errors.length > 0).length;
+  const includedRows = rows.filter(row => row.errors.length === 0 && !excluded.has(row.rowNumber));
+  const visibleRows = errorsOnly ? rows.filter(row => row.errors.length > 0) : rows;
+  const missingFields = getUnmappedRequiredFields(mapping, fields);
+  const shownFields = summaryFields || fields.slice(0, 3).map(field => field.key);
+
+  const toggleExcluded = (rowNumber: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const openEditor = (row: ImportRow<F, R>) => {
+    const values: Partial<Record<F, string>> = {};
+    fields.forEach(field => {
+      const index = mapping[field.key];
+      if (index !== undefined) values[field.key] = row.cells[index] || '';
+    });
+    setEditValues(values);
+    setEditingRow(row);
+  };
+
+  const saveEdit = () => {
+    if (!editingRow) return;
+    const cells = [...editingRow.cells];
+    fields.forEach(field => {
+      const index = mapping[field.key];
+      const value = editValues[field.key];
+      if (index !== undefined && value !== undefined) cells[index] = value;
+    });
+    setEdits(prev => ({ ...prev, [editingRow.rowNumber]: cells }));
+    setEditingRow(null);
+  };
+
+  const getHeaderLabel = (field: F) => {
+    const index = mapping[field];
+    return index === undefined ? 'Not mapped' : data?.headers[index] || `Column ${index + 1}`;
+  };
+
+  const renderMappingStep = () => (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Text variant="bodyMedium" style={styles.hint}>
+        Match each field to a column in {data?.fileName}. Columns were matched by header name where possible.
+      </Text>
+      {fields.map(field => (
+        <View key={field.key} style={styles.mappingRow}>
+          <Text variant="bodyLarge" style={styles.mappingLabel}>
+            {field.label}
+            {field.required ? ' *' : ''}
+          </Text>
+          <Menu
+            visible={openMenu === field.key}
+            onDismiss={() => setOpenMenu(null)}
+            anchor={
+              <Button
+                mode="outlined"
+                compact
+                icon="chevron-down"
+                contentStyle={styles.mappingButtonContent}
+                onPress={() => setOpenMenu(field.key)}
+              >
+                {getHeaderLabel(field.key)}
+              </Button>
+            }
+          >
+            <Menu.Item
+              title="Not mapped"
+              onPress={() => {
+                setMapping(prev => {
+                  const next = { ...prev };
+                  delete next[field.key];
+                  return next;
+                });
+                setOpenMenu(null);
+              }}
+            />
+            {(data?.headers || []).map((header, index) => (
+              <Menu.Item
+                key={`${header}-${index}`}
+                title={header || `Column ${index + 1}`}
+                onPress={() => {
+                  setMapping(prev => ({ ...prev, [field.key]: index }));
+                  setOpenMenu(null);
+                }}
+              />
+            ))}
+          </Menu>
+        </View>
+      ))}
+      {missingFields.length > 0 && (
+        <HelperText type="error" visible>
+          Map the required fields: {missingFields.map(field => field.label).join(', ')}
+        </HelperText>
+      )}
+    </ScrollView>
+  );
+
+  const renderRow = ({ item: row }: { item: ImportRow<F, R> }) => {
+    const hasErrors = row.errors.length > 0;
+    const isIncluded = !hasErrors && !excluded.has(row.rowNumber);
+    const summary = shownFields
+      .map(key => {
+        const index = mapping[key];
+        return index === undefined ? '' : row.cells[index];
+      })
+      .filter(Boolean)
+      .join(' · ');
+
+    return (
+      <View style={[styles.rowCard, hasErrors && styles.rowCardError, !isIncluded && !hasErrors && styles.rowCardExcluded]}>
+        <Checkbox
+          status={isIncluded ? 'checked' : 'unchecked'}
+          disabled={hasErrors}
+          onPress={() => toggleExcluded(row.rowNumber)}
+        />
+        <View style={styles.rowBody}>
+          <Text variant="labelMedium" style={styles.rowNumber}>
+            Row {row.rowNumber}
+            {edits[row.rowNumber] ? ' · edited' : ''}
+          </Text>
+          <Text variant="bodyMedium" numberOfLines={1}>
+            {summary || '(empty)'}
+          </Text>
+          {row.errors.map((error, index) => (
+            <Text key={index} variant="bodySmall" style={styles.rowError}>
+              {fields.find(field => field.key === error.field)?.label || 'Row'}: {error.message}
+            </Text>
+          ))}
+        </View>
+        <TouchableOpacity onPress={() => openEditor(row)} style={styles.editButton}>
+          <Icon source="pencil" size={20} color={theme.colors.primary} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderPreviewStep = () => (
+    <View style={styles.previewContainer}>
+      {settings && <View style={styles.settings}>{settings}</View>}
+      <View style={styles.summaryRow}>
+        <Text variant="bodyMedium" style={styles.summaryText}>
+          {rows.length} rows · {rows.length - invalidCount} valid · {invalidCount} with errors
+        </Text>
+        <Chip selected={errorsOnly} onPress={() => setErrorsOnly(prev => !prev)} compact>
+          Errors only
+        </Chip>
+      </View>
+      <FlatList
+        data={visibleRows}
+        keyExtractor={row => String(row.rowNumber)}
+        renderItem={renderRow}
+        contentContainerStyle={styles.listContent}
+        initialNumToRender={20}
+        windowSize={7}
+        ListEmptyComponent={
+          <Text variant="bodyMedium" style={styles.hint}>
+            {errorsOnly ? 'No rows with errors.' : 'The file has no data rows.'}
+          </Text>
+        }
+      />
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onCancel}>
+      {/* Menus and dialogs portal into the modal; the app-level host renders behind it */}
+      <Portal.Host>
+        <SafeAreaView style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onCancel} disabled={confirming}>
+              <Icon source="close" size={24} color={theme.colors.onSurface} />
+            </TouchableOpacity>
+            <View style={styles.headerText}>
+              <Text variant="titleLarge">{title}</Text>
+              <Text variant="bodySmall" style={styles.hint}>
+                {step === 'mapping' ? 'Step 1 of 2 · Map columns' : 'Step 2 of 2 · Review rows'}
+              </Text>
+            </View>
+          </View>
+
+          {step === 'mapping' ? renderMappingStep() : renderPreviewStep()}
+
+          <View style={styles.footer}>
+            {step === 'mapping' ? (
+              <>
+                <Button mode="outlined" onPress={onCancel}>
+                  Cancel
+                </Button>
+                <Button mode="contained" disabled={missingFields.length > 0} onPress={() => setStep('preview')}>
+                  Preview
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button mode="outlined" onPress={() => setStep('mapping')} disabled={confirming}>
+                  Back
+                </Button>
+                <Button
+                  mode="contained"
+                  loading={confirming}
+                  disabled={confirming || includedRows.length === 0}
+                  onPress={() => onConfirm(includedRows)}
+                >
+                  Import {includedRows.length} {includedRows.length === 1 ? 'row' : 'rows'}
+                </Button>
+              </>
+            )}
+          </View>
+
+          <Portal>
+            <Dialog visible={!!editingRow} onDismiss={() => setEditingRow(null)}>
+              <Dialog.Title>Edit row {editingRow?.rowNumber}</Dialog.Title>
+              <Dialog.ScrollArea style={styles.dialogScrollArea}>
+                <ScrollView>
+                  {fields
+                    .filter(field => mapping[field.key] !== undefined)
+                    .map(field => (
+                      <TextInput
+                        key={field.key}
+                        mode="outlined"
+                        dense
+                        label={field.label}
+                        value={editValues[field.key] || ''}
+                        error={!!editingRow?.errors.some(error => error.field === field.key)}
+                        onChangeText={text => setEditValues(prev => ({ ...prev, [field.key]: text }))}
+                        style={styles.dialogInput}
+                      />
+                    ))}
+                </ScrollView>
+              </Dialog.ScrollArea>
+              <Dialog.Actions>
+                <Button onPress={() => setEditingRow(null)}>Cancel</Button>
+                <Button onPress={saveEdit}>Save</Button>
+              </Dialog.Actions>
+            </Dialog>
+          </Portal>
+        </SafeAreaView>
+      </Portal.Host>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outlineVariant,
+  },
+  headerText: {
+    flex: 1,
+  },
+  content: {
+    padding: spacing.md,
+  },
+  hint: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.sm,
+  },
+  mappingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.colors.outlineVariant,
+  },
+  mappingLabel: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  mappingButtonContent: {
+    flexDirection: 'row-reverse',
+  },
+  previewContainer: {
+    flex: 1,
+  },
+  settings: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.colors.outlineVariant,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+  },
+  summaryText: {
+    flex: 1,
+  },
+  listContent: {
+    padding: spacing.md,
+  },
+  rowCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: theme.colors.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.outlineVariant,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  rowCardError: {
+    borderColor: theme.colors.error,
+    backgroundColor: theme.colors.errorContainer,
+  },
+  rowCardExcluded: {
+    opacity: 0.5,
+  },
+  rowBody: {
+    flex: 1,
+    paddingTop: spacing.xs,
+  },
+  rowNumber: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  rowError: {
+    color: theme.colors.error,
+    marginTop: 2,
+  },
+  editButton: {
+    padding: spacing.sm,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.outlineVariant,
+  },
+  dialogScrollArea: {
+    maxHeight: 420,
+    paddingHorizontal: spacing.md,
+  },
+  dialogInput: {
+    marginBottom: spacing.sm,
+  },
+});
+
+export default ImportPreviewModal;
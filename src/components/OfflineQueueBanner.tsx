@@ -0,0 +1,138 @@
+/**
+ * OfflineQueueBanner Component
+ * Lists enquiry/booking mutations waiting in the offline outbox with retry and discard controls
+ */
+
+import React from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Card, Text, Button, IconButton, ActivityIndicator } from 'react-native-paper';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+import { QueuedEntityType, QueuedMutation } from '../services/offlineQueue.service';
+import { formatDateTime } from '../utils/formatting';
+import { spacing, borderRadius } from '../utils/theme';
+
+interface OfflineQueueBannerProps {
+  entityType: QueuedEntityType;
+}
+
+export function OfflineQueueBanner({ entityType }: OfflineQueueBannerProps) {
+  const { getItems, syncing, replay, retry, discard } = useOfflineQueue();
+  const items = getItems(entityType);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const queuedCount = items.filter(item => item.status === 'queued').length;
+  const failedCount = items.length - queuedCount;
+
+  const handleDiscard = (item: QueuedMutation) => {
+    Alert.alert(
+      'Discard Change',
+      `"${item.label}" has not been sent to the server. Discard it permanently?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => discard(item.id) },
+      ]
+    );
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>
+              {failedCount > 0 ? '⚠️ Changes need attention' : '📶 Waiting for connection'}
+            </Text>
+            <Text style={styles.subtitle}>
+              {queuedCount} pending{failedCount > 0 ? ` • ${failedCount} failed` : ''}
+            </Text>
+          </View>
+          {syncing ? (
+            <ActivityIndicator size="small" color="#3B82F6" />
+          ) : (
+            <Button mode="text" compact onPress={() => replay()} disabled={queuedCount === 0}>
+              Sync now
+            </Button>
+          )}
+        </View>
+
+        {items.map(item => (
+          <View key={item.id} style={styles.item}>
+            <View style={styles.itemText}>
+              <Text style={styles.itemLabel} numberOfLines={1}>
+                {item.label}
+              </Text>
+              <Text
+                style={[styles.itemMeta, item.status === 'failed' && styles.itemError]}
+                numberOfLines={2}
+              >
+                {item.status === 'failed'
+                  ? item.lastError || 'Rejected by server'
+                  : `Saved ${formatDateTime(item.createdAt)}`}
+              </Text>
+            </View>
+            {item.status === 'failed' && (
+              <IconButton icon="refresh" size={18} onPress={() => retry(item.id)} disabled={syncing} />
+            )}
+            <IconButton icon="close" size={18} onPress={() => handleDiscard(item)} disabled={syncing} />
+          </View>
+        ))}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: spacing.md,
+    borderRadius: borderRadius.lg,
+    backgroundColor: '#FFFBEB',
+    borderWidth: 1,
+    borderColor: '#FCD34D',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#92400E',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#B45309',
+    marginTop: 2,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#FDE68A',
+    paddingTop: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0F172A',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  itemError: {
+    color: '#DC2626',
+  },
+});
@@ -16,6 +16,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { bookingAPI } from '../api/bookings';
 import { enquiryAPI } from '../api/enquiries';
+import { fetchAllPages } from '../api/client';
 import { useAuth } from '../context/AuthContext';
 import { getUserRole } from '../utils/roleUtils';
 
@@ -79,15 +80,10 @@ export const StatusSummaryCard: React.FC<StatusSummaryCardProps> = ({
           response = await bookingAPI.getBookingStatusSummary();
         } else {
           // Customer advisors use their own bookings endpoint
-          response = await bookingAPI.getMyBookings({
-            page: 1,
-            limit: 1000,
-            dealershipId,
-            dealershipCode,
-            scope,
-          });
+          const { items: bookings } = await fetchAllPages((page, limit) =>
+            bookingAPI.getMyBookings({ page, limit, dealershipId, dealershipCode, scope })
+          );
           // Transform the response to match expected format
-          const bookings = response.data?.bookings || [];
           const transformedData = {
             totalBookings: bookings.length,
             recentBookings: bookings.filter((b: any) => {
@@ -120,15 +116,10 @@ export const StatusSummaryCard: React.FC<StatusSummaryCardProps> = ({
           response = await enquiryAPI.getEnquiryStatusSummary();
         } else {
           // Customer advisors use their own enquiries endpoint
-          response = await enquiryAPI.getEnquiries({
-            page: 1,
-            limit: 1000,
-            dealershipId,
-            dealershipCode,
-            scope,
-          });
+          const { items: enquiries } = await fetchAllPages((page, limit) =>
+            enquiryAPI.getEnquiries({ page, limit, dealershipId, dealershipCode, scope })
+          );
           // Transform the response to match expected format
-          const enquiries = response.data?.enquiries || [];
           const transformedData = {
             totalEnquiries: enquiries.length,
             recentEnquiries: enquiries.filter((e: any) => {
@@ -1,9 +1,11 @@
 /**
  * Upload Button Component
- * Handles Excel/CSV file upload for bulk data import
+ * Handles Excel/CSV file upload for bulk data import. Files are parsed on device and
+ * reviewed in ImportPreviewModal before the cleaned rows are uploaded; imported enquiries
+ * can be spread across active customer advisors.
  */
 
-import React, { useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -12,13 +14,58 @@ import {
   Alert,
   ActivityIndicator,
   Modal,
+  ScrollView,
 } from 'react-native';
+import { Chip } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
 import * as DocumentPicker from 'expo-document-picker';
 import { enquiryAPI } from '../api/enquiries';
+import { bookingAPI } from '../api/bookings';
+import { useCatalog } from '../context/CatalogContext';
+import { useDealership } from '../context/DealershipContext';
+import { useAuth } from '../context/AuthContext';
+import { useTeam } from '../context/TeamContext';
+import { getCustomerIndex } from '../services/customer.service';
+import { EnquirySource } from '../services/types';
+import { ImportPreviewModal } from './ImportPreviewModal';
+import {
+  SpreadsheetData,
+  SUPPORTED_IMPORT_EXTENSIONS,
+  getFileExtension,
+  readSpreadsheet,
+  writeImportCsv,
+} from '../services/spreadsheetImport.service';
+import {
+  BOOKING_IMPORT_FIELDS,
+  BookingImportField,
+  BookingImportRow,
+  buildBookingImportRows,
+  buildVariantLookup,
+  toBookingImportTable,
+} from '../utils/bookingImport';
+import {
+  ENQUIRY_IMPORT_FIELDS,
+  EnquiryImportField,
+  EnquiryImportRow,
+  buildEnquiryImportRows,
+  toEnquiryImportTable,
+  toImportDate,
+} from '../utils/enquiryImport';
+import {
+  LEAD_ASSIGNMENT_STRATEGY_LABELS,
+  LeadAssignmentStrategy,
+  getAssignableAdvisors,
+  planLeadAssignment,
+} from '../utils/leadAssignment';
+import { CustomerIndex } from '../utils/customerIndex';
+import { formatEnquirySource } from '../utils/formatting';
+import { ColumnMapping } from '../utils/spreadsheetImport';
+
+const ENQUIRY_SOURCES = Object.values(EnquirySource);
+const ASSIGNMENT_STRATEGIES = Object.keys(LEAD_ASSIGNMENT_STRATEGY_LABELS) as LeadAssignmentStrategy[];
 
 interface UploadButtonProps {
-  type: 'enquiries';
+  type: 'enquiries' | 'bookings';
   onUploadStart?: () => void;
   onUploadComplete?: (result: any) => void;
   onUploadError?: (error: any) => void;
@@ -36,6 +83,48 @@ export const UploadButton: React.FC<UploadButtonProps> = ({
   const [showProgress, setShowProgress] = useState(false);
   const [progress, setProgress] = useState(0);
   const [importId, setImportId] = useState<string | null>(null);
+  const [previewData, setPreviewData] = useState<SpreadsheetData | null>(null);
+  // Existing customers, loaded with each enquiry file to flag leads that are already open
+  const [customerIndex, setCustomerIndex] = useState<CustomerIndex | null>(null);
+  const [defaultSource, setDefaultSource] = useState<EnquirySource>(EnquirySource.DIGITAL);
+  const [assignmentStrategy, setAssignmentStrategy] = useState<LeadAssignmentStrategy | null>(null);
+  const { catalog } = useCatalog();
+  const { state: authState } = useAuth();
+  const { teamMembers } = useTeam();
+  const { enquiryAssignmentConfig } = useDealership();
+  const user = authState.user;
+
+  const variantLookup = useMemo(() => buildVariantLookup(catalog), [catalog]);
+  const buildBookingRows = useCallback(
+    (rows: string[][], mapping: ColumnMapping<BookingImportField>) =>
+      buildBookingImportRows(rows, mapping, variantLookup),
+    [variantLookup]
+  );
+
+  const buildEnquiryRows = useCallback(
+    (rows: string[][], mapping: ColumnMapping<EnquiryImportField>) => {
+      // Same defaults as a new enquiry: both dates start at today
+      const today = toImportDate(new Date());
+      return buildEnquiryImportRows(rows, mapping, {
+        defaultSource,
+        defaultExpectedBookingDate: today,
+        defaultFollowUpDate: today,
+        customers: customerIndex,
+        today,
+      });
+    },
+    [defaultSource, customerIndex]
+  );
+
+  // Only active advisors take new leads; inactive advisors are skipped
+  const { available: advisors, unavailable: unavailableAdvisors } = useMemo(
+    () =>
+      getAssignableAdvisors(
+        teamMembers,
+        customerIndex ? Array.from(customerIndex.values()).flatMap(profile => profile.enquiries) : []
+      ),
+    [teamMembers, customerIndex]
+  );
 
   const pickDocument = async () => {
     try {
@@ -51,10 +140,9 @@ export const UploadButton: React.FC<UploadButtonProps> = ({
       const file = result.assets[0];
       
       // Validate file type
-      const validExtensions = ['.xlsx', '.xls', '.csv'];
-      const fileExtension = file.name?.split('.').pop()?.toLowerCase();
+      const fileExtension = getFileExtension(file.name);
       
-      if (!fileExtension || !validExtensions.includes(`.${fileExtension}`)) {
+      if (!SUPPORTED_IMPORT_EXTENSIONS.includes(fileExtension)) {
         Alert.alert(
           'Invalid File Type',
           'Please select an Excel (.xlsx, .xls) or CSV (.csv) file.',
@@ -63,7 +151,7 @@ export const UploadButton: React.FC<UploadButtonProps> = ({
         return;
       }
 
-      await handleUpload(file);
+      await openPreview(file);
     } catch (error: any) {
       console.error('Error picking document:', error);
       Alert.alert('Error', 'Failed to pick document. Please try again.');
@@ -71,6 +159,92 @@ export const UploadButton: React.FC<UploadButtonProps> = ({
     }
   };
 
+  const openPreview = async (file: DocumentPicker.DocumentPickerAsset) => {
+    try {
+      setUploading(true);
+      const [data, customers] = await Promise.all([
+        readSpreadsheet(file),
+        type === 'enquiries' ? loadCustomers() : Promise.resolve(null),
+      ]);
+      setCustomerIndex(customers);
+      setPreviewData(data);
+    } catch (error: any) {
+      console.error('Error reading spreadsheet:', error);
+      Alert.alert('Unable to Read File', error.message || 'The file could not be read. Please check it and try again.');
+      onUploadError?.(error);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Duplicate detection is best effort: the import still works without the index
+  const loadCustomers = async (): Promise<CustomerIndex | null> => {
+    try {
+      return await getCustomerIndex({
+        userId: user?.firebaseUid,
+        userRole: user?.role?.name,
+        dealershipId: user?.dealership?.id || user?.dealershipId || undefined,
+        dealershipCode: user?.dealership?.code,
+        forceRefresh: true,
+      });
+    } catch (error: any) {
+      console.warn('⚠️ Could not load existing customers for duplicate check:', error.message);
+      return null;
+    }
+  };
+
+  const handleConfirmBookings = (rows: BookingImportRow[]) =>
+    uploadReviewedTable(toBookingImportTable(rows.map(row => row.record)));
+
+  const handleConfirmEnquiries = (rows: EnquiryImportRow[]) => {
+    // Model expertise and source rules come from the dealership's assignment settings
+    const plan = assignmentStrategy
+      ? planLeadAssignment(
+          rows.map(row => row.record),
+          advisors,
+          { ...enquiryAssignmentConfig, strategy: assignmentStrategy }
+        )
+      : [];
+    const records = rows.map((row, index) => ({
+      ...row.record,
+      assignedToUserId: plan[index]?.advisor?.id,
+    }));
+    return uploadReviewedTable(toEnquiryImportTable(records));
+  };
+
+  const uploadReviewedTable = async (table: string[][]) => {
+    if (!previewData) return;
+    try {
+      const reviewedFile = writeImportCsv(table, previewData.fileName);
+      setPreviewData(null);
+      await handleUpload(reviewedFile);
+    } catch (error: any) {
+      console.error('Error preparing reviewed rows:', error);
+      Alert.alert('Error', error.message || 'Failed to prepare the reviewed rows for upload.');
+      onUploadError?.(error);
+    }
+  };
+
+  const uploadFile = (file: { uri: string; name: string; type: string }) =>
+    type === 'bookings' ? bookingAPI.uploadBulkBookings(file) : enquiryAPI.uploadBulkEnquiries(file);
+
+  // Booking import progress uses upper-case statuses and *Records counts
+  const fetchImportProgress = async (id: string) => {
+    if (type === 'enquiries') {
+      return (await enquiryAPI.getImportProgress(id)).data;
+    }
+    const progress = (await bookingAPI.getImportProgress(id)).data;
+    return progress
+      ? {
+          status: progress.status.toLowerCase(),
+          totalRows: progress.totalRecords,
+          processedRows: progress.processedRecords,
+          successfulRows: progress.successfulRecords,
+          failedRows: progress.failedRecords,
+        }
+      : undefined;
+  };
+
   const handleUpload = async (file: any) => {
     try {
       setUploading(true);
@@ -80,11 +254,11 @@ export const UploadButton: React.FC<UploadButtonProps> = ({
       const fileObject = {
         uri: file.uri,
         name: file.name || 'upload.xlsx',
-        type: file.mimeType || 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        type: file.mimeType || file.type || 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       };
 
       // Upload file
-      const response = await enquiryAPI.uploadBulkEnquiries(fileObject);
+      const response: any = await uploadFile(fileObject);
       
       if (response.data?.importId) {
         setImportId(response.data.importId);
@@ -119,8 +293,7 @@ export const UploadButton: React.FC<UploadButtonProps> = ({
         attempts++;
         
         try {
-          const progressResponse = await enquiryAPI.getImportProgress(id);
-          const progressData = progressResponse.data;
+          const progressData = await fetchImportProgress(id);
 
           if (progressData) {
             const progressPercent = progressData.totalRows > 0
@@ -136,7 +309,7 @@ export const UploadButton: React.FC<UploadButtonProps> = ({
               
               Alert.alert(
                 'Import Completed',
-                `Successfully imported ${progressData.successfulRows} enquiries. ${progressData.failedRows} failed.`,
+                `Successfully imported ${progressData.successfulRows} ${type}. ${progressData.failedRows} failed.`,
                 [{ text: 'OK', onPress: () => {
                   onUploadComplete?.(progressData);
                 }}]
@@ -182,6 +355,44 @@ export const UploadButton: React.FC<UploadButtonProps> = ({
     }
   };
 
+  const renderEnquirySettings = () => (
+    <View>
+      <Text style={styles.settingsLabel}>Source for rows without one</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {ENQUIRY_SOURCES.map(source => (
+          <Chip key={source} compact selected={defaultSource === source} onPress={() => setDefaultSource(source)}>
+            {formatEnquirySource(source)}
+          </Chip>
+        ))}
+      </ScrollView>
+      <Text style={styles.settingsLabel}>Assign to advisors</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        <Chip compact selected={!assignmentStrategy} onPress={() => setAssignmentStrategy(null)}>
+          Don't assign
+        </Chip>
+        {ASSIGNMENT_STRATEGIES.map(strategy => (
+          <Chip
+            key={strategy}
+            compact
+            selected={assignmentStrategy === strategy}
+            disabled={advisors.length === 0}
+            onPress={() => setAssignmentStrategy(strategy)}
+          >
+            {LEAD_ASSIGNMENT_STRATEGY_LABELS[strategy]}
+          </Chip>
+        ))}
+      </ScrollView>
+      <Text style={styles.settingsHint}>
+        {advisors.length === 0
+          ? 'No active customer advisors to assign to. Imported enquiries stay unassigned.'
+          : assignmentStrategy
+            ? `Rows are shared between ${advisors.length} active advisors` +
+              (unavailableAdvisors.length > 0 ? `; ${unavailableAdvisors.length} inactive are skipped.` : '.')
+            : 'Imported enquiries stay unassigned.'}
+      </Text>
+    </View>
+  );
+
   return (
     <>
       <TouchableOpacity
@@ -234,6 +445,31 @@ export const UploadButton: React.FC<UploadButtonProps> = ({
           </View>
         </View>
       </Modal>
+
+      {type === 'bookings' ? (
+        <ImportPreviewModal
+          visible={!!previewData}
+          title="Import Bookings"
+          data={previewData}
+          fields={BOOKING_IMPORT_FIELDS}
+          buildRows={buildBookingRows}
+          summaryFields={['customerName', 'customerPhone', 'variant']}
+          onCancel={() => setPreviewData(null)}
+          onConfirm={handleConfirmBookings}
+        />
+      ) : (
+        <ImportPreviewModal
+          visible={!!previewData}
+          title="Import Enquiries"
+          data={previewData}
+          fields={ENQUIRY_IMPORT_FIELDS}
+          buildRows={buildEnquiryRows}
+          summaryFields={['customerName', 'customerContact', 'model']}
+          settings={renderEnquirySettings()}
+          onCancel={() => setPreviewData(null)}
+          onConfirm={handleConfirmEnquiries}
+        />
+      )}
     </>
   );
 };
@@ -249,6 +485,20 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     gap: 8,
   },
+  settingsLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+    marginBottom: 6,
+  },
+  chipRow: {
+    gap: 8,
+    paddingBottom: 10,
+  },
+  settingsHint: {
+    fontSize: 12,
+    color: '#64748B',
+  },
   uploadButtonDisabled: {
     opacity: 0.6,
   },
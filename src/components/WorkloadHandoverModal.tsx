@@ -0,0 +1,374 @@
+/**
+ * Workload Handover Modal
+ * Lists an advisor's open enquiries and undelivered bookings, proposes new owners from the
+ * rest of the team, then reassigns and records a handover remark on every record.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, StyleSheet, Modal, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { Text, Button, Chip, Icon, Menu, Portal, TextInput, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { theme, spacing, borderRadius } from '../utils/theme';
+import { enquiryAPI } from '../api/enquiries';
+import { bookingAPI } from '../api/bookings';
+import { fetchAllPages } from '../api/client';
+import { remarksAPI } from '../api/remarks';
+import { useAuth } from '../context/AuthContext';
+import { useTeam, type TeamMember } from '../context/TeamContext';
+import { Booking, Enquiry } from '../services/types';
+import {
+  HandoverAssignments,
+  HandoverItem,
+  buildHandoverRemark,
+  countOpenWorkByAdvisor,
+  getHandoverKey,
+  getOpenWork,
+  groupHandover,
+  proposeHandover,
+} from '../utils/workloadHandover';
+
+// Safety cap on pages read per entity list; hitting it is reported as an incomplete handover
+const MAX_WORK_PAGES = 50;
+
+interface WorkloadHandoverModalProps {
+  visible: boolean;
+  member: TeamMember;
+  onDismiss: () => void;
+  onCompleted?: (reassigned: number) => void;
+}
+
+export function WorkloadHandoverModal({
+  visible,
+  member,
+  onDismiss,
+  onCompleted,
+}: WorkloadHandoverModalProps): React.JSX.Element {
+  const { state: authState } = useAuth();
+  const { teamMembers } = useTeam();
+  const user = authState.user;
+
+  const [enquiries, setEnquiries] = useState<Enquiry[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Some of the dealership's records could not be loaded, so the list may be missing work
+  const [incomplete, setIncomplete] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [note, setNote] = useState('');
+  // Manual changes to the proposed owners
+  const [overrides, setOverrides] = useState<HandoverAssignments>({});
+  const [openMenu, setOpenMenu] = useState<string | null>(null);
+
+  const loadWork = useCallback(async () => {
+    setLoading(true);
+    const scope = {
+      dealershipId: user?.dealership?.id || user?.dealershipId || undefined,
+      dealershipCode: user?.dealership?.code,
+    };
+    const [enquiriesResult, bookingsResult] = await Promise.allSettled([
+      fetchAllPages((page, limit) => enquiryAPI.getEnquiries({ ...scope, page, limit }), { maxPages: MAX_WORK_PAGES }),
+      fetchAllPages((page, limit) => bookingAPI.getBookings({ ...scope, page, limit }), { maxPages: MAX_WORK_PAGES }),
+    ]);
+
+    if (enquiriesResult.status === 'rejected' || bookingsResult.status === 'rejected') {
+      console.error('Error loading open work for handover:', enquiriesResult, bookingsResult);
+      Alert.alert('Error', 'Failed to load all open work. Some records may be missing from the list.');
+    }
+    const enquiryPages = enquiriesResult.status === 'fulfilled' ? enquiriesResult.value : null;
+    const bookingPages = bookingsResult.status === 'fulfilled' ? bookingsResult.value : null;
+    setEnquiries(enquiryPages?.items || []);
+    setBookings(bookingPages?.items || []);
+    setIncomplete(!enquiryPages?.complete || !bookingPages?.complete);
+    setLoading(false);
+  }, [user?.dealership?.id, user?.dealership?.code, user?.dealershipId]);
+
+  const handleShow = () => {
+    setOverrides({});
+    setNote('');
+    loadWork();
+  };
+
+  const items = useMemo(() => getOpenWork(member.id, enquiries, bookings), [member.id, enquiries, bookings]);
+
+  // Active advisors other than the one handing over
+  const advisors = useMemo(() => {
+    const load = countOpenWorkByAdvisor(enquiries, bookings);
+    return teamMembers
+      .filter(other => other.id !== member.id && other.role === 'CUSTOMER_ADVISOR' && other.status === 'active')
+      .map(other => ({ id: other.id, name: other.name, openItems: load[other.id] || 0 }));
+  }, [teamMembers, member.id, enquiries, bookings]);
+
+  const assignments = useMemo(
+    () => ({ ...proposeHandover(items, advisors), ...overrides }),
+    [items, advisors, overrides]
+  );
+
+  const advisorName = (advisorId?: string) =>
+    advisors.find(advisor => advisor.id === advisorId)?.name || 'Choose advisor';
+
+  const assignedCount = items.filter(item => assignments[getHandoverKey(item)]).length;
+
+  const handleApply = async () => {
+    const groups = groupHandover(items, assignments);
+    if (groups.length === 0) return;
+
+    const itemName = (type: HandoverItem['type'], id: string) =>
+      items.find(item => item.type === type && item.id === id)?.customerName || id;
+
+    try {
+      setApplying(true);
+      let reassigned = 0;
+      const failures: string[] = [];
+
+      for (const group of groups) {
+        const toName = advisorName(group.advisorId);
+        const remark = buildHandoverRemark(member.name, toName, note);
+        const [enquiryResult, bookingResult] = await Promise.allSettled([
+          group.enquiryIds.length > 0 ? enquiryAPI.bulkAssignEnquiries(group.enquiryIds, group.advisorId) : null,
+          group.bookingIds.length > 0 ? bookingAPI.bulkAssignBookings(group.bookingIds, group.advisorId) : null,
+        ]);
+
+        // Only records the server reports as assigned count as moved
+        const enquiryAssignments = enquiryResult.status === 'fulfilled' ? enquiryResult.value?.data?.assignments || [] : [];
+        const bookingAssignments = bookingResult.status === 'fulfilled' ? bookingResult.value?.data?.assignments || [] : [];
+        const movedEnquiries = enquiryAssignments.filter(entry => entry.success).map(entry => entry.enquiryId);
+        const movedBookings = bookingAssignments.filter(entry => entry.success).map(entry => entry.bookingId);
+
+        const enquiryErrors = new Map(enquiryAssignments.map(entry => [entry.enquiryId, entry.error]));
+        const bookingErrors = new Map(bookingAssignments.map(entry => [entry.bookingId, entry.error]));
+        const requestError = (result: PromiseSettledResult<unknown>) =>
+          result.status === 'rejected' ? result.reason?.message : undefined;
+        group.enquiryIds
+          .filter(id => !movedEnquiries.includes(id))
+          .forEach(id => {
+            const reason = enquiryErrors.get(id) || requestError(enquiryResult) || 'Not assigned';
+            failures.push(`${itemName('enquiry', id)} (enquiry): ${reason}`);
+          });
+        group.bookingIds
+          .filter(id => !movedBookings.includes(id))
+          .forEach(id => {
+            const reason = bookingErrors.get(id) || requestError(bookingResult) || 'Not assigned';
+            failures.push(`${itemName('booking', id)} (booking): ${reason}`);
+          });
+
+        reassigned += movedEnquiries.length + movedBookings.length;
+        if (movedEnquiries.length + movedBookings.length === 0) continue;
+
+        // The remark is best effort; the reassignment has already happened. The bulk-assign
+        // endpoints notify the new owner themselves.
+        await Promise.allSettled([
+          ...movedEnquiries.map(id => remarksAPI.addEnquiryRemark(id, remark)),
+          ...movedBookings.map(id => remarksAPI.addBookingRemark(id, remark)),
+        ]);
+      }
+
+      const messages = [
+        failures.length > 0
+          ? `${reassigned} records reassigned, ${failures.length} failed:\n${failures.join('\n')}\n\nOpen the handover again to retry the rest.`
+          : `${reassigned} records reassigned from ${member.name}.`,
+      ];
+      if (incomplete) {
+        messages.push(`Not all of ${member.name}'s records could be loaded, so some work may still be assigned to them.`);
+      }
+      Alert.alert(
+        failures.length > 0 || incomplete ? 'Handover Incomplete' : 'Handover Complete',
+        messages.join('\n\n')
+      );
+      onCompleted?.(reassigned);
+      onDismiss();
+    } catch (error: any) {
+      console.error('Error applying handover:', error);
+      Alert.alert('Error', error.message || 'Failed to reassign work');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const renderItem = (item: HandoverItem) => {
+    const key = getHandoverKey(item);
+    return (
+      <View key={key} style={styles.itemRow}>
+        <View style={styles.itemInfo}>
+          <Text variant="bodyMedium" numberOfLines={1}>{item.customerName}</Text>
+          <Text variant="bodySmall" style={styles.muted} numberOfLines={1}>
+            {item.type === 'enquiry' ? 'Enquiry' : 'Booking'} · {item.vehicle} · {item.status}
+          </Text>
+        </View>
+        <Menu
+          visible={openMenu === key}
+          onDismiss={() => setOpenMenu(null)}
+          anchor={
+            <Button
+              mode="outlined"
+              compact
+              icon="chevron-down"
+              contentStyle={styles.menuButtonContent}
+              onPress={() => setOpenMenu(key)}
+            >
+              {advisorName(assignments[key])}
+            </Button>
+          }
+        >
+          {advisors.map(advisor => (
+            <Menu.Item
+              key={advisor.id}
+              title={`${advisor.name} (${advisor.openItems} open)`}
+              onPress={() => {
+                setOverrides(prev => ({ ...prev, [key]: advisor.id }));
+                setOpenMenu(null);
+              }}
+            />
+          ))}
+        </Menu>
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator />
+        </View>
+      );
+    }
+
+    const enquiryCount = items.filter(item => item.type === 'enquiry').length;
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.summaryRow}>
+          <Chip compact icon="account-question">{enquiryCount} open enquiries</Chip>
+          <Chip compact icon="car">{items.length - enquiryCount} undelivered bookings</Chip>
+        </View>
+        {advisors.length === 0 && (
+          <Text variant="bodyMedium" style={styles.error}>
+            No other active customer advisors to hand over to.
+          </Text>
+        )}
+        {incomplete && (
+          <Text variant="bodyMedium" style={styles.error}>
+            Not all records could be loaded. This handover may miss some of {member.name}'s work.
+          </Text>
+        )}
+        {items.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.muted}>{member.name} has no open work.</Text>
+        ) : (
+          items.map(renderItem)
+        )}
+        <TextInput
+          mode="outlined"
+          label="Handover note (optional)"
+          placeholder="Added to the remark on every record"
+          value={note}
+          onChangeText={setNote}
+          multiline
+          style={styles.noteInput}
+        />
+      </ScrollView>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onShow={handleShow} onRequestClose={onDismiss}>
+      {/* Menus portal into the modal; the app-level host renders behind it */}
+      <Portal.Host>
+        <SafeAreaView style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onDismiss} disabled={applying}>
+              <Icon source="close" size={24} color={theme.colors.onSurface} />
+            </TouchableOpacity>
+            <View style={styles.headerText}>
+              <Text variant="titleLarge">Reassign Open Work</Text>
+              <Text variant="bodySmall" style={styles.muted}>From {member.name}</Text>
+            </View>
+          </View>
+
+          {renderContent()}
+
+          <View style={styles.footer}>
+            <Button mode="outlined" onPress={onDismiss} disabled={applying}>
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              loading={applying}
+              disabled={applying || loading || assignedCount === 0}
+              onPress={handleApply}
+            >
+              Reassign {assignedCount}
+            </Button>
+          </View>
+        </SafeAreaView>
+      </Portal.Host>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outlineVariant,
+  },
+  headerText: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: spacing.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  muted: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  error: {
+    color: theme.colors.error,
+    marginBottom: spacing.sm,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.outlineVariant,
+    padding: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  menuButtonContent: {
+    flexDirection: 'row-reverse',
+  },
+  noteInput: {
+    marginTop: spacing.md,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.outlineVariant,
+  },
+});
+
+export default WorkloadHandoverModal;
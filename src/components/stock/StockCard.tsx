@@ -6,30 +6,21 @@
 import React from 'react';
 import { View, StyleSheet, TouchableOpacity } from 'react-native';
 import { Text, Card, Chip, Icon } from 'react-native-paper';
-import { Vehicle } from '../../types/stock';
+import { Stock } from '../../types/stock';
+import { getStockLevel, STOCK_LEVEL_COLORS, STOCK_LEVEL_LABELS } from '../../utils/inventory';
 
 interface StockCardProps {
-  vehicle: Vehicle;
+  vehicle: Stock;
   onPress?: () => void;
 }
 
 export function StockCard({ vehicle, onPress }: StockCardProps) {
-  const isInStock = vehicle.availableStock > 0;
-  const stockPercentage = vehicle.totalStock > 0 
-    ? Math.round((vehicle.availableStock / vehicle.totalStock) * 100) 
-    : 0;
+  const stockLevel = getStockLevel(vehicle);
+  const isInStock = stockLevel !== 'out_of_stock';
 
-  const getStockBadgeColor = () => {
-    if (!isInStock) return '#EF4444'; // Red for out of stock
-    if (stockPercentage <= 30) return '#F59E0B'; // Orange for low stock
-    return '#10B981'; // Green for good stock
-  };
+  const getStockBadgeColor = () => STOCK_LEVEL_COLORS[stockLevel];
 
-  const getStockStatusText = () => {
-    if (!isInStock) return 'Out of Stock';
-    if (stockPercentage <= 30) return 'Low Stock';
-    return 'In Stock';
-  };
+  const getStockStatusText = () => STOCK_LEVEL_LABELS[stockLevel];
 
   return (
     <TouchableOpacity onPress={onPress} activeOpacity={0.7}>
@@ -59,7 +50,7 @@ export function StockCard({ vehicle, onPress }: StockCardProps) {
                 />
               )}
             >
-              {vehicle.availableStock}
+              {vehicle.availableQuantity}
             </Chip>
           </View>
 
@@ -85,7 +76,7 @@ export function StockCard({ vehicle, onPress }: StockCardProps) {
               </Text>
             </View>
 
-            {vehicle.dealerCode && (
+            {(vehicle.location || vehicle.dealerCode) && (
               <View style={styles.detailRow}>
                 <Icon source="map-marker" size={16} color="#6B7280" />
                 <Text variant="bodySmall" style={styles.detailText}>
@@ -100,7 +91,7 @@ export function StockCard({ vehicle, onPress }: StockCardProps) {
                   Total
                 </Text>
                 <Text variant="bodyMedium" style={styles.stockValue}>
-                  {vehicle.totalStock}
+                  {vehicle.quantity}
                 </Text>
               </View>
               
@@ -109,17 +100,17 @@ export function StockCard({ vehicle, onPress }: StockCardProps) {
                   Available
                 </Text>
                 <Text variant="bodyMedium" style={[styles.stockValue, { color: getStockBadgeColor() }]}>
-                  {vehicle.availableStock}
+                  {vehicle.availableQuantity}
                 </Text>
               </View>
               
-              {vehicle.allocatedStock !== undefined && vehicle.allocatedStock > 0 && (
+              {vehicle.reservedQuantity > 0 && (
                 <View style={styles.stockInfoItem}>
                   <Text variant="bodySmall" style={styles.stockLabel}>
-                    Allocated
+                    Reserved
                   </Text>
                   <Text variant="bodyMedium" style={styles.stockValue}>
-                    {vehicle.allocatedStock}
+                    {vehicle.reservedQuantity}
                   </Text>
                 </View>
               )}
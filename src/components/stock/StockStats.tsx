@@ -15,7 +15,7 @@ interface StockStatsProps {
 
 export function StockStats({ stats, loading = false }: StockStatsProps) {
   const stockPercentage = stats.totalVehicles > 0
-    ? (stats.inStock / stats.totalVehicles)
+    ? (stats.availableVehicles / stats.totalVehicles)
     : 0;
 
   return (
@@ -49,10 +49,10 @@ export function StockStats({ stats, loading = false }: StockStatsProps) {
             </View>
             <View style={styles.statTextContainer}>
               <Text variant="bodySmall" style={styles.statLabel}>
-                In Stock
+                Available
               </Text>
               <Text variant="headlineSmall" style={[styles.statValue, { color: '#10B981' }]}>
-                {stats.inStock}
+                {stats.availableVehicles}
               </Text>
             </View>
           </View>
@@ -66,7 +66,7 @@ export function StockStats({ stats, loading = false }: StockStatsProps) {
                 Out of Stock
               </Text>
               <Text variant="headlineSmall" style={[styles.statValue, { color: '#EF4444' }]}>
-                {stats.outOfStock}
+                {stats.outOfStockEntries}
               </Text>
             </View>
           </View>
@@ -102,7 +102,7 @@ export function StockStats({ stats, loading = false }: StockStatsProps) {
                   {model.variant}
                 </Text>
                 <Text variant="bodySmall" style={styles.topModelStock}>
-                  {model.totalStock} units
+                  {model.quantity} units
                 </Text>
               </View>
             ))}
@@ -12,8 +12,8 @@ import {
   Auth,
   getReactNativePersistence
 } from 'firebase/auth';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import { secureStorage } from '../services/secureStorage.service';
 import { appConfig } from './env';
 
 // Firebase configuration from environment
@@ -38,15 +38,16 @@ try {
   throw new Error('Firebase initialization failed. Please check your configuration.');
 }
 
-// Initialize Firebase Auth with AsyncStorage persistence
+// Initialize Firebase Auth with keychain/keystore persistence
 let auth: Auth;
 try {
-  // Initialize auth with AsyncStorage persistence for React Native
+  // The persisted user carries the long-lived refresh token, so it goes to secure storage.
+  // A session an older build saved in AsyncStorage is moved across on first read.
   auth = initializeAuth(app, {
-    persistence: getReactNativePersistence(AsyncStorage)
+    persistence: getReactNativePersistence(secureStorage)
   });
   if (__DEV__) {
-    console.log('✅ Firebase Auth initialized with AsyncStorage persistence');
+    console.log('✅ Firebase Auth initialized with secure storage persistence');
   }
 } catch (error) {
   // If already initialized, get the existing instance
@@ -0,0 +1,95 @@
+/**
+ * Pricing Configuration
+ * GST slabs, state codes and dealer discount limits used by the on-road price engine
+ */
+
+/**
+ * GST slab applied to a passenger vehicle.
+ * Rates are fractions (0.18 = 18%). Compensation cess is kept as a separate rate so
+ * slabs can carry it when applicable; it is 0 under the GST 2.0 rates (22 Sep 2025).
+ */
+export interface GstSlab {
+  id: string;
+  label: string;
+  gstRate: number;
+  cessRate: number;
+}
+
+export const GST_SLABS: GstSlab[] = [
+  {
+    id: 'SMALL_CAR',
+    label: 'Small car (≤4m, petrol ≤1200cc / diesel ≤1500cc)',
+    gstRate: 0.18,
+    cessRate: 0,
+  },
+  {
+    id: 'MID_LARGE_CAR',
+    label: 'Mid-size / large car & SUV',
+    gstRate: 0.4,
+    cessRate: 0,
+  },
+  {
+    id: 'ELECTRIC',
+    label: 'Electric vehicle',
+    gstRate: 0.05,
+    cessRate: 0,
+  },
+];
+
+export const DEFAULT_GST_SLAB_ID = 'MID_LARGE_CAR';
+
+/**
+ * TCS under section 206C(1F): 1% on motor vehicles sold above ₹10 lakh
+ */
+export const TCS_RATE = 0.01;
+export const TCS_THRESHOLD = 1000000;
+
+/**
+ * Upper limit for combined dealer discounts, as a fraction of the ex-showroom price
+ */
+export const MAX_DEALER_DISCOUNT_RATE = 0.1;
+
+/**
+ * GST state codes (first two digits of a GSTIN), keyed by state / UT name.
+ * Used to decide between CGST+SGST (intra-state) and IGST (inter-state) supply.
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  'Jammu and Kashmir': '01',
+  'Himachal Pradesh': '02',
+  Punjab: '03',
+  Chandigarh: '04',
+  Uttarakhand: '05',
+  Haryana: '06',
+  Delhi: '07',
+  Rajasthan: '08',
+  'Uttar Pradesh': '09',
+  Bihar: '10',
+  Sikkim: '11',
+  'Arunachal Pradesh': '12',
+  Nagaland: '13',
+  Manipur: '14',
+  Mizoram: '15',
+  Tripura: '16',
+  Meghalaya: '17',
+  Assam: '18',
+  'West Bengal': '19',
+  Jharkhand: '20',
+  Odisha: '21',
+  Chhattisgarh: '22',
+  'Madhya Pradesh': '23',
+  Gujarat: '24',
+  'Dadra and Nagar Haveli and Daman and Diu': '26',
+  Maharashtra: '27',
+  Karnataka: '29',
+  Goa: '30',
+  Lakshadweep: '31',
+  Kerala: '32',
+  'Tamil Nadu': '33',
+  Puducherry: '34',
+  'Andaman and Nicobar Islands': '35',
+  Telangana: '36',
+  'Andhra Pradesh': '37',
+  Ladakh: '38',
+};
+
+export const INDIAN_STATES = Object.keys(GST_STATE_CODES);
@@ -0,0 +1,170 @@
+/**
+ * App Lock Context
+ * Locks the app behind the user's PIN or biometrics when a restored session is opened
+ * and when the app returns after more than the idle timeout in the background
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { AppState } from 'react-native';
+import appLockService, { PinCheckResult } from '../services/appLock.service';
+import { AppLockSettings, DEFAULT_APP_LOCK_SETTINGS, isLockDue } from '../utils/appLock';
+import { useAuth } from './AuthContext';
+
+export type AppLockStatus = 'loading' | 'locked' | 'unlocked';
+
+interface AppLockContextType {
+  settings: AppLockSettings;
+  status: AppLockStatus;
+  remainingAttempts: number;
+  biometricAvailable: boolean;
+  unlockWithPin: (pin: string) => Promise<PinCheckResult>;
+  unlockWithBiometrics: () => Promise<boolean>;
+  verifyPin: (pin: string) => Promise<PinCheckResult>;
+  enableLock: (pin: string, changes?: Partial<AppLockSettings>) => Promise<void>;
+  disableLock: () => Promise<void>;
+  changePin: (pin: string) => Promise<void>;
+  updateSettings: (changes: Partial<AppLockSettings>) => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export const useAppLock = (): AppLockContextType => {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error('useAppLock must be used within AppLockProvider');
+  }
+  return context;
+};
+
+interface AppLockProviderProps {
+  children: React.ReactNode;
+}
+
+export const AppLockProvider: React.FC<AppLockProviderProps> = ({ children }) => {
+  const { state: authState, logout } = useAuth();
+  const userId = authState.isAuthenticated ? authState.user?.firebaseUid || null : null;
+
+  const [settings, setSettings] = useState<AppLockSettings>(DEFAULT_APP_LOCK_SETTINGS);
+  const [status, setStatus] = useState<AppLockStatus>('unlocked');
+  const [remainingAttempts, setRemainingAttempts] = useState(DEFAULT_APP_LOCK_SETTINGS.maxFailedAttempts);
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+  // Set once the login screen has been shown; a user signing in there has just entered their password
+  const signedOutThisLaunch = useRef(false);
+
+  useEffect(() => {
+    if (!authState.isLoading && !authState.isAuthenticated) {
+      signedOutThisLaunch.current = true;
+    }
+  }, [authState.isLoading, authState.isAuthenticated]);
+
+  // Load the signed-in user's lock; a session restored at launch starts locked
+  useEffect(() => {
+    let cancelled = false;
+    setStatus(userId ? 'loading' : 'unlocked');
+
+    (async () => {
+      const userSettings = await appLockService.setUser(userId);
+      const canUseBiometrics = userId ? await appLockService.isBiometricAvailable() : false;
+      if (cancelled) return;
+
+      setSettings(userSettings);
+      setRemainingAttempts(appLockService.getRemainingAttempts());
+      setBiometricAvailable(canUseBiometrics);
+      setStatus(userId && userSettings.enabled && !signedOutThisLaunch.current ? 'locked' : 'unlocked');
+    })().catch(error => {
+      console.error('❌ [AppLock] Failed to load app lock:', error);
+      if (!cancelled) setStatus('unlocked');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Start the idle clock when the app is backgrounded and check it on return
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (nextState === 'active') {
+        if (userId && isLockDue(appLockService.getSettings(), backgroundedAt.current)) {
+          setStatus('locked');
+        }
+        backgroundedAt.current = null;
+      }
+    });
+    return () => subscription.remove();
+  }, [userId]);
+
+  const handlePinResult = useCallback(async (result: PinCheckResult) => {
+    setRemainingAttempts(result.remainingAttempts);
+    if (result.wiped) {
+      setSettings(DEFAULT_APP_LOCK_SETTINGS);
+      setStatus('unlocked');
+      await logout();
+    }
+    return result;
+  }, [logout]);
+
+  const verifyPin = useCallback(async (pin: string) => {
+    return handlePinResult(await appLockService.verifyPin(pin));
+  }, [handlePinResult]);
+
+  const unlockWithPin = useCallback(async (pin: string) => {
+    const result = await verifyPin(pin);
+    if (result.valid) {
+      setStatus('unlocked');
+    }
+    return result;
+  }, [verifyPin]);
+
+  const unlockWithBiometrics = useCallback(async () => {
+    const success = await appLockService.authenticateWithBiometrics();
+    if (success) {
+      setRemainingAttempts(appLockService.getRemainingAttempts());
+      setStatus('unlocked');
+    }
+    return success;
+  }, []);
+
+  const enableLock = useCallback(async (pin: string, changes?: Partial<AppLockSettings>) => {
+    setSettings(await appLockService.enable(pin, changes));
+    setRemainingAttempts(appLockService.getRemainingAttempts());
+  }, []);
+
+  const disableLock = useCallback(async () => {
+    setSettings(await appLockService.disable());
+    setRemainingAttempts(appLockService.getRemainingAttempts());
+  }, []);
+
+  const changePin = useCallback(async (pin: string) => {
+    await appLockService.changePin(pin);
+    setRemainingAttempts(appLockService.getRemainingAttempts());
+  }, []);
+
+  const updateSettings = useCallback(async (changes: Partial<AppLockSettings>) => {
+    setSettings(await appLockService.updateSettings(changes));
+    setRemainingAttempts(appLockService.getRemainingAttempts());
+  }, []);
+
+  const value: AppLockContextType = {
+    settings,
+    status,
+    remainingAttempts,
+    biometricAvailable,
+    unlockWithPin,
+    unlockWithBiometrics,
+    verifyPin,
+    enableLock,
+    disableLock,
+    changePin,
+    updateSettings,
+  };
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {children}
+    </AppLockContext.Provider>
+  );
+};
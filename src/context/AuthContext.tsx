@@ -3,6 +3,11 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AuthAPI } from '../api/auth';
 import { DealershipAPI } from '../api/dealerships';
 import { AuthService } from '../services/authService';
+import offlineQueue from '../services/offlineQueue.service';
+import entityCache from '../services/entityCache.service';
+import { clearCustomerIndex } from '../services/customer.service';
+import { ASSIGNMENT_CONFIG_KEY_PREFIX } from '../services/leadAssignment.service';
+import { secureStorage, SECURE_KEYS } from '../services/secureStorage.service';
 import { User as FirebaseUser } from 'firebase/auth';
 import { Dealership } from '../types/dealership';
 import { auth } from '../config/firebase';
@@ -143,6 +148,18 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
 // Create context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Dealership settings kept on this device across sign-ins; everything else is per session
+const DEVICE_SETTING_KEY_PREFIXES = [ASSIGNMENT_CONFIG_KEY_PREFIX];
+
+/**
+ * Clear the signed-in session from local storage, keeping per-device dealership settings
+ */
+async function clearSessionStorage(): Promise<void> {
+  const keys = await AsyncStorage.getAllKeys();
+  const sessionKeys = keys.filter(key => !DEVICE_SETTING_KEY_PREFIXES.some(prefix => key.startsWith(prefix)));
+  await AsyncStorage.multiRemove(sessionKeys);
+}
+
 /**
  * Transform user profile to ensure it has the correct structure
  */
@@ -462,26 +479,29 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       dispatch({ type: 'LOADING', payload: true });
       
-      // First, try to restore user profile from AsyncStorage
+      // Move credentials written by older builds out of plain storage
+      await secureStorage.migrateLegacyItems();
+
+      // First, try to restore user profile from secure storage
       try {
-        const storedProfile = await AsyncStorage.getItem('userProfile');
+        const storedProfile = await secureStorage.getItem(SECURE_KEYS.userProfile);
         if (storedProfile) {
           const parsedProfile = JSON.parse(storedProfile);
-          console.log('🔄 Restored user profile from AsyncStorage:', parsedProfile);
+          console.log('🔄 Restored user profile from secure storage:', parsedProfile);
           try {
             const normalizedProfile = transformUserProfile(parsedProfile);
             const resolvedProfile = await resolveDealershipProfile(normalizedProfile);
             dispatch({ type: 'LOGIN_SUCCESS', payload: resolvedProfile });
             if (resolvedProfile !== parsedProfile) {
-              await AsyncStorage.setItem('userProfile', JSON.stringify(resolvedProfile));
+              await secureStorage.setItem(SECURE_KEYS.userProfile, JSON.stringify(resolvedProfile));
             }
           } catch (normalizationError) {
             console.warn('⚠️ Stored profile normalization failed, discarding cached data:', normalizationError);
-            await AsyncStorage.removeItem('userProfile');
+            await secureStorage.removeItem(SECURE_KEYS.userProfile);
           }
         }
       } catch (storageError) {
-        console.warn('⚠️ Failed to restore user profile from AsyncStorage:', storageError);
+        console.warn('⚠️ Failed to restore user profile from secure storage:', storageError);
       }
       
       // Listen to Firebase auth state changes
@@ -512,13 +532,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             let transformedProfile = transformUserProfile(userProfile);
             transformedProfile = await resolveDealershipProfile(transformedProfile);
             
-            // Store user data in AsyncStorage for persistence
+            // Store user data in secure storage for persistence
             try {
-              await AsyncStorage.setItem('userProfile', JSON.stringify(transformedProfile));
-              await AsyncStorage.setItem('@auth_token', token);
-              console.log('✅ User profile and token stored in AsyncStorage');
+              await secureStorage.setItem(SECURE_KEYS.userProfile, JSON.stringify(transformedProfile));
+              await secureStorage.setItem(SECURE_KEYS.authToken, token);
+              console.log('✅ User profile and token stored in secure storage');
             } catch (storageError) {
-              console.warn('⚠️ Failed to store user profile in AsyncStorage:', storageError);
+              console.warn('⚠️ Failed to store user profile in secure storage:', storageError);
             }
             
             dispatch({ type: 'LOGIN_SUCCESS', payload: transformedProfile });
@@ -528,9 +548,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             console.error('   User must be created in the backend first');
             
             // Clear any stale data
-            await AsyncStorage.removeItem('@auth_token');
-            await AsyncStorage.removeItem('@auth_user');
-            await AsyncStorage.removeItem('userProfile');
+            await secureStorage.clearCredentials();
             
             // Don't create fallback user - this should fail
             dispatch({ 
@@ -542,9 +560,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           console.log('🔄 No Firebase user, clearing auth state');
           
           // Clear all auth data when user signs out
-          await AsyncStorage.removeItem('@auth_token');
-          await AsyncStorage.removeItem('@auth_user');
-          await AsyncStorage.removeItem('userProfile');
+          await secureStorage.clearCredentials();
           
           dispatch({ type: 'LOADING', payload: false });
         }
@@ -604,7 +620,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       transformedProfile = await resolveDealershipProfile(transformedProfile);
       
       try {
-        await AsyncStorage.setItem('userProfile', JSON.stringify(transformedProfile));
+        await secureStorage.setItem(SECURE_KEYS.userProfile, JSON.stringify(transformedProfile));
       } catch (storageError) {
         console.warn('⚠️ Failed to store user profile after login:', storageError);
       }
@@ -650,7 +666,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       transformedProfile = await resolveDealershipProfile(transformedProfile);
       
       try {
-        await AsyncStorage.setItem('userProfile', JSON.stringify(transformedProfile));
+        await secureStorage.setItem(SECURE_KEYS.userProfile, JSON.stringify(transformedProfile));
       } catch (storageError) {
         console.warn('⚠️ Failed to store user profile after signup:', storageError);
       }
@@ -675,8 +691,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Sign out from Firebase
       await AuthService.signOut();
       
-      // Clear all cached data
-      await AsyncStorage.clear();
+      // Clear all cached data, including mutations still waiting to sync
+      await clearSessionStorage();
+      await secureStorage.clearCredentials();
+      await offlineQueue.clear();
+      await entityCache.clear();
+      clearCustomerIndex();
       
       console.log('✅ Logged out and cleared cache');
       
@@ -684,7 +704,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } catch (error) {
       console.error('Error logging out:', error);
       // Even if Firebase call fails, clear local state
-      await AsyncStorage.clear();
+      await clearSessionStorage();
+      await secureStorage.clearCredentials();
+      await offlineQueue.clear();
+      await entityCache.clear();
+      clearCustomerIndex();
       dispatch({ type: 'LOGOUT' });
     }
   };
@@ -728,16 +752,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       dispatch({ type: 'LOGIN_SUCCESS', payload: transformedProfile });
       
       // Update cache with fresh data
-      await AsyncStorage.setItem('userProfile', JSON.stringify(transformedProfile));
-      await AsyncStorage.setItem('@auth_token', token);
+      await secureStorage.setItem(SECURE_KEYS.userProfile, JSON.stringify(transformedProfile));
+      await secureStorage.setItem(SECURE_KEYS.authToken, token);
       
     } catch (error) {
       console.error('❌ Failed to refresh profile:', error);
       
       // Clear stale data on refresh failure
-      await AsyncStorage.removeItem('@auth_token');
-      await AsyncStorage.removeItem('@auth_user');
-      await AsyncStorage.removeItem('userProfile');
+      await secureStorage.clearCredentials();
       
       dispatch({ 
         type: 'LOGIN_FAILURE', 
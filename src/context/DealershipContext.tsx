@@ -2,6 +2,17 @@ import React, { createContext, useContext, useEffect, useState, ReactNode } from
 import { apiClient, handleApiCall } from '../api/client';
 import { DealershipAPI } from '../api/dealerships';
 import { useAuth } from './AuthContext';
+import { LeadScoreWeights, DEFAULT_LEAD_SCORE_WEIGHTS } from '../utils/leadScoring';
+import {
+  getLeadScoreWeights,
+  saveLeadScoreWeights,
+  resetLeadScoreWeights as resetStoredLeadScoreWeights,
+} from '../services/leadScoring.service';
+import { EnquiryAssignmentConfig, DEFAULT_ENQUIRY_ASSIGNMENT_CONFIG } from '../utils/leadAssignment';
+import {
+  getEnquiryAssignmentConfig,
+  saveEnquiryAssignmentConfig,
+} from '../services/leadAssignment.service';
 
 export interface Dealership {
   id: string;
@@ -14,6 +25,8 @@ export interface Dealership {
   city?: string;
   state?: string;
   pincode?: string;
+  gstNumber?: string;
+  panNumber?: string;
   brands?: string[];
 }
 
@@ -21,6 +34,11 @@ interface DealershipContextType {
   dealership: Dealership | null;
   loading: boolean;
   refreshDealership: () => Promise<void>;
+  leadScoreWeights: LeadScoreWeights;
+  updateLeadScoreWeights: (weights: LeadScoreWeights) => Promise<void>;
+  resetLeadScoreWeights: () => Promise<void>;
+  enquiryAssignmentConfig: EnquiryAssignmentConfig;
+  updateEnquiryAssignmentConfig: (config: EnquiryAssignmentConfig) => Promise<void>;
 }
 
 const DealershipContext = createContext<DealershipContextType | undefined>(undefined);
@@ -38,6 +56,10 @@ export const DealershipProvider: React.FC<DealershipProviderProps> = ({ children
   const { state } = useAuth();
   const [dealership, setDealership] = useState<Dealership | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [leadScoreWeights, setLeadScoreWeights] = useState<LeadScoreWeights>(DEFAULT_LEAD_SCORE_WEIGHTS);
+  const [enquiryAssignmentConfig, setEnquiryAssignmentConfig] = useState<EnquiryAssignmentConfig>(
+    DEFAULT_ENQUIRY_ASSIGNMENT_CONFIG
+  );
 
   useEffect(() => {
     if (state.user?.dealership) {
@@ -106,8 +128,56 @@ export const DealershipProvider: React.FC<DealershipProviderProps> = ({ children
     }
   };
 
+  // Lead score weights and enquiry assignment rules are configured per dealership
+  const weightsDealershipId = dealership?.id || state.user?.dealershipId || null;
+
+  useEffect(() => {
+    let cancelled = false;
+    getLeadScoreWeights(weightsDealershipId).then(weights => {
+      if (!cancelled) setLeadScoreWeights(weights);
+    });
+    getEnquiryAssignmentConfig(weightsDealershipId).then(config => {
+      if (!cancelled) setEnquiryAssignmentConfig(config);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [weightsDealershipId]);
+
+  const updateLeadScoreWeights = async (weights: LeadScoreWeights) => {
+    if (!weightsDealershipId) {
+      throw new Error('No dealership selected');
+    }
+    await saveLeadScoreWeights(weightsDealershipId, weights);
+    setLeadScoreWeights(weights);
+  };
+
+  const resetLeadScoreWeights = async () => {
+    if (!weightsDealershipId) return;
+    setLeadScoreWeights(await resetStoredLeadScoreWeights(weightsDealershipId));
+  };
+
+  const updateEnquiryAssignmentConfig = async (config: EnquiryAssignmentConfig) => {
+    if (!weightsDealershipId) {
+      throw new Error('No dealership selected');
+    }
+    await saveEnquiryAssignmentConfig(weightsDealershipId, config);
+    setEnquiryAssignmentConfig(config);
+  };
+
   return (
-    <DealershipContext.Provider value={{ dealership, loading, refreshDealership }}>
+    <DealershipContext.Provider
+      value={{
+        dealership,
+        loading,
+        refreshDealership,
+        leadScoreWeights,
+        updateLeadScoreWeights,
+        resetLeadScoreWeights,
+        enquiryAssignmentConfig,
+        updateEnquiryAssignmentConfig,
+      }}
+    >
       {children}
     </DealershipContext.Provider>
   );
@@ -3,10 +3,16 @@
  * Manages notification state and provides notification functionality throughout the app
  */
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import { Alert } from 'react-native';
 import NotificationAPI, { Notification, NotificationStats } from '../services/NotificationAPI';
 import NotificationService from '../services/NotificationService';
+import notificationPreferences from '../services/notificationPreferences.service';
+import {
+  NotificationPreferences,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isNotificationAllowed,
+} from '../utils/notificationPreferences';
 import { useAuth } from './AuthContext';
 
 interface NotificationContextType {
@@ -15,6 +21,7 @@ interface NotificationContextType {
   stats: NotificationStats | null;
   loading: boolean;
   refreshing: boolean;
+  preferences: NotificationPreferences;
   
   // Actions
   loadNotifications: (page?: number, type?: string | null) => Promise<void>;
@@ -24,6 +31,7 @@ interface NotificationContextType {
   sendTestNotification: (title: string, body: string) => Promise<boolean>;
   deleteNotification: (notificationId: string) => Promise<void>;
   refreshNotifications: () => Promise<void>;
+  updatePreferences: (preferences: NotificationPreferences) => Promise<void>;
   
   // Utility
   getUnreadCount: () => number;
@@ -55,6 +63,16 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
   const [stats, setStats] = useState<NotificationStats | null>(null);
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const userId = isAuthenticated ? user?.firebaseUid || null : null;
+
+  // Categories switched off for in-app delivery stay hidden even if the server returns them
+  const visibleNotifications = useMemo(
+    () => notifications.filter(notif =>
+      isNotificationAllowed(preferences, { ...notif.data, type: notif.type }, 'in_app')
+    ),
+    [notifications, preferences]
+  );
 
   // Load notification history
   const loadNotifications = useCallback(async (page: number = 1, type: string | null = null) => {
@@ -242,14 +260,37 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     }
   }, [loadNotifications, loadStats]);
 
+  // Save preferences; failures are left to the caller to report
+  const updatePreferences = useCallback(async (next: NotificationPreferences) => {
+    setPreferences(await notificationPreferences.update(next));
+  }, []);
+
   // Utility functions
   const getUnreadCount = useCallback((): number => {
-    return notifications.filter(notif => !notif.delivered).length;
-  }, [notifications]);
+    return visibleNotifications.filter(notif => !notif.delivered).length;
+  }, [visibleNotifications]);
 
   const getNotificationsByType = useCallback((type: string): Notification[] => {
-    return notifications.filter(notif => notif.type === type);
-  }, [notifications]);
+    return visibleNotifications.filter(notif => notif.type === type);
+  }, [visibleNotifications]);
+
+  // Switch to the signed-in user's cached preferences, then pick up the server's copy
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const cached = await notificationPreferences.setUser(userId);
+      if (cancelled) return;
+      setPreferences(cached);
+      if (!userId) return;
+      const latest = await notificationPreferences.refresh();
+      if (!cancelled) setPreferences(latest);
+    })().catch(error => console.error('❌ [NotificationPreferences] Failed to load preferences:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
 
   // Initialize notifications on app start
   useEffect(() => {
@@ -315,10 +356,11 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   const value: NotificationContextType = {
     // State
-    notifications,
+    notifications: visibleNotifications,
     stats,
     loading,
     refreshing,
+    preferences,
     
     // Actions
     loadNotifications,
@@ -328,6 +370,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     sendTestNotification,
     deleteNotification,
     refreshNotifications,
+    updatePreferences,
     
     // Utility
     getUnreadCount,
@@ -0,0 +1,136 @@
+/**
+ * Offline Queue Context
+ * Exposes the offline mutation outbox to screens and replays it when connectivity returns
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import offlineQueue, {
+  QueuedMutation,
+  QueuedEntityType,
+  ReplayResult,
+} from '../services/offlineQueue.service';
+import { useAuth } from './AuthContext';
+
+// How often to retry while there are queued mutations
+const REPLAY_INTERVAL_MS = 30000;
+
+interface OfflineQueueContextType {
+  items: QueuedMutation[];
+  syncing: boolean;
+  lastSyncedAt: string | null;
+  getItems: (entityType: QueuedEntityType) => QueuedMutation[];
+  replay: () => Promise<ReplayResult | null>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+const OfflineQueueContext = createContext<OfflineQueueContextType | undefined>(undefined);
+
+export const useOfflineQueue = (): OfflineQueueContextType => {
+  const context = useContext(OfflineQueueContext);
+  if (!context) {
+    throw new Error('useOfflineQueue must be used within OfflineQueueProvider');
+  }
+  return context;
+};
+
+interface OfflineQueueProviderProps {
+  children: React.ReactNode;
+}
+
+export const OfflineQueueProvider: React.FC<OfflineQueueProviderProps> = ({ children }) => {
+  const { state: authState } = useAuth();
+  const isAuthenticated = authState.isAuthenticated;
+
+  const [items, setItems] = useState<QueuedMutation[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const appState = useRef<AppStateStatus>(AppState.currentState);
+
+  useEffect(() => offlineQueue.subscribe(setItems), []);
+
+  const replay = useCallback(async (): Promise<ReplayResult | null> => {
+    if (!isAuthenticated) return null;
+    setSyncing(true);
+    try {
+      const result = await offlineQueue.replay();
+      if (result.replayed > 0) {
+        setLastSyncedAt(new Date().toISOString());
+      }
+      return result;
+    } catch (error) {
+      console.error('❌ [OfflineQueue] Replay failed:', error);
+      return null;
+    } finally {
+      setSyncing(false);
+    }
+  }, [isAuthenticated]);
+
+  const retry = useCallback(async (id: string) => {
+    setSyncing(true);
+    try {
+      const result = await offlineQueue.retry(id);
+      if (result.replayed > 0) {
+        setLastSyncedAt(new Date().toISOString());
+      }
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  // Mutations held behind a discarded one can go now
+  const discard = useCallback(async (id: string) => {
+    await offlineQueue.discard(id);
+    await replay();
+  }, [replay]);
+
+  const getItems = useCallback(
+    (entityType: QueuedEntityType) => items.filter(item => item.entityType === entityType),
+    [items]
+  );
+
+  // Replay once the user is signed in
+  useEffect(() => {
+    if (isAuthenticated) {
+      replay();
+    }
+  }, [isAuthenticated, replay]);
+
+  // Replay when the app returns to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (appState.current.match(/inactive|background/) && nextState === 'active') {
+        replay();
+      }
+      appState.current = nextState;
+    });
+    return () => subscription.remove();
+  }, [replay]);
+
+  // Keep retrying while there is something waiting to be sent
+  const hasQueued = items.some(item => item.status === 'queued');
+  useEffect(() => {
+    if (!hasQueued || !isAuthenticated) return;
+    const interval = setInterval(() => {
+      replay();
+    }, REPLAY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasQueued, isAuthenticated, replay]);
+
+  const value: OfflineQueueContextType = {
+    items,
+    syncing,
+    lastSyncedAt,
+    getItems,
+    replay,
+    retry,
+    discard,
+  };
+
+  return (
+    <OfflineQueueContext.Provider value={value}>
+      {children}
+    </OfflineQueueContext.Provider>
+  );
+};
@@ -0,0 +1,139 @@
+/**
+ * Reminder Context
+ * Keeps local follow-up and delivery reminders in sync with the signed-in user's
+ * enquiries and bookings, and exposes the reminder settings to the profile screen
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import reminderScheduler, {
+  ReminderSettings,
+  DEFAULT_REMINDER_SETTINGS,
+} from '../services/reminders.service';
+import NotificationService from '../services/NotificationService';
+import notificationPreferences from '../services/notificationPreferences.service';
+import { enquiryAPI } from '../api/enquiries';
+import { bookingAPI } from '../api/bookings';
+import { fetchAllPages } from '../api/client';
+import { useAuth } from './AuthContext';
+
+interface ReminderContextType {
+  settings: ReminderSettings;
+  syncing: boolean;
+  lastSyncedAt: string | null;
+  updateSettings: (changes: Partial<ReminderSettings>) => Promise<void>;
+  resync: () => Promise<void>;
+}
+
+const ReminderContext = createContext<ReminderContextType | undefined>(undefined);
+
+export const useReminders = (): ReminderContextType => {
+  const context = useContext(ReminderContext);
+  if (!context) {
+    throw new Error('useReminders must be used within ReminderProvider');
+  }
+  return context;
+};
+
+interface ReminderProviderProps {
+  children: React.ReactNode;
+}
+
+export const ReminderProvider: React.FC<ReminderProviderProps> = ({ children }) => {
+  const { state: authState } = useAuth();
+  const userId = authState.isAuthenticated ? authState.user?.firebaseUid || null : null;
+  const role = authState.user?.role?.name;
+
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const appState = useRef<AppStateStatus>(AppState.currentState);
+
+  const resync = useCallback(async () => {
+    if (!userId) return;
+    setSyncing(true);
+    try {
+      const [enquiries, bookings] = await Promise.all([
+        fetchAllPages((page, limit) => enquiryAPI.getEnquiries({ page, limit })),
+        fetchAllPages((page, limit) =>
+          role === 'CUSTOMER_ADVISOR' ? bookingAPI.getMyBookings({ page, limit }) : bookingAPI.getBookings({ page, limit })
+        ),
+      ]);
+      await reminderScheduler.reconcile(enquiries.items, bookings.items, {
+        complete: enquiries.complete && bookings.complete,
+      });
+      setLastSyncedAt(new Date().toISOString());
+    } catch (error) {
+      // Keep the existing reminders rather than reconciling against a partial list
+      console.error('❌ [Reminders] Sync failed:', error);
+    } finally {
+      setSyncing(false);
+    }
+  }, [userId, role]);
+
+  const updateSettings = useCallback(async (changes: Partial<ReminderSettings>) => {
+    if (changes.enabled) {
+      await NotificationService.requestPermission();
+    }
+    setSettings(await reminderScheduler.updateSettings(changes));
+  }, []);
+
+  // Switch to the signed-in user's reminders and settings, then reconcile
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const userSettings = await reminderScheduler.setUser(userId);
+      if (cancelled) return;
+      setSettings(userSettings);
+      if (!userId) {
+        await reminderScheduler.clearAll();
+        return;
+      }
+      if (userSettings.enabled) {
+        await NotificationService.requestPermission();
+      }
+      await resync();
+    })().catch(error => console.error('❌ [Reminders] Failed to initialise reminders:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, resync]);
+
+  // Disabled categories and quiet hours are applied when scheduling, so reschedule on change
+  useEffect(
+    () =>
+      notificationPreferences.onChange(() => {
+        reminderScheduler
+          .rescheduleAll()
+          .catch(error => console.error('❌ [Reminders] Failed to reschedule after preference change:', error));
+      }),
+    []
+  );
+
+  // Reconcile when the app returns to the foreground to pick up changes made elsewhere
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (appState.current.match(/inactive|background/) && nextState === 'active') {
+        resync();
+      }
+      appState.current = nextState;
+    });
+    return () => subscription.remove();
+  }, [resync]);
+
+  const value: ReminderContextType = {
+    settings,
+    syncing,
+    lastSyncedAt,
+    updateSettings,
+    resync,
+  };
+
+  return (
+    <ReminderContext.Provider value={value}>
+      {children}
+    </ReminderContext.Provider>
+  );
+};
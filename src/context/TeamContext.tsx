@@ -1,5 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { useAuth, type UserRole } from './AuthContext';
+import { useAuth, type UserRole, type User as AuthUser } from './AuthContext';
+import UsersAPI, { type User as ApiUser } from '../api/users';
+import { enquiryAPI } from '../api/enquiries';
+import { bookingAPI } from '../api/bookings';
+import QuotationsAPI from '../api/quotations';
+import { fetchAllPages, type AllPagesResult } from '../api/client';
+import { getVisibleUserIds } from '../utils/hierarchyUtils';
+import { computeAdvisorPerformance, type AdvisorPerformance } from '../utils/teamPerformance';
 
 /**
  * Team member interface with performance stats
@@ -14,17 +21,7 @@ export interface TeamMember {
   reportsTo?: string; // Manager's ID
   joinDate: string;
   status: 'active' | 'inactive' | 'on_leave';
-  performance: {
-    enquiriesHandled: number;
-    quotationsCreated: number;
-    bookingsManaged: number;
-    conversionRate: number;
-    avgResponseTime: string; // in hours
-    customerRating: number; // out of 5
-    thisMonthSales: number;
-    lastMonthSales: number;
-    targetAchievement: number; // percentage
-  };
+  performance: AdvisorPerformance;
   contactInfo: {
     phone?: string;
     extension?: string;
@@ -67,435 +64,82 @@ interface TeamContextType {
  */
 const getEmptyTeamData = (): TeamMember[] => [];
 
-/**
- * Placeholder API function for team data
- * TODO: Implement actual team API
- */
-const fetchTeamFromAPI = async (): Promise<TeamMember[]> => {
-  // This is a placeholder - in a real app, this would call the actual API
-  // For now, return empty array to show the empty state
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve([]);
-    }, 1000);
-  });
+const ROLE_DEPARTMENTS: Record<UserRole, string> = {
+  ADMIN: 'Management',
+  GENERAL_MANAGER: 'Management',
+  SALES_MANAGER: 'Sales',
+  TEAM_LEAD: 'Sales',
+  CUSTOMER_ADVISOR: 'Customer Service',
 };
 
 /**
- * Mock team data with realistic hierarchy - KEEPING FOR REFERENCE
- * This will be removed once the actual API is implemented
+ * Resolve a settled request to its items, logging failures so one missing
+ * data source does not blank the whole roster
  */
-const mockTeamData: TeamMember[] = [
-  // General Manager
-  {
-    id: '1',
-    name: 'Sarah Johnson',
-    email: 'gm@motorsync.com',
-        role: 'GENERAL_MANAGER',
-    department: 'Management',
-    joinDate: '2020-01-15',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 0, // GMs don't handle direct enquiries
-      quotationsCreated: 0,
-      bookingsManaged: 0,
-      conversionRate: 75, // Team average
-      avgResponseTime: '1.2h',
-      customerRating: 4.8,
-      thisMonthSales: 1245000,
-      lastMonthSales: 1098000,
-      targetAchievement: 95,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0001',
-      extension: '1001',
-      location: 'Executive Office',
-    },
-  },
-  
-  // Sales Managers (Report to GM)
-  {
-    id: '2',
-    name: 'Mike Chen',
-    email: 'sm@motorsync.com',
-        role: 'SALES_MANAGER',
-    department: 'Sales',
-    reportsTo: '1',
-    joinDate: '2021-03-10',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 45,
-      quotationsCreated: 28,
-      bookingsManaged: 15,
-      conversionRate: 72,
-      avgResponseTime: '1.8h',
-      customerRating: 4.6,
-      thisMonthSales: 687000,
-      lastMonthSales: 598000,
-      targetAchievement: 92,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0002',
-      extension: '1002',
-      location: 'Sales Floor - West Wing',
-    },
-  },
-  
-  {
-    id: '3',
-    name: 'Jennifer Davis',
-    email: 'sm2@motorsync.com',
-        role: 'SALES_MANAGER',
-    department: 'Sales',
-    reportsTo: '1',
-    joinDate: '2021-06-20',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 52,
-      quotationsCreated: 34,
-      bookingsManaged: 18,
-      conversionRate: 78,
-      avgResponseTime: '1.5h',
-      customerRating: 4.7,
-      thisMonthSales: 745000,
-      lastMonthSales: 678000,
-      targetAchievement: 98,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0003',
-      extension: '1003',
-      location: 'Sales Floor - East Wing',
-    },
-  },
-
-  // Team Leads (Report to Sales Managers)
-  {
-    id: '4',
-    name: 'Emma Wilson',
-    email: 'tl@motorsync.com',
-        role: 'TEAM_LEAD',
-    department: 'Sales',
-    reportsTo: '2', // Reports to Mike Chen
-    joinDate: '2022-01-15',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 78,
-      quotationsCreated: 45,
-      bookingsManaged: 32,
-      conversionRate: 68,
-      avgResponseTime: '2.1h',
-      customerRating: 4.5,
-      thisMonthSales: 398000,
-      lastMonthSales: 342000,
-      targetAchievement: 89,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0004',
-      extension: '1004',
-      location: 'Sales Floor - Section A',
-    },
-  },
-
-  {
-    id: '5',
-    name: 'Robert Martinez',
-    email: 'tl2@motorsync.com',
-        role: 'TEAM_LEAD',
-    department: 'Sales',
-    reportsTo: '2', // Reports to Mike Chen
-    joinDate: '2022-04-10',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 65,
-      quotationsCreated: 38,
-      bookingsManaged: 28,
-      conversionRate: 71,
-      avgResponseTime: '1.9h',
-      customerRating: 4.4,
-      thisMonthSales: 356000,
-      lastMonthSales: 298000,
-      targetAchievement: 85,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0005',
-      extension: '1005',
-      location: 'Sales Floor - Section B',
-    },
-  },
-
-  {
-    id: '6',
-    name: 'Lisa Thompson',
-    email: 'tl3@motorsync.com',
-        role: 'TEAM_LEAD',
-    department: 'Sales',
-    reportsTo: '3', // Reports to Jennifer Davis
-    joinDate: '2022-02-28',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 82,
-      quotationsCreated: 48,
-      bookingsManaged: 35,
-      conversionRate: 74,
-      avgResponseTime: '1.7h',
-      customerRating: 4.6,
-      thisMonthSales: 425000,
-      lastMonthSales: 378000,
-      targetAchievement: 94,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0006',
-      extension: '1006',
-      location: 'Sales Floor - Section C',
-    },
-  },
-
-  {
-    id: '7',
-    name: 'David Kim',
-    email: 'tl4@motorsync.com',
-        role: 'TEAM_LEAD',
-    department: 'Sales',
-    reportsTo: '3', // Reports to Jennifer Davis
-    joinDate: '2022-08-15',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 71,
-      quotationsCreated: 41,
-      bookingsManaged: 29,
-      conversionRate: 69,
-      avgResponseTime: '2.0h',
-      customerRating: 4.3,
-      thisMonthSales: 378000,
-      lastMonthSales: 334000,
-      targetAchievement: 87,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0007',
-      extension: '1007',
-      location: 'Sales Floor - Section D',
-    },
-  },
-
-  // Customer Advisors (Report to Team Leads)
-  {
-    id: '8',
-    name: 'James Rodriguez',
-    email: 'ca@motorsync.com',
-        role: 'CUSTOMER_ADVISOR',
-    department: 'Customer Service',
-    reportsTo: '4', // Reports to Emma Wilson
-    joinDate: '2023-01-20',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 45,
-      quotationsCreated: 23,
-      bookingsManaged: 18,
-      conversionRate: 65,
-      avgResponseTime: '2.4h',
-      customerRating: 4.4,
-      thisMonthSales: 145000,
-      lastMonthSales: 128000,
-      targetAchievement: 82,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0008',
-      extension: '1008',
-      location: 'Customer Service - Desk 1',
-    },
-  },
-
-  {
-    id: '9',
-    name: 'Ashley Brown',
-    email: 'ca2@motorsync.com',
-        role: 'CUSTOMER_ADVISOR',
-    department: 'Customer Service',
-    reportsTo: '4', // Reports to Emma Wilson
-    joinDate: '2023-02-15',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 38,
-      quotationsCreated: 19,
-      bookingsManaged: 15,
-      conversionRate: 62,
-      avgResponseTime: '2.6h',
-      customerRating: 4.2,
-      thisMonthSales: 128000,
-      lastMonthSales: 115000,
-      targetAchievement: 78,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0009',
-      extension: '1009',
-      location: 'Customer Service - Desk 2',
-    },
-  },
-
-  {
-    id: '10',
-    name: 'Michael Taylor',
-    email: 'ca3@motorsync.com',
-        role: 'CUSTOMER_ADVISOR',
-    department: 'Customer Service',
-    reportsTo: '4', // Reports to Emma Wilson
-    joinDate: '2023-03-10',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 42,
-      quotationsCreated: 21,
-      bookingsManaged: 16,
-      conversionRate: 67,
-      avgResponseTime: '2.3h',
-      customerRating: 4.5,
-      thisMonthSales: 156000,
-      lastMonthSales: 142000,
-      targetAchievement: 85,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0010',
-      extension: '1010',
-      location: 'Customer Service - Desk 3',
-    },
-  },
-
-  {
-    id: '11',
-    name: 'Rachel Green',
-    email: 'ca4@motorsync.com',
-        role: 'CUSTOMER_ADVISOR',
-    department: 'Customer Service',
-    reportsTo: '4', // Reports to Emma Wilson
-    joinDate: '2023-04-05',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 36,
-      quotationsCreated: 18,
-      bookingsManaged: 14,
-      conversionRate: 63,
-      avgResponseTime: '2.5h',
-      customerRating: 4.3,
-      thisMonthSales: 134000,
-      lastMonthSales: 119000,
-      targetAchievement: 79,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0011',
-      extension: '1011',
-      location: 'Customer Service - Desk 4',
-    },
-  },
-
-  // More Customer Advisors under other Team Leads
-  {
-    id: '12',
-    name: 'Kevin Wilson',
-    email: 'ca5@motorsync.com',
-        role: 'CUSTOMER_ADVISOR',
-    department: 'Customer Service',
-    reportsTo: '5', // Reports to Robert Martinez
-    joinDate: '2023-01-30',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 41,
-      quotationsCreated: 20,
-      bookingsManaged: 17,
-      conversionRate: 66,
-      avgResponseTime: '2.2h',
-      customerRating: 4.4,
-      thisMonthSales: 148000,
-      lastMonthSales: 135000,
-      targetAchievement: 83,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0012',
-      extension: '1012',
-      location: 'Customer Service - Desk 5',
-    },
-  },
+function itemsOrEmpty<T>(result: PromiseSettledResult<AllPagesResult<T>>, label: string): T[] {
+  if (result.status === 'fulfilled') {
+    if (!result.value.complete) {
+      console.warn(`⚠️ [TeamContext] Team aggregates use the first ${result.value.items.length} of ${result.value.total} ${label}`);
+    }
+    return result.value.items;
+  }
+  console.warn(`⚠️ [TeamContext] Could not load ${label} for team aggregates:`, result.reason?.message);
+  return [];
+}
 
-  {
-    id: '13',
-    name: 'Amanda Clark',
-    email: 'ca6@motorsync.com',
-        role: 'CUSTOMER_ADVISOR',
-    department: 'Customer Service',
-    reportsTo: '5', // Reports to Robert Martinez
-    joinDate: '2023-05-12',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 33,
-      quotationsCreated: 16,
-      bookingsManaged: 12,
-      conversionRate: 61,
-      avgResponseTime: '2.7h',
-      customerRating: 4.1,
-      thisMonthSales: 118000,
-      lastMonthSales: 105000,
-      targetAchievement: 76,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0013',
-      extension: '1013',
-      location: 'Customer Service - Desk 6',
-    },
-  },
+/**
+ * Fetch the roster visible to the current user and compute per-advisor aggregates
+ *
+ * Visibility follows getVisibleUserIds. The backend does not expose reporting lines
+ * yet, so everyone visible to a manager is treated as reporting to them.
+ */
+const fetchTeamFromAPI = async (currentUser: AuthUser): Promise<TeamMember[]> => {
+  const role = currentUser.role.name;
+  const scope = {
+    dealershipId: currentUser.dealership?.id || currentUser.dealershipId || undefined,
+    dealershipCode: currentUser.dealership?.code,
+  };
 
-  // Additional team members for other leads...
-  {
-    id: '14',
-    name: 'Daniel Lopez',
-    email: 'ca7@motorsync.com',
-        role: 'CUSTOMER_ADVISOR',
-    department: 'Customer Service',
-    reportsTo: '6', // Reports to Lisa Thompson
-    joinDate: '2023-03-20',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 47,
-      quotationsCreated: 24,
-      bookingsManaged: 19,
-      conversionRate: 69,
-      avgResponseTime: '2.1h',
-      customerRating: 4.5,
-      thisMonthSales: 167000,
-      lastMonthSales: 152000,
-      targetAchievement: 88,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0014',
-      extension: '1014',
-      location: 'Customer Service - Desk 7',
-    },
-  },
+  // Advisors cannot list users; their "team" is themselves
+  const users: Array<ApiUser | AuthUser> =
+    role === 'CUSTOMER_ADVISOR'
+      ? [currentUser]
+      : (await fetchAllPages((page, limit) => UsersAPI.getUsers({ page, limit }))).items;
+
+  const visibleIds = new Set(getVisibleUserIds(role, currentUser.firebaseUid, users));
+  const roster = users.filter(user => visibleIds.has(user.firebaseUid));
+
+  const [enquiriesResult, quotationsResult, bookingsResult] = await Promise.allSettled([
+    fetchAllPages((page, limit) => enquiryAPI.getEnquiries({ ...scope, page, limit })),
+    fetchAllPages((page, limit) => QuotationsAPI.getQuotations({ ...scope, page, limit })),
+    fetchAllPages((page, limit) =>
+      role === 'CUSTOMER_ADVISOR'
+        ? bookingAPI.getMyBookings({ ...scope, page, limit })
+        : bookingAPI.getBookings({ ...scope, page, limit })
+    ),
+  ]);
+
+  const data = {
+    enquiries: itemsOrEmpty(enquiriesResult, 'enquiries'),
+    quotations: itemsOrEmpty(quotationsResult, 'quotations'),
+    bookings: itemsOrEmpty(bookingsResult, 'bookings'),
+  };
 
-  {
-    id: '15',
-    name: 'Sophia Wang',
-    email: 'ca8@motorsync.com',
-        role: 'CUSTOMER_ADVISOR',
-    department: 'Customer Service',
-    reportsTo: '7', // Reports to David Kim
-    joinDate: '2023-06-01',
-    status: 'active',
-    performance: {
-      enquiriesHandled: 39,
-      quotationsCreated: 19,
-      bookingsManaged: 15,
-      conversionRate: 64,
-      avgResponseTime: '2.4h',
-      customerRating: 4.3,
-      thisMonthSales: 139000,
-      lastMonthSales: 124000,
-      targetAchievement: 81,
-    },
-    contactInfo: {
-      phone: '+1 (555) 001-0015',
-      extension: '1015',
-      location: 'Customer Service - Desk 8',
-    },
-  },
-];
+  console.log(`👥 [TeamContext] Loaded ${roster.length} team members`);
+
+  return roster.map(user => ({
+    id: user.firebaseUid,
+    name: user.name,
+    email: user.email,
+    role: user.role.name,
+    department: ROLE_DEPARTMENTS[user.role.name] || 'Sales',
+    reportsTo: user.firebaseUid === currentUser.firebaseUid ? undefined : currentUser.firebaseUid,
+    joinDate: 'createdAt' in user ? user.createdAt : '',
+    status: user.isActive ? 'active' : 'inactive',
+    performance: computeAdvisorPerformance(user.firebaseUid, data),
+    contactInfo: {},
+  }));
+};
 
 // Create context
 const TeamContext = createContext<TeamContextType | undefined>(undefined);
@@ -513,11 +157,17 @@ export function TeamProvider({ children }: { children: React.ReactNode }) {
    * Fetch team data from API
    */
   const fetchTeamData = useCallback(async () => {
+    if (!state.user?.role?.name) {
+      setTeamMembers(getEmptyTeamData());
+      setLoading(false);
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
       
-      const data = await fetchTeamFromAPI();
+      const data = await fetchTeamFromAPI(state.user);
       setTeamMembers(data);
     } catch (err: any) {
       console.error('Error fetching team data:', err);
@@ -526,7 +176,7 @@ export function TeamProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [state.user]);
 
   /**
    * Load team data on mount
@@ -626,7 +276,7 @@ export function useTeam(): TeamContextType {
  * Helper function to check if user can manage teams
  */
 export function canManageTeam(userRole: UserRole): boolean {
-  return ['general_manager', 'sales_manager', 'team_lead'].includes(userRole);
+  return ['ADMIN', 'GENERAL_MANAGER', 'SALES_MANAGER', 'TEAM_LEAD'].includes(userRole);
 }
 
 /**
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import { entityCache, entityKey, CacheEntityType } from '../services/entityCache.service';
+
+export interface CachedResource<T> {
+  data: T | undefined;
+  // True only while nothing is cached yet; cached data renders straight away
+  loading: boolean;
+  revalidating: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+interface CachedResourceOptions {
+  // Skip loading until required parameters are available
+  enabled?: boolean;
+  // Refetch in the background whenever the screen regains focus (default true)
+  revalidateOnFocus?: boolean;
+}
+
+/**
+ * Stale-while-revalidate read through the shared entity cache
+ *
+ * Returns whatever is cached for `key` immediately, then fetches in the background and
+ * re-renders with the fresh value. Refetches on focus and whenever a mutation
+ * invalidates the key.
+ */
+function useCachedResource<T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  store: (key: string, value: T) => void,
+  { enabled = true, revalidateOnFocus = true }: CachedResourceOptions = {}
+): CachedResource<T> {
+  const activeKey = enabled ? key : null;
+  const [data, setData] = useState<T | undefined>(() =>
+    activeKey ? entityCache.peek<T>(activeKey)?.value : undefined
+  );
+  const [loading, setLoading] = useState(!!activeKey && data === undefined);
+  const [revalidating, setRevalidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Callers usually pass inline fetchers; keep the latest without refetching on every render
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const storeRef = useRef(store);
+  storeRef.current = store;
+
+  const refresh = useCallback(async () => {
+    if (!activeKey) return;
+    setRevalidating(true);
+    try {
+      await entityCache.revalidate(
+        activeKey,
+        () => fetcherRef.current(),
+        value => storeRef.current(activeKey, value)
+      );
+      setError(null);
+    } catch (err: any) {
+      console.error('❌ [EntityCache] Revalidation failed for', activeKey, err);
+      setError(err.message || 'Failed to load');
+    } finally {
+      setRevalidating(false);
+      setLoading(false);
+    }
+  }, [activeKey]);
+
+  useEffect(() => {
+    if (!activeKey) {
+      setData(undefined);
+      setLoading(false);
+      return;
+    }
+
+    let active = true;
+    const sync = () => {
+      const entry = entityCache.peek<T>(activeKey);
+      if (active && entry) setData(entry.value);
+    };
+
+    const unsubscribe = entityCache.subscribe(activeKey, event => {
+      if (event === 'invalidated') {
+        refresh();
+      } else {
+        sync();
+      }
+    });
+
+    entityCache.ready().then(() => {
+      if (!active) return;
+      const entry = entityCache.peek<T>(activeKey);
+      setData(entry?.value);
+      setLoading(!entry);
+      refresh();
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [activeKey, refresh]);
+
+  // The mount above already fetched, so only later focus events revalidate
+  const focusedOnceRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (!focusedOnceRef.current) {
+        focusedOnceRef.current = true;
+        return;
+      }
+      if (revalidateOnFocus) refresh();
+    }, [revalidateOnFocus, refresh])
+  );
+
+  return { data, loading, revalidating, error, refresh };
+}
+
+/**
+ * A single booking, enquiry, quotation or stock record
+ */
+export function useCachedEntity<T extends { id: string }>(
+  type: CacheEntityType,
+  id: string | null | undefined,
+  fetcher: () => Promise<T>,
+  options?: CachedResourceOptions
+): CachedResource<T> {
+  return useCachedResource<T>(
+    id ? entityKey(type, id) : null,
+    fetcher,
+    (_key, value) => entityCache.putEntity(type, value),
+    options
+  );
+}
+
+/**
+ * A list of records; items are stored as entities so detail screens share them
+ */
+export function useCachedList<T extends { id: string }>(
+  key: string | null,
+  type: CacheEntityType,
+  fetcher: () => Promise<T[]>,
+  options?: CachedResourceOptions
+): CachedResource<T[]> {
+  return useCachedResource<T[]>(
+    key,
+    fetcher,
+    (listKey, items) => entityCache.putList(listKey, type, items),
+    options
+  );
+}
+
+/**
+ * Any other query result, such as a summary or dashboard aggregate
+ */
+export function useCachedQuery<T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  options?: CachedResourceOptions
+): CachedResource<T> {
+  return useCachedResource<T>(key, fetcher, (queryKey, value) => entityCache.put(queryKey, value), options);
+}
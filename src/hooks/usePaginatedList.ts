@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { PaginatedResponse } from '../api/client';
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+// A delta refresh that spans more pages than this falls back to a full reload
+const MAX_DELTA_PAGES = 5;
+
+export interface PageRequest {
+  page: number;
+  limit: number;
+  // Set on pull-to-refresh: only records changed after this ISO timestamp
+  updatedSince?: string;
+}
+
+interface ListItem {
+  id: string;
+  updatedAt?: string;
+  createdAt?: string;
+}
+
+export interface UsePaginatedListOptions<T> {
+  fetchPage: (request: PageRequest) => Promise<PaginatedResponse<T>>;
+  pageSize?: number;
+  // Hold off loading until required context (e.g. dealership) is available
+  enabled?: boolean;
+  // Changing this discards loaded pages and reloads from page 1 (e.g. filters)
+  resetKey?: string;
+  // Mirror of the server-side filter; a refreshed record that no longer matches is dropped
+  matches?: (item: T) => boolean;
+}
+
+export interface PaginatedList<T> {
+  items: T[];
+  total: number | null;
+  loading: boolean;
+  refreshing: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: string | null;
+  loadMore: () => void;
+  refresh: () => Promise<void>;
+  reload: () => Promise<void>;
+  setItems: Dispatch<SetStateAction<T[]>>;
+}
+
+const latestTimestamp = (items: ListItem[], since?: string): string | undefined =>
+  items.reduce<string | undefined>((latest, item) => {
+    const stamp = item.updatedAt || item.createdAt;
+    if (!stamp || isNaN(new Date(stamp).getTime())) return latest;
+    return !latest || new Date(stamp) > new Date(latest) ? stamp : latest;
+  }, since);
+
+/**
+ * Merge changed records into a loaded list: updated records are replaced in place and
+ * records not seen before are put at the top. Changed records failing `matches` have
+ * moved out of the list's filter and are removed.
+ */
+export function mergeById<T extends ListItem>(current: T[], changed: T[], matches?: (item: T) => boolean): T[] {
+  if (changed.length === 0) return current;
+  const changedById = new Map(changed.map(item => [item.id, item]));
+  const merged = current.map(item => changedById.get(item.id) ?? item);
+  const known = new Set(current.map(item => item.id));
+  const added = changed.filter(item => !known.has(item.id));
+  const result = [...added, ...merged];
+  return matches ? result.filter(item => !changedById.has(item.id) || matches(item)) : result;
+}
+
+/**
+ * Server-paged list state for FlatList screens
+ *
+ * Loads page 1 on mount (and whenever `resetKey` changes), appends the next page on
+ * `loadMore`, and on `refresh` only asks for records updated since the newest one
+ * already loaded, merging them in by id.
+ *
+ * Example usage:
+ * ```typescript
+ * const list = usePaginatedList({
+ *   fetchPage: ({ page, limit, updatedSince }) => bookingAPI.getBookings({ page, limit, updatedSince }),
+ *   resetKey: statusFilter,
+ * });
+ *
+ * <FlatList data={list.items} onEndReached={list.loadMore} onRefresh={list.refresh} refreshing={list.refreshing} />
+ * ```
+ */
+export function usePaginatedList<T extends ListItem>({
+  fetchPage,
+  pageSize = DEFAULT_PAGE_SIZE,
+  enabled = true,
+  resetKey = '',
+  matches,
+}: UsePaginatedListOptions<T>): PaginatedList<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Callers usually pass an inline fetcher; keep the latest without re-triggering loads
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  const matchesRef = useRef(matches);
+  matchesRef.current = matches;
+
+  const pageRef = useRef(0);
+  const watermarkRef = useRef<string | undefined>(undefined);
+  // Bumped on every full reload so responses for discarded pages are ignored
+  const generationRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  const applyPage = useCallback((response: PaginatedResponse<T>, page: number) => {
+    const received = response.items || [];
+    const totalPages = response.pagination?.totalPages;
+    setHasMore(totalPages ? page < totalPages : received.length >= pageSize);
+    setTotal(response.pagination?.total ?? null);
+    watermarkRef.current = latestTimestamp(received, watermarkRef.current);
+    pageRef.current = page;
+    return received;
+  }, [pageSize]);
+
+  const reload = useCallback(async () => {
+    const generation = ++generationRef.current;
+    setLoading(true);
+    setError(null);
+    watermarkRef.current = undefined;
+    try {
+      const response = await fetchPageRef.current({ page: 1, limit: pageSize });
+      if (generation !== generationRef.current) return;
+      setItems(applyPage(response, 1));
+    } catch (err: any) {
+      if (generation !== generationRef.current) return;
+      console.error('❌ [usePaginatedList] Failed to load first page:', err);
+      setError(err.message || 'Failed to load');
+      setItems([]);
+      setHasMore(false);
+    } finally {
+      if (generation === generationRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  }, [pageSize, applyPage]);
+
+  const loadMore = useCallback(() => {
+    if (!hasMore || loading || loadingMoreRef.current) return;
+
+    const generation = generationRef.current;
+    const nextPage = pageRef.current + 1;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    fetchPageRef.current({ page: nextPage, limit: pageSize })
+      .then(response => {
+        if (generation !== generationRef.current) return;
+        const received = applyPage(response, nextPage);
+        setItems(prev => {
+          const known = new Set(prev.map(item => item.id));
+          return [...prev, ...received.filter(item => !known.has(item.id))];
+        });
+      })
+      .catch(err => {
+        console.error('❌ [usePaginatedList] Failed to load page', nextPage, err);
+        setError(err.message || 'Failed to load more');
+      })
+      .finally(() => {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      });
+  }, [hasMore, loading, pageSize, applyPage]);
+
+  const refresh = useCallback(async () => {
+    const since = watermarkRef.current;
+    if (!since) {
+      setRefreshing(true);
+      await reload();
+      return;
+    }
+
+    const generation = generationRef.current;
+    setRefreshing(true);
+    setError(null);
+    try {
+      const changed: T[] = [];
+      let page = 1;
+      let totalPages = 1;
+      do {
+        const response = await fetchPageRef.current({ page, limit: pageSize, updatedSince: since });
+        changed.push(...(response.items || []));
+        totalPages = response.pagination?.totalPages || 1;
+        page += 1;
+      } while (page <= totalPages && page <= MAX_DELTA_PAGES);
+
+      if (generation !== generationRef.current) return;
+      if (totalPages > MAX_DELTA_PAGES) {
+        await reload();
+        return;
+      }
+
+      // Servers that ignore updatedSince return everything; keep only real changes
+      const sinceTime = new Date(since).getTime();
+      const delta = changed.filter(item => {
+        const stamp = new Date(item.updatedAt || item.createdAt || 0).getTime();
+        return !isNaN(stamp) && stamp > sinceTime;
+      });
+      watermarkRef.current = latestTimestamp(delta, since);
+      setItems(prev => mergeById(prev, delta, matchesRef.current));
+      if (__DEV__) console.log('🔄 [usePaginatedList] Delta refresh merged', delta.length, 'records');
+    } catch (err: any) {
+      console.error('❌ [usePaginatedList] Delta refresh failed:', err);
+      setError(err.message || 'Failed to refresh');
+    } finally {
+      if (generation === generationRef.current) setRefreshing(false);
+    }
+  }, [pageSize, reload]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    reload();
+  }, [enabled, resetKey, reload]);
+
+  return { items, total, loading: enabled && loading, refreshing, loadingMore, hasMore, error, loadMore, refresh, reload, setItems };
+}
@@ -1,10 +1,12 @@
-import React from 'react';
+import React, { useEffect } from 'react';
+import { NavigatorScreenParams } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { ActivityIndicator, View } from 'react-native';
 
 import { useAuth } from '../context/AuthContext';
 import { AuthNavigator } from './AuthNavigator';
-import { MainNavigator } from './MainNavigator';
+import { MainNavigator, MainStackParamList } from './MainNavigator';
+import { deepLinkRouter } from '../services/deepLink.service';
 
 /**
  * Root navigation parameter list
@@ -12,7 +14,7 @@ import { MainNavigator } from './MainNavigator';
  */
 export type RootStackParamList = {
   Auth: undefined;
-  Main: undefined;
+  Main: NavigatorScreenParams<MainStackParamList> | undefined;
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
@@ -24,6 +26,13 @@ const Stack = createStackNavigator<RootStackParamList>();
 export function AppNavigator(): React.JSX.Element {
   const { state } = useAuth();
 
+  // motorsync:// links and notification taps wait for login before opening
+  useEffect(() => deepLinkRouter.listen(), []);
+
+  useEffect(() => {
+    deepLinkRouter.setAuthenticated(state.isAuthenticated && !state.isLoading);
+  }, [state.isAuthenticated, state.isLoading]);
+
   // Show loading spinner while checking authentication state
   if (state.isLoading) {
     return (
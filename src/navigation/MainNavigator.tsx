@@ -17,24 +17,31 @@ import { BookingDetailsScreen } from '../screens/bookings/BookingDetailsScreen';
 import { BookingUpdateScreen } from '../screens/bookings/BookingUpdateScreen';
 import { TeamScreen } from '../screens/team/TeamScreen';
 import { MemberProfileScreen } from '../screens/team/MemberProfileScreen';
+import { CustomerProfileScreen } from '../screens/customers/CustomerProfileScreen';
 import { AIAssistantScreen } from '../screens/ai/AIAssistantScreen';
 import { NotificationsScreen } from '../screens/notifications/NotificationsScreen';
 import { NotificationTestScreen } from '../screens/notifications/NotificationTestScreen';
+import { NotificationPreferencesScreen } from '../screens/notifications/NotificationPreferencesScreen';
 import { ProfileScreen } from '../screens/profile/ProfileScreen';
+import { AppLockSettingsScreen } from '../screens/profile/AppLockSettingsScreen';
 import { BackendTestScreen } from '../screens/diagnostics/BackendTestScreen';
 import { StockScreen } from '../screens/stock/StockScreen';
 import { StockDetailScreen } from '../screens/stock/StockDetailScreen';
 import { AddEditStockScreen } from '../screens/stock/AddEditStockScreen';
+import { VehicleUnitDetailScreen } from '../screens/stock/VehicleUnitDetailScreen';
+import { AddEditVehicleUnitScreen } from '../screens/stock/AddEditVehicleUnitScreen';
 import AnalyticsScreen from '../screens/dashboard/AnalyticsScreen';
 import { TeamLeaderDashboardScreen } from '../screens/dashboard/TeamLeaderDashboardScreen';
 import { theme } from '../utils/theme';
+import type { EnquiryCategory } from '../services/types';
 
 /**
  * Main navigation parameter list for authenticated users
  */
 export type MainTabParamList = {
   Dashboard: undefined;
-  Enquiries: undefined;
+  // Opened from the dashboard on a set of enquiries pending remarks, or on a category
+  Enquiries: { pendingIds?: string[]; initialCategory?: EnquiryCategory | 'ALL' } | undefined;
   AIAssistant: undefined;
   Quotations: undefined;
   Profile: undefined;
@@ -48,17 +55,24 @@ export type MainStackParamList = {
   Analytics: undefined;
   Notifications: undefined;
   NotificationTest: undefined;
+  NotificationPreferences: undefined;
+  AppLockSettings: undefined;
   EnquiryDetails: { enquiryId: string };
   BookingDetails: { bookingId: string };
   BookingUpdate: { bookingId: string; booking?: any };
   QuotationDetails: { quotationId: string };
   MemberProfile: { memberId: string };
+  CustomerProfile: { phone: string; customerName?: string };
   NewEnquiry: undefined;
   BackendTest: undefined;
   Stock: undefined;
   StockDetail: { vehicleId: string };
   AddEditStock: { vehicleId?: string };
-  Bookings: undefined;
+  // A unit is opened by ID from stock screens or by the chassis number recorded on a booking
+  VehicleUnitDetail: { unitId?: string; chassisNumber?: string };
+  AddEditVehicleUnit: { stockId?: string; unitId?: string };
+  // Opened from the dashboard on a set of bookings pending remarks, or on a status filter
+  Bookings: { pendingIds?: string[]; initialFilter?: 'all' | 'pending' | 'retailed' | 'cancelled' } | undefined;
   Team: undefined;
   Quotations: undefined;
   QuotationGenerator: undefined;
@@ -216,6 +230,22 @@ export function MainNavigator(): React.JSX.Element {
           title: 'Notification Test',
         }}
       />
+      <Stack.Screen 
+        name="NotificationPreferences" 
+        component={NotificationPreferencesScreen}
+        options={{
+          headerShown: true,
+          title: 'Notification Preferences',
+        }}
+      />
+      <Stack.Screen 
+        name="AppLockSettings" 
+        component={AppLockSettingsScreen}
+        options={{
+          headerShown: true,
+          title: 'App Lock',
+        }}
+      />
       <Stack.Screen 
         name="EnquiryDetails" 
         component={EnquiryDetailsScreen}
@@ -251,6 +281,13 @@ export function MainNavigator(): React.JSX.Element {
           headerShown: false,
         }}
       />
+      <Stack.Screen 
+        name="CustomerProfile" 
+        component={CustomerProfileScreen}
+        options={{
+          headerShown: false,
+        }}
+      />
       <Stack.Screen 
         name="Bookings" 
         component={BookingsScreen}
@@ -321,6 +358,20 @@ export function MainNavigator(): React.JSX.Element {
           headerShown: false,
         }}
       />
+      <Stack.Screen 
+        name="VehicleUnitDetail" 
+        component={VehicleUnitDetailScreen}
+        options={{
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen 
+        name="AddEditVehicleUnit" 
+        component={AddEditVehicleUnitScreen}
+        options={{
+          headerShown: false,
+        }}
+      />
     </Stack.Navigator>
   );
 }
\ No newline at end of file
@@ -27,9 +27,12 @@ import { bookingAPI } from '../../api/bookings';
 import { type Booking, BookingStatus, StockAvailability, RemarkHistoryEntry } from '../../services/types';
 import { AuthAPI } from '../../api/auth';
 import { remarksAPI } from '../../api/remarks';
+import { isQueuedMutationError } from '../../services/offlineQueue.service';
+import { useCachedEntity } from '../../hooks/useCachedResource';
 import { Dialog, Portal } from 'react-native-paper';
 import { useMemo } from 'react';
 import { formatDateTime, formatDate } from '../../utils/formatting';
+import { getAllowedTransitions, formatBookingStatus } from '../../utils/bookingStateMachine';
 
 /**
  * Role to remarks field mapping
@@ -90,8 +93,6 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
   const userRole = getUserRole(authState.user);
   
   const [booking, setBooking] = useState<Booking | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState(false);
   
   // Phase 2: Timeline-based remarks (same as enquiry)
@@ -152,84 +153,73 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
   };
 
   /**
-   * Fetch booking details
+   * Booking details come from the shared cache and revalidate in the background
    */
+  const {
+    data: cachedBooking,
+    loading,
+    error: loadError,
+  } = useCachedEntity<Booking>('booking', bookingId, async () => {
+    const bookingData = await bookingAPI.getBookingById(bookingId);
+
+    console.log('✅ Booking Data received:', bookingData);
+    console.log('✅ Booking ID:', bookingData?.id);
+
+    if (!bookingData || !bookingData.id) {
+      console.error('❌ Invalid booking data - missing ID or data:', { 
+        hasData: !!bookingData, 
+        hasId: !!bookingData?.id,
+        data: bookingData 
+      });
+      throw new Error('Invalid booking data received');
+    }
+    return bookingData;
+  });
+
+  // Cached details stay on screen if a background refresh fails
+  const error = !bookingId ? 'No booking ID provided' : cachedBooking ? null : loadError;
+
   useEffect(() => {
-    const fetchBooking = async () => {
-      if (!bookingId) {
-        setError('No booking ID provided');
-        setLoading(false);
-        return;
-      }
+    if (!cachedBooking) return;
+    const bookingData = cachedBooking;
 
-      try {
-        setLoading(true);
-        const response = await bookingAPI.getBookingById(bookingId);
-        
-        // Handle nested response structure: {data: {data: {booking: {...}}}}
-        const responseData = response.data as any;
-        const bookingData = responseData?.data?.booking || responseData?.booking || responseData;
-        
-        console.log('✅ Booking Data received:', responseData);
-        console.log('✅ Booking ID:', bookingData?.id);
-        
-        if (!bookingData || !bookingData.id) {
-          console.error('❌ Invalid booking data - missing ID or data:', { 
-            hasData: !!bookingData, 
-            hasId: !!bookingData?.id,
-            data: bookingData 
-          });
-          throw new Error('Invalid booking data received');
-        }
-        
-        setBooking(bookingData);
-        
-        // Phase 2: Initialize timeline-based remarks (same as enquiry)
-        if (Array.isArray(bookingData.remarkHistory)) {
-          // Show last 3-5 remarks (chronological, not by date)
-          const filteredRemarks = bookingData.remarkHistory
-            .filter((entry: RemarkHistoryEntry) => !entry.cancelled)
-            .sort((a: RemarkHistoryEntry, b: RemarkHistoryEntry) => {
-              try {
-                const dateA = new Date(a.createdAt);
-                const dateB = new Date(b.createdAt);
-                if (isNaN(dateA.getTime()) || isNaN(dateB.getTime())) {
-                  return 0;
-                }
-                return dateB.getTime() - dateA.getTime();
-              } catch (error) {
-                return 0;
-              }
-            })
-            .slice(0, 5); // Show last 5 remarks
-          setRemarkHistory(filteredRemarks);
-        } else {
-          setRemarkHistory([]);
-        }
-        
-        // Legacy: Initialize editable fields - extract clean remarks without timestamp
-        const userRemarksField = remarksFieldMap[userRole];
-        const rawRemarks = (bookingData[userRemarksField] as string) || '';
-        setEditableRemarks(extractCleanRemarks(rawRemarks));
-        
-        setFinanceData({
-          financeRequired: bookingData.financeRequired || false,
-          financerName: bookingData.financerName || '',
-          fileLoginDate: bookingData.fileLoginDate || '',
-          approvalDate: bookingData.approvalDate || '',
-        });
-        
-        setError(null);
-      } catch (err: any) {
-        console.error('Error fetching booking:', err);
-        setError(err.message || 'Failed to load booking details');
-      } finally {
-        setLoading(false);
-      }
-    };
+    setBooking(bookingData);
+
+    // Phase 2: Initialize timeline-based remarks (same as enquiry)
+    if (Array.isArray(bookingData.remarkHistory)) {
+      // Show last 3-5 remarks (chronological, not by date)
+      const filteredRemarks = bookingData.remarkHistory
+        .filter((entry: RemarkHistoryEntry) => !entry.cancelled)
+        .sort((a: RemarkHistoryEntry, b: RemarkHistoryEntry) => {
+          try {
+            const dateA = new Date(a.createdAt);
+            const dateB = new Date(b.createdAt);
+            if (isNaN(dateA.getTime()) || isNaN(dateB.getTime())) {
+              return 0;
+            }
+            return dateB.getTime() - dateA.getTime();
+          } catch (error) {
+            return 0;
+          }
+        })
+        .slice(0, 5); // Show last 5 remarks
+      setRemarkHistory(filteredRemarks);
+    } else {
+      setRemarkHistory([]);
+    }
 
-    fetchBooking();
-  }, [bookingId, userRole]);
+    // Legacy: Initialize editable fields - extract clean remarks without timestamp
+    const userRemarksField = remarksFieldMap[userRole];
+    const rawRemarks = (bookingData[userRemarksField] as string) || '';
+    setEditableRemarks(extractCleanRemarks(rawRemarks));
+
+    setFinanceData({
+      financeRequired: bookingData.financeRequired || false,
+      financerName: bookingData.financerName || '',
+      fileLoginDate: bookingData.fileLoginDate || '',
+      approvalDate: bookingData.approvalDate || '',
+    });
+  }, [cachedBooking, userRole]);
 
   /**
    * Phase 2: Handle adding a new remark (same as enquiry)
@@ -278,6 +268,12 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
       setRemarkError(null);
       Alert.alert('Success', 'Remark added successfully.');
     } catch (err: any) {
+      if (isQueuedMutationError(err)) {
+        setRemarkInput('');
+        setRemarkError(null);
+        Alert.alert('Saved Offline', err.message);
+        return;
+      }
       console.error('❌ Error adding remark:', err);
       const errorMessage = err.response?.data?.message || err.message || 'Failed to add remark. Please try again.';
       
@@ -371,20 +367,22 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
         [userRemarksField]: remarksWithTimestamp,
       };
       
-      await bookingAPI.updateBooking(booking.id, updateData);
+      await bookingAPI.updateBooking(booking.id, updateData, { booking, role: userRole });
       
       Alert.alert('Success', 'Remarks updated successfully');
       
       // Refresh booking data
-      const response = await bookingAPI.getBookingById(booking.id);
-      const responseData = response.data as any;
-      const bookingData = responseData?.data?.booking || responseData?.booking || responseData;
+      const bookingData = await bookingAPI.getBookingById(booking.id);
       setBooking(bookingData);
       
       // Update the editable remarks with clean value (without timestamp)
       const rawRemarks = (bookingData[userRemarksField] as string) || '';
       setEditableRemarks(extractCleanRemarks(rawRemarks));
     } catch (err: any) {
+      if (isQueuedMutationError(err)) {
+        Alert.alert('Saved Offline', err.message);
+        return;
+      }
       console.error('Error updating remarks:', err);
       Alert.alert('Error', err.message || 'Failed to update remarks');
     } finally {
@@ -489,16 +487,18 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
     try {
       await bookingAPI.updateBooking(booking.id, {
         status: newStatus,
-      });
+      }, { booking, role: userRole });
       
-      Alert.alert('Success', `Status updated to ${newStatus}`);
+      Alert.alert('Success', `Status updated to ${formatBookingStatus(newStatus)}`);
       
       // Refresh booking data
-      const response = await bookingAPI.getBookingById(booking.id);
-      const responseData = response.data as any;
-      const bookingData = responseData?.data?.booking || responseData?.booking || responseData;
+      const bookingData = await bookingAPI.getBookingById(booking.id);
       setBooking(bookingData);
     } catch (err: any) {
+      if (isQueuedMutationError(err)) {
+        Alert.alert('Saved Offline', err.message);
+        return;
+      }
       console.error('Error updating status:', err);
       Alert.alert('Error', err.message || 'Failed to update status');
     } finally {
@@ -514,17 +514,20 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
     
     setUpdating(true);
     try {
-      await bookingAPI.updateBooking(booking.id, financeData);
+      await bookingAPI.updateBooking(booking.id, financeData, { booking, role: userRole });
       
       Alert.alert('Success', 'Finance details updated successfully');
       setEditingFinance(false);
       
       // Refresh booking data
-      const response = await bookingAPI.getBookingById(booking.id);
-      const responseData = response.data as any;
-      const bookingData = responseData?.data?.booking || responseData?.booking || responseData;
+      const bookingData = await bookingAPI.getBookingById(booking.id);
       setBooking(bookingData);
     } catch (err: any) {
+      if (isQueuedMutationError(err)) {
+        setEditingFinance(false);
+        Alert.alert('Saved Offline', err.message);
+        return;
+      }
       console.error('Error updating finance:', err);
       Alert.alert('Error', err.message || 'Failed to update finance details');
     } finally {
@@ -594,9 +597,7 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
             await bookingAPI.assignBooking(booking.id, advisor.firebaseUid);
             
             // Refresh booking data
-            const response = await bookingAPI.getBookingById(booking.id);
-            const responseData = response.data as any;
-            const bookingData = responseData?.data?.booking || responseData?.booking || responseData;
+            const bookingData = await bookingAPI.getBookingById(booking.id);
             setBooking(bookingData);
             
             Alert.alert('Success', `Booking assigned to ${advisor.name} successfully!`);
@@ -623,9 +624,7 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
               await bookingAPI.unassignBooking(booking.id);
               
               // Refresh booking data
-              const response = await bookingAPI.getBookingById(booking.id);
-              const responseData = response.data as any;
-              const bookingData = responseData?.data?.booking || responseData?.booking || responseData;
+              const bookingData = await bookingAPI.getBookingById(booking.id);
               setBooking(bookingData);
               
               Alert.alert('Success', 'Booking unassigned successfully!');
@@ -674,8 +673,8 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
     }
   };
 
-  // Show loading state
-  if (loading) {
+  // Show loading state (cached details are applied on the next render)
+  if (loading || (cachedBooking && !booking)) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.headerSection}>
@@ -723,13 +722,8 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
     );
   }
 
-  const statusOptions: BookingStatus[] = [
-    BookingStatus.PENDING, 
-    BookingStatus.IN_PROGRESS, 
-    BookingStatus.CONFIRMED, 
-    BookingStatus.DELIVERED, 
-    BookingStatus.CANCELLED
-  ];
+  // Only the moves the state machine allows this role from the current status
+  const statusOptions = getAllowedTransitions(booking.status, userRole);
 
   return (
     <SafeAreaView style={styles.container}>
@@ -757,7 +751,7 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
           >
             {booking.status}
           </Chip>
-          {userRole === 'CUSTOMER_ADVISOR' ? (
+          {userRole === 'CUSTOMER_ADVISOR' && statusOptions.length > 0 ? (
             <Menu
               visible={statusMenuVisible}
               onDismiss={() => setStatusMenuVisible(false)}
@@ -776,7 +770,7 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
                 <Menu.Item
                   key={status}
                   onPress={() => handleUpdateStatus(status)}
-                  title={status}
+                  title={formatBookingStatus(status)}
                 />
               ))}
             </Menu>
@@ -994,11 +988,24 @@ export function BookingDetailsScreen({ route, navigation }: any): React.JSX.Elem
                   ? 'Chassis Number:'
                   : 'Allocation / Order Number:'}
               </Text>
-              <Text style={styles.infoValue}>
-                {booking.stockAvailability === StockAvailability.VEHICLE_AVAILABLE
-                  ? booking.chassisNumber || 'Not assigned'
-                  : booking.allocationOrderNumber || 'Not assigned'}
-              </Text>
+              {booking.stockAvailability === StockAvailability.VEHICLE_AVAILABLE && booking.chassisNumber ? (
+                // Opens the exact unit in the yard carrying this chassis number
+                <TouchableOpacity
+                  style={styles.infoLink}
+                  onPress={() =>
+                    navigation.navigate('VehicleUnitDetail', { chassisNumber: booking.chassisNumber })
+                  }
+                >
+                  <Text style={[styles.infoValue, styles.infoLinkText]}>{booking.chassisNumber}</Text>
+                  <Icon source="chevron-right" size={18} color={theme.colors.primary} />
+                </TouchableOpacity>
+              ) : (
+                <Text style={styles.infoValue}>
+                  {booking.stockAvailability === StockAvailability.VEHICLE_AVAILABLE
+                    ? 'Not assigned'
+                    : booking.allocationOrderNumber || 'Not assigned'}
+                </Text>
+              )}
             </View>
           </Card.Content>
         </Card>
@@ -1376,6 +1383,15 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'right',
   },
+  infoLink: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  infoLinkText: {
+    color: theme.colors.primary,
+  },
   switchRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -39,9 +39,11 @@ import { theme, spacing, shadows, borderRadius } from '../../utils/theme';
 import { useAuth } from '../../context/AuthContext';
 import { getUserRole } from '../../utils/roleUtils';
 import { remarksAPI } from '../../api/remarks';
+import { isQueuedMutationError } from '../../services/offlineQueue.service';
 import { Dialog, Portal } from 'react-native-paper';
 import { useMemo } from 'react';
 import { formatDateTime, formatDate } from '../../utils/formatting';
+import { getAllowedTransitions, checkBookingTransition, formatBookingStatus } from '../../utils/bookingStateMachine';
 
 type NavigationProp = StackNavigationProp<MainStackParamList>;
 
@@ -272,11 +274,7 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
   const loadBooking = async () => {
     try {
       setLoading(true);
-      const response = await bookingAPI.getBookingById(bookingId);
-      
-      // Handle nested response structure: {data: {data: {booking: {...}}}}
-      const responseData = response.data as any;
-      const bookingData = responseData?.data?.booking || responseData?.booking || responseData;
+      const bookingData = await bookingAPI.getBookingById(bookingId);
       
       setBooking(bookingData);
       initializeFormData(bookingData);
@@ -345,10 +343,34 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
     });
   };
 
+  // Status move being saved, checked against the booking state machine
+  const getStatusTransitionCheck = () => {
+    if (!booking || !formData.status || formData.status === booking.status) return null;
+    return checkBookingTransition(booking, formData.status, userRole, {
+      expectedDeliveryDate: formData.expectedDeliveryDate,
+      financeRequired: formData.financeRequired,
+      financerName: formData.financerName,
+      chassisNumber: formData.chassisNumber,
+      allocationOrderNumber: formData.allocationOrderNumber,
+      rtoDate: formData.rtoDate,
+      vahanDate: formData.vahanDate,
+    });
+  };
+
   // Validation
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
+    const transition = getStatusTransitionCheck();
+    if (transition && !transition.allowed) {
+      newErrors.status = transition.reasons.join(' ');
+      transition.missingFields.forEach(field => {
+        newErrors[field] = isFieldEditable(field, formData[field])
+          ? `Required before ${formatBookingStatus(formData.status!)}`
+          : `Required before ${formatBookingStatus(formData.status!)} (set by admin)`;
+      });
+    }
+
     if (userRole === 'CUSTOMER_ADVISOR') {
       // Customer Advisors - validate advisor-only fields
       
@@ -411,8 +433,15 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
 
   // Handle form submission
   const handleSubmit = async () => {
+    if (!booking) return;
+
     if (!validateForm()) {
-      Alert.alert('Validation Error', 'Please fix the errors before submitting');
+      const transition = getStatusTransitionCheck();
+      if (transition && !transition.allowed) {
+        Alert.alert('Status Change Blocked', transition.reasons.join('\n'));
+      } else {
+        Alert.alert('Validation Error', 'Please fix the errors before submitting');
+      }
       return;
     }
 
@@ -487,7 +516,7 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
 
       // For advisors, use updateBookingStatus endpoint for status/fields updates
       // For managers, use updateBooking for remarks
-      let response;
+      let updatedBooking: Booking;
       if (userRole === 'CUSTOMER_ADVISOR') {
         // Advisor-editable fields should use updateBookingStatus endpoint
         const statusUpdateData: any = {};
@@ -500,30 +529,27 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
         if (updateData.approvalDate) statusUpdateData.approvalDate = updateData.approvalDate;
         if (updateData.rtoDate) statusUpdateData.rtoDate = updateData.rtoDate;
         
-        response = await bookingAPI.updateBookingStatus(bookingId, statusUpdateData);
+        updatedBooking = await bookingAPI.updateBookingStatus(bookingId, statusUpdateData, { booking, role: userRole });
       } else {
         // Use the comprehensive updateBooking API for managers (remarks only)
-        response = await bookingAPI.updateBooking(bookingId, updateData);
+        updatedBooking = await bookingAPI.updateBooking(bookingId, updateData, { booking, role: userRole });
       }
       
-      // Update local booking state with the response data
-      if (response?.data) {
-        const updatedBooking = response.data;
-        setBooking(updatedBooking);
-        
-        // Update form data with the latest remarks from backend
-        setFormData(prev => ({
-          ...prev,
-          stockAvailability: updatedBooking.stockAvailability,
-          chassisNumber: updatedBooking.chassisNumber || '',
-          allocationOrderNumber: updatedBooking.allocationOrderNumber || '',
-          advisorRemarks: updatedBooking.advisorRemarks || '',
-          teamLeadRemarks: updatedBooking.teamLeadRemarks || '',
-          salesManagerRemarks: updatedBooking.salesManagerRemarks || '',
-          generalManagerRemarks: updatedBooking.generalManagerRemarks || '',
-          adminRemarks: updatedBooking.adminRemarks || '',
-        }));
-      }
+      // Update local booking state with the saved booking
+      setBooking(updatedBooking);
+
+      // Update form data with the latest remarks from backend
+      setFormData(prev => ({
+        ...prev,
+        stockAvailability: updatedBooking.stockAvailability,
+        chassisNumber: updatedBooking.chassisNumber || '',
+        allocationOrderNumber: updatedBooking.allocationOrderNumber || '',
+        advisorRemarks: updatedBooking.advisorRemarks || '',
+        teamLeadRemarks: updatedBooking.teamLeadRemarks || '',
+        salesManagerRemarks: updatedBooking.salesManagerRemarks || '',
+        generalManagerRemarks: updatedBooking.generalManagerRemarks || '',
+        adminRemarks: updatedBooking.adminRemarks || '',
+      }));
       
       Alert.alert(
         'Success',
@@ -536,6 +562,12 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
         ]
       );
     } catch (error: any) {
+      if (isQueuedMutationError(error)) {
+        Alert.alert('Saved Offline', error.message, [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+        return;
+      }
       console.error('Error updating booking:', error);
       Alert.alert(
         'Update Failed',
@@ -593,6 +625,12 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
       setRemarkError(null);
       Alert.alert('Success', 'Remark added successfully.');
     } catch (err: any) {
+      if (isQueuedMutationError(err)) {
+        setRemarkInput('');
+        setRemarkError(null);
+        Alert.alert('Saved Offline', err.message);
+        return;
+      }
       console.error('❌ Error adding remark:', err);
       const errorMessage = err.response?.data?.message || err.message || 'Failed to add remark. Please try again.';
       
@@ -778,6 +816,13 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
   };
 
   // Render status menu
+  // Only the current status and the moves the state machine allows for this role
+  const statusOptions = booking
+    ? STATUS_OPTIONS.filter(
+        option => option.value === booking.status || getAllowedTransitions(booking.status, userRole).includes(option.value)
+      )
+    : STATUS_OPTIONS;
+
   const renderStatusMenu = () => (
     <Menu
       visible={statusMenuVisible}
@@ -795,7 +840,10 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
         />
       }
     >
-      {STATUS_OPTIONS.map((option) => (
+      {statusOptions.length <= 1 && (
+        <Menu.Item title="No further status changes" disabled />
+      )}
+      {statusOptions.map((option) => (
         <Menu.Item
           key={option.value}
           onPress={() => {
@@ -1208,8 +1256,10 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
               label="RTO Date"
               value={formData.rtoDate}
               onChange={(date) => handleDateChange('rtoDate', date)}
+              error={errors.rtoDate}
               style={styles.input}
             />
+            {errors.rtoDate && <HelperText type="error">{errors.rtoDate}</HelperText>}
 
             {/* Phase 2: Vahan Date */}
             <DatePickerISO
@@ -1224,8 +1274,10 @@ export function BookingUpdateScreen({ route }: BookingUpdateScreenProps): React.
                   });
                 }
               }}
+              error={errors.vahanDate}
               style={styles.input}
             />
+            {errors.vahanDate && <HelperText type="error">{errors.vahanDate}</HelperText>}
           </Card.Content>
         </Card>
 
@@ -12,6 +12,8 @@ import {
   Dimensions,
   TouchableOpacity,
   Animated,
+  Alert,
+  FlatList,
 } from 'react-native';
 import {
   Text,
@@ -19,22 +21,30 @@ import {
   Searchbar,
   ActivityIndicator,
   Snackbar,
+  Button,
+  Menu,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation, useRoute } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { LinearGradient as ExpoLinearGradient } from 'expo-linear-gradient';
 import Svg, { Path, Rect, Defs, LinearGradient, Stop, G, Ellipse, Circle } from 'react-native-svg';
 
 import { BookingCard } from '../../components/BookingCard';
 import { DownloadButton } from '../../components/DownloadButton';
+import { UploadButton } from '../../components/UploadButton';
+import { OfflineQueueBanner } from '../../components/OfflineQueueBanner';
 import * as BookingService from '../../services/booking.service';
-import { Booking, TimelineCategory } from '../../services/types';
+import { Booking, BookingStatus, TimelineCategory } from '../../services/types';
 import { MainStackParamList } from '../../navigation/MainNavigator';
 import { theme, spacing, shadows, borderRadius } from '../../utils/theme';
 import { useAuth } from '../../context/AuthContext';
+import { useOfflineQueue } from '../../context/OfflineQueueContext';
 import { getUserRole } from '../../utils/roleUtils';
+import { canImportData } from '../../utils/permissions';
 import { getDataFilterOptions, canSeeUserData, getRoleDisplayNameWithHierarchy, filterBookingsByHierarchy } from '../../utils/hierarchyUtils';
+import { getAllowedTransitions, formatBookingStatus } from '../../utils/bookingStateMachine';
+import { usePaginatedList, PageRequest } from '../../hooks/usePaginatedList';
 
 const { width, height } = Dimensions.get('window');
 
@@ -100,8 +110,9 @@ type StatusFilter = 'all' | 'pending' | 'retailed' | 'cancelled';
 
 export function BookingsScreen(): React.JSX.Element {
   const navigation = useNavigation<NavigationProp>();
-  const route = useRoute<any>();
+  const route = useRoute<RouteProp<MainStackParamList, 'Bookings'>>();
   const { state: authState } = useAuth();
+  const { lastSyncedAt } = useOfflineQueue();
 
   // Get user role and hierarchical permissions
   const userRole = getUserRole(authState.user);
@@ -109,12 +120,12 @@ export function BookingsScreen(): React.JSX.Element {
 
   // State
   const [selectedStatus, setSelectedStatus] = useState<StatusFilter>('all');
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [snackbar, setSnackbar] = useState({ visible: false, message: '' });
   const [pendingFilterIds, setPendingFilterIds] = useState<string[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkStatusMenuVisible, setBulkStatusMenuVisible] = useState(false);
+  const [bulkUpdating, setBulkUpdating] = useState(false);
 
   const pendingIdsSet = useMemo(() => {
     return pendingFilterIds ? new Set(pendingFilterIds) : null;
@@ -126,117 +137,72 @@ export function BookingsScreen(): React.JSX.Element {
     setPendingFilterIds(null);
   }, []);
 
-  // Fetch bookings by timeline
-  const fetchBookings = useCallback(async (showLoading = true) => {
-    try {
-      if (showLoading) setLoading(true);
-      
-      const currentUserId = authState.user?.firebaseUid || authState.user?.id;
-      const dealershipId = authState.user?.dealership?.id || authState.user?.dealershipId;
-      const dealershipCode = authState.user?.dealership?.code || authState.user?.dealershipCode;
-
-      // Only check if dealershipId and dealershipCode exist - don't require UUID format
-      // Some dealership IDs may be custom strings like "default-dealership-001"
-      if (!dealershipId || !dealershipCode) {
-        console.warn('[BookingsScreen] Waiting for valid dealership context before fetching', {
-          dealershipId,
-          dealershipCode,
-          hasDealership: !!authState.user?.dealership,
-        });
-        setLoading(false);
-        setRefreshing(false);
-        return;
-      }
-      
-      if (__DEV__) {
-        console.log('[BookingsScreen] Fetching bookings with context:', {
-          currentUserId,
-          dealershipId,
-          dealershipCode,
-          userRole,
-        });
-      }
-      const scope =
-        userRole === 'CUSTOMER_ADVISOR'
-          ? 'advisor'
-          : userRole === 'TEAM_LEAD'
-          ? 'team'
-          : 'dealership';
-      const response = await BookingService.getMyBookings(undefined, undefined, userRole, currentUserId, {
+  const currentUserId = authState.user?.firebaseUid || authState.user?.id;
+  const dealershipId = authState.user?.dealership?.id || authState.user?.dealershipId || undefined;
+  const dealershipCode = authState.user?.dealership?.code || authState.user?.dealershipCode || undefined;
+  // Only check if dealershipId and dealershipCode exist - don't require UUID format
+  // Some dealership IDs may be custom strings like "default-dealership-001"
+  const hasDealershipContext = !!dealershipId && !!dealershipCode;
+
+  // Fetch one page of bookings; pull-to-refresh passes updatedSince to get only changes
+  const fetchBookingsPage = useCallback(async ({ page, limit, updatedSince }: PageRequest) => {
+    if (__DEV__) {
+      console.log('[BookingsScreen] Fetching bookings page with context:', {
+        page,
+        updatedSince,
+        currentUserId,
         dealershipId,
         dealershipCode,
-        scope,
-      });
-      
-      // Ensure we have a valid bookings array
-      let bookingsArray = response.bookings || [];
-      if (!Array.isArray(bookingsArray)) {
-        console.warn('[BookingsScreen] Response bookings is not an array:', typeof bookingsArray, bookingsArray);
-        bookingsArray = [];
-      }
-      
-      // Debug logging
-      if (__DEV__) {
-        console.log('[BookingsScreen] Fetched bookings:', {
-          count: bookingsArray.length,
-          userRole,
-          currentUserId,
-          dealershipId,
-          dealershipCode,
-          scope,
-          firstBooking: bookingsArray[0] ? {
-            id: bookingsArray[0].id,
-            customerName: bookingsArray[0].customerName,
-            advisorId: bookingsArray[0].advisorId,
-            status: bookingsArray[0].status
-          } : null
-        });
-      }
-      
-      // Apply hierarchical filtering for managers
-      if (['TEAM_LEAD', 'SALES_MANAGER', 'GENERAL_MANAGER'].includes(userRole)) {
-        // For now, we'll use a simplified approach since we don't have all users loaded
-        // In a real implementation, you'd fetch all users and filter based on hierarchy
-        const currentUserId = authState.user?.firebaseUid || authState.user?.id;
-        
-        // Filter bookings based on hierarchy
-        if (currentUserId) {
-          bookingsArray = filterBookingsByHierarchy(bookingsArray, userRole, currentUserId, []);
-        }
-      }
-      
-      setBookings(bookingsArray);
-      
-      // Show a message if no bookings found (but not an error)
-      if (bookingsArray.length === 0 && !loading) {
-        if (__DEV__) {
-          console.log('[BookingsScreen] No bookings found. This might be expected if:', {
-            userRole,
-            hasDealership: !!dealershipId && !!dealershipCode,
-            dealershipId,
-            dealershipCode,
-            scope
-          });
-        }
-      }
-    } catch (error: any) {
-      console.error('[BookingsScreen] Error fetching bookings:', error);
-      console.error('[BookingsScreen] Error details:', {
-        message: error.message,
-        stack: error.stack,
-        response: error.response?.data,
-        status: error.response?.status
+        userRole,
       });
+    }
+    const scope =
+      userRole === 'CUSTOMER_ADVISOR'
+        ? 'advisor'
+        : userRole === 'TEAM_LEAD'
+        ? 'team'
+        : 'dealership';
+    const response = await BookingService.getMyBookings(undefined, undefined, userRole, currentUserId, {
+      dealershipId,
+      dealershipCode,
+      scope,
+      page,
+      limit,
+      updatedSince,
+    });
+
+    // Ensure we have a valid bookings array
+    let bookingsArray = response.bookings || [];
+    if (!Array.isArray(bookingsArray)) {
+      console.warn('[BookingsScreen] Response bookings is not an array:', typeof bookingsArray, bookingsArray);
+      bookingsArray = [];
+    }
+
+    // Apply hierarchical filtering for managers
+    if (['TEAM_LEAD', 'SALES_MANAGER', 'GENERAL_MANAGER'].includes(userRole) && currentUserId) {
+      // For now, we'll use a simplified approach since we don't have all users loaded
+      // In a real implementation, you'd fetch all users and filter based on hierarchy
+      bookingsArray = filterBookingsByHierarchy(bookingsArray, userRole, currentUserId, []);
+    }
+
+    return { items: bookingsArray, pagination: response.pagination };
+  }, [currentUserId, dealershipId, dealershipCode, userRole]);
+
+  const bookingList = usePaginatedList<Booking>({
+    fetchPage: fetchBookingsPage,
+    enabled: hasDealershipContext,
+    resetKey: `${dealershipId}:${dealershipCode}:${userRole}:${currentUserId}`,
+  });
+  const { items: bookings, loading, refreshing, refresh: refreshBookings } = bookingList;
+
+  useEffect(() => {
+    if (bookingList.error) {
       setSnackbar({
         visible: true,
-        message: error.message || 'Failed to load bookings. Please try again.',
+        message: bookingList.error || 'Failed to load bookings. Please try again.',
       });
-      setBookings([]); // Ensure bookings is set to empty array on error
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
     }
-  }, [authState.user?.role, authState.user?.firebaseUid, authState.user?.id, userRole]);
+  }, [bookingList.error]);
 
   useEffect(() => {
     if (route.params?.pendingIds) {
@@ -262,22 +228,82 @@ export function BookingsScreen(): React.JSX.Element {
     }
   }, [route.params?.initialFilter, navigation]);
 
-  // Initial load and timeline change
+  // Pick up changes once queued offline changes have been synced
   useEffect(() => {
-    fetchBookings();
-  }, [fetchBookings]);
+    if (lastSyncedAt) {
+      refreshBookings();
+    }
+  }, [lastSyncedAt, refreshBookings]);
 
-  // Refresh handler
+  // Pull-to-refresh only fetches bookings changed since the last load
   const handleRefresh = useCallback(() => {
-    setRefreshing(true);
-    fetchBookings(false);
-  }, [fetchBookings]);
+    refreshBookings();
+  }, [refreshBookings]);
+
+  const selectionActive = selectedIds.length > 0;
 
-  // Navigate to booking details
+  const toggleSelected = (booking: Booking) => {
+    setSelectedIds(prev =>
+      prev.includes(booking.id) ? prev.filter(id => id !== booking.id) : [...prev, booking.id]
+    );
+  };
+
+  // Navigate to booking details, or toggle selection while bulk-selecting
   const handleBookingPress = (booking: Booking) => {
+    if (selectionActive) {
+      toggleSelected(booking);
+      return;
+    }
     navigation.navigate('BookingDetails', { bookingId: booking.id });
   };
 
+  const selectedBookings = bookings.filter(booking => selectedIds.includes(booking.id));
+
+  // Statuses at least one selected booking can move to; the rest are reported as blocked
+  const bulkStatusOptions = Array.from(
+    new Set(selectedBookings.flatMap(booking => getAllowedTransitions(booking.status, userRole)))
+  );
+
+  const handleBulkStatusChange = async (status: BookingStatus) => {
+    setBulkStatusMenuVisible(false);
+    try {
+      setBulkUpdating(true);
+      const result = await BookingService.bulkUpdateBookingStatus(selectedBookings, status, userRole);
+
+      const messages: string[] = [];
+      if (result.updatedIds.length > 0) {
+        messages.push(`${result.updatedIds.length} moved to ${formatBookingStatus(status)}.`);
+      }
+      if (result.failedIds.length > 0) {
+        messages.push(`${result.failedIds.length} could not be updated by the server.`);
+      }
+      result.blocked.forEach(entry => {
+        const name = selectedBookings.find(booking => booking.id === entry.bookingId)?.customerName || entry.bookingId;
+        messages.push(`${name}: ${entry.reasons.join(' ')}`);
+      });
+
+      Alert.alert(
+        result.blocked.length > 0 || result.failedIds.length > 0 ? 'Some Bookings Were Not Updated' : 'Status Updated',
+        messages.join('\n\n')
+      );
+      setSelectedIds([]);
+      refreshBookings();
+    } catch (error: any) {
+      console.error('❌ [BookingsScreen] Bulk status update failed:', error);
+      Alert.alert('Error', error.message || 'Failed to update booking status');
+    } finally {
+      setBulkUpdating(false);
+    }
+  };
+
+  // Open the merged customer profile for the booking's phone number
+  const handleViewCustomer = (booking: Booking) => {
+    navigation.navigate('CustomerProfile', {
+      phone: booking.customerPhone,
+      customerName: booking.customerName,
+    });
+  };
+
   // Navigate to update booking
   const handleUpdateBooking = (booking: Booking) => {
     navigation.navigate('BookingUpdate', { bookingId: booking.id, booking });
@@ -318,10 +344,15 @@ export function BookingsScreen(): React.JSX.Element {
   });
 
 
+  // Total comes from the server; the status counts, search and status tabs only see
+  // the pages loaded so far, so they are labelled as partial while more pages remain
+  const isPartial = bookingList.hasMore;
+
   // Basic stats
   const getStats = () => {
     return {
-      all: bookings.length,
+      all: bookingList.total ?? bookings.length,
+      loaded: bookings.length,
       pending: bookings.filter(b => ['PENDING', 'ASSIGNED', 'IN_PROGRESS', 'CONFIRMED', 'APPROVED'].includes(b.status)).length,
       retailed: bookings.filter(b => b.status === 'DELIVERED').length,
       cancelled: bookings.filter(b => ['CANCELLED', 'REJECTED', 'NO_SHOW'].includes(b.status)).length,
@@ -358,6 +389,11 @@ export function BookingsScreen(): React.JSX.Element {
           </Text>
           <Text style={styles.statLabel}>Cancelled</Text>
         </View>
+        {isPartial && (
+          <Text style={styles.statsNote}>
+            Pending, retailed and cancelled counts cover the {stats.loaded} bookings loaded so far
+          </Text>
+        )}
       </View>
     );
   };
@@ -489,7 +525,7 @@ export function BookingsScreen(): React.JSX.Element {
             </View>
           </View>
           
-          {/* Download Button */}
+          {/* Download & Upload Buttons */}
           <View style={styles.downloadContainer}>
             <DownloadButton 
               type="bookings" 
@@ -497,6 +533,20 @@ export function BookingsScreen(): React.JSX.Element {
               onDownloadComplete={(result) => console.log('Download completed', result)}
               style={styles.downloadButton}
             />
+            {/* Upload Button - Managers only; rows are reviewed on device before upload */}
+            {canImportData(userRole) && (
+              <UploadButton
+                type="bookings"
+                onUploadComplete={(result) => {
+                  console.log('Booking import completed', result);
+                  bookingList.reload();
+                }}
+                onUploadError={(error) => {
+                  console.error('Booking import error:', error);
+                }}
+                style={styles.uploadButton}
+              />
+            )}
           </View>
           
           {/* Stats Bar */}
@@ -539,7 +589,9 @@ export function BookingsScreen(): React.JSX.Element {
             </Text>
           </View>
         ) : (
-          <ScrollView
+          <FlatList
+            data={filteredBookings}
+            keyExtractor={(booking) => booking.id}
             style={styles.scrollView}
             contentContainerStyle={styles.scrollContent}
             refreshControl={
@@ -551,46 +603,101 @@ export function BookingsScreen(): React.JSX.Element {
               />
             }
             showsVerticalScrollIndicator={false}
-          >
-            {filteredBookings.length === 0 ? (
-              renderEmptyState()
-            ) : (
+            onEndReached={bookingList.loadMore}
+            onEndReachedThreshold={0.5}
+            initialNumToRender={8}
+            maxToRenderPerBatch={8}
+            windowSize={7}
+            removeClippedSubviews
+            ListHeaderComponent={
               <>
-                <View style={styles.listHeader}>
-                  <Text style={styles.sectionTitle}>
-                    {filteredBookings.length} {filteredBookings.length === 1 ? 'Booking' : 'Bookings'}
-                  </Text>
-                  {searchQuery ? (
-                    <Chip
-                      mode="flat"
-                      onClose={() => setSearchQuery('')}
-                      style={styles.searchChip}
-                      textStyle={styles.searchChipText}
-                    >
-                      Filtered
-                    </Chip>
-                  ) : null}
-                </View>
-                {filteredBookings.map((booking, index) => (
-                  <Animated.View
-                    key={booking.id}
-                    style={[
-                      styles.cardWrapper,
-                      { opacity: 1, transform: [{ translateY: 0 }] }
-                    ]}
-                  >
-                    <BookingCard
-                      booking={booking}
-                      onPress={() => handleBookingPress(booking)}
-                      onUpdate={() => handleUpdateBooking(booking)}
-                      showActions={true}
-                      userRole={authState.user?.role?.name}
-                    />
-                  </Animated.View>
-                ))}
+                <OfflineQueueBanner entityType="booking" />
+                {filteredBookings.length > 0 && (
+                  <>
+                    <View style={styles.listHeader}>
+                      <Text style={styles.sectionTitle}>
+                        {filteredBookings.length} {filteredBookings.length === 1 ? 'Booking' : 'Bookings'}
+                        {isPartial && (searchQuery || selectedStatus !== 'all') ? ` of ${bookings.length} loaded` : ''}
+                      </Text>
+                      {searchQuery ? (
+                        <Chip
+                          mode="flat"
+                          onClose={() => setSearchQuery('')}
+                          style={styles.searchChip}
+                          textStyle={styles.searchChipText}
+                        >
+                          Filtered
+                        </Chip>
+                      ) : null}
+                    </View>
+                    {selectionActive && (
+                      <View style={styles.bulkBar}>
+                        <Text style={styles.bulkBarText}>{selectedIds.length} selected</Text>
+                        <View style={styles.bulkBarActions}>
+                          <Button compact onPress={() => setSelectedIds([])} disabled={bulkUpdating}>
+                            Clear
+                          </Button>
+                          <Menu
+                            visible={bulkStatusMenuVisible}
+                            onDismiss={() => setBulkStatusMenuVisible(false)}
+                            anchor={
+                              <Button
+                                mode="contained"
+                                compact
+                                icon="swap-horizontal"
+                                onPress={() => setBulkStatusMenuVisible(true)}
+                                loading={bulkUpdating}
+                                disabled={bulkUpdating}
+                              >
+                                Set Status
+                              </Button>
+                            }
+                          >
+                            {bulkStatusOptions.length === 0 ? (
+                              <Menu.Item title="No status changes allowed" disabled />
+                            ) : (
+                              bulkStatusOptions.map(status => (
+                                <Menu.Item
+                                  key={status}
+                                  title={formatBookingStatus(status)}
+                                  onPress={() => handleBulkStatusChange(status)}
+                                />
+                              ))
+                            )}
+                          </Menu>
+                        </View>
+                      </View>
+                    )}
+                  </>
+                )}
               </>
+            }
+            ListEmptyComponent={renderEmptyState()}
+            ListFooterComponent={
+              bookingList.loadingMore ? (
+                <ActivityIndicator style={styles.listFooterLoader} color="#3B82F6" />
+              ) : null
+            }
+            renderItem={({ item: booking }) => (
+              <Animated.View
+                style={[
+                  styles.cardWrapper,
+                  { opacity: 1, transform: [{ translateY: 0 }] }
+                ]}
+              >
+                <BookingCard
+                  booking={booking}
+                  onPress={() => handleBookingPress(booking)}
+                  onLongPress={() => toggleSelected(booking)}
+                  selected={selectedIds.includes(booking.id)}
+                  onUpdate={() => handleUpdateBooking(booking)}
+                  onViewCustomer={booking.customerPhone ? () => handleViewCustomer(booking) : undefined}
+                  showActions={true}
+                  userRole={authState.user?.role?.name}
+                />
+              </Animated.View>
             )}
-          </ScrollView>
+          />
         )}
 
         {/* Snackbar */}
@@ -693,6 +800,7 @@ const styles = StyleSheet.create({
   },
   statsBar: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     backgroundColor: '#F8FAFC',
     borderRadius: 16,
     padding: 16,
@@ -725,6 +833,13 @@ const styles = StyleSheet.create({
     height: 32,
     backgroundColor: '#E2E8F0',
   },
+  statsNote: {
+    width: '100%',
+    marginTop: 8,
+    fontSize: 11,
+    color: '#64748B',
+    textAlign: 'center',
+  },
   searchAndTabsContainer: {
     paddingHorizontal: 24,
     marginTop: 20,
@@ -846,6 +961,9 @@ const styles = StyleSheet.create({
     padding: 24,
     paddingBottom: 100,
   },
+  listFooterLoader: {
+    paddingVertical: 16,
+  },
   listHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -853,6 +971,27 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     paddingHorizontal: 4,
   },
+  bulkBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: '#EFF6FF',
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  bulkBarText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1E3A8A',
+  },
+  bulkBarActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '800',
@@ -901,9 +1040,15 @@ const styles = StyleSheet.create({
     marginBottom: 32,
   },
   downloadContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
     marginTop: 16,
     marginBottom: 8,
-    alignItems: 'flex-end',
+  },
+  uploadButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
   },
   downloadButton: {
     backgroundColor: '#10B981',
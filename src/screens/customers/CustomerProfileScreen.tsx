@@ -0,0 +1,440 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Linking,
+  Alert,
+} from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  Chip,
+  Icon,
+  Divider,
+  List,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { useAuth } from '../../context/AuthContext';
+import { getCustomerProfile } from '../../services/customer.service';
+import {
+  CustomerProfile,
+  CustomerEntityType,
+  getCustomerJourney,
+  getOpenItems,
+} from '../../utils/customerIndex';
+import { theme, spacing } from '../../utils/theme';
+import { formatPhoneNumber, formatDate, formatDateTime, formatCurrency } from '../../utils/formatting';
+
+const ENTITY_ICONS: Record<CustomerEntityType, string> = {
+  enquiry: 'account-question',
+  quotation: 'file-document-outline',
+  booking: 'car',
+};
+
+/**
+ * Customer Profile Screen Component
+ * One customer's enquiries, quotations and bookings merged by phone number, with the
+ * full journey, remark history and open items
+ */
+export function CustomerProfileScreen({ route, navigation }: any): React.JSX.Element {
+  const phone: string = route?.params?.phone || '';
+  const fallbackName: string | undefined = route?.params?.customerName;
+  const { state: authState } = useAuth();
+  const user = authState.user;
+
+  const [profile, setProfile] = useState<CustomerProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfile = useCallback(async (forceRefresh = false) => {
+    try {
+      setError(null);
+      const result = await getCustomerProfile(phone, {
+        userId: user?.firebaseUid,
+        userRole: user?.role?.name,
+        dealershipId: user?.dealership?.id || user?.dealershipId || undefined,
+        dealershipCode: user?.dealership?.code,
+        forceRefresh,
+      });
+      setProfile(result);
+    } catch (err: any) {
+      console.error('Error loading customer profile:', err);
+      setError(err.message || 'Failed to load customer');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [phone, user]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadProfile(true);
+  };
+
+  /**
+   * Open the record behind a journey entry or open item
+   */
+  const openEntity = (entityType: CustomerEntityType, entityId: string) => {
+    switch (entityType) {
+      case 'enquiry':
+        navigation.navigate('EnquiryDetails', { enquiryId: entityId });
+        break;
+      case 'quotation':
+        navigation.navigate('QuotationDetails', { quotationId: entityId });
+        break;
+      case 'booking':
+        navigation.navigate('BookingDetails', { bookingId: entityId });
+        break;
+    }
+  };
+
+  const handleCall = () => {
+    Linking.openURL(`tel:${phone}`).catch(() => {
+      Alert.alert('Error', 'Unable to start a call on this device');
+    });
+  };
+
+  const renderHeader = () => (
+    <View style={styles.headerSection}>
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+        <Icon source="arrow-left" size={24} color={theme.colors.onSurface} />
+      </TouchableOpacity>
+      <Text variant="headlineSmall" style={styles.headerTitle}>
+        Customer 360
+      </Text>
+      <View style={styles.placeholder} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.centered}>
+          <Text variant="titleMedium" style={styles.emptyTitle}>
+            {error ? 'Could not load customer' : 'No records found'}
+          </Text>
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            {error || `Nothing is linked to ${formatPhoneNumber(phone)} yet.`}
+          </Text>
+          <Button mode="outlined" onPress={() => loadProfile(true)} style={styles.retryButton}>
+            Retry
+          </Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const journey = getCustomerJourney(profile);
+  const remarks = journey.filter(activity => activity.kind === 'remark');
+  const milestones = journey.filter(activity => activity.kind === 'created');
+  const openItems = getOpenItems(profile);
+  const openCount = openItems.enquiries.length + openItems.quotations.length + openItems.bookings.length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {renderHeader()}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Customer Overview */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="headlineSmall" style={styles.customerName}>
+              {profile.name || fallbackName || 'Unknown customer'}
+            </Text>
+            <Text variant="bodyLarge" style={styles.customerDetail}>
+              📞 {formatPhoneNumber(profile.phone)}
+            </Text>
+            {profile.emails.map(email => (
+              <Text key={email} variant="bodyMedium" style={styles.customerDetail}>
+                ✉️ {email}
+              </Text>
+            ))}
+            {profile.firstSeenAt && (
+              <Text variant="bodySmall" style={styles.customerMeta}>
+                Customer since {formatDate(profile.firstSeenAt)}
+              </Text>
+            )}
+
+            <View style={styles.chipRow}>
+              <Chip compact icon={ENTITY_ICONS.enquiry} style={styles.countChip}>
+                {profile.enquiries.length} Enquiries
+              </Chip>
+              <Chip compact icon={ENTITY_ICONS.quotation} style={styles.countChip}>
+                {profile.quotations.length} Quotations
+              </Chip>
+              <Chip compact icon={ENTITY_ICONS.booking} style={styles.countChip}>
+                {profile.bookings.length} Bookings
+              </Chip>
+            </View>
+
+            <Button mode="contained" icon="phone" onPress={handleCall} style={styles.callButton}>
+              Call Customer
+            </Button>
+          </Card.Content>
+        </Card>
+
+        {/* Open Items */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Open Items ({openCount})
+            </Text>
+            {openCount === 0 && (
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                Nothing open for this customer
+              </Text>
+            )}
+          </Card.Content>
+          {openItems.enquiries.map(enquiry => (
+            <List.Item
+              key={`enquiry-${enquiry.id}`}
+              title={`${enquiry.model} ${enquiry.variant || ''}`.trim()}
+              description={`Enquiry • ${enquiry.category} • Follow-up ${formatDate(enquiry.nextFollowUpDate)}`}
+              left={props => <List.Icon {...props} icon={ENTITY_ICONS.enquiry} />}
+              right={props => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => openEntity('enquiry', enquiry.id)}
+            />
+          ))}
+          {openItems.quotations.map(quotation => (
+            <List.Item
+              key={`quotation-${quotation.id}`}
+              title={quotation.quotationNumber || quotation.vehicleDetails || 'Quotation'}
+              description={`Quotation • ${quotation.status}${
+                quotation.totalAmount ?? quotation.amount
+                  ? ` • ${formatCurrency(quotation.totalAmount ?? quotation.amount ?? 0)}`
+                  : ''
+              }`}
+              left={props => <List.Icon {...props} icon={ENTITY_ICONS.quotation} />}
+              right={props => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => openEntity('quotation', quotation.id)}
+            />
+          ))}
+          {openItems.bookings.map(booking => (
+            <List.Item
+              key={`booking-${booking.id}`}
+              title={booking.variant}
+              description={`Booking • ${booking.status} • Delivery ${formatDate(booking.expectedDeliveryDate)}`}
+              left={props => <List.Icon {...props} icon={ENTITY_ICONS.booking} />}
+              right={props => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => openEntity('booking', booking.id)}
+            />
+          ))}
+        </Card>
+
+        {/* Journey */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Journey
+            </Text>
+            {milestones.map((activity, index) => (
+              <View key={activity.id}>
+                {index > 0 && <Divider style={styles.divider} />}
+                <TouchableOpacity
+                  style={styles.timelineRow}
+                  onPress={() => openEntity(activity.entityType, activity.entityId)}
+                >
+                  <Icon source={ENTITY_ICONS[activity.entityType]} size={20} color={theme.colors.primary} />
+                  <View style={styles.timelineContent}>
+                    <Text variant="bodyLarge" style={styles.timelineTitle}>
+                      {activity.title}
+                    </Text>
+                    {activity.description && (
+                      <Text variant="bodySmall" style={styles.timelineDescription}>
+                        {activity.description}
+                      </Text>
+                    )}
+                    <Text variant="bodySmall" style={styles.timelineMeta}>
+                      {formatDate(activity.timestamp)}
+                      {activity.author ? ` • ${activity.author}` : ''}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+
+        {/* Remark History */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Remark History ({remarks.length})
+            </Text>
+            {remarks.length === 0 && (
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                No remarks recorded yet
+              </Text>
+            )}
+            {remarks.map((activity, index) => (
+              <View key={activity.id}>
+                {index > 0 && <Divider style={styles.divider} />}
+                <View style={styles.remarkRow}>
+                  <Text variant="bodyMedium" style={styles.remarkText}>
+                    {activity.description}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.timelineMeta}>
+                    {activity.entityType === 'enquiry' ? 'Enquiry' : 'Booking'} •{' '}
+                    {formatDateTime(activity.timestamp)}
+                    {activity.author ? ` • ${activity.author}` : ''}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  headerSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F8F9FA',
+    justifyContent: 'center',
+    alignItems: 'center',
+    elevation: 1,
+  },
+  headerTitle: {
+    color: theme.colors.onSurface,
+    fontWeight: '700',
+  },
+  placeholder: {
+    width: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: spacing.lg,
+    elevation: 2,
+  },
+  customerName: {
+    color: theme.colors.onSurface,
+    fontWeight: '700',
+    marginBottom: spacing.sm,
+  },
+  customerDetail: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  customerMeta: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  countChip: {
+    backgroundColor: theme.colors.primaryContainer,
+  },
+  callButton: {
+    marginTop: spacing.md,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: theme.colors.onSurface,
+    marginBottom: spacing.sm,
+  },
+  emptyTitle: {
+    color: theme.colors.onSurface,
+    marginBottom: spacing.sm,
+  },
+  emptyText: {
+    color: theme.colors.onSurfaceVariant,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: spacing.md,
+  },
+  divider: {
+    marginVertical: spacing.sm,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.md,
+    paddingVertical: spacing.xs,
+  },
+  timelineContent: {
+    flex: 1,
+  },
+  timelineTitle: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+  },
+  timelineDescription: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 2,
+  },
+  timelineMeta: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: 2,
+  },
+  remarkRow: {
+    paddingVertical: spacing.xs,
+  },
+  remarkText: {
+    color: theme.colors.onSurface,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   StyleSheet,
@@ -61,9 +61,16 @@ import {
   StockAPI,
   remarksAPI,
   dashboardAPI,
+  fetchAllPages,
 } from '../../api';
 import { getMyBookings } from '../../services/booking.service';
+import { useCachedQuery } from '../../hooks/useCachedResource';
 import { PendingRemarksSummary, TodayBookingPlan } from '../../services/types';
+import { getQuotationsExpiringThisWeek } from '../../services/quotationExpiry.service';
+import { formatQuotationExpiry } from '../../utils/quotationExpiry';
+
+// Expiring quotations listed on the dashboard before "View All"
+const EXPIRING_QUOTATIONS_SHOWN = 3;
 
 const isLikelyUuid = (id?: string | null) =>
   !!id &&
@@ -114,15 +121,6 @@ interface DashboardData {
   };
 }
 
-/**
- * Loading and error states
- */
-interface DashboardState {
-  loading: boolean;
-  error: string | null;
-  data: DashboardData | null;
-}
-
 /**
  * Default empty dashboard data
  */
@@ -154,14 +152,7 @@ export function DashboardScreen({ navigation }: any): React.JSX.Element {
   const { state } = useAuth();
   const { getTeamHierarchy, getDirectReports } = useTeam();
   
-  const [dashboardState, setDashboardState] = useState<DashboardState>({
-    loading: true,
-    error: null,
-    data: null,
-  });
   const [refreshing, setRefreshing] = useState(false);
-  const [pendingSummary, setPendingSummary] = useState<PendingRemarksSummary | null>(null);
-  const [bookingPlan, setBookingPlan] = useState<TodayBookingPlan | null>(null);
   // Phase 2: Funnel Math
   const [funnelData, setFunnelData] = useState<{
     carryForward: number;
@@ -217,215 +208,186 @@ export function DashboardScreen({ navigation }: any): React.JSX.Element {
   const teamHierarchy = state.user ? getTeamHierarchy(state.user.firebaseUid) : null;
   const directReports = state.user ? getDirectReports(state.user.firebaseUid) : [];
 
-  /**
-   * Handle refresh
-   */
-  const handleRefresh = useCallback(async () => {
-    setRefreshing(true);
-    await fetchDashboardData();
-    setRefreshing(false);
-  }, []);
+  const dealershipId = state.user?.dealership?.id || state.user?.dealershipId || undefined;
+  const dealershipCode = state.user?.dealership?.code || undefined;
+  const currentUserId = state.user?.firebaseUid;
+  const scope =
+    userRole === 'CUSTOMER_ADVISOR'
+      ? 'advisor'
+      : userRole === 'TEAM_LEAD'
+      ? 'team'
+      : 'dealership';
+
+  // Figures are cached per dealership, scope and user so switching accounts never shows stale numbers
+  const hasDealershipContext = !!dealershipId && !!dealershipCode;
+  // Same rule as the quotations list: advisors have no access to quotations
+  const canViewQuotations = userRole !== 'CUSTOMER_ADVISOR';
+  const cacheScope = `${dealershipId}:${scope}:${currentUserId}`;
 
   /**
    * Fetch dashboard data from API
    */
-  const fetchDashboardData = useCallback(async () => {
-    try {
-      setDashboardState(prev => ({ ...prev, loading: true, error: null }));
-      const dealershipId = state.user?.dealership?.id || state.user?.dealershipId;
-      const dealershipCode = state.user?.dealership?.code;
-
-      if (!dealershipId || !dealershipCode) {
-        console.warn('[Dashboard] Waiting for valid dealership context before fetching data', {
-          dealershipId,
-          dealershipCode,
-        });
-        setDashboardState(prev => ({ ...prev, loading: false }));
-        return;
-      }
-
-      const scope =
-        userRole === 'CUSTOMER_ADVISOR'
-          ? 'advisor'
-          : userRole === 'TEAM_LEAD'
-          ? 'team'
-          : 'dealership';
-
-      const pendingSummaryPromise = remarksAPI
-        .getPendingSummary({
-          dealershipId,
-          dealershipCode,
-          scope,
-        })
-        .catch((err) => {
-          console.error('Error fetching pending remarks summary:', err);
-          return null;
-        });
-      const bookingPlanPromise = dashboardAPI
-        .getTodayBookingPlan({
-          dealershipId,
-          dealershipCode,
-        })
-        .catch((err) => {
-          console.error('Error fetching today booking plan:', err);
-          return null;
-        });
-      
-      // Initialize safe defaults
-      let enquiries: any[] = [];
-      let bookings: any[] = [];
-      
-      // Fetch advisor-specific data using services
-      const currentUserId = state.user?.firebaseUid;
-      console.log('🔑 Dashboard - Current User ID:', currentUserId);
-      console.log('🔑 Dashboard - User Role:', userRole);
-      
-      const [enquiriesResponse, bookingsData] = await Promise.all([
-        enquiryAPI.getEnquiries({
-          page: 1,
-          limit: 1000,
-          dealershipId,
-          dealershipCode,
-          scope,
-        }), // Get all enquiries (will be filtered by user)
-        getMyBookings(undefined, undefined, userRole, currentUserId, { dealershipId, dealershipCode, scope }), // Get advisor's assigned bookings
-      ]);
-      
-      // Extract data from responses - handle nested data structure
-      console.log('📊 [Dashboard] Enquiries response structure:', {
-        hasData: !!enquiriesResponse?.data,
-        dataKeys: enquiriesResponse?.data ? Object.keys(enquiriesResponse.data) : [],
-        response: enquiriesResponse,
-      });
-      
-      const allEnquiries = (enquiriesResponse?.data as any)?.enquiries || (enquiriesResponse?.data as any)?.data?.enquiries || [];
-      bookings = bookingsData.bookings || [];
-      
-      console.log('📊 [Dashboard] Extracted enquiries:', {
-        count: allEnquiries.length,
-        sample: allEnquiries[0],
-      });
-      
-      
-      
-      // Apply role-based filtering for enquiries
-      if (userRole === 'CUSTOMER_ADVISOR') {
-        // Customer Advisors can only see their own enquiries
-        enquiries = allEnquiries.filter((enquiry: any) => 
-          enquiry.createdByUserId === currentUserId || 
-          enquiry.createdBy?.firebaseUid === currentUserId ||
-          enquiry.assignedToUserId === currentUserId
-        );
-      } else {
-        // Management roles (Team Lead, Sales Manager, etc.) can see all enquiries in dealership
-        // Backend already filters by dealership, so no additional filtering needed
-        enquiries = allEnquiries;
-      }
-      
-      // Ensure we have valid arrays
-      if (!Array.isArray(enquiries)) {
-        enquiries = [];
-      }
-      if (!Array.isArray(bookings)) {
-        bookings = [];
-      }
-      
-      // Process enquiries data
-      const enquiriesByCategory = {
-        total: Array.isArray(enquiries) ? enquiries.length : 0,
-        hot: Array.isArray(enquiries) ? enquiries.filter((e: any) => e.category === 'HOT').length : 0,
-        booked: Array.isArray(enquiries) ? enquiries.filter((e: any) => e.category === 'BOOKED').length : 0,
-        lost: Array.isArray(enquiries) ? enquiries.filter((e: any) => e.category === 'LOST').length : 0,
-      };
+  const fetchDashboardData = useCallback(async (): Promise<DashboardData> => {
+    if (!dealershipId || !dealershipCode) {
+      throw new Error('Dealership context is not available yet');
+    }
 
-      // Process bookings data
-      const bookingsByStatus = {
-        total: Array.isArray(bookings) ? bookings.length : 0,
-        pending: Array.isArray(bookings) ? bookings.filter((b: any) => 
-          ['PENDING', 'ASSIGNED', 'IN_PROGRESS', 'CONFIRMED', 'APPROVED'].includes(b.status)
-        ).length : 0,
-        retailed: Array.isArray(bookings) ? bookings.filter((b: any) => b.status === 'DELIVERED').length : 0,
-        cancelled: Array.isArray(bookings) ? bookings.filter((b: any) => 
-          ['CANCELLED', 'REJECTED', 'NO_SHOW'].includes(b.status)
-        ).length : 0,
-        today: Array.isArray(bookings) ? bookings.filter((b: any) => {
-          const today = new Date().toISOString().split('T')[0];
-          return b.expectedDeliveryDate && b.expectedDeliveryDate.split('T')[0] === today;
-        }).length : 0,
-        thisWeek: Array.isArray(bookings) ? bookings.filter((b: any) => {
-          const bookingDate = new Date(b.bookingDate);
-          const weekAgo = new Date();
-          weekAgo.setDate(weekAgo.getDate() - 7);
-          return bookingDate >= weekAgo;
-        }).length : 0,
-      };
+    // Initialize safe defaults
+    let enquiries: any[] = [];
+    let bookings: any[] = [];
+    
+    // Fetch advisor-specific data using services
+    console.log('🔑 Dashboard - Current User ID:', currentUserId);
+    console.log('🔑 Dashboard - User Role:', userRole);
+    
+    const [enquiriesResponse, bookingsData] = await Promise.all([
+      fetchAllPages((page, limit) =>
+        enquiryAPI.getEnquiries({ page, limit, dealershipId, dealershipCode, scope })
+      ), // Get all enquiries (will be filtered by user)
+      getMyBookings(undefined, undefined, userRole, currentUserId, { dealershipId, dealershipCode, scope }), // Get advisor's assigned bookings
+    ]);
+    
+    const allEnquiries = enquiriesResponse.items;
+    bookings = bookingsData.bookings || [];
+    
+    console.log('📊 [Dashboard] Extracted enquiries:', {
+      count: allEnquiries.length,
+      sample: allEnquiries[0],
+    });
+    
+    
+    
+    // Apply role-based filtering for enquiries
+    if (userRole === 'CUSTOMER_ADVISOR') {
+      // Customer Advisors can only see their own enquiries
+      enquiries = allEnquiries.filter((enquiry: any) => 
+        enquiry.createdByUserId === currentUserId || 
+        enquiry.createdBy?.firebaseUid === currentUserId ||
+        enquiry.assignedToUserId === currentUserId
+      );
+    } else {
+      // Management roles (Team Lead, Sales Manager, etc.) can see all enquiries in dealership
+      // Backend already filters by dealership, so no additional filtering needed
+      enquiries = allEnquiries;
+    }
+    
+    // Ensure we have valid arrays
+    if (!Array.isArray(enquiries)) {
+      enquiries = [];
+    }
+    if (!Array.isArray(bookings)) {
+      bookings = [];
+    }
+    
+    // Process enquiries data
+    const enquiriesByCategory = {
+      total: Array.isArray(enquiries) ? enquiries.length : 0,
+      hot: Array.isArray(enquiries) ? enquiries.filter((e: any) => e.category === 'HOT').length : 0,
+      booked: Array.isArray(enquiries) ? enquiries.filter((e: any) => e.category === 'BOOKED').length : 0,
+      lost: Array.isArray(enquiries) ? enquiries.filter((e: any) => e.category === 'LOST').length : 0,
+    };
+
+    // Process bookings data
+    const bookingsByStatus = {
+      total: Array.isArray(bookings) ? bookings.length : 0,
+      pending: Array.isArray(bookings) ? bookings.filter((b: any) => 
+        ['PENDING', 'ASSIGNED', 'IN_PROGRESS', 'CONFIRMED', 'APPROVED'].includes(b.status)
+      ).length : 0,
+      retailed: Array.isArray(bookings) ? bookings.filter((b: any) => b.status === 'DELIVERED').length : 0,
+      cancelled: Array.isArray(bookings) ? bookings.filter((b: any) => 
+        ['CANCELLED', 'REJECTED', 'NO_SHOW'].includes(b.status)
+      ).length : 0,
+      today: Array.isArray(bookings) ? bookings.filter((b: any) => {
+        const today = new Date().toISOString().split('T')[0];
+        return b.expectedDeliveryDate && b.expectedDeliveryDate.split('T')[0] === today;
+      }).length : 0,
+      thisWeek: Array.isArray(bookings) ? bookings.filter((b: any) => {
+        const bookingDate = new Date(b.bookingDate);
+        const weekAgo = new Date();
+        weekAgo.setDate(weekAgo.getDate() - 7);
+        return bookingDate >= weekAgo;
+      }).length : 0,
+    };
+
+    // Calculate sales data from quotations (if any)
+    const quotations = Array.isArray(enquiries) ? enquiries.flatMap((e: any) => e.quotations || []) : [];
+    const totalQuotationValue = quotations.reduce((sum: number, q: any) => sum + (q.amount || 0), 0);
+
+    // Process the data into dashboard format
+    const dashboardData: DashboardData = {
+      enquiries: enquiriesByCategory,
+      followUps: {
+        today: 0, // TODO: Implement follow-ups if needed
+        thisWeek: 0,
+        overdue: 0,
+      },
+      bookings: bookingsByStatus,
+      quotations: {
+        total: quotations.length,
+        generated: quotations.filter((q: any) => q.status === 'SENT').length,
+        pending: quotations.filter((q: any) => q.status === 'PENDING').length,
+        approved: quotations.filter((q: any) => q.status === 'ACCEPTED').length,
+      },
+      sales: {
+        monthlyTotal: `₹${totalQuotationValue.toLocaleString()}`,
+        monthlyTarget: `₹${(totalQuotationValue * 1.2).toLocaleString()}`, // 20% above current
+        progress: totalQuotationValue > 0 ? Math.round((totalQuotationValue / (totalQuotationValue * 1.2)) * 100) : 0,
+        lastMonth: `₹${(totalQuotationValue * 0.8).toLocaleString()}`, // 20% below current
+      },
+      stock: {
+        totalVehicles: 0, // Advisors don't have access to stock stats
+        availableVehicles: 0,
+        reservedVehicles: 0,
+        soldVehicles: 0,
+        totalValue: '₹0',
+      },
+    };
+
+    return dashboardData;
+  }, [dealershipId, dealershipCode, scope, currentUserId, userRole]);
 
-      // Calculate sales data from quotations (if any)
-      const quotations = Array.isArray(enquiries) ? enquiries.flatMap((e: any) => e.quotations || []) : [];
-      const totalQuotationValue = quotations.reduce((sum: number, q: any) => sum + (q.amount || 0), 0);
-
-      // Process the data into dashboard format
-      const dashboardData: DashboardData = {
-        enquiries: enquiriesByCategory,
-        followUps: {
-          today: 0, // TODO: Implement follow-ups if needed
-          thisWeek: 0,
-          overdue: 0,
-        },
-        bookings: bookingsByStatus,
-        quotations: {
-          total: quotations.length,
-          generated: quotations.filter((q: any) => q.status === 'SENT').length,
-          pending: quotations.filter((q: any) => q.status === 'PENDING').length,
-          approved: quotations.filter((q: any) => q.status === 'ACCEPTED').length,
-        },
-        sales: {
-          monthlyTotal: `₹${totalQuotationValue.toLocaleString()}`,
-          monthlyTarget: `₹${(totalQuotationValue * 1.2).toLocaleString()}`, // 20% above current
-          progress: totalQuotationValue > 0 ? Math.round((totalQuotationValue / (totalQuotationValue * 1.2)) * 100) : 0,
-          lastMonth: `₹${(totalQuotationValue * 0.8).toLocaleString()}`, // 20% below current
-        },
-        stock: {
-          totalVehicles: 0, // Advisors don't have access to stock stats
-          availableVehicles: 0,
-          reservedVehicles: 0,
-          soldVehicles: 0,
-          totalValue: '₹0',
-        },
-      };
+  /**
+   * Dashboard figures, pending remarks and today's plan are served from the shared cache
+   * and refetched in the background (and whenever a booking, enquiry or remark changes)
+   */
+  const {
+    data: cachedDashboardData,
+    loading: dashboardLoading,
+    error: dashboardError,
+    refresh: refreshDashboardData,
+  } = useCachedQuery(`dashboard:stats:${cacheScope}`, fetchDashboardData, { enabled: hasDealershipContext });
+
+  const { data: pendingSummary, refresh: refreshPendingSummary } = useCachedQuery<PendingRemarksSummary | null>(
+    `remarks:pending-summary:${cacheScope}`,
+    () => remarksAPI.getPendingSummary({ dealershipId, dealershipCode, scope }),
+    { enabled: hasDealershipContext }
+  );
 
+  const { data: bookingPlan, refresh: refreshBookingPlan } = useCachedQuery<TodayBookingPlan | null>(
+    `dashboard:booking-plan:${cacheScope}`,
+    async () => normalizeBookingPlan(await dashboardAPI.getTodayBookingPlan({ dealershipId, dealershipCode })),
+    { enabled: hasDealershipContext }
+  );
 
-      setDashboardState({
-        loading: false,
-        error: null,
-        data: dashboardData,
-      });
-
-      const pendingData = await pendingSummaryPromise;
-      setPendingSummary(pendingData);
-
-      const bookingPlanData = await bookingPlanPromise;
-      setBookingPlan(normalizeBookingPlan(bookingPlanData));
-    } catch (error: any) {
-      console.error('Error fetching dashboard data:', error);
-      setDashboardState({
-        loading: false,
-        error: error.message || 'Failed to load dashboard data',
-        data: getEmptyDashboardData(),
-      });
-      setPendingSummary(null);
-      setBookingPlan(null);
-    }
-  }, [userRole]);
+  const { data: expiringQuotations, refresh: refreshExpiringQuotations } = useCachedQuery(
+    `dashboard:quotations-expiring:${cacheScope}`,
+    () => getQuotationsExpiringThisWeek(),
+    { enabled: hasDealershipContext && canViewQuotations }
+  );
 
   /**
-   * Handle pull to refresh
+   * Handle refresh
    */
-  const onRefresh = useCallback(async () => {
+  const handleRefresh = useCallback(async () => {
     setRefreshing(true);
-    await fetchDashboardData();
+    await Promise.all([
+      refreshDashboardData(),
+      refreshPendingSummary(),
+      refreshBookingPlan(),
+      refreshExpiringQuotations(),
+    ]);
     setRefreshing(false);
-  }, [fetchDashboardData]);
+  }, [refreshDashboardData, refreshPendingSummary, refreshBookingPlan, refreshExpiringQuotations]);
 
   const handlePendingUpdatesPress = useCallback(() => {
     if (!pendingSummary) {
@@ -467,13 +429,6 @@ export function DashboardScreen({ navigation }: any): React.JSX.Element {
     }
   }, [navigation, pendingSummary]);
 
-  /**
-   * Load data on component mount
-   */
-  useEffect(() => {
-    fetchDashboardData();
-  }, [fetchDashboardData]);
-
   /**
    * Get welcome message based on time of day
    */
@@ -485,7 +440,7 @@ export function DashboardScreen({ navigation }: any): React.JSX.Element {
   };
 
   // Show loading state
-  if (dashboardState.loading && !dashboardState.data) {
+  if (dashboardLoading && !cachedDashboardData) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
@@ -499,7 +454,7 @@ export function DashboardScreen({ navigation }: any): React.JSX.Element {
   }
 
   // Show error state
-  if (dashboardState.error && !dashboardState.data) {
+  if (dashboardError && !cachedDashboardData) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.errorContainer}>
@@ -508,11 +463,11 @@ export function DashboardScreen({ navigation }: any): React.JSX.Element {
             Unable to Load Dashboard
           </Text>
           <Text variant="bodyMedium" style={styles.errorMessage}>
-            {dashboardState.error}
+            {dashboardError}
           </Text>
           <Button 
             mode="contained" 
-            onPress={fetchDashboardData}
+            onPress={refreshDashboardData}
             style={styles.retryButton}
           >
             Try Again
@@ -522,7 +477,7 @@ export function DashboardScreen({ navigation }: any): React.JSX.Element {
     );
   }
 
-  const dashboardData = dashboardState.data || getEmptyDashboardData();
+  const dashboardData = cachedDashboardData || getEmptyDashboardData();
   const pendingUpdatesCount =
     (pendingSummary?.enquiriesPendingCount || 0) +
     (pendingSummary?.bookingsPendingCount || 0);
@@ -951,6 +906,69 @@ export function DashboardScreen({ navigation }: any): React.JSX.Element {
           )}
         </View>
 
+        {/* Quotations Expiring This Week */}
+        {canViewQuotations && (
+          <View style={styles.section}>
+            <View style={styles.expiringHeader}>
+              <Text style={styles.sectionTitle}>
+                Expiring This Week
+              </Text>
+              <TouchableOpacity
+                style={styles.viewAllButton}
+                onPress={() => navigation.navigate('Quotations', { initialFilter: 'expiring' })}
+              >
+                <Text style={styles.viewAllButtonText}>
+                  View All {'>'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.sectionSubtitle}>
+              Quotations that lapse in the next 7 days - renew them before the customer decides
+            </Text>
+
+            {!expiringQuotations || expiringQuotations.length === 0 ? (
+              <View style={styles.bookingPlanEmptyState}>
+                <Icon source="file-check" size={24} color="#64748B" />
+                <Text style={styles.bookingPlanEmptyText}>No quotations expiring this week.</Text>
+              </View>
+            ) : (
+              <View style={styles.bookingPlanList}>
+                {expiringQuotations.slice(0, EXPIRING_QUOTATIONS_SHOWN).map(quotation => (
+                  <TouchableOpacity
+                    key={quotation.id}
+                    style={styles.bookingPlanItem}
+                    onPress={() => navigation.navigate('QuotationDetails', { quotationId: quotation.id })}
+                    activeOpacity={0.8}
+                  >
+                    <View style={styles.bookingPlanItemHeader}>
+                      <Text style={styles.bookingPlanCustomer}>
+                        {quotation.customerName || quotation.enquiry?.customerName || quotation.quotationNumber}
+                      </Text>
+                      <Text style={[styles.bookingPlanBadge, styles.expiringBadge]}>
+                        {formatQuotationExpiry(quotation)}
+                      </Text>
+                    </View>
+                    <View style={styles.bookingPlanMeta}>
+                      {!!quotation.vehicleDetails && (
+                        <Text style={styles.bookingPlanMetaText}>{quotation.vehicleDetails}</Text>
+                      )}
+                      <Text style={styles.bookingPlanMetaText}>
+                        ₹{(quotation.totalAmount ?? quotation.amount ?? 0).toLocaleString()}
+                        {quotation.quotationNumber ? ` · ${quotation.quotationNumber}` : ''}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+                {expiringQuotations.length > EXPIRING_QUOTATIONS_SHOWN && (
+                  <Text style={styles.bookingPlanEmptyText}>
+                    +{expiringQuotations.length - EXPIRING_QUOTATIONS_SHOWN} more
+                  </Text>
+                )}
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Stock Section */}
         <View style={styles.section}>
           <View style={styles.stockHeader}>
@@ -1951,6 +1969,14 @@ const styles = StyleSheet.create({
     color: '#B91C1C',
     fontWeight: '600',
   },
+  expiringHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  expiringBadge: {
+    backgroundColor: '#B45309',
+  },
   bookingsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
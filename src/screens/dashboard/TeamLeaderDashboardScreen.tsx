@@ -30,6 +30,7 @@ import { LinearGradient as ExpoLinearGradient } from 'expo-linear-gradient';
 import { dashboardAPI } from '../../api/dashboard';
 import { remarksAPI } from '../../api/remarks';
 import { useAuth } from '../../context/AuthContext';
+import { useTeam } from '../../context/TeamContext';
 import { getUserRole } from '../../utils/roleUtils';
 import { RemarkHistoryEntry } from '../../services/types';
 
@@ -67,6 +68,8 @@ interface TLNotification {
 export function TeamLeaderDashboardScreen(): React.JSX.Element {
   const { state: authState } = useAuth();
   const userRole = getUserRole(authState.user);
+  const { getDirectReports, refetch: refetchTeam } = useTeam();
+  const teamMembers = authState.user ? getDirectReports(authState.user.firebaseUid) : [];
   
   const [dashboardData, setDashboardData] = useState<TLDashboardData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -222,7 +225,8 @@ export function TeamLeaderDashboardScreen(): React.JSX.Element {
     fetchDashboardData();
     fetchPendingRemarks();
     fetchNotifications();
-  }, [fetchDashboardData, fetchPendingRemarks, fetchNotifications]);
+    refetchTeam();
+  }, [fetchDashboardData, fetchPendingRemarks, fetchNotifications, refetchTeam]);
 
   const handleMarkAsReviewed = async (remark: PendingRemark) => {
     try {
@@ -363,6 +367,31 @@ export function TeamLeaderDashboardScreen(): React.JSX.Element {
             </Card.Content>
           </Card>
 
+          {/* Advisor Performance */}
+          {teamMembers.length > 0 && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text style={styles.cardTitle}>Advisor Performance</Text>
+                {teamMembers.map(member => (
+                  <View key={member.id} style={styles.memberRow}>
+                    <View style={styles.memberInfo}>
+                      <Text style={styles.memberName}>{member.name}</Text>
+                      <Text style={styles.cardSubtitle}>
+                        {member.performance.enquiriesHandled} enquiries · {member.performance.avgResponseTime} response
+                      </Text>
+                    </View>
+                    <View style={styles.memberStats}>
+                      <Text style={styles.memberStatValue}>{member.performance.conversionRate}%</Text>
+                      <Text style={styles.cardSubtitle}>
+                        {member.performance.bookingsThisMonth} / {member.performance.bookingsLastMonth} bookings
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </Card.Content>
+            </Card>
+          )}
+
           {/* Total Hot Inquiry Count */}
           <Card style={styles.card}>
             <Card.Content>
@@ -670,6 +699,31 @@ const styles = StyleSheet.create({
     color: '#94A3B8',
     marginTop: 4,
   },
+  memberRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  memberInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  memberName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0F172A',
+  },
+  memberStats: {
+    alignItems: 'flex-end',
+  },
+  memberStatValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#3B82F6',
+  },
   notificationCard: {
     borderLeftWidth: 4,
     borderLeftColor: '#3B82F6',
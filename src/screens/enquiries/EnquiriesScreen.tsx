@@ -3,7 +3,7 @@
  * Displays enquiries organized by HOT, LOST, and BOOKED categories
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   StyleSheet,
@@ -13,6 +13,7 @@ import {
   Dimensions,
   TouchableOpacity,
   Animated,
+  FlatList,
 } from 'react-native';
 import {
   Text,
@@ -28,27 +29,40 @@ import {
   IconButton,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation, useFocusEffect, useRoute } from '@react-navigation/native';
+import { useNavigation, useFocusEffect, useRoute, CompositeNavigationProp, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { LinearGradient as ExpoLinearGradient } from 'expo-linear-gradient';
 import Svg, { Path, Rect, Defs, LinearGradient, Stop, G, Ellipse, Circle } from 'react-native-svg';
 
 import { EnquiryCard } from '../../components/EnquiryCard';
 import { DownloadButton } from '../../components/DownloadButton';
 import { UploadButton } from '../../components/UploadButton';
+import { EnquiryAutoAssignModal } from '../../components/EnquiryAutoAssignModal';
+import { OfflineQueueBanner } from '../../components/OfflineQueueBanner';
 import * as EnquiryService from '../../services/enquiry.service';
 import { enquiryAPI } from '../../api/enquiries';
+import { StockAPI } from '../../api/stock';
 import { Enquiry, EnquiryCategory, EnquiryStatus, EnquirySource, AutoBookingResponse } from '../../services/types';
-import { MainStackParamList } from '../../navigation/MainNavigator';
+import { MainStackParamList, MainTabParamList } from '../../navigation/MainNavigator';
 import { theme, spacing, shadows, borderRadius } from '../../utils/theme';
 import { useAuth } from '../../context/AuthContext';
 import { getUserRole } from '../../utils/roleUtils';
+import { canImportData } from '../../utils/permissions';
+import { canManageTeam } from '../../context/TeamContext';
 import { useDealership } from '../../context/DealershipContext';
+import { useOfflineQueue } from '../../context/OfflineQueueContext';
+import { computeLeadScore, getInStockVariants, LeadScore } from '../../utils/leadScoring';
 import { getDataFilterOptions, canSeeUserData, getRoleDisplayNameWithHierarchy, filterEnquiriesByHierarchy } from '../../utils/hierarchyUtils';
+import { usePaginatedList, PageRequest } from '../../hooks/usePaginatedList';
+import { useDebounce } from '../../hooks/useDebounce';
 
 const { width, height } = Dimensions.get('window');
 
-type NavigationProp = StackNavigationProp<MainStackParamList>;
+type NavigationProp = CompositeNavigationProp<
+  BottomTabNavigationProp<MainTabParamList, 'Enquiries'>,
+  StackNavigationProp<MainStackParamList>
+>;
 
 const isLikelyUuid = (id?: string | null) =>
   !!id &&
@@ -95,11 +109,22 @@ const BackgroundPattern = () => (
   </View>
 );
 
+// Sorted by the backend so paging walks the whole list in this order
+type EnquirySortField = 'createdAt' | 'customerName' | 'status';
+
+const SORT_OPTIONS: Array<{ label: string; field: EnquirySortField; order: 'asc' | 'desc' }> = [
+  { label: 'Newest first', field: 'createdAt', order: 'desc' },
+  { label: 'Oldest first', field: 'createdAt', order: 'asc' },
+  { label: 'Customer name (A-Z)', field: 'customerName', order: 'asc' },
+  { label: 'Status', field: 'status', order: 'asc' },
+];
+
 export function EnquiriesScreen(): React.JSX.Element {
   const navigation = useNavigation<NavigationProp>();
-  const route = useRoute<any>();
+  const route = useRoute<RouteProp<MainTabParamList, 'Enquiries'>>();
   const { state: authState } = useAuth();
-  const { dealership } = useDealership();
+  const { dealership, leadScoreWeights } = useDealership();
+  const { lastSyncedAt } = useOfflineQueue();
 
   // Get user role and permissions - will throw error if role is missing
   const userRole = getUserRole(authState.user);
@@ -111,9 +136,6 @@ export function EnquiriesScreen(): React.JSX.Element {
   // State
   const [selectedCategory, setSelectedCategory] = useState<EnquiryCategory | 'ALL'>(EnquiryCategory.HOT);
   const [selectedStatus, setSelectedStatus] = useState<EnquiryStatus | 'ALL'>('ALL');
-  const [allEnquiries, setAllEnquiries] = useState<Enquiry[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [snackbar, setSnackbar] = useState({ visible: false, message: '', type: 'info' as 'info' | 'success' | 'error' });
   const [pendingFilterIds, setPendingFilterIds] = useState<string[] | null>(null);
@@ -122,8 +144,12 @@ export function EnquiriesScreen(): React.JSX.Element {
   const [showStatusMenu, setShowStatusMenu] = useState(false);
   const [showCategoryMenu, setShowCategoryMenu] = useState(false);
   const [showFilterMenu, setShowFilterMenu] = useState(false);
-  const [sortBy, setSortBy] = useState<'createdAt' | 'customerName' | 'status'>('createdAt');
+  const [showSortMenu, setShowSortMenu] = useState(false);
+  const [sortBy, setSortBy] = useState<EnquirySortField>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const debouncedSearch = useDebounce(searchQuery.trim(), 500);
+  const [inStockVariants, setInStockVariants] = useState<Set<string> | undefined>(undefined);
+  const [showAutoAssign, setShowAutoAssign] = useState(false);
 
   const pendingIdsSet = useMemo(() => {
     return pendingFilterIds ? new Set(pendingFilterIds) : null;
@@ -219,20 +245,6 @@ export function EnquiriesScreen(): React.JSX.Element {
     // Apply hierarchical data access filter first
     filtered = filtered.filter(enquiry => canSeeEnquiry(enquiry));
 
-    // Apply search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(enquiry => 
-        enquiry.customerName.toLowerCase().includes(query) ||
-        enquiry.customerContact.includes(query) ||
-        (enquiry.customerEmail && enquiry.customerEmail.toLowerCase().includes(query)) ||
-        enquiry.model.toLowerCase().includes(query) ||
-        (enquiry.variant && enquiry.variant.toLowerCase().includes(query)) ||
-        (enquiry.location && enquiry.location.toLowerCase().includes(query)) ||
-        (enquiry.source && enquiry.source.toLowerCase().includes(query))
-      );
-    }
-
     // Apply status filter
     if (selectedStatus !== 'ALL') {
       filtered = filtered.filter(enquiry => enquiry.status === selectedStatus);
@@ -242,7 +254,7 @@ export function EnquiriesScreen(): React.JSX.Element {
       filtered = filtered.filter((enquiry) => pendingIdsSet.has(enquiry.id));
     }
 
-    // Apply sorting
+    // Keep records merged in by a refresh in the same order the backend sorted the pages
     filtered.sort((a, b) => {
       let comparison = 0;
       
@@ -265,133 +277,117 @@ export function EnquiriesScreen(): React.JSX.Element {
     return filtered;
   };
 
-  // Fetch all enquiries (not filtered by category)
-  const fetchEnquiries = useCallback(async (showLoading = true) => {
-    try {
-      if (showLoading) setLoading(true);
-      
-      // ✅ Allow both UUID and non-UUID dealership IDs (e.g., "default-dealership-001")
-      if (!resolvedDealershipId || !resolvedDealershipCode) {
-        console.warn(
-          '[EnquiriesScreen] Missing dealership context, skipping fetch until available',
-          { resolvedDealershipId, resolvedDealershipCode }
-        );
-        setLoading(false);
-        setRefreshing(false);
-        return;
-      }
+  // Fetch one page of enquiries; pull-to-refresh passes updatedSince to get only changes
+  const fetchEnquiriesPage = useCallback(async ({ page, limit, updatedSince }: PageRequest) => {
+    // Phase 2: Fetch enquiries - Auto-hide Booked/Lost by default (show only HOT/OPEN)
+    console.log('🔄 [EnquiriesScreen] Fetching enquiries page:', page, updatedSince ? `(changes since ${updatedSince})` : '');
+    // Handle both possible structures: flat and nested
+    const userData = (authState.user as any)?.user || authState.user;
+    const requestParams: any = {
+      page,
+      limit,
+      sortBy,
+      sortOrder,
+      search: debouncedSearch || undefined,
+      dealershipId: resolvedDealershipId,
+      dealershipCode: resolvedDealershipCode,
+      updatedSince,
+    };
+    requestParams.scope =
+      userRole === 'CUSTOMER_ADVISOR'
+        ? 'advisor'
+        : dataFilterOptions.canSeeTeam
+        ? 'team'
+        : 'dealership';
 
-      // Phase 2: Fetch enquiries - Auto-hide Booked/Lost by default (show only HOT/OPEN)
-      console.log('🔄 [EnquiriesScreen] Fetching enquiries...');
-      // Handle both possible structures: flat and nested
-      const userData = (authState.user as any)?.user || authState.user;
-      console.log('🔍 [EnquiriesScreen] Current user ID:', userData?.firebaseUid);
-      const requestParams: any = {
-        page: 1,
-        limit: 100,
-        sortBy: 'createdAt',
-        sortOrder: 'desc',
-        dealershipId: resolvedDealershipId,
-        dealershipCode: resolvedDealershipCode,
-      };
-      requestParams.scope =
-        userRole === 'CUSTOMER_ADVISOR'
-          ? 'advisor'
-          : dataFilterOptions.canSeeTeam
-          ? 'team'
-          : 'dealership';
-
-      // Phase 2: Default to HOT/OPEN if no category/status selected
-      if (selectedCategory === 'ALL' && selectedStatus === 'ALL') {
-        requestParams.category = EnquiryCategory.HOT;
-        requestParams.status = EnquiryStatus.OPEN;
-      } else {
-        if (selectedCategory !== 'ALL') {
-          requestParams.category = selectedCategory;
-        }
-        if (selectedStatus !== 'ALL') {
-          requestParams.status = selectedStatus;
-        }
+    // Phase 2: Default to HOT/OPEN if no category/status selected
+    if (selectedCategory === 'ALL' && selectedStatus === 'ALL') {
+      requestParams.category = EnquiryCategory.HOT;
+      requestParams.status = EnquiryStatus.OPEN;
+    } else {
+      if (selectedCategory !== 'ALL') {
+        requestParams.category = selectedCategory;
       }
+      if (selectedStatus !== 'ALL') {
+        requestParams.status = selectedStatus;
+      }
+    }
 
-      const response = await enquiryAPI.getEnquiries(requestParams);
-      console.log('📊 [EnquiriesScreen] Response received:', response);
-      console.log('📊 [EnquiriesScreen] Response.data:', response?.data);
-      console.log('📊 [EnquiriesScreen] Response.data.enquiries:', (response?.data as any)?.enquiries);
-      console.log('📊 [EnquiriesScreen] Response.data.data:', (response?.data as any)?.data);
-      
-      // Extract data from responses - handle nested data structure (same as dashboard)
-      const allEnquiriesFromBackend = (response?.data as any)?.enquiries || (response?.data as any)?.data?.enquiries || [];
-      
-      console.log('📊 [EnquiriesScreen] Enquiries array:', allEnquiriesFromBackend);
-      console.log('📊 [EnquiriesScreen] Enquiries count:', allEnquiriesFromBackend.length);
-      console.log('📊 [EnquiriesScreen] First enquiry (if any):', allEnquiriesFromBackend[0]);
-      
-      // Filter enquiries by current user
+    const response = await enquiryAPI.getEnquiries(requestParams);
+    const enquiriesFromBackend = response.items;
+    console.log('📊 [EnquiriesScreen] Enquiries received:', enquiriesFromBackend.length, 'of', response.pagination?.total);
+
+    // Apply hierarchical filtering for managers
+    let filteredEnquiries = enquiriesFromBackend;
+    if (['TEAM_LEAD', 'SALES_MANAGER', 'GENERAL_MANAGER'].includes(userRole)) {
       const currentUserId = userData?.firebaseUid;
-      console.log('🔍 [EnquiriesScreen] Current user ID for filtering:', currentUserId);
-      
-      console.log('📊 [EnquiriesScreen] All enquiries from backend:', allEnquiriesFromBackend.length);
-      
-      // Debug: Check if we have enquiries
-      if (allEnquiriesFromBackend.length > 0) {
-        console.log('🔍 [EnquiriesScreen] Sample enquiry from backend:', allEnquiriesFromBackend[0]);
-        console.log('🔍 [EnquiriesScreen] Current user ID:', currentUserId);
-        console.log('🔍 [EnquiriesScreen] Sample enquiry createdByUserId:', allEnquiriesFromBackend[0].createdByUserId);
-        console.log('🔍 [EnquiriesScreen] Sample enquiry assignedToUserId:', allEnquiriesFromBackend[0].assignedToUserId);
-      } else {
-        console.log('⚠️ [EnquiriesScreen] No enquiries returned from backend');
-      }
-      
-      // Apply hierarchical filtering for managers
-      let filteredEnquiries = allEnquiriesFromBackend;
-      
-      if (['TEAM_LEAD', 'SALES_MANAGER', 'GENERAL_MANAGER'].includes(userRole)) {
-        // Filter enquiries based on hierarchy
-        const currentUserId = userData?.firebaseUid;
-        if (currentUserId) {
-          filteredEnquiries = filterEnquiriesByHierarchy(allEnquiriesFromBackend, userRole, currentUserId, []);
-        }
-        console.log('🔍 [EnquiriesScreen] Applied hierarchical filtering:', {
-          originalCount: allEnquiriesFromBackend.length,
-          filteredCount: filteredEnquiries.length,
-          userRole
-        });
-      }
-      
-      setAllEnquiries(filteredEnquiries);
-      console.log('✅ [EnquiriesScreen] User enquiries set in state');
-      
-      // Debug: Show all enquiries by category
-      const categoryBreakdown = allEnquiriesFromBackend.reduce((acc: Record<string, number>, enquiry: any) => {
-        acc[enquiry.category] = (acc[enquiry.category] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-      console.log('📊 [EnquiriesScreen] All enquiries by category:', categoryBreakdown);
-    } catch (error: any) {
-      console.error('Error fetching enquiries:', error);
-      setSnackbar({
-        visible: true,
-        message: error.message || 'Failed to load enquiries',
-        type: 'error',
-      });
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-      if (!resolvedDealershipId || !resolvedDealershipCode) {
-        setLoading(false);
+      if (currentUserId) {
+        filteredEnquiries = filterEnquiriesByHierarchy(enquiriesFromBackend, userRole, currentUserId, []);
       }
     }
+
+    return { items: filteredEnquiries, pagination: response.pagination };
   }, [
     authState.user,
     dataFilterOptions.canSeeTeam,
+    debouncedSearch,
     resolvedDealershipCode,
     resolvedDealershipId,
     selectedCategory,
     selectedStatus,
+    sortBy,
+    sortOrder,
     userRole,
   ]);
 
+  // Same category/status filter as fetchEnquiriesPage, applied to refreshed records
+  const matchesSelectedFilter = useCallback((enquiry: Enquiry) => {
+    if (selectedCategory === 'ALL' && selectedStatus === 'ALL') {
+      return enquiry.category === EnquiryCategory.HOT && enquiry.status === EnquiryStatus.OPEN;
+    }
+    return (
+      (selectedCategory === 'ALL' || enquiry.category === selectedCategory) &&
+      (selectedStatus === 'ALL' || enquiry.status === selectedStatus)
+    );
+  }, [selectedCategory, selectedStatus]);
+
+  // ✅ Allow both UUID and non-UUID dealership IDs (e.g., "default-dealership-001")
+  const enquiryList = usePaginatedList<Enquiry>({
+    fetchPage: fetchEnquiriesPage,
+    enabled: !!resolvedDealershipId && !!resolvedDealershipCode,
+    resetKey: [
+      resolvedDealershipId,
+      resolvedDealershipCode,
+      selectedCategory,
+      selectedStatus,
+      userRole,
+      sortBy,
+      sortOrder,
+      debouncedSearch,
+    ].join(':'),
+    matches: matchesSelectedFilter,
+  });
+  const { items: allEnquiries, loading, refreshing, refresh: refreshEnquiries, reload: reloadEnquiries } = enquiryList;
+
+  // Lead scores for the loaded enquiries, recomputed when weights or stock change
+  const leadScores = useMemo(() => {
+    const scores = new Map<string, LeadScore>();
+    allEnquiries.forEach(enquiry => {
+      scores.set(enquiry.id, computeLeadScore(enquiry, { weights: leadScoreWeights, inStockVariants }));
+    });
+    return scores;
+  }, [allEnquiries, leadScoreWeights, inStockVariants]);
+
+  useEffect(() => {
+    if (enquiryList.error) {
+      setSnackbar({
+        visible: true,
+        message: enquiryList.error || 'Failed to load enquiries',
+        type: 'error',
+      });
+    }
+  }, [enquiryList.error]);
+
   useEffect(() => {
     if (route.params?.pendingIds) {
       const idsParam = route.params.pendingIds;
@@ -417,30 +413,44 @@ export function EnquiriesScreen(): React.JSX.Element {
     }
   }, [route.params?.initialCategory, navigation]);
 
-  // Initial load and category change
+  // Stock on hand feeds the lead score; without it the stock factor stays neutral
   useEffect(() => {
-    fetchEnquiries();
-  }, [fetchEnquiries]);
+    StockAPI.getStock({ limit: 500 })
+      .then(response => setInStockVariants(getInStockVariants(response.items)))
+      .catch(error => console.warn('⚠️ [EnquiriesScreen] Could not load stock for lead scoring:', error?.message));
+  }, []);
 
-  // Refresh enquiries when screen comes into focus (e.g., returning from NewEnquiryScreen)
+  // Pick up changes when screen comes back into focus (e.g., returning from NewEnquiryScreen).
+  // The first focus is skipped because the list is already loading page 1.
+  const hasFocusedRef = useRef(false);
   useFocusEffect(
     useCallback(() => {
+      if (!hasFocusedRef.current) {
+        hasFocusedRef.current = true;
+        return;
+      }
       console.log('🔄 [EnquiriesScreen] Screen focused, refreshing enquiries...');
-      fetchEnquiries(false); // Don't show loading spinner on focus
-    }, [fetchEnquiries])
+      refreshEnquiries();
+    }, [refreshEnquiries])
   );
 
+  // Pick up changes once queued offline changes have been synced
+  useEffect(() => {
+    if (lastSyncedAt) {
+      refreshEnquiries();
+    }
+  }, [lastSyncedAt, refreshEnquiries]);
+
   // Debug user role
   useEffect(() => {
     console.log('📊 Current user role:', authState.user?.role?.name);
     console.log('📊 FAB should be visible:', !!authState.user?.role);
   }, [authState.user?.role]);
 
-  // Refresh handler
+  // Pull-to-refresh only fetches enquiries changed since the last load
   const handleRefresh = useCallback(() => {
-    setRefreshing(true);
-    fetchEnquiries(false);
-  }, [fetchEnquiries]);
+    refreshEnquiries();
+  }, [refreshEnquiries]);
 
   // Status update functions
   const handleUpdateStatus = async (enquiryId: string, newStatus: EnquiryStatus) => {
@@ -451,7 +461,8 @@ export function EnquiriesScreen(): React.JSX.Element {
         message: `Enquiry status updated to ${newStatus}`,
         type: 'success',
       });
-      fetchEnquiries(false);
+      // The enquiry may have left the current filter, which a delta refresh cannot see
+      reloadEnquiries();
     } catch (error: any) {
       setSnackbar({
         visible: true,
@@ -469,7 +480,7 @@ export function EnquiriesScreen(): React.JSX.Element {
         message: `Enquiry category updated to ${newCategory}`,
         type: 'success',
       });
-      fetchEnquiries(false);
+      reloadEnquiries();
     } catch (error: any) {
       setSnackbar({
         visible: true,
@@ -496,7 +507,8 @@ export function EnquiriesScreen(): React.JSX.Element {
                 message: 'Enquiry deleted successfully',
                 type: 'success',
               });
-              fetchEnquiries(false);
+              // Deletions never show up in a delta refresh, so drop it locally
+              enquiryList.setItems(prev => prev.filter(enquiry => enquiry.id !== enquiryId));
             } catch (error: any) {
               setSnackbar({
                 visible: true,
@@ -516,11 +528,17 @@ export function EnquiriesScreen(): React.JSX.Element {
     navigation.navigate('EnquiryDetails', { enquiryId: enquiry.id });
   };
 
+  // Open the merged customer profile for the enquiry's phone number
+  const handleViewCustomer = (enquiry: Enquiry) => {
+    navigation.navigate('CustomerProfile', {
+      phone: enquiry.customerContact,
+      customerName: enquiry.customerName,
+    });
+  };
+
   // Convert enquiry to booking
   const handleConvertToBooking = async (enquiry: Enquiry) => {
     try {
-      setLoading(true);
-      
       // Show confirmation dialog
       Alert.alert(
         'Convert to Booking',
@@ -535,7 +553,9 @@ export function EnquiriesScreen(): React.JSX.Element {
             style: 'default',
             onPress: async () => {
               try {
-                const result: AutoBookingResponse = await EnquiryService.convertEnquiryToBooking(enquiry.id);
+                const result: AutoBookingResponse = await EnquiryService.convertEnquiryToBooking(enquiry.id, {
+                  dealerCode: dealership?.code || authState.user?.dealership?.code,
+                });
                 
                 // Show success message with booking details
                 let message = `Enquiry converted to booking successfully!`;
@@ -543,17 +563,29 @@ export function EnquiriesScreen(): React.JSX.Element {
                   message += `\n\nBooking ID: ${result.booking.id || 'N/A'}`;
                 }
                 if (result.stockValidation) {
-                  message += `\n\nStock Status: ${result.stockValidation.inStock ? 'In Stock' : 'Out of Stock'}`;
+                  message += `\n\nStock Status: ${result.stockValidation.inStock ? 'In Stock' : 'Out of Stock (marked VNA)'}`;
                 }
                 
+                const booking = result.booking;
                 Alert.alert('Success', message, [
                   {
                     text: 'OK',
                     onPress: () => {
-                      // Refresh enquiries to show updated category
-                      fetchEnquiries();
+                      // Reload enquiries; the converted one has left the HOT list
+                      reloadEnquiries();
                     },
                   },
+                  ...(booking
+                    ? [
+                        {
+                          text: 'View Booking',
+                          onPress: () => {
+                            reloadEnquiries();
+                            navigation.navigate('BookingDetails', { bookingId: booking.id });
+                          },
+                        },
+                      ]
+                    : []),
                 ]);
               } catch (error: any) {
                 console.error('Error converting enquiry to booking:', error);
@@ -572,8 +604,6 @@ export function EnquiriesScreen(): React.JSX.Element {
         'Error',
         'An error occurred while processing the conversion. Please try again.'
       );
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -748,6 +778,8 @@ export function EnquiriesScreen(): React.JSX.Element {
     );
   };
 
+  const visibleEnquiries = getFilteredEnquiries();
+
   return (
     <View style={styles.container}>
       {/* Enhanced Gradient Background */}
@@ -794,8 +826,8 @@ export function EnquiriesScreen(): React.JSX.Element {
               onDownloadComplete={(result) => console.log('Download completed', result)}
               style={styles.downloadButton}
             />
-            {/* Upload Button - Admin Only */}
-            {userRole === 'ADMIN' && (
+            {/* Upload Button - managers and admins */}
+            {canImportData(userRole) && (
               <UploadButton
                 type="enquiries"
                 onUploadStart={() => {
@@ -804,7 +836,7 @@ export function EnquiriesScreen(): React.JSX.Element {
                 onUploadComplete={(result) => {
                   console.log('Upload completed', result);
                   // Refresh enquiries after successful upload
-                  fetchEnquiries(true);
+                  enquiryList.reload();
                   Alert.alert(
                     'Upload Successful',
                     `Successfully uploaded ${result?.successfulRows || 0} enquiries.`,
@@ -817,6 +849,16 @@ export function EnquiriesScreen(): React.JSX.Element {
                 style={styles.uploadButton}
               />
             )}
+            {canManageTeam(userRole) && (
+              <Button
+                mode="contained-tonal"
+                icon="account-arrow-right"
+                onPress={() => setShowAutoAssign(true)}
+                style={styles.uploadButton}
+              >
+                Auto-assign
+              </Button>
+            )}
           </View>
           
           {/* Stats Bar */}
@@ -830,10 +872,39 @@ export function EnquiriesScreen(): React.JSX.Element {
               placeholder="Search by name, contact, model..."
               onChangeText={setSearchQuery}
               value={searchQuery}
-              style={styles.searchBar}
+              style={[styles.searchBar, styles.searchBarWithSort]}
               inputStyle={styles.searchInput}
               iconColor="#3B82F6"
             />
+            <Menu
+              visible={showSortMenu}
+              onDismiss={() => setShowSortMenu(false)}
+              anchor={
+                <IconButton
+                  icon="sort"
+                  mode="outlined"
+                  iconColor="#3B82F6"
+                  onPress={() => setShowSortMenu(true)}
+                  accessibilityLabel="Sort enquiries"
+                />
+              }
+            >
+              {SORT_OPTIONS.map(option => {
+                const selected = sortBy === option.field && sortOrder === option.order;
+                return (
+                  <Menu.Item
+                    key={option.label}
+                    title={option.label}
+                    leadingIcon={selected ? 'check' : undefined}
+                    onPress={() => {
+                      setSortBy(option.field);
+                      setSortOrder(option.order);
+                      setShowSortMenu(false);
+                    }}
+                  />
+                );
+              })}
+            </Menu>
           </View>
 
           
@@ -858,7 +929,9 @@ export function EnquiriesScreen(): React.JSX.Element {
             </Text>
           </View>
         ) : (
-          <ScrollView
+          <FlatList
+            data={visibleEnquiries}
+            keyExtractor={(enquiry) => enquiry.id}
             style={styles.scrollView}
             contentContainerStyle={styles.scrollContent}
             refreshControl={
@@ -870,65 +943,78 @@ export function EnquiriesScreen(): React.JSX.Element {
               />
             }
             showsVerticalScrollIndicator={false}
-          >
-            {getFilteredEnquiries().length === 0 ? (
-              renderEmptyState()
-            ) : (
+            onEndReached={enquiryList.loadMore}
+            onEndReachedThreshold={0.5}
+            initialNumToRender={8}
+            maxToRenderPerBatch={8}
+            windowSize={7}
+            removeClippedSubviews
+            ListHeaderComponent={
               <>
-                <View style={styles.listHeader}>
-                  <Text style={styles.sectionTitle}>
-                    {getFilteredEnquiries().length} {getFilteredEnquiries().length === 1 ? 'Enquiry' : 'Enquiries'}
-                  </Text>
-                  <View style={styles.listHeaderChips}>
-                    {pendingFilterActive && (
-                      <Chip
-                        mode="flat"
-                        icon="alert-circle"
-                        onClose={clearPendingFilter}
-                        style={styles.pendingFilterChip}
-                        textStyle={styles.pendingFilterChipText}
-                      >
-                        Pending Updates
-                      </Chip>
-                    )}
-                    {searchQuery ? (
-                      <Chip
-                        mode="flat"
-                        onClose={() => setSearchQuery('')}
-                        style={styles.searchChip}
-                        textStyle={styles.searchChipText}
-                      >
-                        Filtered
-                      </Chip>
-                    ) : null}
-                  </View>
-                </View>
-                {getFilteredEnquiries().map((enquiry, index) => (
-                  <Animated.View
-                    key={enquiry.id}
-                    style={[
-                      styles.cardWrapper,
-                      { opacity: 1, transform: [{ translateY: 0 }] }
-                    ]}
-                  >
-                    <EnquiryCard
-                      enquiry={enquiry}
-                      onPress={() => handleEditEnquiry(enquiry)}
-                      onEdit={canEditEnquiry(enquiry) ? () => handleEditEnquiry(enquiry) : undefined}
-                      onConvertToBooking={
-                        canConvertToBooking(enquiry) && selectedCategory === EnquiryCategory.HOT
-                          ? () => handleConvertToBooking(enquiry)
-                          : undefined
-                      }
-                      showActions={canEditEnquiry(enquiry) || canConvertToBooking(enquiry)}
-                      showCreatorInfo={dataFilterOptions.canSeeTeam || dataFilterOptions.canSeeAll}
-                      userRole={userRole}
-                    />
-                  </Animated.View>
-                ))}
+                <OfflineQueueBanner entityType="enquiry" />
+                {visibleEnquiries.length > 0 && (
+                    <View style={styles.listHeader}>
+                      <Text style={styles.sectionTitle}>
+                        {visibleEnquiries.length} {visibleEnquiries.length === 1 ? 'Enquiry' : 'Enquiries'}
+                      </Text>
+                      <View style={styles.listHeaderChips}>
+                        {pendingFilterActive && (
+                          <Chip
+                            mode="flat"
+                            icon="alert-circle"
+                            onClose={clearPendingFilter}
+                            style={styles.pendingFilterChip}
+                            textStyle={styles.pendingFilterChipText}
+                          >
+                            Pending Updates
+                          </Chip>
+                        )}
+                        {searchQuery ? (
+                          <Chip
+                            mode="flat"
+                            onClose={() => setSearchQuery('')}
+                            style={styles.searchChip}
+                            textStyle={styles.searchChipText}
+                          >
+                            Filtered
+                          </Chip>
+                        ) : null}
+                      </View>
+                    </View>
+                )}
               </>
+            }
+            ListEmptyComponent={renderEmptyState()}
+            ListFooterComponent={
+              enquiryList.loadingMore ? (
+                <ActivityIndicator style={styles.listFooterLoader} color="#3B82F6" />
+              ) : null
+            }
+            renderItem={({ item: enquiry }) => (
+              <Animated.View
+                style={[
+                  styles.cardWrapper,
+                  { opacity: 1, transform: [{ translateY: 0 }] }
+                ]}
+              >
+                <EnquiryCard
+                  enquiry={enquiry}
+                  onPress={() => handleEditEnquiry(enquiry)}
+                  onEdit={canEditEnquiry(enquiry) ? () => handleEditEnquiry(enquiry) : undefined}
+                  onConvertToBooking={
+                    canConvertToBooking(enquiry) && selectedCategory === EnquiryCategory.HOT
+                      ? () => handleConvertToBooking(enquiry)
+                      : undefined
+                  }
+                  onViewCustomer={enquiry.customerContact ? () => handleViewCustomer(enquiry) : undefined}
+                  showActions={canEditEnquiry(enquiry) || canConvertToBooking(enquiry)}
+                  showCreatorInfo={dataFilterOptions.canSeeTeam || dataFilterOptions.canSeeAll}
+                  leadScore={leadScores.get(enquiry.id)}
+                  userRole={userRole}
+                />
+              </Animated.View>
             )}
-          </ScrollView>
+          />
         )}
 
         {/* Enhanced FAB - Available for all roles */}
@@ -964,6 +1050,12 @@ export function EnquiriesScreen(): React.JSX.Element {
         >
           <Text style={styles.snackbarText}>{snackbar.message}</Text>
         </Snackbar>
+
+        <EnquiryAutoAssignModal
+          visible={showAutoAssign}
+          onDismiss={() => setShowAutoAssign(false)}
+          onAssigned={() => enquiryList.reload()}
+        />
       </SafeAreaView>
     </View>
   );
@@ -1133,8 +1225,14 @@ const styles = StyleSheet.create({
     marginBottom: spacing.md,
   },
   searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
     marginBottom: spacing.sm,
   },
+  searchBarWithSort: {
+    flex: 1,
+  },
   searchBar: {
     elevation: 0,
     backgroundColor: '#FFFFFF',
@@ -1166,6 +1264,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     paddingBottom: 100,
   },
+  listFooterLoader: {
+    paddingVertical: 16,
+  },
   listHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -26,6 +26,8 @@ import usersAPI from '../../api/users';
 import { type Enquiry, EnquiryStatus, EnquiryCategory, RemarkHistoryEntry } from '../../services/types';
 import { useAuth } from '../../context/AuthContext';
 import { remarksAPI } from '../../api/remarks';
+import { isQueuedMutationError } from '../../services/offlineQueue.service';
+import { useCachedEntity } from '../../hooks/useCachedResource';
 import { formatDate, formatDateTime, formatEnquirySource } from '../../utils/formatting';
 
 
@@ -281,8 +283,6 @@ export function EnquiryDetailsScreen({ route, navigation }: any): React.JSX.Elem
   const { state: authState } = useAuth();
   const enquiryId = route?.params?.enquiryId;
   const [enquiry, setEnquiry] = useState<Enquiry | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState(false);
   const [remarkHistory, setRemarkHistory] = useState<RemarkHistoryEntry[]>([]);
   const [remarkInput, setRemarkInput] = useState('');
@@ -372,6 +372,12 @@ export function EnquiryDetailsScreen({ route, navigation }: any): React.JSX.Elem
       setRemarkError(null);
       Alert.alert('Success', 'Remark added successfully.');
     } catch (err: any) {
+      if (isQueuedMutationError(err)) {
+        setRemarkInput('');
+        setRemarkError(null);
+        Alert.alert('Saved Offline', err.message);
+        return;
+      }
       console.error('❌ Error adding remark:', err);
       const errorMessage = err.response?.data?.message || err.message || 'Failed to add remark. Please try again.';
       
@@ -533,111 +539,65 @@ export function EnquiryDetailsScreen({ route, navigation }: any): React.JSX.Elem
   };
 
   /**
-   * Fetch enquiry details
+   * Enquiry details come from the shared cache and revalidate in the background
    */
+  const {
+    data: cachedEnquiry,
+    loading,
+    error: loadError,
+  } = useCachedEntity<Enquiry>(
+    'enquiry',
+    enquiryId,
+    async () => {
+      console.log('🚀 Calling EnquiriesAPI.getEnquiry...');
+      const enquiryData = await enquiryAPI.getEnquiryById(enquiryId);
+      console.log('📋 Enquiry received:', enquiryData.id);
+      return enquiryData;
+    },
+    { enabled: authState.isAuthenticated }
+  );
+
+  // Cached details stay on screen if a background refresh fails
+  const error = !enquiryId
+    ? 'No enquiry ID provided'
+    : !authState.isAuthenticated
+    ? 'Please log in to view enquiry details'
+    : cachedEnquiry
+    ? null
+    : loadError;
+
   useEffect(() => {
-    const fetchEnquiry = async () => {
-      console.log('🔍 Fetching enquiry with ID:', enquiryId);
-      console.log('🔍 User authenticated:', authState.isAuthenticated);
-      console.log('🔍 User:', authState.user);
-      
-      if (!enquiryId) {
-        console.error('❌ No enquiry ID provided');
-        setError('No enquiry ID provided');
-        setLoading(false);
-        return;
-      }
+    if (!cachedEnquiry) return;
+    const enquiryData = cachedEnquiry;
 
-      if (!authState.isAuthenticated) {
-        console.error('❌ User not authenticated');
-        setError('Please log in to view enquiry details');
-        setLoading(false);
-        return;
-      }
+    setEnquiry(enquiryData);
+    if (Array.isArray(enquiryData.remarkHistory)) {
+      // Phase 2: Show last 3-5 remarks (chronological, not by date)
+      // Backend returns last 5 remarks, just display them
+      const filteredRemarks = enquiryData.remarkHistory
+        .filter((entry: RemarkHistoryEntry) => !entry.cancelled) // Exclude cancelled remarks
+        .sort((a: RemarkHistoryEntry, b: RemarkHistoryEntry) => {
+          // Sort by date descending (newest first)
+          try {
+            const dateA = new Date(a.createdAt);
+            const dateB = new Date(b.createdAt);
 
-      try {
-        setLoading(true);
-        console.log('🚀 Calling EnquiriesAPI.getEnquiry...');
-        const response = await enquiryAPI.getEnquiryById(enquiryId);
-        
-        console.log('📦 Raw API response:', response);
-        
-        // Handle response - extract from nested structure
-        let enquiryData = (response as any).data;
-        console.log('🔍 Step 1 - response.data:', enquiryData);
-        
-        // Check if there's a nested data property first
-        if (enquiryData && enquiryData.data) {
-          console.log('🔍 Step 2a - Found nested data property, extracting...');
-          enquiryData = enquiryData.data;
-          console.log('🔍 Step 2b - After extracting data:', enquiryData);
-        }
-        
-        // Check if the data is nested in an 'enquiry' property
-        if (enquiryData && enquiryData.enquiry) {
-          console.log('🔍 Step 3 - Found enquiry property, extracting...');
-          enquiryData = enquiryData.enquiry;
-          console.log('🔍 Step 4 - Final extracted enquiry:', enquiryData);
-        } else {
-          console.log('🔍 Step 3 - No enquiry property found, using data directly');
-        }
-        
-        console.log('🔍 After extraction - enquiryData:', enquiryData);
-        console.log('🔍 After extraction - enquiryData.id:', enquiryData?.id);
-        
-        console.log('📋 Processed enquiry data:', enquiryData);
-        console.log('🔍 Enquiry data type:', typeof enquiryData);
-        console.log('🔍 Enquiry data keys:', enquiryData ? Object.keys(enquiryData) : 'null');
-        console.log('🔍 Enquiry ID:', enquiryData?.id);
-        console.log('🔍 Enquiry ID type:', typeof enquiryData?.id);
-        
-        if (!enquiryData || !enquiryData.id) {
-          console.error('❌ Invalid enquiry data received:', enquiryData);
-          console.error('❌ Enquiry data is null/undefined:', !enquiryData);
-          console.error('❌ Enquiry ID is missing:', !enquiryData?.id);
-          setError('Invalid enquiry data received');
-          return;
-        }
-        
-        setEnquiry(enquiryData);
-        if (Array.isArray(enquiryData.remarkHistory)) {
-          // Phase 2: Show last 3-5 remarks (chronological, not by date)
-          // Backend returns last 5 remarks, just display them
-          const filteredRemarks = enquiryData.remarkHistory
-            .filter((entry: RemarkHistoryEntry) => !entry.cancelled) // Exclude cancelled remarks
-            .sort((a: RemarkHistoryEntry, b: RemarkHistoryEntry) => {
-              // Sort by date descending (newest first)
-              try {
-                const dateA = new Date(a.createdAt);
-                const dateB = new Date(b.createdAt);
-                
-                if (isNaN(dateA.getTime()) || isNaN(dateB.getTime())) {
-                  return 0; // Keep order if dates are invalid
-                }
-                
-                return dateB.getTime() - dateA.getTime();
-              } catch (error) {
-                return 0; // Keep order on error
-              }
-            })
-            .slice(0, 5); // Show last 5 remarks
-          
-          setRemarkHistory(filteredRemarks);
-        } else {
-          setRemarkHistory([]);
-        }
-        setError(null);
-        console.log('✅ Enquiry data set successfully');
-      } catch (err: any) {
-        console.error('❌ Error fetching enquiry:', err);
-        setError(err.message || 'Failed to load enquiry details');
-      } finally {
-        setLoading(false);
-      }
-    };
+            if (isNaN(dateA.getTime()) || isNaN(dateB.getTime())) {
+              return 0; // Keep order if dates are invalid
+            }
 
-    fetchEnquiry();
-  }, [enquiryId, authState.isAuthenticated]);
+            return dateB.getTime() - dateA.getTime();
+          } catch (error) {
+            return 0; // Keep order on error
+          }
+        })
+        .slice(0, 5); // Show last 5 remarks
+
+      setRemarkHistory(filteredRemarks);
+    } else {
+      setRemarkHistory([]);
+    }
+  }, [cachedEnquiry]);
 
   /**
    * Handle status update
@@ -707,7 +667,7 @@ export function EnquiryDetailsScreen({ route, navigation }: any): React.JSX.Elem
     try {
       // Get available staff members
       const usersResponse = await usersAPI.getUsers({ isActive: true });
-      const staffMembers = usersResponse.data.enquiries || []; // Using 'enquiries' as generic data key
+      const staffMembers = usersResponse.items;
       
       if (staffMembers.length === 0) {
         Alert.alert('No Staff', 'No active staff members found.');
@@ -929,8 +889,8 @@ export function EnquiryDetailsScreen({ route, navigation }: any): React.JSX.Elem
     }
   };
 
-  // Show loading state
-  if (loading) {
+  // Show loading state (cached details are applied on the next render)
+  if (loading || (cachedEnquiry && !enquiry)) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.headerSection}>
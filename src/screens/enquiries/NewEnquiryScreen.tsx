@@ -3,7 +3,7 @@
  * Create new enquiry with backend-compatible validation
  */
 
-import React, { useMemo, useState, useCallback } from 'react';
+import React, { useMemo, useState, useCallback, useEffect } from 'react';
 import {
   View,
   StyleSheet,
@@ -17,6 +17,9 @@ import {
   Card,
   Menu,
   ActivityIndicator,
+  Portal,
+  Dialog,
+  Divider,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
@@ -24,13 +27,16 @@ import { StackNavigationProp } from '@react-navigation/stack';
 
 import { DatePickerISO } from '../../components/DatePickerISO';
 import * as EnquiryService from '../../services/enquiry.service';
-import { CreateEnquiryRequest, EnquiryCategory, EnquirySource } from '../../services/types';
+import { isQueuedMutationError } from '../../services/offlineQueue.service';
+import { CreateEnquiryRequest, Enquiry, EnquiryCategory, EnquirySource } from '../../services/types';
 import { MainStackParamList } from '../../navigation/MainNavigator';
 import { enquiryAPI } from '../../api/enquiries';
+import { remarksAPI } from '../../api/remarks';
 import { useAuth } from '../../context/AuthContext';
 import { getUserRole } from '../../utils/roleUtils';
 import { formatDateForAPI } from '../../services/api.config';
-import { formatEnquirySource } from '../../utils/formatting';
+import { formatEnquirySource, formatDate, formatPhoneNumber, normalizePhoneNumber } from '../../utils/formatting';
+import { DuplicateMatch, describeDuplicateReasons } from '../../utils/duplicateEnquiry';
 
 type NavigationProp = StackNavigationProp<MainStackParamList>;
 
@@ -182,6 +188,9 @@ const HARDCODED_COLORS = [
   'Metallic Green'
 ];
 
+// Wait for typing to settle before searching the server for a phone number
+const PHONE_SEARCH_DELAY_MS = 600;
+
 const DEFAULT_SOURCE_OPTIONS = Object.values(EnquirySource).map((value) => ({
   value,
   label: formatEnquirySource(value),
@@ -237,6 +246,19 @@ export function NewEnquiryScreen(): React.JSX.Element {
   const [selectedVariant, setSelectedVariant] = useState<string | null>(null);
   const [fuelTypeMenuVisible, setFuelTypeMenuVisible] = useState(false);
 
+  // Duplicate detection state
+  const [duplicatePool, setDuplicatePool] = useState<Enquiry[]>([]);
+  const [loadingDuplicatePool, setLoadingDuplicatePool] = useState(false);
+  // Server search results per normalised phone number, so each number is searched once
+  const [phoneSearches, setPhoneSearches] = useState<Record<string, Enquiry[]>>({});
+  const [searchingPhone, setSearchingPhone] = useState(false);
+  const [remarkTarget, setRemarkTarget] = useState<Enquiry | null>(null);
+  const [duplicateRemark, setDuplicateRemark] = useState('');
+  const [addingRemark, setAddingRemark] = useState(false);
+
+  const dealershipId = authState.user?.dealership?.id || authState.user?.dealershipId || undefined;
+  const dealershipCode = authState.user?.dealership?.code || undefined;
+
   // Fetch models from backend with hardcoded fallback
   const fetchModels = async () => {
     try {
@@ -331,6 +353,108 @@ export function NewEnquiryScreen(): React.JSX.Element {
     fetchSources();
   }, []);
 
+  // Load the enquiries to check for duplicates against once per visit to the form
+  useEffect(() => {
+    let cancelled = false;
+    setLoadingDuplicatePool(true);
+    EnquiryService.getDuplicateScanPool({ dealershipId, dealershipCode })
+      .then(pool => {
+        if (!cancelled) setDuplicatePool(pool);
+      })
+      .catch(error => {
+        // The check is advisory; never block enquiry creation on it
+        console.error('❌ [NewEnquiryScreen] Failed to load enquiries for duplicate check:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingDuplicatePool(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dealershipId, dealershipCode]);
+
+  // Search the server once for each complete phone number entered
+  const phoneKey = normalizePhoneNumber(formData.customerContact);
+  useEffect(() => {
+    if (phoneKey.length < 10 || phoneSearches[phoneKey]) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setSearchingPhone(true);
+        const found = await EnquiryService.searchEnquiriesByPhone(phoneKey);
+        if (!cancelled) setPhoneSearches(prev => ({ ...prev, [phoneKey]: found }));
+      } catch (error) {
+        console.error('❌ [NewEnquiryScreen] Phone search for duplicates failed:', error);
+        if (!cancelled) setPhoneSearches(prev => ({ ...prev, [phoneKey]: [] }));
+      } finally {
+        if (!cancelled) setSearchingPhone(false);
+      }
+    }, PHONE_SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [phoneKey, phoneSearches]);
+
+  // Check for existing enquiries for the same customer as the form is filled in
+  const duplicateCustomerName = formData.customerName.trim();
+  const canCheckDuplicates =
+    phoneKey.length >= 10 || (duplicateCustomerName.length >= 3 && !!formData.model);
+  const duplicates = useMemo<DuplicateMatch[]>(() => {
+    if (!canCheckDuplicates) return [];
+
+    return EnquiryService.checkForDuplicates(
+      {
+        customerName: duplicateCustomerName,
+        customerContact: formData.customerContact,
+        model: formData.model,
+      },
+      [...duplicatePool, ...(phoneSearches[phoneKey] || [])]
+    );
+  }, [canCheckDuplicates, duplicateCustomerName, formData.customerContact, formData.model, phoneKey, duplicatePool, phoneSearches]);
+  const checkingDuplicates = canCheckDuplicates && (loadingDuplicatePool || searchingPhone);
+
+  const openRemarkDialog = (enquiry: Enquiry) => {
+    const vehicle = [formData.model, useManualVariant ? manualVariant : formData.variant]
+      .filter(Boolean)
+      .join(' ');
+    setDuplicateRemark(
+      formData.caRemarks.trim() ||
+        `Customer contacted again${vehicle ? ` regarding ${vehicle}` : ''}.`
+    );
+    setRemarkTarget(enquiry);
+  };
+
+  // Record the new contact on the existing enquiry instead of creating a duplicate
+  const handleAddRemarkToExisting = async () => {
+    if (!remarkTarget || !duplicateRemark.trim()) return;
+
+    try {
+      setAddingRemark(true);
+      await remarksAPI.addEnquiryRemark(remarkTarget.id, duplicateRemark.trim());
+      const enquiryId = remarkTarget.id;
+      setRemarkTarget(null);
+      Alert.alert('Remark Added', `Remark added to ${remarkTarget.customerName}'s existing enquiry.`, [
+        { text: 'OK', onPress: () => navigation.replace('EnquiryDetails', { enquiryId }) },
+      ]);
+    } catch (error: any) {
+      if (isQueuedMutationError(error)) {
+        setRemarkTarget(null);
+        Alert.alert('Saved Offline', error.message, [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+        return;
+      }
+      console.error('Error adding remark to existing enquiry:', error);
+      Alert.alert('Error', error.message || 'Failed to add remark. Please try again.');
+    } finally {
+      setAddingRemark(false);
+    }
+  };
+
   // Validation
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
@@ -393,12 +517,31 @@ export function NewEnquiryScreen(): React.JSX.Element {
   };
 
   // Handle form submission
-  const handleSubmit = async () => {
+  const handleSubmit = () => {
     if (!validateForm()) {
       Alert.alert('Validation Error', 'Please fill in all required fields correctly');
       return;
     }
 
+    if (duplicates.length > 0) {
+      const [closest] = duplicates;
+      const owner = closest.enquiry.assignedTo?.name || closest.enquiry.createdBy?.name;
+      Alert.alert(
+        'Possible Duplicate',
+        `${closest.enquiry.customerName} already has an enquiry${owner ? ` with ${owner}` : ''} (${describeDuplicateReasons(closest.reasons)}). Add a remark to it instead?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Create Anyway', onPress: () => createEnquiry() },
+          { text: 'Add Remark', onPress: () => openRemarkDialog(closest.enquiry) },
+        ]
+      );
+      return;
+    }
+
+    createEnquiry();
+  };
+
+  const createEnquiry = async () => {
     try {
       setLoading(true);
 
@@ -437,7 +580,6 @@ export function NewEnquiryScreen(): React.JSX.Element {
         (authState.user?.dealership as any)?.code ||
         (authState.user as any)?.dealershipCode ||
         undefined;
-      const dealershipId = authState.user?.dealership?.id || authState.user?.dealershipId || undefined;
 
       if (dealerCode) {
         requestData.dealerCode = dealerCode;
@@ -474,6 +616,12 @@ export function NewEnquiryScreen(): React.JSX.Element {
         ]
       );
     } catch (error: any) {
+      if (isQueuedMutationError(error)) {
+        Alert.alert('Saved Offline', error.message, [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+        return;
+      }
       console.error('Error creating enquiry:', error);
       
       // Phase 2: Enhanced error handling for backend validation errors
@@ -726,6 +874,51 @@ export function NewEnquiryScreen(): React.JSX.Element {
           </Card.Content>
         </Card>
 
+        {(checkingDuplicates || duplicates.length > 0) && (
+          <Card style={[styles.card, styles.duplicateCard]}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.duplicateTitle}>
+                {checkingDuplicates && duplicates.length === 0
+                  ? 'Checking for existing enquiries...'
+                  : `⚠️ ${duplicates.length} possible duplicate${duplicates.length === 1 ? '' : 's'}`}
+              </Text>
+              {duplicates.map((match, index) => {
+                const owner = match.enquiry.assignedTo?.name || match.enquiry.createdBy?.name;
+                return (
+                  <View key={match.enquiry.id}>
+                    {index > 0 && <Divider style={styles.duplicateDivider} />}
+                    <Text variant="bodyLarge" style={styles.duplicateName}>
+                      {match.enquiry.customerName}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.duplicateDetail}>
+                      📞 {formatPhoneNumber(match.enquiry.customerContact)} • 🚗 {match.enquiry.model}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.duplicateDetail}>
+                      {match.enquiry.category} • Created {formatDate(match.enquiry.createdAt)}
+                      {owner ? ` • ${owner}` : ''}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.duplicateReason}>
+                      Matched on {describeDuplicateReasons(match.reasons)}
+                    </Text>
+                    <View style={styles.duplicateActions}>
+                      <Button
+                        compact
+                        mode="text"
+                        onPress={() => navigation.navigate('EnquiryDetails', { enquiryId: match.enquiry.id })}
+                      >
+                        View
+                      </Button>
+                      <Button compact mode="outlined" onPress={() => openRemarkDialog(match.enquiry)}>
+                        Add Remark Instead
+                      </Button>
+                    </View>
+                  </View>
+                );
+              })}
+            </Card.Content>
+          </Card>
+        )}
+
         <Card style={styles.card}>
           <Card.Content>
             <Text variant="headlineSmall" style={styles.sectionTitle}>
@@ -939,6 +1132,37 @@ export function NewEnquiryScreen(): React.JSX.Element {
         </Text>
       </ScrollView>
 
+      <Portal>
+        <Dialog visible={!!remarkTarget} onDismiss={() => setRemarkTarget(null)}>
+          <Dialog.Title>Add Remark to Existing Enquiry</Dialog.Title>
+          <Dialog.Content>
+            <Text style={styles.dialogDescription}>
+              This will be recorded on {remarkTarget?.customerName}'s enquiry instead of creating a new one.
+            </Text>
+            <TextInput
+              mode="outlined"
+              label="Remark"
+              value={duplicateRemark}
+              onChangeText={setDuplicateRemark}
+              multiline
+              style={styles.input}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setRemarkTarget(null)} disabled={addingRemark}>
+              Cancel
+            </Button>
+            <Button
+              onPress={handleAddRemarkToExisting}
+              loading={addingRemark}
+              disabled={addingRemark || !duplicateRemark.trim()}
+            >
+              Add Remark
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       {/* Action Buttons */}
       <View style={styles.actions}>
         <Button
@@ -1008,6 +1232,41 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginLeft: 12,
   },
+  duplicateCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#F59E0B',
+    backgroundColor: '#FFFBEB',
+  },
+  duplicateTitle: {
+    fontWeight: '600',
+    color: '#92400E',
+    marginBottom: 8,
+  },
+  duplicateDivider: {
+    marginVertical: 8,
+  },
+  duplicateName: {
+    fontWeight: '600',
+    color: '#111827',
+  },
+  duplicateDetail: {
+    color: '#4B5563',
+    marginTop: 2,
+  },
+  duplicateReason: {
+    color: '#B45309',
+    marginTop: 2,
+  },
+  duplicateActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 4,
+  },
+  dialogDescription: {
+    color: '#4B5563',
+    marginBottom: 12,
+  },
   actions: {
     flexDirection: 'row',
     padding: 16,
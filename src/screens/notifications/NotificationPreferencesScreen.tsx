@@ -0,0 +1,308 @@
+/**
+ * Notification Preferences Screen
+ * Per-category toggles and channels, quiet hours and summary emails
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Text, Card, List, Divider, Switch, Chip, Menu, Button } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { useNotifications } from '../../context/NotificationContext';
+import {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreferences,
+  QuietHours,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CATEGORY_LABELS,
+  NOTIFICATION_CATEGORY_DESCRIPTIONS,
+  NOTIFICATION_CHANNEL_LABELS,
+  formatTimeOfDay,
+} from '../../utils/notificationPreferences';
+import { theme, spacing } from '../../utils/theme';
+
+// Times offered for the start and end of quiet hours
+const QUIET_START_OPTIONS = [
+  { hour: 19, minute: 0 },
+  { hour: 20, minute: 0 },
+  { hour: 21, minute: 0 },
+  { hour: 22, minute: 0 },
+  { hour: 23, minute: 0 },
+];
+
+const QUIET_END_OPTIONS = [
+  { hour: 6, minute: 0 },
+  { hour: 7, minute: 0 },
+  { hour: 8, minute: 0 },
+  { hour: 9, minute: 0 },
+  { hour: 10, minute: 0 },
+];
+
+export function NotificationPreferencesScreen(): React.JSX.Element {
+  const { preferences, updatePreferences } = useNotifications();
+  const [saving, setSaving] = useState(false);
+  const [quietMenu, setQuietMenu] = useState<'start' | 'end' | null>(null);
+
+  /**
+   * Save a change, surfacing failures instead of silently reverting
+   */
+  const savePreferences = async (next: NotificationPreferences) => {
+    try {
+      setSaving(true);
+      await updatePreferences(next);
+    } catch (error: any) {
+      console.error('Error updating notification preferences:', error);
+      Alert.alert('Error', error.message || 'Failed to update notification preferences. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCategoryToggle = (category: NotificationCategory, enabled: boolean) => {
+    const current = preferences.categories[category];
+    // Re-enabling a category with no channels left brings back its default channels
+    const channels =
+      enabled && current.channels.length === 0
+        ? DEFAULT_NOTIFICATION_PREFERENCES.categories[category].channels
+        : current.channels;
+    savePreferences({
+      ...preferences,
+      categories: { ...preferences.categories, [category]: { enabled, channels } },
+    });
+  };
+
+  const handleChannelToggle = (category: NotificationCategory, channel: NotificationChannel) => {
+    const current = preferences.categories[category];
+    const channels = current.channels.includes(channel)
+      ? current.channels.filter(existing => existing !== channel)
+      : [...current.channels, channel];
+    savePreferences({
+      ...preferences,
+      categories: {
+        ...preferences.categories,
+        // A category without channels is the same as switched off
+        [category]: { enabled: channels.length > 0, channels },
+      },
+    });
+  };
+
+  const handleQuietHoursChange = (changes: Partial<QuietHours>) => {
+    savePreferences({ ...preferences, quietHours: { ...preferences.quietHours, ...changes } });
+  };
+
+  const renderQuietTimeMenu = (
+    which: 'start' | 'end',
+    options: Array<{ hour: number; minute: number }>,
+    selected: { hour: number; minute: number }
+  ) => (
+    <Menu
+      visible={quietMenu === which}
+      onDismiss={() => setQuietMenu(null)}
+      anchor={
+        <Button
+          compact
+          disabled={saving || !preferences.quietHours.enabled}
+          onPress={() => setQuietMenu(which)}
+        >
+          {formatTimeOfDay(selected.hour, selected.minute)}
+        </Button>
+      }
+    >
+      {options.map(option => (
+        <Menu.Item
+          key={`${option.hour}:${option.minute}`}
+          onPress={() => {
+            setQuietMenu(null);
+            handleQuietHoursChange(
+              which === 'start'
+                ? { startHour: option.hour, startMinute: option.minute }
+                : { endHour: option.hour, endMinute: option.minute }
+            );
+          }}
+          title={formatTimeOfDay(option.hour, option.minute)}
+          leadingIcon={
+            option.hour === selected.hour && option.minute === selected.minute ? 'check' : undefined
+          }
+        />
+      ))}
+    </Menu>
+  );
+
+  const { quietHours } = preferences;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {/* Categories */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Categories
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Switched-off categories are hidden on this device even if they are still sent
+            </Text>
+          </Card.Content>
+
+          {(Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[]).map((category, index) => {
+            const preference = preferences.categories[category];
+            return (
+              <View key={category}>
+                {index > 0 && <Divider />}
+                <List.Item
+                  title={NOTIFICATION_CATEGORY_LABELS[category]}
+                  description={NOTIFICATION_CATEGORY_DESCRIPTIONS[category]}
+                  right={() => (
+                    <Switch
+                      value={preference.enabled}
+                      disabled={saving}
+                      onValueChange={enabled => handleCategoryToggle(category, enabled)}
+                      color={theme.colors.primary}
+                    />
+                  )}
+                />
+                <View style={styles.channelRow}>
+                  {(Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                    <Chip
+                      key={channel}
+                      compact
+                      selected={preference.enabled && preference.channels.includes(channel)}
+                      disabled={saving || !preference.enabled}
+                      onPress={() => handleChannelToggle(category, channel)}
+                    >
+                      {NOTIFICATION_CHANNEL_LABELS[channel]}
+                    </Chip>
+                  ))}
+                </View>
+              </View>
+            );
+          })}
+        </Card>
+
+        {/* Quiet Hours */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Quiet Hours
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Notifications still arrive but without a banner or sound
+            </Text>
+          </Card.Content>
+
+          <List.Item
+            title="Quiet Hours"
+            left={props => <List.Icon {...props} icon="weather-night" />}
+            right={() => (
+              <Switch
+                value={quietHours.enabled}
+                disabled={saving}
+                onValueChange={enabled => handleQuietHoursChange({ enabled })}
+                color={theme.colors.primary}
+              />
+            )}
+          />
+
+          <Divider />
+
+          <List.Item
+            title="From"
+            disabled={!quietHours.enabled}
+            left={props => <List.Icon {...props} icon="clock-start" />}
+            right={() =>
+              renderQuietTimeMenu('start', QUIET_START_OPTIONS, {
+                hour: quietHours.startHour,
+                minute: quietHours.startMinute,
+              })
+            }
+          />
+
+          <Divider />
+
+          <List.Item
+            title="Until"
+            disabled={!quietHours.enabled}
+            left={props => <List.Icon {...props} icon="clock-end" />}
+            right={() =>
+              renderQuietTimeMenu('end', QUIET_END_OPTIONS, {
+                hour: quietHours.endHour,
+                minute: quietHours.endMinute,
+              })
+            }
+          />
+        </Card>
+
+        {/* Summaries */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Summaries
+            </Text>
+          </Card.Content>
+
+          <List.Item
+            title="Evening Reminder"
+            description="Tomorrow's follow-ups and deliveries"
+            left={props => <List.Icon {...props} icon="weather-sunset" />}
+            right={() => (
+              <Switch
+                value={preferences.eveningReminder}
+                disabled={saving}
+                onValueChange={eveningReminder => savePreferences({ ...preferences, eveningReminder })}
+                color={theme.colors.primary}
+              />
+            )}
+          />
+
+          <Divider />
+
+          <List.Item
+            title="Weekly Summary"
+            description="Your pipeline and conversions for the week"
+            left={props => <List.Icon {...props} icon="calendar-week" />}
+            right={() => (
+              <Switch
+                value={preferences.weeklySummary}
+                disabled={saving}
+                onValueChange={weeklySummary => savePreferences({ ...preferences, weeklySummary })}
+                color={theme.colors.primary}
+              />
+            )}
+          />
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  scrollContent: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  card: {
+    marginBottom: spacing.lg,
+    elevation: 2,
+  },
+  sectionTitle: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+    marginBottom: spacing.md,
+  },
+  sectionDescription: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: -spacing.sm,
+  },
+  channelRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+});
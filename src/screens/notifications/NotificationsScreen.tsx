@@ -36,6 +36,7 @@ import { Notification } from '../../services/NotificationAPI';
 import { MainStackParamList } from '../../navigation/MainNavigator';
 import { useAuth } from '../../context/AuthContext';
 import { theme, spacing, shadows, borderRadius } from '../../utils/theme';
+import { getNotificationTarget, parseNotificationPayload } from '../../utils/notificationRouting';
 
 const { width } = Dimensions.get('window');
 
@@ -137,49 +138,31 @@ export function NotificationsScreen(): React.JSX.Element {
   });
 
   // Handle notification press
-  // Phase 2: Enhanced to handle escalation alerts
+  // Routes through the same payload schema as push taps and motorsync:// links
   const handleNotificationPress = useCallback(async (notification: Notification) => {
     if (!notification.delivered) {
       await markAsRead(notification.id);
     }
-    
-    const notificationType = notification.type || notification.data?.type;
-    const entityId = notification.data?.entityId;
-    
-    // Phase 2: Handle escalation alerts
-    switch (notificationType) {
-      case 'inactivity_alert':
-      case 'aging_alert':
-      case 'aging_alert_sm':
-      case 'aging_alert_gm':
-        // Navigate to enquiry details
-        if (entityId || notification.data?.enquiryId) {
-          navigation.navigate('EnquiryDetails', { 
-            enquiryId: entityId || notification.data.enquiryId 
-          });
-        }
+
+    const payload = parseNotificationPayload({
+      ...notification.data,
+      type: notification.type || notification.data?.type,
+    });
+    const target = payload && getNotificationTarget(payload);
+    if (!target) return;
+
+    switch (target.screen) {
+      case 'EnquiryDetails':
+        navigation.navigate('EnquiryDetails', target.params);
         break;
-        
-      case 'retail_delay':
-        // Navigate to booking details
-        if (entityId || notification.data?.bookingId) {
-          navigation.navigate('BookingDetails', { 
-            bookingId: entityId || notification.data.bookingId 
-          });
-        }
+      case 'BookingDetails':
+        navigation.navigate('BookingDetails', target.params);
         break;
-        
-      default:
-        // Default navigation based on entity IDs
-        if (notification.data?.enquiryId || entityId) {
-          navigation.navigate('EnquiryDetails', { 
-            enquiryId: notification.data?.enquiryId || entityId 
-          });
-        } else if (notification.data?.bookingId) {
-          navigation.navigate('BookingDetails', { 
-            bookingId: notification.data.bookingId 
-          });
-        }
+      case 'BookingUpdate':
+        navigation.navigate('BookingUpdate', target.params);
+        break;
+      case 'QuotationDetails':
+        navigation.navigate('QuotationDetails', target.params);
         break;
     }
   }, [markAsRead, navigation]);
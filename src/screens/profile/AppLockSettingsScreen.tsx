@@ -0,0 +1,336 @@
+/**
+ * App Lock Settings Screen
+ * Turn the PIN lock on or off, change the PIN, use biometrics, and choose the idle
+ * timeout and how many wrong PINs are allowed before local data is wiped
+ */
+
+import React, { useState } from 'react';
+import { StyleSheet, ScrollView, Alert } from 'react-native';
+import {
+  Text,
+  Card,
+  List,
+  Divider,
+  Switch,
+  Menu,
+  Button,
+  Dialog,
+  Portal,
+  TextInput,
+  HelperText,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { useAppLock } from '../../context/AppLockContext';
+import {
+  AppLockSettings,
+  APP_LOCK_IDLE_TIMEOUT_OPTIONS,
+  APP_LOCK_MAX_ATTEMPT_OPTIONS,
+  APP_LOCK_PIN_MAX_LENGTH,
+  formatIdleTimeout,
+  isValidPin,
+} from '../../utils/appLock';
+import { theme, spacing } from '../../utils/theme';
+
+type PinDialogMode = 'enable' | 'change' | 'disable';
+
+const PIN_DIALOG_TITLES: Record<PinDialogMode, string> = {
+  enable: 'Set PIN',
+  change: 'Change PIN',
+  disable: 'Turn Off App Lock',
+};
+
+export function AppLockSettingsScreen(): React.JSX.Element {
+  const {
+    settings,
+    biometricAvailable,
+    verifyPin,
+    enableLock,
+    disableLock,
+    changePin,
+    updateSettings,
+  } = useAppLock();
+  const [saving, setSaving] = useState(false);
+  const [menu, setMenu] = useState<'timeout' | 'attempts' | null>(null);
+  const [dialogMode, setDialogMode] = useState<PinDialogMode | null>(null);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [dialogError, setDialogError] = useState<string | null>(null);
+
+  const needsCurrentPin = dialogMode === 'change' || dialogMode === 'disable';
+  const needsNewPin = dialogMode === 'enable' || dialogMode === 'change';
+
+  const openDialog = (mode: PinDialogMode) => {
+    setCurrentPin('');
+    setNewPin('');
+    setConfirmPin('');
+    setDialogError(null);
+    setDialogMode(mode);
+  };
+
+  const closeDialog = () => {
+    if (saving) return;
+    setDialogMode(null);
+  };
+
+  /**
+   * Save a settings change, surfacing failures instead of silently reverting
+   */
+  const handleSettingsChange = async (changes: Partial<AppLockSettings>) => {
+    try {
+      setSaving(true);
+      await updateSettings(changes);
+    } catch (error: any) {
+      console.error('Error updating app lock settings:', error);
+      Alert.alert('Error', error.message || 'Failed to update app lock settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDialogSubmit = async () => {
+    if (!dialogMode) return;
+    if (needsNewPin) {
+      if (!isValidPin(newPin)) {
+        setDialogError('PIN must be 4 to 6 digits');
+        return;
+      }
+      if (newPin !== confirmPin) {
+        setDialogError('PINs do not match');
+        return;
+      }
+    }
+
+    try {
+      setSaving(true);
+      // Changing or removing the lock needs the current PIN; wrong guesses count towards the limit
+      if (needsCurrentPin) {
+        const result = await verifyPin(currentPin);
+        if (result.wiped) {
+          setDialogMode(null);
+          return;
+        }
+        if (!result.valid) {
+          setDialogError(`Incorrect PIN. ${result.remainingAttempts} attempt(s) left.`);
+          return;
+        }
+      }
+
+      if (dialogMode === 'enable') {
+        await enableLock(newPin);
+      } else if (dialogMode === 'change') {
+        await changePin(newPin);
+      } else {
+        await disableLock();
+      }
+      setDialogMode(null);
+    } catch (error: any) {
+      console.error('Error updating app lock PIN:', error);
+      setDialogError(error.message || 'Failed to update the PIN. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderPinInput = (label: string, value: string, onChange: (text: string) => void) => (
+    <TextInput
+      mode="outlined"
+      label={label}
+      value={value}
+      onChangeText={text => {
+        onChange(text.replace(/\D/g, ''));
+        setDialogError(null);
+      }}
+      keyboardType="number-pad"
+      secureTextEntry
+      maxLength={APP_LOCK_PIN_MAX_LENGTH}
+      style={styles.pinInput}
+    />
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              App Lock
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionDescription}>
+              Ask for a PIN when MotorSync is opened and after it has been in the background
+            </Text>
+          </Card.Content>
+
+          <List.Item
+            title="Require PIN"
+            left={props => <List.Icon {...props} icon="lock" />}
+            right={() => (
+              <Switch
+                value={settings.enabled}
+                disabled={saving}
+                onValueChange={enabled => openDialog(enabled ? 'enable' : 'disable')}
+                color={theme.colors.primary}
+              />
+            )}
+          />
+
+          <Divider />
+
+          <List.Item
+            title="Change PIN"
+            disabled={!settings.enabled}
+            left={props => <List.Icon {...props} icon="form-textbox-password" />}
+            right={props => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => openDialog('change')}
+          />
+
+          <Divider />
+
+          <List.Item
+            title="Unlock with Biometrics"
+            description={
+              biometricAvailable
+                ? 'Face ID or fingerprint, with the PIN as a fallback'
+                : 'No Face ID or fingerprint is set up on this device'
+            }
+            disabled={!settings.enabled || !biometricAvailable}
+            left={props => <List.Icon {...props} icon="fingerprint" />}
+            right={() => (
+              <Switch
+                value={settings.enabled && settings.biometricEnabled}
+                disabled={saving || !settings.enabled || !biometricAvailable}
+                onValueChange={biometricEnabled => handleSettingsChange({ biometricEnabled })}
+                color={theme.colors.primary}
+              />
+            )}
+          />
+
+          <Divider />
+
+          <List.Item
+            title="Lock After"
+            description={formatIdleTimeout(settings.idleTimeoutMinutes)}
+            disabled={!settings.enabled}
+            left={props => <List.Icon {...props} icon="timer-lock-outline" />}
+            right={() => (
+              <Menu
+                visible={menu === 'timeout'}
+                onDismiss={() => setMenu(null)}
+                anchor={
+                  <Button compact disabled={saving || !settings.enabled} onPress={() => setMenu('timeout')}>
+                    Change
+                  </Button>
+                }
+              >
+                {APP_LOCK_IDLE_TIMEOUT_OPTIONS.map(minutes => (
+                  <Menu.Item
+                    key={minutes}
+                    onPress={() => {
+                      setMenu(null);
+                      handleSettingsChange({ idleTimeoutMinutes: minutes });
+                    }}
+                    title={formatIdleTimeout(minutes)}
+                    leadingIcon={settings.idleTimeoutMinutes === minutes ? 'check' : undefined}
+                  />
+                ))}
+              </Menu>
+            )}
+          />
+
+          <Divider />
+
+          <List.Item
+            title="Wipe Data After"
+            description={`${settings.maxFailedAttempts} incorrect PINs in a row`}
+            disabled={!settings.enabled}
+            left={props => <List.Icon {...props} icon="delete-alert-outline" />}
+            right={() => (
+              <Menu
+                visible={menu === 'attempts'}
+                onDismiss={() => setMenu(null)}
+                anchor={
+                  <Button compact disabled={saving || !settings.enabled} onPress={() => setMenu('attempts')}>
+                    Change
+                  </Button>
+                }
+              >
+                {APP_LOCK_MAX_ATTEMPT_OPTIONS.map(attempts => (
+                  <Menu.Item
+                    key={attempts}
+                    onPress={() => {
+                      setMenu(null);
+                      handleSettingsChange({ maxFailedAttempts: attempts });
+                    }}
+                    title={`${attempts} attempts`}
+                    leadingIcon={settings.maxFailedAttempts === attempts ? 'check' : undefined}
+                  />
+                ))}
+              </Menu>
+            )}
+          />
+
+          <Card.Content>
+            <Text variant="bodySmall" style={styles.footnote}>
+              Reaching the limit removes cached customers, enquiries and unsent changes from this
+              device and signs you out.
+            </Text>
+          </Card.Content>
+        </Card>
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={dialogMode !== null} onDismiss={closeDialog}>
+          <Dialog.Title>{dialogMode ? PIN_DIALOG_TITLES[dialogMode] : ''}</Dialog.Title>
+          <Dialog.Content>
+            {needsCurrentPin && renderPinInput('Current PIN', currentPin, setCurrentPin)}
+            {needsNewPin && renderPinInput('New PIN (4-6 digits)', newPin, setNewPin)}
+            {needsNewPin && renderPinInput('Confirm PIN', confirmPin, setConfirmPin)}
+            <HelperText type="error" visible={!!dialogError}>
+              {dialogError}
+            </HelperText>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeDialog} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onPress={handleDialogSubmit} loading={saving} disabled={saving}>
+              {dialogMode === 'disable' ? 'Turn Off' : 'Save'}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  scrollContent: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  card: {
+    marginBottom: spacing.lg,
+    elevation: 2,
+  },
+  sectionTitle: {
+    color: theme.colors.onSurface,
+    fontWeight: '600',
+    marginBottom: spacing.md,
+  },
+  sectionDescription: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: -spacing.sm,
+  },
+  footnote: {
+    color: theme.colors.onSurfaceVariant,
+    paddingBottom: spacing.md,
+  },
+  pinInput: {
+    marginBottom: spacing.sm,
+  },
+});
@@ -14,21 +14,61 @@ import {
   Switch,
   Avatar,
   Surface,
+  Menu,
+  IconButton,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 
 import { useAuth, getRoleDisplayName } from '../../context/AuthContext';
+import { useReminders } from '../../context/ReminderContext';
+import { useDealership } from '../../context/DealershipContext';
+import { useNotifications } from '../../context/NotificationContext';
+import { useAppLock } from '../../context/AppLockContext';
+import { MainStackParamList } from '../../navigation/MainNavigator';
+import { formatQuietHours } from '../../utils/notificationPreferences';
+import { formatIdleTimeout } from '../../utils/appLock';
+import {
+  LeadScoreFactor,
+  LEAD_SCORE_FACTOR_LABELS,
+} from '../../utils/leadScoring';
+import {
+  LEAD_TIME_OPTIONS,
+  formatLeadTime,
+  formatShiftStart,
+} from '../../services/reminders.service';
 import { theme, spacing } from '../../utils/theme';
 
+// Roles that can tune the dealership's lead scoring
+const LEAD_SCORING_ROLES = ['ADMIN', 'GENERAL_MANAGER', 'SALES_MANAGER'];
+const LEAD_SCORE_WEIGHT_STEP = 5;
+const LEAD_SCORE_WEIGHT_MAX = 50;
+
+// Shift start times offered for the daily digest and date-only reminders
+const SHIFT_START_OPTIONS = [
+  { hour: 8, minute: 0 },
+  { hour: 9, minute: 0 },
+  { hour: 9, minute: 30 },
+  { hour: 10, minute: 0 },
+  { hour: 11, minute: 0 },
+];
+
 /**
  * Profile Screen Component
  * Displays user profile, settings, and role management
  */
 export function ProfileScreen(): React.JSX.Element {
+  const navigation = useNavigation<StackNavigationProp<MainStackParamList>>();
   const { state, logout } = useAuth();
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const { preferences: notificationPreferences } = useNotifications();
+  const { settings: appLockSettings } = useAppLock();
   const [darkModeEnabled, setDarkModeEnabled] = useState(false);
   const [autoSyncEnabled, setAutoSyncEnabled] = useState(true);
+  const { settings: reminderSettings, updateSettings: updateReminderSettings } = useReminders();
+  const [leadTimeMenuVisible, setLeadTimeMenuVisible] = useState(false);
+  const [shiftStartMenuVisible, setShiftStartMenuVisible] = useState(false);
+  const { leadScoreWeights, updateLeadScoreWeights, resetLeadScoreWeights } = useDealership();
 
   const user = state.user;
 
@@ -51,6 +91,45 @@ export function ProfileScreen(): React.JSX.Element {
   };
 
 
+  /**
+   * Save reminder settings, surfacing failures instead of silently reverting
+   */
+  const handleReminderSettingsChange = async (changes: Parameters<typeof updateReminderSettings>[0]) => {
+    try {
+      await updateReminderSettings(changes);
+    } catch (error) {
+      console.error('Error updating reminder settings:', error);
+      Alert.alert('Error', 'Failed to update reminder settings. Please try again.');
+    }
+  };
+
+  /**
+   * Step one lead score weight up or down within 0..LEAD_SCORE_WEIGHT_MAX
+   */
+  const handleLeadScoreWeightChange = async (factor: LeadScoreFactor, delta: number) => {
+    const next = Math.min(
+      LEAD_SCORE_WEIGHT_MAX,
+      Math.max(0, leadScoreWeights[factor] + delta)
+    );
+    if (next === leadScoreWeights[factor]) return;
+
+    try {
+      await updateLeadScoreWeights({ ...leadScoreWeights, [factor]: next });
+    } catch (error: any) {
+      console.error('Error updating lead score weights:', error);
+      Alert.alert('Error', error.message || 'Failed to update lead scoring weights.');
+    }
+  };
+
+  const handleResetLeadScoreWeights = async () => {
+    try {
+      await resetLeadScoreWeights();
+    } catch (error: any) {
+      console.error('Error resetting lead score weights:', error);
+      Alert.alert('Error', error.message || 'Failed to reset lead scoring weights.');
+    }
+  };
+
   /**
    * Handle settings action
    */
@@ -125,16 +204,25 @@ export function ProfileScreen(): React.JSX.Element {
           </Card.Content>
           
           <List.Item
-            title="Push Notifications"
-            description="Receive notifications for new enquiries and updates"
+            title="Notifications"
+            description={`Categories, channels and quiet hours (${formatQuietHours(notificationPreferences.quietHours).toLowerCase()})`}
             left={props => <List.Icon {...props} icon="bell" />}
-            right={() => (
-              <Switch
-                value={notificationsEnabled}
-                onValueChange={setNotificationsEnabled}
-                color={theme.colors.primary}
-              />
-            )}
+            right={props => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => navigation.navigate('NotificationPreferences')}
+          />
+          
+          <Divider />
+          
+          <List.Item
+            title="App Lock"
+            description={
+              appLockSettings.enabled
+                ? `PIN required, locks ${formatIdleTimeout(appLockSettings.idleTimeoutMinutes).toLowerCase()}`
+                : 'Off'
+            }
+            left={props => <List.Icon {...props} icon="lock" />}
+            right={props => <List.Icon {...props} icon="chevron-right" />}
+            onPress={() => navigation.navigate('AppLockSettings')}
           />
           
           <Divider />
@@ -168,6 +256,171 @@ export function ProfileScreen(): React.JSX.Element {
           />
         </Card>
 
+        {/* Reminders */}
+        <Card style={styles.settingsCard}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Reminders
+            </Text>
+          </Card.Content>
+
+          <List.Item
+            title="Follow-up & Delivery Reminders"
+            description="Notify me before follow-ups and expected deliveries"
+            left={props => <List.Icon {...props} icon="alarm" />}
+            right={() => (
+              <Switch
+                value={reminderSettings.enabled}
+                onValueChange={enabled => handleReminderSettingsChange({ enabled })}
+                color={theme.colors.primary}
+              />
+            )}
+          />
+
+          <Divider />
+
+          <List.Item
+            title="Remind Me"
+            description={formatLeadTime(reminderSettings.leadTimeMinutes)}
+            disabled={!reminderSettings.enabled}
+            left={props => <List.Icon {...props} icon="timer-outline" />}
+            right={() => (
+              <Menu
+                visible={leadTimeMenuVisible}
+                onDismiss={() => setLeadTimeMenuVisible(false)}
+                anchor={
+                  <Button
+                    compact
+                    disabled={!reminderSettings.enabled}
+                    onPress={() => setLeadTimeMenuVisible(true)}
+                  >
+                    Change
+                  </Button>
+                }
+              >
+                {LEAD_TIME_OPTIONS.map(minutes => (
+                  <Menu.Item
+                    key={minutes}
+                    onPress={() => {
+                      setLeadTimeMenuVisible(false);
+                      handleReminderSettingsChange({ leadTimeMinutes: minutes });
+                    }}
+                    title={formatLeadTime(minutes)}
+                    leadingIcon={reminderSettings.leadTimeMinutes === minutes ? 'check' : undefined}
+                  />
+                ))}
+              </Menu>
+            )}
+          />
+
+          <Divider />
+
+          <List.Item
+            title="Daily Digest"
+            description="Summary of today's follow-ups and deliveries at shift start"
+            left={props => <List.Icon {...props} icon="calendar-today" />}
+            right={() => (
+              <Switch
+                value={reminderSettings.dailyDigest}
+                disabled={!reminderSettings.enabled}
+                onValueChange={dailyDigest => handleReminderSettingsChange({ dailyDigest })}
+                color={theme.colors.primary}
+              />
+            )}
+          />
+
+          <Divider />
+
+          <List.Item
+            title="Shift Start"
+            description={formatShiftStart(reminderSettings)}
+            disabled={!reminderSettings.enabled}
+            left={props => <List.Icon {...props} icon="clock-start" />}
+            right={() => (
+              <Menu
+                visible={shiftStartMenuVisible}
+                onDismiss={() => setShiftStartMenuVisible(false)}
+                anchor={
+                  <Button
+                    compact
+                    disabled={!reminderSettings.enabled}
+                    onPress={() => setShiftStartMenuVisible(true)}
+                  >
+                    Change
+                  </Button>
+                }
+              >
+                {SHIFT_START_OPTIONS.map(option => {
+                  const selected =
+                    reminderSettings.shiftStartHour === option.hour &&
+                    reminderSettings.shiftStartMinute === option.minute;
+                  return (
+                    <Menu.Item
+                      key={`${option.hour}:${option.minute}`}
+                      onPress={() => {
+                        setShiftStartMenuVisible(false);
+                        handleReminderSettingsChange({
+                          shiftStartHour: option.hour,
+                          shiftStartMinute: option.minute,
+                        });
+                      }}
+                      title={formatShiftStart({
+                        ...reminderSettings,
+                        shiftStartHour: option.hour,
+                        shiftStartMinute: option.minute,
+                      })}
+                      leadingIcon={selected ? 'check' : undefined}
+                    />
+                  );
+                })}
+              </Menu>
+            )}
+          />
+        </Card>
+
+        {/* Lead Scoring - dealership managers only */}
+        {LEAD_SCORING_ROLES.includes(user.role.name) && (
+          <Card style={styles.settingsCard}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Lead Scoring Weights
+              </Text>
+              <Text variant="bodySmall" style={styles.sectionDescription}>
+                How much each factor counts towards an enquiry's lead score. Applies to everyone
+                at this dealership.
+              </Text>
+            </Card.Content>
+
+            {(Object.keys(LEAD_SCORE_FACTOR_LABELS) as LeadScoreFactor[]).map(factor => (
+              <List.Item
+                key={factor}
+                title={LEAD_SCORE_FACTOR_LABELS[factor]}
+                description={`Weight ${leadScoreWeights[factor]}`}
+                right={() => (
+                  <View style={styles.weightControls}>
+                    <IconButton
+                      icon="minus"
+                      size={18}
+                      disabled={leadScoreWeights[factor] <= 0}
+                      onPress={() => handleLeadScoreWeightChange(factor, -LEAD_SCORE_WEIGHT_STEP)}
+                    />
+                    <IconButton
+                      icon="plus"
+                      size={18}
+                      disabled={leadScoreWeights[factor] >= LEAD_SCORE_WEIGHT_MAX}
+                      onPress={() => handleLeadScoreWeightChange(factor, LEAD_SCORE_WEIGHT_STEP)}
+                    />
+                  </View>
+                )}
+              />
+            ))}
+
+            <Card.Actions>
+              <Button onPress={handleResetLeadScoreWeights}>Reset to Defaults</Button>
+            </Card.Actions>
+          </Card>
+        )}
+
         {/* Menu Items */}
         <Card style={styles.menuCard}>
           <List.Item
@@ -311,6 +564,14 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: spacing.md,
   },
+  sectionDescription: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: -spacing.sm,
+  },
+  weightControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   actionsGrid: {
     flexDirection: 'row',
     gap: spacing.sm,
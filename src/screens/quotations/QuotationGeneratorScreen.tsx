@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   View,
   StyleSheet,
@@ -13,15 +13,38 @@ import {
   Divider,
   IconButton,
   Chip,
+  HelperText,
+  Switch,
+  ActivityIndicator,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { theme, spacing, shadows, borderRadius } from '../../utils/theme';
+import { formatCurrency } from '../../utils/formatting';
+import { useCatalog } from '../../context/CatalogContext';
+import { useDealership } from '../../context/DealershipContext';
+import { useAuth } from '../../context/AuthContext';
+import { GST_SLABS, MAX_DEALER_DISCOUNT_RATE } from '../../config/pricing';
+import {
+  calculateOnRoadPrice,
+  resolveGstSlab,
+  getGstStateCode,
+  DealerDiscounts,
+  DealerDiscountType,
+  DEALER_DISCOUNT_LABELS,
+} from '../../utils/pricingEngine';
+import { ColorOption, VehicleVariant } from '../../types/catalog';
+import { Quotation } from '../../api/quotations';
+import {
+  shareQuotationPdf,
+  getLetterhead,
+  DEFAULT_QUOTATION_TERMS,
+} from '../../services/quotationPdf.service';
 
 /**
- * Quotation item interface
+ * Additional (non-catalog) item such as extended warranty or fastag
  */
-interface QuotationItem {
+interface AdditionalItem {
   id: string;
   description: string;
   quantity: number;
@@ -29,48 +52,75 @@ interface QuotationItem {
   total: number;
 }
 
-/**
- * Vehicle options for quick selection
- */
-const vehicleOptions = [
-  '2024 Toyota Camry',
-  '2024 Honda Accord', 
-  '2024 BMW X5',
-  '2024 Mercedes C-Class',
-  '2024 Audi A4',
-  '2024 Ford F-150',
-  '2024 Chevrolet Silverado',
-  '2024 Tesla Model 3',
-];
+const discountTypes = Object.keys(DEALER_DISCOUNT_LABELS) as DealerDiscountType[];
 
 /**
  * Quotation Generator Screen
- * Allows users to create new quotations with line items
+ * Builds an on-road price quotation from the dealership catalog
  */
 export function QuotationGeneratorScreen({ navigation }: any): React.JSX.Element {
+  const { catalog, loading: catalogLoading, error: catalogError } = useCatalog();
+  const { dealership } = useDealership();
+  const { state: authState } = useAuth();
+
   const [customerName, setCustomerName] = useState('');
   const [customerEmail, setCustomerEmail] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
-  const [vehicleDetails, setVehicleDetails] = useState('');
-  const [items, setItems] = useState<QuotationItem[]>([
-    {
-      id: '1',
-      description: 'Vehicle Base Price',
-      quantity: 1,
-      unitPrice: 0,
-      total: 0,
-    },
-  ]);
+  const [customerState, setCustomerState] = useState('');
+  const [selectedBrand, setSelectedBrand] = useState('');
+  const [selectedModel, setSelectedModel] = useState('');
+  const [selectedVariant, setSelectedVariant] = useState<VehicleVariant | null>(null);
+  const [selectedColor, setSelectedColor] = useState<ColorOption | null>(null);
+  const [slabId, setSlabId] = useState<string | null>(null);
+  const [discounts, setDiscounts] = useState<DealerDiscounts>({});
+  const [includeInsurance, setIncludeInsurance] = useState(true);
+  const [includeAccessories, setIncludeAccessories] = useState(true);
+  const [items, setItems] = useState<AdditionalItem[]>([]);
   const [validityDays, setValidityDays] = useState('30');
   const [notes, setNotes] = useState('');
-  const [vehicleMenuVisible, setVehicleMenuVisible] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const dealerState = dealership?.state || '';
+
+  // Default the customer's state to the dealership's state
+  useEffect(() => {
+    if (dealerState) {
+      setCustomerState(current => current || dealerState);
+    }
+  }, [dealerState]);
+
+  const brand = catalog?.brands.find(b => b.brand === selectedBrand);
+  const model = brand?.models.find(m => m.model === selectedModel);
+  const variants = model ? model.variants.filter(v => v.isAvailable) : [];
+  const colors = selectedVariant ? selectedVariant.colors.filter(c => c.isAvailable) : [];
+  const vehicleDetails = [selectedBrand, selectedModel, selectedVariant?.name]
+    .filter(Boolean)
+    .join(' ');
+
+  const handleBrandSelect = (brandName: string) => {
+    setSelectedBrand(brandName);
+    setSelectedModel('');
+    setSelectedVariant(null);
+    setSelectedColor(null);
+  };
+
+  const handleModelSelect = (modelName: string) => {
+    setSelectedModel(modelName);
+    setSelectedVariant(null);
+    setSelectedColor(null);
+  };
+
+  const handleVariantSelect = (variant: VehicleVariant) => {
+    setSelectedVariant(variant);
+    setSelectedColor(null);
+    setSlabId(null);
+  };
 
   /**
    * Add new item to quotation
    */
   const addItem = () => {
-    const newItem: QuotationItem = {
+    const newItem: AdditionalItem = {
       id: Date.now().toString(),
       description: '',
       quantity: 1,
@@ -90,7 +140,7 @@ export function QuotationGeneratorScreen({ navigation }: any): React.JSX.Element
   /**
    * Update item details
    */
-  const updateItem = (itemId: string, field: keyof QuotationItem, value: any) => {
+  const updateItem = (itemId: string, field: keyof AdditionalItem, value: any) => {
     setItems(items.map(item => {
       if (item.id === itemId) {
         const updatedItem = { ...item, [field]: value };
@@ -104,35 +154,109 @@ export function QuotationGeneratorScreen({ navigation }: any): React.JSX.Element
     }));
   };
 
+  const updateDiscount = (type: DealerDiscountType, value: string) => {
+    setDiscounts(prev => ({ ...prev, [type]: parseFloat(value) || 0 }));
+  };
+
   /**
-   * Calculate quotation totals
+   * Calculate quotation totals from the selected variant
    */
-  const calculateTotals = () => {
-    const subtotal = items.reduce((sum, item) => sum + item.total, 0);
-    const tax = subtotal * 0.1; // 10% tax
-    const total = subtotal + tax;
-    
-    return { subtotal, tax, total };
+  const pricing = useMemo(() => {
+    if (!selectedVariant) return null;
+    return calculateOnRoadPrice({
+      variant: selectedVariant,
+      vehicleName: vehicleDetails,
+      color: selectedColor,
+      slab: GST_SLABS.find(slab => slab.id === slabId),
+      dealerState,
+      customerState,
+      discounts,
+      includeInsurance,
+      includeAccessories,
+      additionalItems: items,
+    });
+  }, [
+    selectedVariant,
+    vehicleDetails,
+    selectedColor,
+    slabId,
+    dealerState,
+    customerState,
+    discounts,
+    includeInsurance,
+    includeAccessories,
+    items,
+  ]);
+
+  const activeSlabId = pricing?.slab.id || (selectedVariant ? resolveGstSlab(selectedVariant).id : null);
+  const customerStateRecognised = !customerState.trim() || !!getGstStateCode(customerState);
+
+  /**
+   * Build a quotation from the current form for local PDF rendering
+   */
+  const buildQuotation = (): Quotation | null => {
+    if (!pricing) return null;
+
+    const now = new Date();
+    const validUntil = new Date(now);
+    validUntil.setDate(validUntil.getDate() + (parseInt(validityDays) || 30));
+    const stamp = now.toISOString().replace(/\D/g, '').slice(0, 12);
+
+    return {
+      id: `local-${stamp}`,
+      quotationNumber: `${dealership?.code || 'QT'}-${stamp}`,
+      customerName: customerName.trim(),
+      customerEmail: customerEmail.trim(),
+      customerPhone: customerPhone.trim() || undefined,
+      vehicleDetails: [vehicleDetails, selectedColor?.name].filter(Boolean).join(' - '),
+      status: 'DRAFT',
+      items: pricing.items,
+      subtotal: pricing.subtotal,
+      taxAmount: pricing.taxAmount,
+      discountAmount: pricing.discountAmount,
+      totalAmount: pricing.totalAmount,
+      validUntil: validUntil.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      createdBy: authState.user?.name || '',
+      createdById: authState.user?.id || authState.user?.firebaseUid || '',
+      notes: notes.trim() || undefined,
+      terms: DEFAULT_QUOTATION_TERMS,
+    };
+  };
+
+  /**
+   * Render the quotation PDF on-device and open the share sheet
+   */
+  const handleSharePdf = async (quotation: Quotation) => {
+    try {
+      setIsSharing(true);
+      await shareQuotationPdf(quotation, getLetterhead(dealership));
+    } catch (error: any) {
+      console.error('❌ Failed to share quotation PDF:', error);
+      Alert.alert('Error', error?.message || 'Failed to generate quotation PDF');
+    } finally {
+      setIsSharing(false);
+    }
   };
 
   /**
    * Generate quotation
    */
   const generateQuotation = () => {
-    if (!customerName.trim() || !customerEmail.trim() || !vehicleDetails.trim()) {
-      Alert.alert('Error', 'Please fill in all required fields');
+    const quotation = buildQuotation();
+    if (!customerName.trim() || !customerEmail.trim() || !quotation) {
+      Alert.alert('Error', 'Please fill in all required fields and select a vehicle variant');
       return;
     }
 
-    const totals = calculateTotals();
-    
     Alert.alert(
       'Quotation Generated',
-      `Quotation for ${customerName} has been generated successfully!\nTotal: $${totals.total.toFixed(2)}`,
+      `Quotation for ${customerName} has been generated successfully!\n${vehicleDetails}\nOn-road price: ${formatCurrency(quotation.totalAmount)}`,
       [
         {
-          text: 'Generate PDF',
-          onPress: () => Alert.alert('PDF Generated', 'PDF has been saved to your device'),
+          text: 'Share PDF',
+          onPress: () => handleSharePdf(quotation),
         },
         {
           text: 'Send Email',
@@ -143,7 +267,15 @@ export function QuotationGeneratorScreen({ navigation }: any): React.JSX.Element
     );
   };
 
-  const totals = calculateTotals();
+  const renderChipRow = (children: React.ReactNode) => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.vehicleScrollView}
+    >
+      <View style={styles.vehicleChipsRow}>{children}</View>
+    </ScrollView>
+  );
 
   return (
     <SafeAreaView style={styles.container}>
@@ -191,49 +323,202 @@ export function QuotationGeneratorScreen({ navigation }: any): React.JSX.Element
               keyboardType="phone-pad"
               style={styles.input}
             />
-            
+
             <TextInput
               mode="outlined"
-              label="Vehicle Details *"
-              value={vehicleDetails}
-              onChangeText={setVehicleDetails}
-              placeholder="e.g., 2024 Toyota Camry Hybrid LE"
-              style={styles.input}
-              left={<TextInput.Icon icon="car" />}
+              label="Customer State"
+              value={customerState}
+              onChangeText={setCustomerState}
+              placeholder="e.g., Maharashtra"
+              style={styles.stateInput}
+              left={<TextInput.Icon icon="map-marker" />}
             />
-            
-            {/* Quick Vehicle Selection */}
-            <Text variant="bodySmall" style={styles.quickSelectLabel}>
-              Quick Select Popular Vehicles:
+            <HelperText type={customerStateRecognised ? 'info' : 'error'}>
+              {!customerStateRecognised
+                ? 'Unrecognised state - CGST + SGST will be applied'
+                : pricing?.isInterState
+                ? 'Inter-state supply - IGST applies'
+                : 'Intra-state supply - CGST + SGST apply'}
+            </HelperText>
+          </Card.Content>
+        </Card>
+
+        {/* Vehicle Selection */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Vehicle
             </Text>
-            <ScrollView 
-              horizontal 
-              showsHorizontalScrollIndicator={false}
-              style={styles.vehicleScrollView}
-            >
-              <View style={styles.vehicleChipsRow}>
-                {vehicleOptions.slice(0, 6).map((vehicle) => (
-                  <Chip
-                    key={vehicle}
-                    mode="outlined"
-                    onPress={() => setVehicleDetails(vehicle)}
-                    style={styles.vehicleChip}
-                    textStyle={styles.vehicleChipText}
-                  >
-                    {vehicle}
-                  </Chip>
-                ))}
-              </View>
-            </ScrollView>
+
+            {catalogLoading ? (
+              <ActivityIndicator size="small" />
+            ) : catalogError ? (
+              <HelperText type="error">{catalogError}</HelperText>
+            ) : !catalog || catalog.brands.length === 0 ? (
+              <HelperText type="info">
+                No vehicle catalog available for your dealership. Please contact administrator.
+              </HelperText>
+            ) : (
+              <>
+                <Text variant="bodySmall" style={styles.quickSelectLabel}>
+                  Brand
+                </Text>
+                {renderChipRow(
+                  catalog.brands.map(b => (
+                    <Chip
+                      key={b.brand}
+                      mode="outlined"
+                      selected={selectedBrand === b.brand}
+                      onPress={() => handleBrandSelect(b.brand)}
+                      style={styles.vehicleChip}
+                      textStyle={styles.vehicleChipText}
+                    >
+                      {b.brand}
+                    </Chip>
+                  ))
+                )}
+
+                {brand && (
+                  <>
+                    <Text variant="bodySmall" style={styles.quickSelectLabel}>
+                      Model
+                    </Text>
+                    {renderChipRow(
+                      brand.models.map(m => (
+                        <Chip
+                          key={m.catalogId || m.model}
+                          mode="outlined"
+                          selected={selectedModel === m.model}
+                          onPress={() => handleModelSelect(m.model)}
+                          style={styles.vehicleChip}
+                          textStyle={styles.vehicleChipText}
+                        >
+                          {m.model}
+                        </Chip>
+                      ))
+                    )}
+                  </>
+                )}
+
+                {model && (
+                  <>
+                    <Text variant="bodySmall" style={styles.quickSelectLabel}>
+                      Variant
+                    </Text>
+                    {variants.length === 0 ? (
+                      <HelperText type="info">No variants available for this model</HelperText>
+                    ) : (
+                      renderChipRow(
+                        variants.map(v => (
+                          <Chip
+                            key={v.vcCode}
+                            mode="outlined"
+                            selected={selectedVariant?.vcCode === v.vcCode}
+                            onPress={() => handleVariantSelect(v)}
+                            style={styles.vehicleChip}
+                            textStyle={styles.vehicleChipText}
+                          >
+                            {`${v.name} • ${formatCurrency(v.exShowroomPrice)}`}
+                          </Chip>
+                        ))
+                      )
+                    )}
+                  </>
+                )}
+
+                {colors.length > 0 && (
+                  <>
+                    <Text variant="bodySmall" style={styles.quickSelectLabel}>
+                      Colour
+                    </Text>
+                    {renderChipRow(
+                      colors.map(c => (
+                        <Chip
+                          key={c.code || c.name}
+                          mode="outlined"
+                          selected={selectedColor?.name === c.name}
+                          onPress={() => setSelectedColor(selectedColor?.name === c.name ? null : c)}
+                          style={styles.vehicleChip}
+                          textStyle={styles.vehicleChipText}
+                        >
+                          {c.additionalCost > 0
+                            ? `${c.name} (+${formatCurrency(c.additionalCost)})`
+                            : c.name}
+                        </Chip>
+                      ))
+                    )}
+                  </>
+                )}
+
+                {selectedVariant && (
+                  <>
+                    <Text variant="bodySmall" style={styles.quickSelectLabel}>
+                      GST Slab
+                    </Text>
+                    {renderChipRow(
+                      GST_SLABS.map(slab => (
+                        <Chip
+                          key={slab.id}
+                          mode="outlined"
+                          selected={activeSlabId === slab.id}
+                          onPress={() => setSlabId(slab.id)}
+                          style={styles.vehicleChip}
+                          textStyle={styles.vehicleChipText}
+                        >
+                          {slab.label}
+                        </Chip>
+                      ))
+                    )}
+
+                    <View style={styles.switchRow}>
+                      <Text variant="bodyMedium">Include insurance</Text>
+                      <Switch value={includeInsurance} onValueChange={setIncludeInsurance} />
+                    </View>
+                    <View style={styles.switchRow}>
+                      <Text variant="bodyMedium">Include accessories</Text>
+                      <Switch value={includeAccessories} onValueChange={setIncludeAccessories} />
+                    </View>
+                  </>
+                )}
+              </>
+            )}
           </Card.Content>
         </Card>
 
-        {/* Quotation Items */}
+        {/* Dealer Discounts */}
+        {selectedVariant && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Dealer Discounts
+              </Text>
+              {discountTypes.map(type => (
+                <TextInput
+                  key={type}
+                  mode="outlined"
+                  label={DEALER_DISCOUNT_LABELS[type]}
+                  value={discounts[type] ? String(discounts[type]) : ''}
+                  onChangeText={(value) => updateDiscount(type, value)}
+                  keyboardType="numeric"
+                  style={styles.input}
+                  left={<TextInput.Icon icon="currency-inr" />}
+                />
+              ))}
+              {pricing?.discountCapped && (
+                <HelperText type="error">
+                  {`Discounts are capped at ${MAX_DEALER_DISCOUNT_RATE * 100}% of ex-showroom (${formatCurrency(pricing.discountAmount)})`}
+                </HelperText>
+              )}
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Price Breakdown */}
         <Card style={styles.card}>
           <Card.Content>
             <View style={styles.itemsHeader}>
               <Text variant="titleMedium" style={styles.sectionTitle}>
-                Quotation Items
+                Price Breakdown
               </Text>
               <Button
                 mode="outlined"
@@ -245,6 +530,23 @@ export function QuotationGeneratorScreen({ navigation }: any): React.JSX.Element
               </Button>
             </View>
 
+            {pricing ? (
+              pricing.items
+                .filter(line => !items.some(item => item.id === line.id))
+                .map(line => (
+                  <View key={line.id} style={styles.breakdownRow}>
+                    <Text variant="bodyMedium" style={styles.breakdownLabel}>
+                      {line.description}
+                    </Text>
+                    <Text variant="bodyMedium">{formatCurrency(line.total)}</Text>
+                  </View>
+                ))
+            ) : (
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                Select a vehicle variant to see the on-road price
+              </Text>
+            )}
+
             {items.map((item, index) => (
               <View key={item.id} style={styles.itemRow}>
                 <Text variant="labelMedium" style={styles.itemNumber}>
@@ -257,6 +559,7 @@ export function QuotationGeneratorScreen({ navigation }: any): React.JSX.Element
                     label="Description"
                     value={item.description}
                     onChangeText={(value) => updateItem(item.id, 'description', value)}
+                    placeholder="e.g., Extended warranty"
                     style={[styles.input, styles.descriptionInput]}
                   />
                   
@@ -284,48 +587,64 @@ export function QuotationGeneratorScreen({ navigation }: any): React.JSX.Element
                         Total
                       </Text>
                       <Text variant="titleMedium" style={styles.totalValue}>
-                        ${item.total.toFixed(2)}
+                        {formatCurrency(item.total)}
                       </Text>
                     </View>
                   </View>
                 </View>
 
-                {items.length > 1 && (
-                  <IconButton
-                    icon="delete"
-                    size={20}
-                    onPress={() => removeItem(item.id)}
-                    style={styles.deleteButton}
-                  />
-                )}
+                <IconButton
+                  icon="delete"
+                  size={20}
+                  onPress={() => removeItem(item.id)}
+                  style={styles.deleteButton}
+                />
               </View>
             ))}
 
-            <Divider style={styles.divider} />
+            {pricing && (
+              <>
+                <Divider style={styles.divider} />
 
-            {/* Totals */}
-            <View style={styles.totalsSection}>
-              <View style={styles.totalRow}>
-                <Text variant="bodyMedium">Subtotal:</Text>
-                <Text variant="bodyMedium">${totals.subtotal.toFixed(2)}</Text>
-              </View>
-              
-              <View style={styles.totalRow}>
-                <Text variant="bodyMedium">Tax (10%):</Text>
-                <Text variant="bodyMedium">${totals.tax.toFixed(2)}</Text>
-              </View>
-              
-              <Divider style={styles.totalDivider} />
-              
-              <View style={styles.totalRow}>
-                <Text variant="titleMedium" style={styles.grandTotalLabel}>
-                  Total:
-                </Text>
-                <Text variant="titleMedium" style={styles.grandTotalValue}>
-                  ${totals.total.toFixed(2)}
-                </Text>
-              </View>
-            </View>
+                {/* Totals */}
+                <View style={styles.totalsSection}>
+                  <View style={styles.totalRow}>
+                    <Text variant="bodyMedium">Ex-showroom:</Text>
+                    <Text variant="bodyMedium">{formatCurrency(pricing.exShowroomPrice)}</Text>
+                  </View>
+
+                  {pricing.discountAmount > 0 && (
+                    <View style={styles.totalRow}>
+                      <Text variant="bodyMedium">Discounts:</Text>
+                      <Text variant="bodyMedium">-{formatCurrency(pricing.discountAmount)}</Text>
+                    </View>
+                  )}
+
+                  <View style={styles.totalRow}>
+                    <Text variant="bodyMedium">{`GST (${pricing.slab.gstRate * 100}%${pricing.cess > 0 ? ' + cess' : ''}):`}</Text>
+                    <Text variant="bodyMedium">{formatCurrency(pricing.taxAmount)}</Text>
+                  </View>
+
+                  {pricing.tcsAmount > 0 && (
+                    <View style={styles.totalRow}>
+                      <Text variant="bodyMedium">TCS:</Text>
+                      <Text variant="bodyMedium">{formatCurrency(pricing.tcsAmount)}</Text>
+                    </View>
+                  )}
+                  
+                  <Divider style={styles.totalDivider} />
+                  
+                  <View style={styles.totalRow}>
+                    <Text variant="titleMedium" style={styles.grandTotalLabel}>
+                      On-Road Price:
+                    </Text>
+                    <Text variant="titleMedium" style={styles.grandTotalValue}>
+                      {formatCurrency(pricing.totalAmount)}
+                    </Text>
+                  </View>
+                </View>
+              </>
+            )}
           </Card.Content>
         </Card>
 
@@ -372,6 +691,8 @@ export function QuotationGeneratorScreen({ navigation }: any): React.JSX.Element
             mode="contained"
             style={styles.actionButton}
             onPress={generateQuotation}
+            loading={isSharing}
+            disabled={isSharing}
           >
             Generate Quotation
           </Button>
@@ -507,6 +828,31 @@ const styles = StyleSheet.create({
     flex: 1,
     borderRadius: 8,
   },
+  stateInput: {
+    backgroundColor: '#FFFFFF',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: spacing.md,
+    paddingVertical: spacing.xs,
+  },
+  breakdownLabel: {
+    flex: 1,
+    color: theme.colors.onSurfaceVariant,
+  },
+  emptyText: {
+    color: theme.colors.onSurfaceVariant,
+    textAlign: 'center',
+    marginVertical: spacing.md,
+  },
   quickSelectLabel: {
     color: theme.colors.onSurfaceVariant,
     marginBottom: spacing.sm,
@@ -1,8 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   View,
   StyleSheet,
-  ScrollView,
+  FlatList,
   RefreshControl,
   Alert,
 } from 'react-native';
@@ -20,23 +20,14 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { useAuth } from '../../context/AuthContext';
+import { useCatalog } from '../../context/CatalogContext';
+import { useDealership } from '../../context/DealershipContext';
 import { getUserRole } from '../../utils/roleUtils';
 import { theme, spacing } from '../../utils/theme';
 import { QuotationsAPI, type Quotation, type QuotationStatus } from '../../api';
-
-/**
- * Loading and error states
- */
-interface QuotationsState {
-  loading: boolean;
-  error: string | null;
-  data: Quotation[];
-}
-
-/**
- * Mock quotations data
- */
-const getEmptyQuotations = (): Quotation[] => [];
+import { usePaginatedList, PageRequest, mergeById } from '../../hooks/usePaginatedList';
+import { expireLapsedQuotations, renewQuotation } from '../../services/quotationExpiry.service';
+import { formatQuotationExpiry, getQuotationExpiryState } from '../../utils/quotationExpiry';
 
 /**
  * Get status chip color based on quotation status
@@ -60,112 +51,94 @@ function getStatusColor(status: QuotationStatus): string {
   }
 }
 
-/**
- * Check if quotation is expiring soon (within 3 days)
- */
-function isExpiringSoon(validUntil: string): boolean {
-  const expiryDate = new Date(validUntil);
-  const threeDaysFromNow = new Date();
-  threeDaysFromNow.setDate(threeDaysFromNow.getDate() + 3);
-  return expiryDate <= threeDaysFromNow;
-}
-
 /**
  * Quotations Screen Component
  * Displays and manages quotations
  */
-export function QuotationsScreen({ navigation }: any): React.JSX.Element {
+export function QuotationsScreen({ navigation, route }: any): React.JSX.Element {
   const { state } = useAuth();
-  
-  const [quotationsState, setQuotationsState] = useState<QuotationsState>({
-    loading: true,
-    error: null,
-    data: [],
-  });
+  const { catalog } = useCatalog();
+  const { dealership } = useDealership();
   
   const userRole = getUserRole(state.user);
   const [searchQuery, setSearchQuery] = useState('');
-  const [refreshing, setRefreshing] = useState(false);
   const [filterMenuVisible, setFilterMenuVisible] = useState(false);
-  const [statusFilter, setStatusFilter] = useState<QuotationStatus | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<QuotationStatus | 'all' | 'expiring'>('all');
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  const initialFilter = route?.params?.initialFilter;
+
+  // The dashboard's "expiring this week" card opens the list pre-filtered
+  useEffect(() => {
+    if (initialFilter === 'expiring') {
+      setStatusFilter('expiring');
+    }
+  }, [initialFilter]);
 
   /**
-   * Fetch quotations from API
+   * Fetch one page of quotations from API
    */
-  const fetchQuotations = useCallback(async () => {
+  const fetchQuotationsPage = useCallback(async ({ page, limit, updatedSince }: PageRequest) => {
+    // Check if user has permission to access quotations
+    if (userRole === 'CUSTOMER_ADVISOR') {
+      throw new Error('Access denied: Customer Advisors cannot view quotations');
+    }
+
     try {
-      setQuotationsState(prev => ({ ...prev, loading: true, error: null }));
-      
-      // Check if user has permission to access quotations
-      if (userRole === 'CUSTOMER_ADVISOR') {
-        setQuotationsState({
-          loading: false,
-          error: 'Access denied: Customer Advisors cannot view quotations',
-          data: getEmptyQuotations(),
-        });
-        return;
-      }
-      
-      const response = await QuotationsAPI.getQuotations({
-        page: 1,
-        limit: 100, // Get all quotations for now
+      return await QuotationsAPI.getQuotations({
+        page,
+        limit,
         sortBy: 'createdAt',
         sortOrder: 'desc',
-      });
-
-      setQuotationsState({
-        loading: false,
-        error: null,
-        data: response.data || [],
+        updatedSince,
       });
     } catch (error: any) {
       console.error('Error fetching quotations:', error);
-      
+
       // Handle permission errors specifically
       if (error.response?.status === 403) {
-        setQuotationsState({
-          loading: false,
-          error: 'Access denied: You do not have permission to view quotations',
-          data: getEmptyQuotations(),
-        });
-      } else {
-        setQuotationsState({
-          loading: false,
-          error: error.message || 'Failed to load quotations',
-          data: getEmptyQuotations(),
-        });
+        throw new Error('Access denied: You do not have permission to view quotations');
       }
+      throw error;
     }
   }, [userRole]);
 
+  const quotationList = usePaginatedList<Quotation>({
+    fetchPage: fetchQuotationsPage,
+    resetKey: userRole,
+  });
+  const { items: loadedQuotations, setItems: setLoadedQuotations } = quotationList;
+
+  // Quotations past validUntil move to EXPIRED as soon as they are loaded
+  useEffect(() => {
+    expireLapsedQuotations(loadedQuotations).then(expired => {
+      if (expired.length > 0) {
+        setLoadedQuotations(current => mergeById(current, expired));
+      }
+    });
+  }, [loadedQuotations, setLoadedQuotations]);
+
   /**
    * Filter quotations based on search query and status
    */
-  const filteredQuotations = quotationsState.data.filter(quotation => {
-    const matchesSearch = quotation.customerName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         quotation.quotationNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         quotation.vehicleDetails.toLowerCase().includes(searchQuery.toLowerCase());
+  const filteredQuotations = quotationList.items.filter(quotation => {
+    // Lean backend records may omit the customer/vehicle fields
+    const query = searchQuery.toLowerCase();
+    const matchesSearch = [quotation.customerName, quotation.quotationNumber, quotation.vehicleDetails]
+      .some(value => (value || '').toLowerCase().includes(query));
     
-    const matchesStatus = statusFilter === 'all' || quotation.status === statusFilter;
+    const matchesStatus =
+      statusFilter === 'all' ||
+      (statusFilter === 'expiring'
+        ? getQuotationExpiryState(quotation) === 'expiring'
+        : quotation.status === statusFilter);
     
     return matchesSearch && matchesStatus;
   });
 
   /**
-   * Handle pull to refresh
+   * Handle pull to refresh - only quotations changed since the last load
    */
-  const onRefresh = useCallback(async () => {
-    setRefreshing(true);
-    await fetchQuotations();
-    setRefreshing(false);
-  }, [fetchQuotations]);
-
-  /**
-   * Load data on component mount
-   */
-  useEffect(() => {
-    fetchQuotations();
-  }, [fetchQuotations]);
+  const onRefresh = quotationList.refresh;
 
   /**
    * Handle new quotation creation
@@ -193,6 +166,35 @@ export function QuotationsScreen({ navigation }: any): React.JSX.Element {
     }
   };
 
+  /**
+   * Renew an expired or expiring quotation as a new draft at today's catalog price
+   */
+  const handleRenew = async (quotation: Quotation) => {
+    try {
+      setRenewingId(quotation.id);
+      const renewal = await renewQuotation(quotation, catalog, dealership?.state);
+      quotationList.reload();
+      Alert.alert(
+        'Quotation Renewed',
+        renewal.priceRefreshed
+          ? `A new draft was created at today's price of ${formatCurrency(renewal.quotation.totalAmount ?? renewal.quotation.amount ?? 0)}.`
+          : 'A new draft was created. The vehicle is no longer in the catalog, so the original price was kept.',
+        [
+          { text: 'Close', style: 'cancel' },
+          {
+            text: 'View',
+            onPress: () => navigation.navigate('QuotationDetails', { quotationId: renewal.quotation.id }),
+          },
+        ]
+      );
+    } catch (error: any) {
+      console.error('Error renewing quotation:', error);
+      Alert.alert('Error', error.message || 'Failed to renew quotation');
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
   /**
    * Format currency
    */
@@ -216,7 +218,7 @@ export function QuotationsScreen({ navigation }: any): React.JSX.Element {
   };
 
   // Show loading state
-  if (quotationsState.loading && quotationsState.data.length === 0) {
+  if (quotationList.loading && quotationList.items.length === 0) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
@@ -230,7 +232,7 @@ export function QuotationsScreen({ navigation }: any): React.JSX.Element {
   }
 
   // Show error state
-  if (quotationsState.error && quotationsState.data.length === 0) {
+  if (quotationList.error && quotationList.items.length === 0) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.errorContainer}>
@@ -238,11 +240,11 @@ export function QuotationsScreen({ navigation }: any): React.JSX.Element {
             Unable to Load Quotations
           </Text>
           <Text variant="bodyMedium" style={styles.errorMessage}>
-            {quotationsState.error}
+            {quotationList.error}
           </Text>
           <Button 
             mode="contained" 
-            onPress={fetchQuotations}
+            onPress={quotationList.reload}
             style={styles.retryButton}
           >
             Try Again
@@ -319,18 +321,33 @@ export function QuotationsScreen({ navigation }: any): React.JSX.Element {
             title="Rejected"
             leadingIcon={statusFilter === 'rejected' ? 'check' : undefined}
           />
+          <Divider />
+          <Menu.Item
+            onPress={() => {
+              setStatusFilter('expiring');
+              setFilterMenuVisible(false);
+            }}
+            title="Expiring This Week"
+            leadingIcon={statusFilter === 'expiring' ? 'check' : undefined}
+          />
         </Menu>
       </View>
 
-      <ScrollView
+      <FlatList
+        data={filteredQuotations}
+        keyExtractor={(quotation) => quotation.id}
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+          <RefreshControl refreshing={quotationList.refreshing} onRefresh={onRefresh} />
         }
         showsVerticalScrollIndicator={false}
-      >
-        {filteredQuotations.length === 0 ? (
+        onEndReached={quotationList.loadMore}
+        onEndReachedThreshold={0.5}
+        initialNumToRender={8}
+        windowSize={7}
+        removeClippedSubviews
+        ListEmptyComponent={
           <Card style={styles.emptyCard}>
             <Card.Content style={styles.emptyContent}>
               <Text variant="titleMedium" style={styles.emptyTitle}>
@@ -341,9 +358,18 @@ export function QuotationsScreen({ navigation }: any): React.JSX.Element {
               </Text>
             </Card.Content>
           </Card>
-        ) : (
-          filteredQuotations.map((quotation) => (
-            <Card key={quotation.id} style={styles.quotationCard}>
+        }
+        ListFooterComponent={
+          quotationList.loadingMore ? (
+            <ActivityIndicator style={styles.listFooterLoader} color={theme.colors.primary} />
+          ) : null
+        }
+        renderItem={({ item: quotation }) => {
+          const expiryState = getQuotationExpiryState(quotation);
+          const canRenew = expiryState === 'expired' || expiryState === 'expiring';
+
+          return (
+            <Card style={styles.quotationCard}>
               <Card.Content>
                 <View style={styles.cardHeader}>
                   <View style={styles.quotationInfo}>
@@ -375,13 +401,18 @@ export function QuotationsScreen({ navigation }: any): React.JSX.Element {
                   <Text variant="bodySmall" style={styles.validityText}>
                     Valid until: {formatDate(quotation.validUntil)}
                   </Text>
-                  {isExpiringSoon(quotation.validUntil) && (
+                  {canRenew && (
                     <Chip
                       mode="flat"
                       textStyle={{ fontSize: 10 }}
-                      style={[styles.warningChip, { backgroundColor: `${theme.colors.warning}20` }]}
+                      style={[
+                        styles.warningChip,
+                        {
+                          backgroundColor: `${expiryState === 'expired' ? theme.colors.error : theme.colors.warning}20`,
+                        },
+                      ]}
                     >
-                      EXPIRES SOON
+                      {formatQuotationExpiry(quotation).toUpperCase()}
                     </Chip>
                   )}
                 </View>
@@ -416,20 +447,32 @@ export function QuotationsScreen({ navigation }: any): React.JSX.Element {
                     >
                       Edit
                     </Button>
-                    <Button
-                      mode="text"
-                      compact
-                      onPress={() => handleQuotationAction(quotation, 'Send')}
-                    >
-                      Send
-                    </Button>
+                    {canRenew ? (
+                      <Button
+                        mode="text"
+                        compact
+                        loading={renewingId === quotation.id}
+                        disabled={!!renewingId}
+                        onPress={() => handleRenew(quotation)}
+                      >
+                        Renew
+                      </Button>
+                    ) : (
+                      <Button
+                        mode="text"
+                        compact
+                        onPress={() => handleQuotationAction(quotation, 'Send')}
+                      >
+                        Send
+                      </Button>
+                    )}
                   </View>
                 </View>
               </Card.Content>
             </Card>
-          ))
-        )}
-      </ScrollView>
+          );
+        }}
+      />
 
       <FAB
         icon="plus"
@@ -465,6 +508,9 @@ const styles = StyleSheet.create({
     padding: spacing.md,
     paddingBottom: 100,
   },
+  listFooterLoader: {
+    paddingVertical: spacing.md,
+  },
   quotationCard: {
     marginBottom: spacing.md,
     elevation: 2,
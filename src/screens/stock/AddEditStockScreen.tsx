@@ -21,8 +21,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { StockAPI } from '../../api';
 import { useAuth } from '../../context/AuthContext';
 import {
-  Vehicle,
-  CreateVehicleRequest,
+  CreateStockRequest,
   FuelType,
   TransmissionType,
 } from '../../types/stock';
@@ -58,16 +57,17 @@ export function AddEditStockScreen(): React.JSX.Element {
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   // Form data
-  const [formData, setFormData] = useState<Partial<CreateVehicleRequest>>({
+  const [formData, setFormData] = useState<Partial<CreateStockRequest>>({
     variant: '',
     modelYear: '',
     color: '',
     fuelType: undefined,
     transmission: undefined,
-    vinNumber: '',
-    totalStock: 0,
-    availableStock: 0,
-    allocatedStock: 0,
+    vcCode: '',
+    quantity: 0,
+    availableQuantity: 0,
+    reservedQuantity: 0,
+    price: 0,
     dealerCode: '',
     location: '',
   });
@@ -106,17 +106,18 @@ export function AddEditStockScreen(): React.JSX.Element {
 
     try {
       setLoading(true);
-      const vehicle = await StockAPI.getVehicleById(vehicleId);
+      const vehicle = await StockAPI.getStockById(vehicleId);
       setFormData({
         variant: vehicle.variant,
         modelYear: vehicle.modelYear || '',
         color: vehicle.color,
-        fuelType: vehicle.fuelType,
-        transmission: vehicle.transmission,
-        vinNumber: vehicle.vinNumber || '',
-        totalStock: vehicle.totalStock,
-        availableStock: vehicle.availableStock,
-        allocatedStock: vehicle.allocatedStock || 0,
+        fuelType: vehicle.fuelType || undefined,
+        transmission: vehicle.transmission || undefined,
+        vcCode: vehicle.vcCode || '',
+        quantity: vehicle.quantity,
+        availableQuantity: vehicle.availableQuantity,
+        reservedQuantity: vehicle.reservedQuantity,
+        price: vehicle.price,
         dealerCode: vehicle.dealerCode || '',
         location: vehicle.location || '',
       });
@@ -152,21 +153,25 @@ export function AddEditStockScreen(): React.JSX.Element {
       newErrors.transmission = 'Transmission is required';
     }
 
-    if (formData.totalStock === undefined || formData.totalStock < 0) {
-      newErrors.totalStock = 'Total stock must be 0 or greater';
+    if (formData.quantity === undefined || formData.quantity < 0) {
+      newErrors.quantity = 'Total stock must be 0 or greater';
     }
 
-    if (formData.availableStock === undefined || formData.availableStock < 0) {
-      newErrors.availableStock = 'Available stock must be 0 or greater';
+    if (formData.availableQuantity === undefined || formData.availableQuantity < 0) {
+      newErrors.availableQuantity = 'Available stock must be 0 or greater';
     }
 
-    if (formData.totalStock !== undefined && formData.availableStock !== undefined) {
-      const allocated = formData.allocatedStock || 0;
-      if (formData.availableStock + allocated > formData.totalStock) {
-        newErrors.availableStock = 'Available + Allocated cannot exceed Total stock';
+    if (formData.quantity !== undefined && formData.availableQuantity !== undefined) {
+      const reserved = formData.reservedQuantity || 0;
+      if (formData.availableQuantity + reserved > formData.quantity) {
+        newErrors.availableQuantity = 'Available + Reserved cannot exceed Total stock';
       }
     }
 
+    if (formData.price === undefined || formData.price <= 0) {
+      newErrors.price = 'Price must be greater than 0';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -183,31 +188,30 @@ export function AddEditStockScreen(): React.JSX.Element {
     try {
       setSaving(true);
 
-      const requestData: CreateVehicleRequest = {
+      const requestData: CreateStockRequest = {
         variant: formData.variant!.trim(),
         color: formData.color!.trim(),
         fuelType: formData.fuelType!,
         transmission: formData.transmission!,
-        totalStock: formData.totalStock!,
-        availableStock: formData.availableStock!,
+        quantity: formData.quantity!,
+        availableQuantity: formData.availableQuantity!,
+        reservedQuantity: formData.reservedQuantity || 0,
+        price: formData.price!,
       };
 
       // Add optional fields
       if (formData.modelYear?.trim()) requestData.modelYear = formData.modelYear.trim();
-      if (formData.vinNumber?.trim()) requestData.vinNumber = formData.vinNumber.trim();
-      if (formData.allocatedStock !== undefined && formData.allocatedStock > 0) {
-        requestData.allocatedStock = formData.allocatedStock;
-      }
+      if (formData.vcCode?.trim()) requestData.vcCode = formData.vcCode.trim();
       if (formData.dealerCode?.trim()) requestData.dealerCode = formData.dealerCode.trim();
       if (formData.location?.trim()) requestData.location = formData.location.trim();
 
       if (isEditMode && vehicleId) {
-        await StockAPI.updateVehicle(vehicleId, requestData);
+        await StockAPI.updateStock(vehicleId, requestData);
         Alert.alert('Success', 'Vehicle updated successfully!', [
           { text: 'OK', onPress: () => navigation.goBack() }
         ]);
       } else {
-        await StockAPI.createVehicle(requestData);
+        await StockAPI.createStock(requestData);
         Alert.alert('Success', 'Vehicle created successfully!', [
           { text: 'OK', onPress: () => navigation.goBack() }
         ]);
@@ -374,9 +378,9 @@ export function AddEditStockScreen(): React.JSX.Element {
             {errors.transmission && <Text style={styles.errorText}>{errors.transmission}</Text>}
 
             <TextInput
-              label="VIN Number (Optional)"
-              value={formData.vinNumber}
-              onChangeText={(text) => setFormData({ ...formData, vinNumber: text })}
+              label="VC Code (Optional)"
+              value={formData.vcCode}
+              onChangeText={(text) => setFormData({ ...formData, vcCode: text })}
               mode="outlined"
               autoCapitalize="characters"
               style={styles.input}
@@ -394,42 +398,42 @@ export function AddEditStockScreen(): React.JSX.Element {
 
             <TextInput
               label="Total Stock *"
-              value={formData.totalStock?.toString() || ''}
+              value={formData.quantity?.toString() || ''}
               onChangeText={(text) => {
                 const value = parseInt(text) || 0;
-                setFormData({ ...formData, totalStock: value });
-                if (errors.totalStock) setErrors({ ...errors, totalStock: '' });
+                setFormData({ ...formData, quantity: value });
+                if (errors.quantity) setErrors({ ...errors, quantity: '' });
               }}
               mode="outlined"
               keyboardType="number-pad"
-              error={!!errors.totalStock}
+              error={!!errors.quantity}
               style={styles.input}
               left={<TextInput.Icon icon="warehouse" />}
             />
-            {errors.totalStock && <Text style={styles.errorText}>{errors.totalStock}</Text>}
+            {errors.quantity && <Text style={styles.errorText}>{errors.quantity}</Text>}
 
             <TextInput
               label="Available Stock *"
-              value={formData.availableStock?.toString() || ''}
+              value={formData.availableQuantity?.toString() || ''}
               onChangeText={(text) => {
                 const value = parseInt(text) || 0;
-                setFormData({ ...formData, availableStock: value });
-                if (errors.availableStock) setErrors({ ...errors, availableStock: '' });
+                setFormData({ ...formData, availableQuantity: value });
+                if (errors.availableQuantity) setErrors({ ...errors, availableQuantity: '' });
               }}
               mode="outlined"
               keyboardType="number-pad"
-              error={!!errors.availableStock}
+              error={!!errors.availableQuantity}
               style={styles.input}
               left={<TextInput.Icon icon="check-circle" />}
             />
-            {errors.availableStock && <Text style={styles.errorText}>{errors.availableStock}</Text>}
+            {errors.availableQuantity && <Text style={styles.errorText}>{errors.availableQuantity}</Text>}
 
             <TextInput
-              label="Allocated Stock (Optional)"
-              value={formData.allocatedStock?.toString() || ''}
+              label="Reserved Stock (Optional)"
+              value={formData.reservedQuantity?.toString() || ''}
               onChangeText={(text) => {
                 const value = parseInt(text) || 0;
-                setFormData({ ...formData, allocatedStock: value });
+                setFormData({ ...formData, reservedQuantity: value });
               }}
               mode="outlined"
               keyboardType="number-pad"
@@ -438,8 +442,24 @@ export function AddEditStockScreen(): React.JSX.Element {
             />
 
             <Text variant="bodySmall" style={styles.helpText}>
-              * Available + Allocated should not exceed Total Stock
+              * Available + Reserved should not exceed Total Stock
             </Text>
+
+            <TextInput
+              label="Price (₹) *"
+              value={formData.price ? formData.price.toString() : ''}
+              onChangeText={(text) => {
+                const value = parseFloat(text) || 0;
+                setFormData({ ...formData, price: value });
+                if (errors.price) setErrors({ ...errors, price: '' });
+              }}
+              mode="outlined"
+              keyboardType="decimal-pad"
+              error={!!errors.price}
+              style={styles.input}
+              left={<TextInput.Icon icon="currency-inr" />}
+            />
+            {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
           </Card.Content>
         </Card>
 
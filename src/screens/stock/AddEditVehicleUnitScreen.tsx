@@ -0,0 +1,407 @@
+/**
+ * Add/Edit Vehicle Unit Screen
+ * Form for recording one physical vehicle in a stock entry: VIN, chassis and engine
+ * numbers, when it arrived and where it is parked (Admin only)
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  ActivityIndicator,
+  Icon,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import { StockAPI } from '../../api';
+import { useAuth } from '../../context/AuthContext';
+import { DatePickerISO } from '../../components/DatePickerISO';
+import { CreateVehicleUnitRequest, UpdateVehicleUnitRequest } from '../../types/stock';
+import { MainStackParamList } from '../../navigation/MainNavigator';
+import { theme } from '../../utils/theme';
+
+type NavigationProp = StackNavigationProp<MainStackParamList>;
+
+interface UnitFormData {
+  vin: string;
+  chassisNumber: string;
+  engineNumber: string;
+  arrivalDate?: string;
+  yardLocation: string;
+}
+
+const EMPTY_FORM: UnitFormData = {
+  vin: '',
+  chassisNumber: '',
+  engineNumber: '',
+  arrivalDate: undefined,
+  yardLocation: '',
+};
+
+export function AddEditVehicleUnitScreen(): React.JSX.Element {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute();
+  const { state: authState } = useAuth();
+  const isAdmin = authState.user?.role?.name === 'ADMIN';
+
+  const { unitId, stockId: routeStockId } = (route.params as MainStackParamList['AddEditVehicleUnit']) || {};
+  const isEditMode = !!unitId;
+
+  // State
+  const [loading, setLoading] = useState(isEditMode);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [stockId, setStockId] = useState(routeStockId || '');
+  const [formData, setFormData] = useState<UnitFormData>(EMPTY_FORM);
+
+  /**
+   * Check if user is admin
+   */
+  useEffect(() => {
+    if (!isAdmin) {
+      Alert.alert(
+        'Access Denied',
+        'Only administrators can add or edit vehicles.',
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    }
+  }, [isAdmin, navigation]);
+
+  /**
+   * Load the unit in edit mode
+   */
+  useEffect(() => {
+    if (!unitId) return;
+
+    const loadUnit = async () => {
+      try {
+        setLoading(true);
+        const unit = await StockAPI.getVehicleUnitById(unitId);
+        setStockId(current => unit.stockId || current);
+        setFormData({
+          vin: unit.vin,
+          chassisNumber: unit.chassisNumber || '',
+          engineNumber: unit.engineNumber || '',
+          arrivalDate: unit.arrivalDate,
+          yardLocation: unit.yardLocation || '',
+        });
+      } catch (err: any) {
+        console.error('Error loading vehicle unit:', err);
+        Alert.alert('Error', err.message || 'Failed to load vehicle details', [
+          { text: 'OK', onPress: () => navigation.goBack() }
+        ]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadUnit();
+  }, [unitId, navigation]);
+
+  /**
+   * Validate form
+   */
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.vin.trim()) {
+      newErrors.vin = 'VIN is required';
+    }
+
+    if (!isEditMode && !stockId) {
+      newErrors.vin = newErrors.vin || 'Open this form from a stock entry to add a vehicle';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      Alert.alert('Validation Error', 'Please fix all errors before submitting');
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      if (isEditMode && unitId) {
+        // Cleared fields are sent empty so the backend clears them too
+        const requestData: UpdateVehicleUnitRequest = {
+          vin: formData.vin.trim().toUpperCase(),
+          chassisNumber: formData.chassisNumber.trim().toUpperCase(),
+          engineNumber: formData.engineNumber.trim().toUpperCase(),
+          yardLocation: formData.yardLocation.trim(),
+        };
+        if (formData.arrivalDate) requestData.arrivalDate = formData.arrivalDate;
+
+        await StockAPI.updateVehicleUnit(unitId, stockId, requestData);
+        Alert.alert('Success', 'Vehicle updated successfully!', [
+          { text: 'OK', onPress: () => navigation.goBack() }
+        ]);
+      } else {
+        const requestData: CreateVehicleUnitRequest = {
+          stockId,
+          vin: formData.vin.trim().toUpperCase(),
+        };
+
+        // Add optional fields
+        if (formData.chassisNumber.trim()) requestData.chassisNumber = formData.chassisNumber.trim().toUpperCase();
+        if (formData.engineNumber.trim()) requestData.engineNumber = formData.engineNumber.trim().toUpperCase();
+        if (formData.arrivalDate) requestData.arrivalDate = formData.arrivalDate;
+        if (formData.yardLocation.trim()) requestData.yardLocation = formData.yardLocation.trim();
+
+        await StockAPI.createVehicleUnit(requestData);
+        Alert.alert('Success', 'Vehicle added successfully!', [
+          { text: 'OK', onPress: () => navigation.goBack() }
+        ]);
+      }
+    } catch (err: any) {
+      console.error('Error saving vehicle unit:', err);
+      Alert.alert('Error', err.message || 'Failed to save vehicle');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#3B82F6" />
+          <Text variant="bodyLarge" style={styles.loadingText}>
+            Loading vehicle data...
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Icon source="arrow-left" size={24} color={theme.colors.onSurface} />
+        </TouchableOpacity>
+        <Text variant="headlineLarge" style={styles.headerTitle}>
+          {isEditMode ? 'Edit Vehicle' : 'Add Vehicle'}
+        </Text>
+        <Button mode="contained" onPress={handleSubmit} loading={saving} disabled={saving}>
+          Save
+        </Button>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Identification */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Identification
+            </Text>
+
+            <TextInput
+              label="VIN *"
+              value={formData.vin}
+              onChangeText={(text) => {
+                setFormData({ ...formData, vin: text });
+                if (errors.vin) setErrors({ ...errors, vin: '' });
+              }}
+              mode="outlined"
+              autoCapitalize="characters"
+              error={!!errors.vin}
+              style={styles.input}
+              left={<TextInput.Icon icon="barcode" />}
+            />
+            {errors.vin && <Text style={styles.errorText}>{errors.vin}</Text>}
+
+            <TextInput
+              label="Chassis Number (Optional)"
+              value={formData.chassisNumber}
+              onChangeText={(text) => setFormData({ ...formData, chassisNumber: text })}
+              mode="outlined"
+              autoCapitalize="characters"
+              style={styles.input}
+              left={<TextInput.Icon icon="car-info" />}
+            />
+
+            <TextInput
+              label="Engine Number (Optional)"
+              value={formData.engineNumber}
+              onChangeText={(text) => setFormData({ ...formData, engineNumber: text })}
+              mode="outlined"
+              autoCapitalize="characters"
+              style={styles.input}
+              left={<TextInput.Icon icon="engine" />}
+            />
+          </Card.Content>
+        </Card>
+
+        {/* Yard */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Yard
+            </Text>
+
+            <DatePickerISO
+              label="Arrival Date (Optional)"
+              value={formData.arrivalDate}
+              onChange={(isoDate) => setFormData({ ...formData, arrivalDate: isoDate })}
+              maximumDate={new Date()}
+              style={styles.input}
+            />
+
+            <Text variant="bodySmall" style={styles.helpText}>
+              Leave empty while the vehicle is still in transit
+            </Text>
+
+            <TextInput
+              label="Yard Location (Optional)"
+              value={formData.yardLocation}
+              onChangeText={(text) => setFormData({ ...formData, yardLocation: text })}
+              mode="outlined"
+              placeholder="e.g., Bay 3, Row B"
+              style={[styles.input, styles.yardLocationInput]}
+              left={<TextInput.Icon icon="map-marker" />}
+            />
+          </Card.Content>
+        </Card>
+
+        <Text variant="bodySmall" style={styles.footerText}>
+          * Required fields
+        </Text>
+      </ScrollView>
+
+      {/* Action Buttons */}
+      <View style={styles.actionsBar}>
+        <Button
+          mode="outlined"
+          onPress={() => navigation.goBack()}
+          style={styles.cancelButton}
+          disabled={saving}
+        >
+          Cancel
+        </Button>
+        <Button
+          mode="contained"
+          onPress={handleSubmit}
+          style={styles.submitButton}
+          loading={saving}
+          disabled={saving}
+        >
+          {isEditMode ? 'Update Vehicle' : 'Add Vehicle'}
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F9FAFB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: '700',
+    color: '#111827',
+    marginLeft: 12,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    marginTop: 16,
+    color: '#6B7280',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 24,
+  },
+  card: {
+    marginBottom: 16,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  input: {
+    marginBottom: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  yardLocationInput: {
+    marginTop: 12,
+  },
+  errorText: {
+    color: '#EF4444',
+    fontSize: 12,
+    marginTop: -8,
+    marginBottom: 8,
+    marginLeft: 12,
+  },
+  helpText: {
+    color: '#6B7280',
+    marginLeft: 12,
+  },
+  footerText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  actionsBar: {
+    flexDirection: 'row',
+    padding: 16,
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  cancelButton: {
+    flex: 1,
+  },
+  submitButton: {
+    flex: 2,
+    backgroundColor: '#3B82F6',
+  },
+});
@@ -3,7 +3,7 @@
  * Displays detailed information about a specific vehicle
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
 import {
   Text,
@@ -15,12 +15,20 @@ import {
   Divider,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation, useRoute } from '@react-navigation/native';
+import { useNavigation, useFocusEffect, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 
-import { StockAPI } from '../../api';
+import { StockAPI, StockReservation } from '../../api';
 import { useAuth } from '../../context/AuthContext';
-import { Vehicle } from '../../types/stock';
+import { Stock, VehicleUnit } from '../../types/stock';
+import {
+  getStockLevel,
+  getUnitAgeDays,
+  STOCK_LEVEL_COLORS,
+  STOCK_LEVEL_LABELS,
+  UNIT_STATUS_COLORS,
+  UNIT_STATUS_LABELS,
+} from '../../utils/inventory';
 import { MainStackParamList } from '../../navigation/MainNavigator';
 import { theme } from '../../utils/theme';
 
@@ -34,10 +42,12 @@ export function StockDetailScreen(): React.JSX.Element {
 
   const vehicleId = (route.params as any)?.vehicleId;
 
-  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [vehicle, setVehicle] = useState<Stock | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [reservations, setReservations] = useState<StockReservation[]>([]);
+  const [units, setUnits] = useState<VehicleUnit[]>([]);
 
   /**
    * Fetch vehicle details
@@ -52,7 +62,7 @@ export function StockDetailScreen(): React.JSX.Element {
 
       try {
         setLoading(true);
-        const data = await StockAPI.getVehicleById(vehicleId);
+        const data = await StockAPI.getStockById(vehicleId);
         setVehicle(data);
         setError(null);
       } catch (err: any) {
@@ -66,6 +76,32 @@ export function StockDetailScreen(): React.JSX.Element {
     fetchVehicle();
   }, [vehicleId]);
 
+  /**
+   * Fetch the bookings currently holding this stock
+   */
+  useEffect(() => {
+    if (!vehicleId) return;
+
+    // The vehicle details are still useful without the reservation list
+    StockAPI.getStockReservations(vehicleId)
+      .then(data => setReservations((data || []).filter(reservation => reservation.status === 'RESERVED')))
+      .catch(err => console.error('Error fetching stock reservations:', err));
+  }, [vehicleId]);
+
+  /**
+   * Fetch the individual vehicles (VINs) in this stock entry, again on return from
+   * adding or editing one
+   */
+  useFocusEffect(
+    useCallback(() => {
+      if (!vehicleId) return;
+
+      StockAPI.getStockUnits(vehicleId)
+        .then(setUnits)
+        .catch(err => console.error('Error fetching stock units:', err));
+    }, [vehicleId])
+  );
+
   /**
    * Handle edit vehicle
    */
@@ -101,7 +137,7 @@ export function StockDetailScreen(): React.JSX.Element {
 
     try {
       setDeleting(true);
-      await StockAPI.deleteVehicle(vehicle.id);
+      await StockAPI.deleteStock(vehicle.id);
       Alert.alert('Success', 'Vehicle deleted successfully', [
         {
           text: 'OK',
@@ -132,9 +168,8 @@ export function StockDetailScreen(): React.JSX.Element {
    * Get stock status color
    */
   const getStockStatusColor = () => {
-    if (vehicle && vehicle.availableStock === 0) return '#EF4444';
-    if (vehicle && vehicle.availableStock / vehicle.totalStock <= 0.3) return '#F59E0B';
-    return '#10B981';
+    if (!vehicle) return STOCK_LEVEL_COLORS.in_stock;
+    return STOCK_LEVEL_COLORS[getStockLevel(vehicle)];
   };
 
   /**
@@ -142,9 +177,16 @@ export function StockDetailScreen(): React.JSX.Element {
    */
   const getStockStatusText = () => {
     if (!vehicle) return '';
-    if (vehicle.availableStock === 0) return 'Out of Stock';
-    if (vehicle.availableStock / vehicle.totalStock <= 0.3) return 'Low Stock';
-    return 'In Stock';
+    return STOCK_LEVEL_LABELS[getStockLevel(vehicle)];
+  };
+
+  /**
+   * Where the unit is parked and how long it has been there
+   */
+  const describeUnit = (unit: VehicleUnit) => {
+    const ageDays = getUnitAgeDays(unit);
+    if (ageDays === null) return unit.yardLocation || 'Not yet arrived';
+    return [unit.yardLocation, `${ageDays} days in yard`].filter(Boolean).join(' • ');
   };
 
   // Show loading state
@@ -240,7 +282,7 @@ export function StockDetailScreen(): React.JSX.Element {
                 {getStockStatusText()}
               </Text>
               <Text variant="bodyMedium" style={styles.statusSubtitle}>
-                {vehicle.availableStock} of {vehicle.totalStock} units available
+                {vehicle.availableQuantity} of {vehicle.quantity} units available
               </Text>
             </View>
           </Card.Content>
@@ -305,14 +347,14 @@ export function StockDetailScreen(): React.JSX.Element {
               </Text>
             </View>
 
-            {vehicle.vinNumber && (
+            {vehicle.vcCode && (
               <View style={styles.infoRow}>
                 <Icon source="barcode" size={20} color="#6B7280" />
                 <Text variant="bodySmall" style={styles.infoLabel}>
-                  VIN Number
+                  VC Code
                 </Text>
                 <Text variant="bodyLarge" style={styles.infoValue}>
-                  {vehicle.vinNumber}
+                  {vehicle.vcCode}
                 </Text>
               </View>
             )}
@@ -332,7 +374,7 @@ export function StockDetailScreen(): React.JSX.Element {
                   Total Stock
                 </Text>
                 <Text variant="displaySmall" style={[styles.stockValue, { color: '#3B82F6' }]}>
-                  {vehicle.totalStock}
+                  {vehicle.quantity}
                 </Text>
               </View>
 
@@ -341,24 +383,121 @@ export function StockDetailScreen(): React.JSX.Element {
                   Available
                 </Text>
                 <Text variant="displaySmall" style={[styles.stockValue, { color: getStockStatusColor() }]}>
-                  {vehicle.availableStock}
+                  {vehicle.availableQuantity}
                 </Text>
               </View>
 
-              {vehicle.allocatedStock !== undefined && (
-                <View style={styles.stockCard}>
-                  <Text variant="bodySmall" style={styles.stockLabel}>
-                    Allocated
-                  </Text>
-                  <Text variant="displaySmall" style={[styles.stockValue, { color: '#F59E0B' }]}>
-                    {vehicle.allocatedStock}
-                  </Text>
-                </View>
-              )}
+              <View style={styles.stockCard}>
+                <Text variant="bodySmall" style={styles.stockLabel}>
+                  Reserved
+                </Text>
+                <Text variant="displaySmall" style={[styles.stockValue, { color: '#F59E0B' }]}>
+                  {vehicle.reservedQuantity}
+                </Text>
+              </View>
             </View>
           </Card.Content>
         </Card>
 
+        {/* Vehicles */}
+        <Card style={styles.section}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.sectionTitle}>
+              Vehicles
+            </Text>
+
+            {units.length === 0 ? (
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                No VINs have been recorded for this stock
+              </Text>
+            ) : (
+              units.map((unit, index) => (
+                <View key={unit.id}>
+                  {index > 0 && <Divider />}
+                  <TouchableOpacity
+                    style={styles.reservationRow}
+                    onPress={() => navigation.navigate('VehicleUnitDetail', { unitId: unit.id })}
+                  >
+                    <Icon source="barcode" size={20} color="#6B7280" />
+                    <View style={styles.reservationInfo}>
+                      <Text variant="bodyLarge" style={styles.reservationCustomer}>
+                        {unit.vin || 'VIN not recorded'}
+                      </Text>
+                      <Text variant="bodySmall" style={styles.reservationMeta}>
+                        {describeUnit(unit)}
+                      </Text>
+                    </View>
+                    <Chip
+                      compact
+                      textStyle={{ color: UNIT_STATUS_COLORS[unit.status] }}
+                    >
+                      {UNIT_STATUS_LABELS[unit.status]}
+                    </Chip>
+                    <Icon source="chevron-right" size={20} color="#6B7280" />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+
+            {isAdmin && (
+              <Button
+                mode="outlined"
+                icon="plus"
+                onPress={() => navigation.navigate('AddEditVehicleUnit', { stockId: vehicleId })}
+                style={styles.addUnitButton}
+              >
+                Add Vehicle
+              </Button>
+            )}
+          </Card.Content>
+        </Card>
+
+        {/* Reservations */}
+        <Card style={styles.section}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.sectionTitle}>
+              Reserved For
+            </Text>
+
+            {reservations.length === 0 ? (
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                No bookings are holding this stock
+              </Text>
+            ) : (
+              reservations.map((reservation, index) => (
+                <View key={reservation.id}>
+                  {index > 0 && <Divider />}
+                  <TouchableOpacity
+                    style={styles.reservationRow}
+                    onPress={() => navigation.navigate('BookingDetails', { bookingId: reservation.bookingId })}
+                  >
+                    <Icon source="bookmark-check" size={20} color="#F59E0B" />
+                    <View style={styles.reservationInfo}>
+                      <Text variant="bodyLarge" style={styles.reservationCustomer}>
+                        {reservation.booking?.customerName || 'Booking'}
+                      </Text>
+                      <Text variant="bodySmall" style={styles.reservationMeta}>
+                        {[
+                          reservation.booking?.advisor?.name,
+                          reservation.booking?.expectedDeliveryDate &&
+                            `Delivery ${formatDate(reservation.booking.expectedDeliveryDate)}`,
+                          `Since ${formatDate(reservation.createdAt)}`,
+                        ]
+                          .filter(Boolean)
+                          .join(' • ')}
+                      </Text>
+                    </View>
+                    {reservation.quantity > 1 && (
+                      <Chip compact>{`${reservation.quantity} units`}</Chip>
+                    )}
+                    <Icon source="chevron-right" size={20} color="#6B7280" />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </Card.Content>
+        </Card>
+
         {/* Location Information */}
         {(vehicle.dealerCode || vehicle.location) && (
           <Card style={styles.section}>
@@ -559,6 +698,9 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 16,
   },
+  addUnitButton: {
+    marginTop: 12,
+  },
   infoRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -574,6 +716,26 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#111827',
   },
+  emptyText: {
+    color: '#6B7280',
+  },
+  reservationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  reservationInfo: {
+    flex: 1,
+  },
+  reservationCustomer: {
+    fontWeight: '500',
+    color: '#111827',
+  },
+  reservationMeta: {
+    color: '#6B7280',
+    marginTop: 2,
+  },
   stockGrid: {
     flexDirection: 'row',
     gap: 12,
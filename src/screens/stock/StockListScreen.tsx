@@ -24,7 +24,8 @@ import { StockStats } from '../../components/stock/StockStats';
 import { StockAPI } from '../../api';
 import { useAuth } from '../../context/AuthContext';
 import { 
-  Vehicle, 
+  Stock, 
+  StockListParams,
   StockStats as StockStatsType, 
   FuelType, 
   TransmissionType 
@@ -40,7 +41,7 @@ export function StockListScreen(): React.JSX.Element {
   const isAdmin = authState.user?.role?.name === 'ADMIN';
 
   // State
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [vehicles, setVehicles] = useState<Stock[]>([]);
   const [stats, setStats] = useState<StockStatsType | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -67,18 +68,18 @@ export function StockListScreen(): React.JSX.Element {
       if (showLoader) setLoading(true);
       setError(null);
 
-      const filters: any = {};
+      const filters: StockListParams = {};
       if (debouncedSearch) filters.search = debouncedSearch;
-      if (selectedFuelType) filters.fuelType = selectedFuelType;
-      if (selectedTransmission) filters.transmission = selectedTransmission;
-      if (showInStockOnly) filters.availability = 'IN_STOCK';
+      if (selectedFuelType) filters.fuelType = [selectedFuelType];
+      if (selectedTransmission) filters.transmission = [selectedTransmission];
+      if (showInStockOnly) filters.availableOnly = true;
 
       const [vehiclesResponse, statsResponse] = await Promise.all([
-        StockAPI.getVehicles(filters),
-        StockAPI.getStats(),
+        StockAPI.getStock(filters),
+        StockAPI.getStockStats(),
       ]);
 
-      setVehicles(vehiclesResponse.vehicles || []);
+      setVehicles(vehiclesResponse.items || []);
       setStats(statsResponse);
     } catch (err: any) {
       console.error('Error fetching stock data:', err);
@@ -107,7 +108,7 @@ export function StockListScreen(): React.JSX.Element {
   /**
    * Handle vehicle press
    */
-  const handleVehiclePress = (vehicle: Vehicle) => {
+  const handleVehiclePress = (vehicle: Stock) => {
     navigation.navigate('StockDetail', { vehicleId: vehicle.id });
   };
 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -20,177 +20,101 @@ import {
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient as ExpoLinearGradient } from 'expo-linear-gradient';
+import { useCachedList, useCachedQuery } from '../../hooks/useCachedResource';
+import { StockAPI, AllPagesResult } from '../../api';
+import { Stock, VehicleUnit } from '../../types/stock';
+import { AgeingBucketKey, buildAgeingReport, summarizeStock } from '../../utils/inventory';
 
 const { width, height } = Dimensions.get('window');
 
-/**
- * Vehicle interface
- */
-interface Vehicle {
-  id: string;
-  make: string;
-  model: string;
-  year: number;
-  price: number;
-  mileage: number;
-  status: 'AVAILABLE' | 'RESERVED' | 'SOLD';
-  color: string;
-  fuelType: string;
-  transmission: string;
-  imageUrl?: string;
-}
+// Enough to show the whole yard of a single dealership on one screen
+const STOCK_PAGE_LIMIT = 500;
 
-/**
- * Stock statistics interface
- */
-interface StockStats {
-  totalVehicles: number;
-  availableVehicles: number;
-  reservedVehicles: number;
-  soldVehicles: number;
-  totalValue: number;
-  averagePrice: number;
-}
+type StockStatusFilter = 'ALL' | 'AVAILABLE' | 'RESERVED' | 'SOLD';
+
+type StockView = 'STOCK' | 'AGEING';
 
 /**
  * Stock Screen Component
  */
 export function StockScreen({ navigation }: any): React.JSX.Element {
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedFilter, setSelectedFilter] = useState<'ALL' | 'AVAILABLE' | 'RESERVED' | 'SOLD'>('ALL');
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [stockStats, setStockStats] = useState<StockStats>({
-    totalVehicles: 0,
-    availableVehicles: 0,
-    reservedVehicles: 0,
-    soldVehicles: 0,
-    totalValue: 0,
-    averagePrice: 0,
-  });
-  const [loading, setLoading] = useState(true);
+  const [selectedFilter, setSelectedFilter] = useState<StockStatusFilter>('ALL');
   const [refreshing, setRefreshing] = useState(false);
+  const [view, setView] = useState<StockView>('STOCK');
+  const [selectedBucket, setSelectedBucket] = useState<AgeingBucketKey | null>(null);
 
   /**
-   * Mock data for demonstration
+   * Stock entries are served from the shared cache and revalidated in the background
    */
-  const mockVehicles: Vehicle[] = [
-    {
-      id: '1',
-      make: 'Toyota',
-      model: 'Camry',
-      year: 2023,
-      price: 28500,
-      mileage: 15000,
-      status: 'AVAILABLE',
-      color: 'Silver',
-      fuelType: 'Gasoline',
-      transmission: 'Automatic',
-    },
-    {
-      id: '2',
-      make: 'Honda',
-      model: 'Civic',
-      year: 2022,
-      price: 24500,
-      mileage: 22000,
-      status: 'AVAILABLE',
-      color: 'Blue',
-      fuelType: 'Gasoline',
-      transmission: 'CVT',
-    },
-    {
-      id: '3',
-      make: 'Ford',
-      model: 'F-150',
-      year: 2023,
-      price: 45000,
-      mileage: 8500,
-      status: 'RESERVED',
-      color: 'Black',
-      fuelType: 'Gasoline',
-      transmission: 'Automatic',
-    },
-    {
-      id: '4',
-      make: 'BMW',
-      model: 'X5',
-      year: 2021,
-      price: 52000,
-      mileage: 18000,
-      status: 'SOLD',
-      color: 'White',
-      fuelType: 'Gasoline',
-      transmission: 'Automatic',
-    },
-    {
-      id: '5',
-      make: 'Tesla',
-      model: 'Model 3',
-      year: 2023,
-      price: 42000,
-      mileage: 12000,
-      status: 'AVAILABLE',
-      color: 'Red',
-      fuelType: 'Electric',
-      transmission: 'Automatic',
-    },
-  ];
+  const {
+    data: cachedVehicles,
+    loading,
+    error,
+    refresh,
+  } = useCachedList<Stock>('list:stock:inventory', 'stock', async () => {
+    const response = await StockAPI.getStock({ limit: STOCK_PAGE_LIMIT });
+    return response.items;
+  });
+  const vehicles = useMemo(() => cachedVehicles || [], [cachedVehicles]);
 
   /**
-   * Fetch vehicles data
+   * Calculate stock statistics
    */
-  const fetchVehicles = useCallback(async () => {
-    try {
-      setLoading(true);
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // In real app, this would be an API call
-      setVehicles(mockVehicles);
-      
-      // Calculate stock statistics
-      const stats: StockStats = {
-        totalVehicles: mockVehicles.length,
-        availableVehicles: mockVehicles.filter(v => v.status === 'AVAILABLE').length,
-        reservedVehicles: mockVehicles.filter(v => v.status === 'RESERVED').length,
-        soldVehicles: mockVehicles.filter(v => v.status === 'SOLD').length,
-        totalValue: mockVehicles.reduce((sum, v) => sum + v.price, 0),
-        averagePrice: mockVehicles.reduce((sum, v) => sum + v.price, 0) / mockVehicles.length,
-      };
-      
-      setStockStats(stats);
-    } catch (error) {
-      console.error('Error fetching vehicles:', error);
+  const stockStats = useMemo(() => summarizeStock(vehicles), [vehicles]);
+
+  /**
+   * Units in the yard for the ageing view, only loaded once that view is opened.
+   * Read page by page so the buckets cover the whole yard.
+   */
+  const {
+    data: yardUnits,
+    loading: unitsLoading,
+    error: unitsError,
+    refresh: refreshUnits,
+  } = useCachedQuery<AllPagesResult<VehicleUnit>>(
+    view === 'AGEING' ? 'list:stock:units:yard' : null,
+    () => StockAPI.getAllVehicleUnits({ status: ['AVAILABLE', 'RESERVED'] })
+  );
+  const ageingReport = useMemo(() => buildAgeingReport(yardUnits?.items || []), [yardUnits]);
+
+  /**
+   * Units shown under the ageing summary: one bucket when selected, otherwise oldest first
+   */
+  const agedUnits = useMemo(() => {
+    const buckets = selectedBucket
+      ? ageingReport.buckets.filter(bucket => bucket.key === selectedBucket)
+      : [...ageingReport.buckets].reverse();
+    return buckets.flatMap(bucket => bucket.units.map(aged => ({ ...aged, color: bucket.color })));
+  }, [ageingReport, selectedBucket]);
+
+  /**
+   * Only report failures when there is nothing cached to show
+   */
+  useEffect(() => {
+    if (error && !cachedVehicles) {
       Alert.alert('Error', 'Failed to load vehicle stock');
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [error, cachedVehicles]);
 
   /**
    * Handle pull to refresh
    */
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await fetchVehicles();
+    await (view === 'AGEING' ? refreshUnits() : refresh());
     setRefreshing(false);
-  }, [fetchVehicles]);
-
-  /**
-   * Load data on component mount
-   */
-  useEffect(() => {
-    fetchVehicles();
-  }, [fetchVehicles]);
+  }, [view, refresh, refreshUnits]);
 
   /**
    * Filter vehicles based on search and status
    */
   const filteredVehicles = vehicles.filter(vehicle => {
-    const matchesSearch = vehicle.make.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         vehicle.model.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         vehicle.year.toString().includes(searchQuery);
+    const query = searchQuery.toLowerCase();
+    const matchesSearch = vehicle.variant.toLowerCase().includes(query) ||
+                         vehicle.color.toLowerCase().includes(query) ||
+                         (vehicle.modelYear || '').includes(searchQuery) ||
+                         (vehicle.location || '').toLowerCase().includes(query);
     
     const matchesFilter = selectedFilter === 'ALL' || vehicle.status === selectedFilter;
     
@@ -224,14 +148,111 @@ export function StockScreen({ navigation }: any): React.JSX.Element {
   /**
    * Handle vehicle press
    */
-  const handleVehiclePress = (vehicle: Vehicle) => {
-    Alert.alert(
-      vehicle.make + ' ' + vehicle.model,
-      `Year: ${vehicle.year}\nPrice: ₹${vehicle.price.toLocaleString()}\nMileage: ${vehicle.mileage.toLocaleString()} miles\nColor: ${vehicle.color}\nFuel: ${vehicle.fuelType}\nTransmission: ${vehicle.transmission}`,
-      [{ text: 'OK' }]
-    );
+  const handleVehiclePress = (vehicle: Stock) => {
+    navigation.navigate('StockDetail', { vehicleId: vehicle.id });
   };
 
+  /**
+   * Ageing summary and the units behind it
+   */
+  const renderAgeing = () => (
+    <>
+      <View style={styles.statsContainer}>
+        {ageingReport.buckets.map(bucket => (
+          <Card
+            key={bucket.key}
+            style={[styles.statCard, selectedBucket === bucket.key && { borderWidth: 2, borderColor: bucket.color }]}
+            onPress={() => setSelectedBucket(selectedBucket === bucket.key ? null : bucket.key)}
+          >
+            <Card.Content style={styles.statContent}>
+              <Icon source="calendar-clock" size={24} color={bucket.color} />
+              <Text variant="headlineSmall" style={[styles.statValue, { color: bucket.color }]}>
+                {bucket.units.length}
+              </Text>
+              <Text variant="bodySmall" style={styles.statLabel}>
+                {bucket.label}
+              </Text>
+            </Card.Content>
+          </Card>
+        ))}
+      </View>
+
+      <View style={styles.vehiclesContainer}>
+        <Text variant="titleLarge" style={styles.sectionTitle}>
+          {selectedBucket
+            ? `${ageingReport.buckets.find(bucket => bucket.key === selectedBucket)?.label} (${agedUnits.length})`
+            : `Vehicles in Yard (${agedUnits.length})`}
+        </Text>
+
+        {yardUnits && !yardUnits.complete && (
+          <Text variant="bodySmall" style={styles.ageingNote}>
+            Only the first {yardUnits.items.length} vehicles could be loaded; counts above are incomplete
+          </Text>
+        )}
+
+        {ageingReport.undated.length > 0 && (
+          <Text variant="bodySmall" style={styles.ageingNote}>
+            {ageingReport.undated.length} vehicle(s) have no arrival date and are not included
+          </Text>
+        )}
+
+        {unitsLoading && !yardUnits ? (
+          <ActivityIndicator size="large" color="#1565C0" style={styles.ageingLoader} />
+        ) : agedUnits.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Card.Content style={styles.emptyContent}>
+              <Icon source="calendar-check" size={48} color="#9CA3AF" />
+              <Text variant="bodyLarge" style={styles.emptyText}>
+                {unitsError && !yardUnits ? 'Could not load vehicles' : 'No vehicles in this range'}
+              </Text>
+            </Card.Content>
+          </Card>
+        ) : (
+          agedUnits.map(({ unit, ageDays, color }) => (
+            <Card key={unit.id} style={styles.vehicleCard}>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('VehicleUnitDetail', { unitId: unit.id })}
+                activeOpacity={0.7}
+              >
+                <Card.Content style={styles.vehicleContent}>
+                  <View style={styles.vehicleHeader}>
+                    <View style={styles.vehicleInfo}>
+                      <Text variant="titleMedium" style={styles.vehicleTitle}>
+                        {unit.variant || 'Vehicle'}
+                      </Text>
+                      <Text variant="bodySmall" style={styles.detailText}>
+                        VIN {unit.vin || 'not recorded'}
+                      </Text>
+                    </View>
+                    <Badge style={[styles.statusBadge, { backgroundColor: color }]}>
+                      {`${ageDays} days`}
+                    </Badge>
+                  </View>
+
+                  <View style={styles.vehicleDetails}>
+                    <View style={styles.detailItem}>
+                      <Icon source="map-marker" size={16} color="#6B7280" />
+                      <Text variant="bodySmall" style={styles.detailText}>
+                        {unit.yardLocation || 'Location not recorded'}
+                      </Text>
+                    </View>
+
+                    <View style={styles.detailItem}>
+                      <Icon source={unit.status === 'RESERVED' ? 'clock' : 'check-circle'} size={16} color="#6B7280" />
+                      <Text variant="bodySmall" style={styles.detailText}>
+                        {unit.status === 'RESERVED' ? 'Reserved' : 'Available'}
+                      </Text>
+                    </View>
+                  </View>
+                </Card.Content>
+              </TouchableOpacity>
+            </Card>
+          ))
+        )}
+      </View>
+    </>
+  );
+
   if (loading && vehicles.length === 0) {
     return (
       <SafeAreaView style={styles.container}>
@@ -275,175 +296,199 @@ export function StockScreen({ navigation }: any): React.JSX.Element {
             </Text>
           </View>
 
-          {/* Stock Overview Cards */}
-          <View style={styles.statsContainer}>
-            <Card style={styles.statCard}>
-              <Card.Content style={styles.statContent}>
-                <Icon source="car" size={24} color="#1565C0" />
-                <Text variant="headlineSmall" style={styles.statValue}>
-                  {stockStats.totalVehicles}
-                </Text>
-                <Text variant="bodySmall" style={styles.statLabel}>
-                  Total Vehicles
-                </Text>
-              </Card.Content>
-            </Card>
-
-            <Card style={styles.statCard}>
-              <Card.Content style={styles.statContent}>
-                <Icon source="check-circle" size={24} color="#10B981" />
-                <Text variant="headlineSmall" style={[styles.statValue, { color: '#10B981' }]}>
-                  {stockStats.availableVehicles}
-                </Text>
-                <Text variant="bodySmall" style={styles.statLabel}>
-                  Available
-                </Text>
-              </Card.Content>
-            </Card>
-
-            <Card style={styles.statCard}>
-              <Card.Content style={styles.statContent}>
-                <Icon source="clock" size={24} color="#F59E0B" />
-                <Text variant="headlineSmall" style={[styles.statValue, { color: '#F59E0B' }]}>
-                  {stockStats.reservedVehicles}
-                </Text>
-                <Text variant="bodySmall" style={styles.statLabel}>
-                  Reserved
-                </Text>
-              </Card.Content>
-            </Card>
-
-            <Card style={styles.statCard}>
-              <Card.Content style={styles.statContent}>
-                <Icon source="currency-inr" size={24} color="#8B5CF6" />
-                <Text variant="headlineSmall" style={[styles.statValue, { color: '#8B5CF6' }]}>
-                  ₹{(stockStats.totalValue / 1000000).toFixed(1)}M
-                </Text>
-                <Text variant="bodySmall" style={styles.statLabel}>
-                  Total Value
-                </Text>
-              </Card.Content>
-            </Card>
-          </View>
-
-          {/* Search and Filter */}
+          {/* View Toggle */}
           <View style={styles.searchContainer}>
-            <Searchbar
-              placeholder="Search vehicles..."
-              onChangeText={setSearchQuery}
-              value={searchQuery}
-              style={styles.searchBar}
-            />
-            
-            <ScrollView 
-              horizontal 
-              showsHorizontalScrollIndicator={false}
-              style={styles.filterContainer}
-            >
-              {(['ALL', 'AVAILABLE', 'RESERVED', 'SOLD'] as const).map((filter) => (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {([['STOCK', 'Stock'], ['AGEING', 'Ageing']] as const).map(([key, label]) => (
                 <Chip
-                  key={filter}
-                  selected={selectedFilter === filter}
-                  onPress={() => setSelectedFilter(filter)}
-                  style={[
-                    styles.filterChip,
-                    selectedFilter === filter && styles.filterChipSelected
-                  ]}
-                  textStyle={[
-                    styles.filterChipText,
-                    selectedFilter === filter && styles.filterChipTextSelected
-                  ]}
+                  key={key}
+                  selected={view === key}
+                  onPress={() => setView(key)}
+                  icon={key === 'STOCK' ? 'warehouse' : 'calendar-clock'}
+                  style={[styles.filterChip, view === key && styles.filterChipSelected]}
+                  textStyle={[styles.filterChipText, view === key && styles.filterChipTextSelected]}
                 >
-                  {filter === 'ALL' ? 'All' : filter.charAt(0) + filter.slice(1).toLowerCase()}
+                  {label}
                 </Chip>
               ))}
             </ScrollView>
           </View>
 
-          {/* Vehicles List */}
-          <View style={styles.vehiclesContainer}>
-            <Text variant="titleLarge" style={styles.sectionTitle}>
-              Vehicles ({filteredVehicles.length})
-            </Text>
+          {view === 'AGEING' ? (
+            renderAgeing()
+          ) : (
+            <>
+              {/* Stock Overview Cards */}
+              <View style={styles.statsContainer}>
+                <Card style={styles.statCard}>
+                  <Card.Content style={styles.statContent}>
+                    <Icon source="car" size={24} color="#1565C0" />
+                    <Text variant="headlineSmall" style={styles.statValue}>
+                      {stockStats.totalVehicles}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.statLabel}>
+                      Total Vehicles
+                    </Text>
+                  </Card.Content>
+                </Card>
 
-            {filteredVehicles.length === 0 ? (
-              <Card style={styles.emptyCard}>
-                <Card.Content style={styles.emptyContent}>
-                  <Icon source="car-off" size={48} color="#9CA3AF" />
-                  <Text variant="bodyLarge" style={styles.emptyText}>
-                    No vehicles found
-                  </Text>
-                  <Text variant="bodyMedium" style={styles.emptySubtext}>
-                    {searchQuery ? 'Try adjusting your search terms' : 'Add vehicles to your inventory'}
-                  </Text>
-                </Card.Content>
-              </Card>
-            ) : (
-              filteredVehicles.map((vehicle) => (
-                <Card key={vehicle.id} style={styles.vehicleCard}>
-                  <TouchableOpacity
-                    onPress={() => handleVehiclePress(vehicle)}
-                    activeOpacity={0.7}
-                  >
-                    <Card.Content style={styles.vehicleContent}>
-                      <View style={styles.vehicleHeader}>
-                        <View style={styles.vehicleInfo}>
-                          <Text variant="titleMedium" style={styles.vehicleTitle}>
-                            {vehicle.year} {vehicle.make} {vehicle.model}
-                          </Text>
-                          <Text variant="bodyMedium" style={styles.vehiclePrice}>
-                            ₹{vehicle.price.toLocaleString()}
-                          </Text>
-                        </View>
+                <Card style={styles.statCard}>
+                  <Card.Content style={styles.statContent}>
+                    <Icon source="check-circle" size={24} color="#10B981" />
+                    <Text variant="headlineSmall" style={[styles.statValue, { color: '#10B981' }]}>
+                      {stockStats.availableVehicles}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.statLabel}>
+                      Available
+                    </Text>
+                  </Card.Content>
+                </Card>
+
+                <Card style={styles.statCard}>
+                  <Card.Content style={styles.statContent}>
+                    <Icon source="clock" size={24} color="#F59E0B" />
+                    <Text variant="headlineSmall" style={[styles.statValue, { color: '#F59E0B' }]}>
+                      {stockStats.reservedVehicles}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.statLabel}>
+                      Reserved
+                    </Text>
+                  </Card.Content>
+                </Card>
+
+                <Card style={styles.statCard}>
+                  <Card.Content style={styles.statContent}>
+                    <Icon source="currency-inr" size={24} color="#8B5CF6" />
+                    <Text variant="headlineSmall" style={[styles.statValue, { color: '#8B5CF6' }]}>
+                      ₹{(stockStats.totalValue / 1000000).toFixed(1)}M
+                    </Text>
+                    <Text variant="bodySmall" style={styles.statLabel}>
+                      Total Value
+                    </Text>
+                  </Card.Content>
+                </Card>
+              </View>
+
+              {/* Search and Filter */}
+              <View style={styles.searchContainer}>
+                <Searchbar
+                  placeholder="Search vehicles..."
+                  onChangeText={setSearchQuery}
+                  value={searchQuery}
+                  style={styles.searchBar}
+                />
+            
+                <ScrollView 
+                  horizontal 
+                  showsHorizontalScrollIndicator={false}
+                  style={styles.filterContainer}
+                >
+                  {(['ALL', 'AVAILABLE', 'RESERVED', 'SOLD'] as const).map((filter) => (
+                    <Chip
+                      key={filter}
+                      selected={selectedFilter === filter}
+                      onPress={() => setSelectedFilter(filter)}
+                      style={[
+                        styles.filterChip,
+                        selectedFilter === filter && styles.filterChipSelected
+                      ]}
+                      textStyle={[
+                        styles.filterChipText,
+                        selectedFilter === filter && styles.filterChipTextSelected
+                      ]}
+                    >
+                      {filter === 'ALL' ? 'All' : filter.charAt(0) + filter.slice(1).toLowerCase()}
+                    </Chip>
+                  ))}
+                </ScrollView>
+              </View>
+
+              {/* Vehicles List */}
+              <View style={styles.vehiclesContainer}>
+                <Text variant="titleLarge" style={styles.sectionTitle}>
+                  Vehicles ({filteredVehicles.length})
+                </Text>
+
+                {filteredVehicles.length === 0 ? (
+                  <Card style={styles.emptyCard}>
+                    <Card.Content style={styles.emptyContent}>
+                      <Icon source="car-off" size={48} color="#9CA3AF" />
+                      <Text variant="bodyLarge" style={styles.emptyText}>
+                        No vehicles found
+                      </Text>
+                      <Text variant="bodyMedium" style={styles.emptySubtext}>
+                        {searchQuery ? 'Try adjusting your search terms' : 'Add vehicles to your inventory'}
+                      </Text>
+                    </Card.Content>
+                  </Card>
+                ) : (
+                  filteredVehicles.map((vehicle) => (
+                    <Card key={vehicle.id} style={styles.vehicleCard}>
+                      <TouchableOpacity
+                        onPress={() => handleVehiclePress(vehicle)}
+                        activeOpacity={0.7}
+                      >
+                        <Card.Content style={styles.vehicleContent}>
+                          <View style={styles.vehicleHeader}>
+                            <View style={styles.vehicleInfo}>
+                              <Text variant="titleMedium" style={styles.vehicleTitle}>
+                                {vehicle.modelYear ? `${vehicle.modelYear} ` : ''}{vehicle.variant}
+                              </Text>
+                              <Text variant="bodyMedium" style={styles.vehiclePrice}>
+                                ₹{vehicle.price.toLocaleString()}
+                              </Text>
+                            </View>
                         
-                        <Badge
-                          style={[styles.statusBadge, { backgroundColor: getStatusColor(vehicle.status) }]}
-                          textStyle={styles.statusBadgeText}
-                        >
-                          <Icon 
-                            source={getStatusIcon(vehicle.status)} 
-                            size={16} 
-                            color="white" 
-                          />
-                          {' ' + vehicle.status}
-                        </Badge>
-                      </View>
-
-                      <View style={styles.vehicleDetails}>
-                        <View style={styles.detailItem}>
-                          <Icon source="speedometer" size={16} color="#6B7280" />
-                          <Text variant="bodySmall" style={styles.detailText}>
-                            {vehicle.mileage.toLocaleString()} miles
-                          </Text>
-                        </View>
+                            <Badge
+                              style={[styles.statusBadge, { backgroundColor: getStatusColor(vehicle.status) }]}
+                              textStyle={styles.statusBadgeText}
+                            >
+                              <Icon 
+                                source={getStatusIcon(vehicle.status)} 
+                                size={16} 
+                                color="white" 
+                              />
+                              {' ' + vehicle.status}
+                            </Badge>
+                          </View>
+
+                          <View style={styles.vehicleDetails}>
+                            <View style={styles.detailItem}>
+                              <Icon source="car-multiple" size={16} color="#6B7280" />
+                              <Text variant="bodySmall" style={styles.detailText}>
+                                {vehicle.availableQuantity} of {vehicle.quantity} available
+                              </Text>
+                            </View>
                         
-                        <View style={styles.detailItem}>
-                          <Icon source="palette" size={16} color="#6B7280" />
-                          <Text variant="bodySmall" style={styles.detailText}>
-                            {vehicle.color}
-                          </Text>
-                        </View>
+                            <View style={styles.detailItem}>
+                              <Icon source="palette" size={16} color="#6B7280" />
+                              <Text variant="bodySmall" style={styles.detailText}>
+                                {vehicle.color}
+                              </Text>
+                            </View>
                         
-                        <View style={styles.detailItem}>
-                          <Icon source="fuel" size={16} color="#6B7280" />
-                          <Text variant="bodySmall" style={styles.detailText}>
-                            {vehicle.fuelType}
-                          </Text>
-                        </View>
+                            <View style={styles.detailItem}>
+                              <Icon source="fuel" size={16} color="#6B7280" />
+                              <Text variant="bodySmall" style={styles.detailText}>
+                                {vehicle.fuelType}
+                              </Text>
+                            </View>
                         
-                        <View style={styles.detailItem}>
-                          <Icon source="cog" size={16} color="#6B7280" />
-                          <Text variant="bodySmall" style={styles.detailText}>
-                            {vehicle.transmission}
-                          </Text>
-                        </View>
-                      </View>
-                    </Card.Content>
-                  </TouchableOpacity>
-                </Card>
-              ))
-            )}
-          </View>
+                            <View style={styles.detailItem}>
+                              <Icon source="cog" size={16} color="#6B7280" />
+                              <Text variant="bodySmall" style={styles.detailText}>
+                                {vehicle.transmission}
+                              </Text>
+                            </View>
+                          </View>
+                        </Card.Content>
+                      </TouchableOpacity>
+                    </Card>
+                  ))
+                )}
+              </View>
+            </>
+          )}
         </ScrollView>
       </SafeAreaView>
     </View>
@@ -644,4 +689,12 @@ const styles = StyleSheet.create({
     marginLeft: 6,
     color: '#6B7280',
   },
+  ageingNote: {
+    color: '#6B7280',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  ageingLoader: {
+    marginVertical: 24,
+  },
 });
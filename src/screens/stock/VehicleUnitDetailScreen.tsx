@@ -0,0 +1,416 @@
+/**
+ * Vehicle Unit Detail Screen
+ * Displays one physical vehicle: its VIN, chassis and engine numbers, where it is parked
+ * and how long it has been in the yard. Opened from stock screens or from a booking's
+ * chassis number.
+ */
+
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  ActivityIndicator,
+  Icon,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useFocusEffect, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import { StockAPI } from '../../api';
+import { useAuth } from '../../context/AuthContext';
+import { VehicleUnit } from '../../types/stock';
+import { MainStackParamList } from '../../navigation/MainNavigator';
+import {
+  getAgeingBucket,
+  getUnitAgeDays,
+  UNIT_STATUS_COLORS,
+  UNIT_STATUS_LABELS,
+} from '../../utils/inventory';
+import { theme } from '../../utils/theme';
+
+type NavigationProp = StackNavigationProp<MainStackParamList>;
+
+export function VehicleUnitDetailScreen(): React.JSX.Element {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute();
+  const { unitId, chassisNumber } = (route.params as MainStackParamList['VehicleUnitDetail']) || {};
+  const { state: authState } = useAuth();
+  const isAdmin = authState.user?.role?.name === 'ADMIN';
+
+  const [unit, setUnit] = useState<VehicleUnit | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch the unit by ID, or look it up by the chassis number on a booking. Fetched again
+   * on return from editing it.
+   */
+  useFocusEffect(
+    useCallback(() => {
+      const fetchUnit = async () => {
+        if (!unitId && !chassisNumber) {
+          setError('No vehicle ID provided');
+          setLoading(false);
+          return;
+        }
+
+        try {
+          setLoading(true);
+          const data = unitId
+            ? await StockAPI.getVehicleUnitById(unitId)
+            : await StockAPI.findVehicleUnitByChassis(chassisNumber!);
+          if (!data) {
+            setError(`No vehicle in stock has chassis number ${chassisNumber}`);
+            return;
+          }
+          setUnit(data);
+          setError(null);
+        } catch (err: any) {
+          console.error('Error fetching vehicle unit:', err);
+          setError(err.message || 'Failed to load vehicle details');
+        } finally {
+          setLoading(false);
+        }
+      };
+
+      fetchUnit();
+    }, [unitId, chassisNumber])
+  );
+
+  /**
+   * Format date
+   */
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const renderHeader = (title: string) => (
+    <View style={styles.headerSection}>
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+        <Icon source="arrow-left" size={24} color={theme.colors.onSurface} />
+      </TouchableOpacity>
+      <Text variant="headlineSmall" style={styles.headerTitle} numberOfLines={1}>
+        {title}
+      </Text>
+      {isAdmin && unit ? (
+        <TouchableOpacity
+          onPress={() => navigation.navigate('AddEditVehicleUnit', { unitId: unit.id, stockId: unit.stockId })}
+          style={styles.backButton}
+        >
+          <Icon source="pencil" size={24} color="#3B82F6" />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.placeholder} />
+      )}
+    </View>
+  );
+
+  const renderInfoRow = (icon: string, label: string, value?: string) => (
+    <View style={styles.infoRow}>
+      <Icon source={icon} size={20} color="#6B7280" />
+      <Text variant="bodySmall" style={styles.infoLabel}>
+        {label}
+      </Text>
+      <Text variant="bodyLarge" style={styles.infoValue} selectable>
+        {value || 'Not recorded'}
+      </Text>
+    </View>
+  );
+
+  // Show loading state; a refetch on focus keeps the loaded unit on screen
+  if (loading && !unit) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader('Vehicle')}
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#3B82F6" />
+          <Text variant="bodyLarge" style={styles.loadingText}>
+            Loading vehicle details...
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Show error state
+  if (error || !unit) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader('Vehicle')}
+        <View style={styles.errorContainer}>
+          <Icon source="car-off" size={80} color="#EF4444" />
+          <Text variant="titleLarge" style={styles.errorTitle}>
+            Vehicle Not Found
+          </Text>
+          <Text variant="bodyMedium" style={styles.errorText}>
+            {error || 'Vehicle not found'}
+          </Text>
+          <Button mode="contained" onPress={() => navigation.goBack()}>
+            Go Back
+          </Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const statusColor = UNIT_STATUS_COLORS[unit.status];
+  const ageDays = getUnitAgeDays(unit);
+  const ageingBucket = ageDays !== null ? getAgeingBucket(ageDays) : null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {renderHeader(unit.variant || unit.vin || 'Vehicle')}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Status Banner */}
+        <Card style={[styles.statusBanner, { backgroundColor: statusColor + '20' }]}>
+          <Card.Content style={styles.statusBannerContent}>
+            <Icon source="car" size={32} color={statusColor} />
+            <View style={styles.statusInfo}>
+              <Text variant="titleLarge" style={[styles.statusTitle, { color: statusColor }]}>
+                {UNIT_STATUS_LABELS[unit.status]}
+              </Text>
+              <Text variant="bodyMedium" style={styles.statusSubtitle}>
+                {ageDays !== null
+                  ? `${ageDays} days in yard`
+                  : unit.status === 'IN_TRANSIT'
+                    ? 'Not yet arrived at the yard'
+                    : 'Arrival date not recorded'}
+              </Text>
+            </View>
+            {ageingBucket && (
+              <View style={[styles.ageBadge, { backgroundColor: ageingBucket.color }]}>
+                <Text variant="labelMedium" style={styles.ageBadgeText}>
+                  {ageingBucket.label}
+                </Text>
+              </View>
+            )}
+          </Card.Content>
+        </Card>
+
+        {/* Identification */}
+        <Card style={styles.section}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.sectionTitle}>
+              Identification
+            </Text>
+            {renderInfoRow('barcode', 'VIN', unit.vin)}
+            {renderInfoRow('car-info', 'Chassis Number', unit.chassisNumber)}
+            {renderInfoRow('engine', 'Engine Number', unit.engineNumber)}
+          </Card.Content>
+        </Card>
+
+        {/* Yard */}
+        <Card style={styles.section}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.sectionTitle}>
+              Yard
+            </Text>
+            {renderInfoRow('calendar-import', 'Arrival Date', unit.arrivalDate && formatDate(unit.arrivalDate))}
+            {renderInfoRow('map-marker', 'Yard Location', unit.yardLocation)}
+          </Card.Content>
+        </Card>
+
+        {/* Links */}
+        <Card style={styles.section}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.sectionTitle}>
+              Stock & Booking
+            </Text>
+
+            {!!unit.stockId && (
+              <TouchableOpacity
+                style={styles.linkRow}
+                onPress={() => navigation.navigate('StockDetail', { vehicleId: unit.stockId })}
+              >
+                <Icon source="warehouse" size={20} color="#3B82F6" />
+                <View style={styles.linkInfo}>
+                  <Text variant="bodyLarge" style={styles.linkTitle}>
+                    {unit.variant || 'Stock entry'}
+                  </Text>
+                  {unit.color && (
+                    <Text variant="bodySmall" style={styles.linkMeta}>
+                      {unit.color}
+                    </Text>
+                  )}
+                </View>
+                <Icon source="chevron-right" size={20} color="#6B7280" />
+              </TouchableOpacity>
+            )}
+
+            {unit.bookingId ? (
+              <TouchableOpacity
+                style={styles.linkRow}
+                onPress={() => navigation.navigate('BookingDetails', { bookingId: unit.bookingId! })}
+              >
+                <Icon source="bookmark-check" size={20} color="#F59E0B" />
+                <View style={styles.linkInfo}>
+                  <Text variant="bodyLarge" style={styles.linkTitle}>
+                    View Booking
+                  </Text>
+                </View>
+                <Icon source="chevron-right" size={20} color="#6B7280" />
+              </TouchableOpacity>
+            ) : (
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                Not held for a booking
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  headerSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F9FAFB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: '700',
+    color: '#111827',
+    marginLeft: 12,
+  },
+  placeholder: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    marginTop: 16,
+    color: '#6B7280',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorTitle: {
+    marginTop: 16,
+    marginBottom: 8,
+    color: '#EF4444',
+    fontWeight: '600',
+  },
+  errorText: {
+    textAlign: 'center',
+    color: '#6B7280',
+    marginBottom: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  statusBanner: {
+    marginBottom: 16,
+    borderRadius: 16,
+  },
+  statusBannerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  statusInfo: {
+    flex: 1,
+  },
+  statusTitle: {
+    fontWeight: '700',
+  },
+  statusSubtitle: {
+    color: '#374151',
+    marginTop: 4,
+  },
+  ageBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  ageBadgeText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  section: {
+    marginBottom: 16,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  infoLabel: {
+    flex: 1,
+    color: '#6B7280',
+  },
+  infoValue: {
+    flex: 2,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  linkInfo: {
+    flex: 1,
+  },
+  linkTitle: {
+    fontWeight: '500',
+    color: '#111827',
+  },
+  linkMeta: {
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  emptyText: {
+    color: '#6B7280',
+  },
+});
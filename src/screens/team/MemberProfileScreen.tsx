@@ -18,8 +18,10 @@ import {
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
-import { useTeam, type TeamMember } from '../../context/TeamContext';
-import { getRoleDisplayName } from '../../context/AuthContext';
+import { useTeam, canManageTeam, type TeamMember } from '../../context/TeamContext';
+import { getRoleDisplayName, useAuth } from '../../context/AuthContext';
+import { getUserRole } from '../../utils/roleUtils';
+import { WorkloadHandoverModal } from '../../components/WorkloadHandoverModal';
 import { theme, spacing } from '../../utils/theme';
 import { formatCurrency } from '../../utils/formatting';
 
@@ -28,9 +30,11 @@ import { formatCurrency } from '../../utils/formatting';
  * Shows detailed team member information and performance
  */
 export function MemberProfileScreen({ route, navigation }: any): React.JSX.Element {
-  const memberId = route?.params?.memberId || '8';
+  const memberId = route?.params?.memberId;
   const { getTeamMember } = useTeam();
-  const [member] = useState<TeamMember | null>(getTeamMember(memberId));
+  const { state: authState } = useAuth();
+  const [showHandover, setShowHandover] = useState(false);
+  const member: TeamMember | null = memberId ? getTeamMember(memberId) : null;
 
   if (!member) {
     return (
@@ -92,7 +96,10 @@ export function MemberProfileScreen({ route, navigation }: any): React.JSX.Eleme
    * Calculate performance trend
    */
   const getPerformanceTrend = () => {
-    const change = ((member.performance.thisMonthSales - member.performance.lastMonthSales) / member.performance.lastMonthSales) * 100;
+    const { bookingsThisMonth, bookingsLastMonth } = member.performance;
+    const change = bookingsLastMonth > 0
+      ? ((bookingsThisMonth - bookingsLastMonth) / bookingsLastMonth) * 100
+      : bookingsThisMonth > 0 ? 100 : 0;
     return {
       percentage: Math.abs(Math.round(change)),
       isPositive: change > 0,
@@ -101,6 +108,9 @@ export function MemberProfileScreen({ route, navigation }: any): React.JSX.Eleme
 
   const performanceTrend = getPerformanceTrend();
 
+  // Managers can move an advisor's open enquiries and bookings to the rest of the team
+  const canReassignWork = canManageTeam(getUserRole(authState.user)) && member.role === 'CUSTOMER_ADVISOR';
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -315,6 +325,9 @@ export function MemberProfileScreen({ route, navigation }: any): React.JSX.Eleme
               <Text variant="bodySmall" style={styles.lastMonthText}>
                 Last Month: {formatCurrency(member.performance.lastMonthSales)}
               </Text>
+              <Text variant="bodySmall" style={styles.lastMonthText}>
+                Bookings: {member.performance.bookingsThisMonth} this month, {member.performance.bookingsLastMonth} last month
+              </Text>
 
               {/* Target Achievement */}
               <View style={styles.targetSection}>
@@ -354,17 +367,19 @@ export function MemberProfileScreen({ route, navigation }: any): React.JSX.Eleme
                 </Text>
               </View>
               
-              <View style={styles.additionalRow}>
-                <Text variant="bodyMedium" style={styles.additionalLabel}>
-                  Customer Rating:
-                </Text>
-                <View style={styles.ratingContainer}>
-                  <Text variant="bodyMedium" style={styles.additionalValue}>
-                    {member.performance.customerRating}/5.0
+              {member.performance.customerRating > 0 && (
+                <View style={styles.additionalRow}>
+                  <Text variant="bodyMedium" style={styles.additionalLabel}>
+                    Customer Rating:
                   </Text>
-                  <Icon source="star" size={16} color={theme.colors.tertiary} />
+                  <View style={styles.ratingContainer}>
+                    <Text variant="bodyMedium" style={styles.additionalValue}>
+                      {member.performance.customerRating}/5.0
+                    </Text>
+                    <Icon source="star" size={16} color={theme.colors.tertiary} />
+                  </View>
                 </View>
-              </View>
+              )}
               
               <View style={styles.additionalRow}>
                 <Text variant="bodyMedium" style={styles.additionalLabel}>
@@ -388,6 +403,18 @@ export function MemberProfileScreen({ route, navigation }: any): React.JSX.Eleme
             Actions
           </Text>
 
+          {canReassignWork && (
+            <Button
+              mode={member.status === 'active' ? 'outlined' : 'contained'}
+              onPress={() => setShowHandover(true)}
+              style={styles.actionButton}
+              contentStyle={styles.actionButtonContent}
+              icon="account-switch"
+            >
+              Reassign Open Work
+            </Button>
+          )}
+
           <Button
             mode="contained"
             onPress={handleAssignTask}
@@ -419,6 +446,14 @@ export function MemberProfileScreen({ route, navigation }: any): React.JSX.Eleme
           </Button>
         </View>
       </ScrollView>
+
+      {canReassignWork && (
+        <WorkloadHandoverModal
+          visible={showHandover}
+          member={member}
+          onDismiss={() => setShowHandover(false)}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -31,7 +31,7 @@ import { formatCurrency } from '../../utils/formatting';
  */
 export function TeamScreen({ navigation }: any): React.JSX.Element {
   const { state } = useAuth();
-  const { getTeamHierarchy, getDirectReports } = useTeam();
+  const { getTeamHierarchy, getDirectReports, refetch } = useTeam();
   const [refreshing, setRefreshing] = useState(false);
 
   const currentUser = state.user;
@@ -44,12 +44,14 @@ export function TeamScreen({ navigation }: any): React.JSX.Element {
   /**
    * Handle pull to refresh
    */
-  const onRefresh = React.useCallback(() => {
+  const onRefresh = React.useCallback(async () => {
     setRefreshing(true);
-    setTimeout(() => {
+    try {
+      await refetch();
+    } finally {
       setRefreshing(false);
-    }, 1000);
-  }, []);
+    }
+  }, [refetch]);
 
   /**
    * Handle member profile view
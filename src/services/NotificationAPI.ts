@@ -3,7 +3,7 @@
  * Handles all backend communication for notifications
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { tokenManager } from './tokenManager.service';
 import { API_URL } from './api.config';
 import { apiClient } from '../api/client';
 
@@ -48,7 +48,7 @@ class NotificationAPI {
    * @deprecated Use apiClient instead which handles token refresh automatically
    */
   private async getHeaders(): Promise<Record<string, string>> {
-    const token = await AsyncStorage.getItem('firebaseToken');
+    const token = await tokenManager.getToken();
     return {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${token}`
@@ -161,6 +161,8 @@ class NotificationAPI {
     deliveryReminder: boolean;
     eveningReminder: boolean;
     weeklySummary: boolean;
+    categories?: Record<string, { enabled: boolean; channels: string[] }>;
+    quietHours?: { enabled: boolean; startHour: number; startMinute: number; endHour: number; endMinute: number };
   }): Promise<{ success: boolean; message?: string }> {
     try {
       const response = await apiClient.put('/notifications/preferences', preferences);
@@ -3,10 +3,20 @@
  * Handles FCM token management, permission requests, and message handling
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform, Alert } from 'react-native';
 import { API_URL } from '../services/api.config';
 import { apiClient } from '../api/client';
+import { remarksAPI } from '../api/remarks';
+import { reminderScheduler } from './reminders.service';
+import { deepLinkRouter } from './deepLink.service';
+import { notificationPreferences } from './notificationPreferences.service';
+import {
+  NOTIFICATION_ACTIONS,
+  NOTIFICATION_CATEGORIES,
+  NotificationPayload,
+  getNotificationTarget,
+  parseNotificationPayload,
+} from '../utils/notificationRouting';
 
 // Conditionally import expo modules to avoid crashes in development builds
 let Notifications: any = null;
@@ -34,18 +44,35 @@ try {
 // Configure notification behavior (only if available)
 if (Notifications && Notifications.setNotificationHandler) {
   Notifications.setNotificationHandler({
-    handleNotification: async () => ({
-      shouldShowAlert: true,
-      shouldPlaySound: true,
-      shouldSetBadge: true,
-      shouldShowBanner: true,
-      shouldShowList: true,
-    }),
+    handleNotification: async (notification: any) => {
+      // Enforce the user's preferences on device, whatever the server decided to send
+      const data = notification?.request?.content?.data;
+      if (!notificationPreferences.isAllowed(data, 'push')) {
+        return {
+          shouldShowAlert: false,
+          shouldPlaySound: false,
+          shouldSetBadge: false,
+          shouldShowBanner: false,
+          shouldShowList: false,
+        };
+      }
+
+      // Quiet hours keep the notification in the list but skip the banner and sound
+      const quiet = notificationPreferences.isQuietNow();
+      return {
+        shouldShowAlert: !quiet,
+        shouldPlaySound: !quiet,
+        shouldSetBadge: true,
+        shouldShowBanner: !quiet,
+        shouldShowList: true,
+      };
+    },
   });
 }
 
 class NotificationService {
   private fcmToken: string | null = null;
+  private listenersRegistered = false;
 
   /**
    * Request notification permissions
@@ -211,7 +238,8 @@ class NotificationService {
         console.log('⚠️ Continuing without backend token update...');
       }
 
-      // Set up message listeners
+      // Set up inline actions and message listeners
+      await this.registerActionCategories();
       this.setupMessageListeners();
 
       console.log('✅ Notification system initialized successfully');
@@ -235,17 +263,27 @@ class NotificationService {
         return;
       }
 
+      // initializeNotifications runs on every login; listeners are only needed once
+      if (this.listenersRegistered) return;
+      this.listenersRegistered = true;
+
       // Listen for notification received
       Notifications.addNotificationReceivedListener((notification: any) => {
         console.log('📱 Notification received:', notification);
       });
 
-      // Listen for notification response (when user taps notification)
-      // Phase 2: Handle escalation alerts
+      // Listen for notification response (when user taps notification or an action)
       Notifications.addNotificationResponseReceivedListener((response: any) => {
         console.log('📱 Notification response:', response);
         this.handleNotificationResponse(response);
       });
+
+      // A tap that launched the app arrived before the listener existed
+      Notifications.getLastNotificationResponseAsync?.()
+        .then((response: any) => {
+          if (response) this.handleNotificationResponse(response);
+        })
+        .catch((error: any) => console.error('Error reading launch notification:', error));
     } catch (error: any) {
       console.error('Error setting up notification listeners:', error);
     }
@@ -309,105 +347,133 @@ class NotificationService {
   }
 
   /**
-   * Phase 2: Handle notification response (when user taps notification)
-   * Handles escalation alerts and navigates to appropriate screens
+   * Handle notification response (when user taps a notification or one of its actions)
    */
-  private handleNotificationResponse(response: any): void {
+  private async handleNotificationResponse(response: any): Promise<void> {
     try {
       const notification = response?.notification;
-      const data = notification?.data || {};
-      const type = data.type || notification?.request?.content?.data?.type;
+      const payload = parseNotificationPayload(
+        notification?.request?.content?.data || notification?.data
+      );
 
-      if (!type) {
-        console.log('⚠️ No notification type found');
+      if (!payload) {
+        console.log('⚠️ No notification payload found');
         return;
       }
 
-      console.log('🔔 Handling notification type:', type);
+      console.log('🔔 Handling notification type:', payload.type, response?.actionIdentifier || 'tap');
 
-      // Phase 2: Handle escalation alerts
-      switch (type) {
-        case 'inactivity_alert':
-          // Enquiry has no updates for 5 days
-          if (data.entityId || data.enquiryId) {
-            this.navigateToEnquiry(data.entityId || data.enquiryId);
-          }
-          break;
+      const action = response?.actionIdentifier;
+      if (action && action !== Notifications?.DEFAULT_ACTION_IDENTIFIER) {
+        await this.handleInlineAction(action, payload, response?.userText);
+        await this.dismiss(notification?.request?.identifier);
+        return;
+      }
 
-        case 'aging_alert':
-          // Enquiry is 20-25 days old
-          if (data.entityId || data.enquiryId) {
-            this.navigateToEnquiry(data.entityId || data.enquiryId);
-          }
-          break;
+      // Summaries such as the daily digest have no target; opening the app is enough
+      const target = getNotificationTarget(payload);
+      if (target) {
+        deepLinkRouter.open(target);
+      }
+    } catch (error: any) {
+      console.error('❌ Error handling notification response:', error);
+    }
+  }
+
+  /**
+   * Run an inline action without opening the record. Failures are reported with a local
+   * notification that opens the record, so the user can finish there.
+   */
+  private async handleInlineAction(action: string, payload: NotificationPayload, userText?: string): Promise<void> {
+    const { entityType, entityId } = payload;
+    const target = getNotificationTarget(payload);
+    if (!entityId || (entityType !== 'enquiry' && entityType !== 'booking')) {
+      if (target) deepLinkRouter.open(target);
+      return;
+    }
 
-        case 'aging_alert_sm':
-          // Enquiry is 30-35 days old (for Sales Manager)
-          if (data.entityId || data.enquiryId) {
-            this.navigateToEnquiry(data.entityId || data.enquiryId);
+    try {
+      switch (action) {
+        case NOTIFICATION_ACTIONS.ADD_REMARK: {
+          const remark = userText?.trim();
+          if (!remark) {
+            if (target) deepLinkRouter.open(target);
+            return;
+          }
+          if (entityType === 'enquiry') {
+            await remarksAPI.addEnquiryRemark(entityId, remark);
+          } else {
+            await remarksAPI.addBookingRemark(entityId, remark);
           }
+          console.log('✅ Remark added from notification:', entityType, entityId);
           break;
+        }
 
-        case 'aging_alert_gm':
-          // Enquiry is 40+ days old (for General Manager)
-          if (data.entityId || data.enquiryId) {
-            this.navigateToEnquiry(data.entityId || data.enquiryId);
-          }
+        case NOTIFICATION_ACTIONS.FOLLOW_UP_DONE:
+          await remarksAPI.addEnquiryRemark(entityId, 'Follow-up done');
+          await reminderScheduler.cancel('enquiry', entityId);
+          console.log('✅ Follow-up marked done from notification:', entityId);
           break;
 
-        case 'retail_delay':
-          // Booking not retailed within 15 days
-          if (data.entityId || data.bookingId) {
-            this.navigateToBooking(data.entityId || data.bookingId);
-          }
+        case NOTIFICATION_ACTIONS.UPDATE_BOOKING:
+          deepLinkRouter.open({ screen: 'BookingUpdate', params: { bookingId: entityId } });
           break;
 
         default:
-          // Handle other notification types (enquiry, booking, etc.)
-          if (data.enquiryId) {
-            this.navigateToEnquiry(data.enquiryId);
-          } else if (data.bookingId) {
-            this.navigateToBooking(data.bookingId);
-          }
-          break;
+          console.log('⚠️ Unknown notification action:', action);
+          if (target) deepLinkRouter.open(target);
       }
     } catch (error: any) {
-      console.error('❌ Error handling notification response:', error);
+      console.error('❌ Error running notification action:', action, error);
+      await this.showLocalNotification(
+        'Action not saved',
+        'Tap to open the record and try again.',
+        { ...payload, type: 'action_failed' }
+      );
     }
   }
 
   /**
-   * Navigate to enquiry details screen
-   * Uses event emitter pattern since NotificationService doesn't have direct navigation access
+   * Register the inline actions shown on enquiry and booking notifications
    */
-  private navigateToEnquiry(enquiryId: string): void {
-    console.log('📍 Navigating to enquiry:', enquiryId);
-    // Emit event that can be listened to by navigation components
-    // The NotificationContext or App.tsx should listen to this and navigate
-    if (typeof window !== 'undefined' && (window as any).navigationRef) {
-      (window as any).navigationRef.current?.navigate('EnquiryDetails', { enquiryId });
-    } else {
-      // Fallback: Store navigation intent for later use
-      AsyncStorage.setItem('pendingNavigation', JSON.stringify({
-        screen: 'EnquiryDetails',
-        params: { enquiryId }
-      }));
+  private async registerActionCategories(): Promise<void> {
+    if (!Notifications?.setNotificationCategoryAsync) return;
+
+    const addRemark = {
+      identifier: NOTIFICATION_ACTIONS.ADD_REMARK,
+      buttonTitle: 'Add remark',
+      textInput: { submitButtonTitle: 'Save', placeholder: 'Remark' },
+      options: { opensAppToForeground: false },
+    };
+
+    try {
+      await Notifications.setNotificationCategoryAsync(NOTIFICATION_CATEGORIES.enquiry, [
+        addRemark,
+        {
+          identifier: NOTIFICATION_ACTIONS.FOLLOW_UP_DONE,
+          buttonTitle: 'Mark follow-up done',
+          options: { opensAppToForeground: false },
+        },
+      ]);
+      await Notifications.setNotificationCategoryAsync(NOTIFICATION_CATEGORIES.booking, [
+        addRemark,
+        {
+          identifier: NOTIFICATION_ACTIONS.UPDATE_BOOKING,
+          buttonTitle: 'Update booking',
+          options: { opensAppToForeground: true },
+        },
+      ]);
+    } catch (error: any) {
+      console.error('Error registering notification actions:', error);
     }
   }
 
-  /**
-   * Navigate to booking details screen
-   */
-  private navigateToBooking(bookingId: string): void {
-    console.log('📍 Navigating to booking:', bookingId);
-    if (typeof window !== 'undefined' && (window as any).navigationRef) {
-      (window as any).navigationRef.current?.navigate('BookingDetails', { bookingId });
-    } else {
-      // Fallback: Store navigation intent for later use
-      AsyncStorage.setItem('pendingNavigation', JSON.stringify({
-        screen: 'BookingDetails',
-        params: { bookingId }
-      }));
+  private async dismiss(identifier?: string): Promise<void> {
+    if (!identifier || !Notifications?.dismissNotificationAsync) return;
+    try {
+      await Notifications.dismissNotificationAsync(identifier);
+    } catch (error: any) {
+      console.error('Error dismissing notification:', error);
     }
   }
 }
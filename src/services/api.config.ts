@@ -3,7 +3,7 @@
  * Handles authentication, request/response interceptors, and error handling
  */
 
-import { getAuth } from 'firebase/auth';
+import { tokenManager } from './tokenManager.service';
 
 export const API_URL = 'https://automotive-backend-frqe.onrender.com/api';
 
@@ -11,20 +11,18 @@ export const API_URL = 'https://automotive-backend-frqe.onrender.com/api';
  * Get Firebase ID Token for authentication
  */
 export async function getAuthToken(): Promise<string> {
-  const auth = getAuth();
-  const user = auth.currentUser;
-  
-  if (!user) {
-    throw new Error('Not authenticated. Please log in.');
-  }
-  
+  let token: string | null;
   try {
-    const token = await user.getIdToken();
-    return token;
+    token = await tokenManager.getToken();
   } catch (error) {
     console.error('Error getting auth token:', error);
     throw new Error('Failed to get authentication token');
   }
+
+  if (!token) {
+    throw new Error('Not authenticated. Please log in.');
+  }
+  return token;
 }
 
 /**
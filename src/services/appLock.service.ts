@@ -0,0 +1,278 @@
+/**
+ * App Lock Service
+ * Keeps the signed-in user's app lock settings, salted PIN hash and failed attempt count
+ * in secure storage, checks PINs and device biometrics, and wipes cached customer data
+ * once too many wrong PINs have been entered.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import secureStorage from './secureStorage.service';
+import offlineQueue from './offlineQueue.service';
+import entityCache from './entityCache.service';
+import { clearCustomerIndex } from './customer.service';
+import {
+  AppLockSettings,
+  DEFAULT_APP_LOCK_SETTINGS,
+  getRemainingAttempts,
+  isValidPin,
+  normalizeAppLockSettings,
+} from '../utils/appLock';
+
+// Conditionally import the native modules to avoid crashes in development builds
+let Crypto: any = null;
+let LocalAuthentication: any = null;
+
+try {
+  Crypto = require('expo-crypto');
+} catch (error: any) {
+  console.log('⚠️ expo-crypto not available:', error.message);
+}
+
+try {
+  LocalAuthentication = require('expo-local-authentication');
+} catch (error: any) {
+  console.log('⚠️ expo-local-authentication not available:', error.message);
+}
+
+const LOCK_KEY_PREFIX = '@app_lock:';
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+}
+
+interface StoredAppLock {
+  settings: AppLockSettings;
+  pin: StoredPin | null;
+  failedAttempts: number;
+}
+
+export interface PinCheckResult {
+  valid: boolean;
+  remainingAttempts: number;
+  // True when this attempt used up the last try and local data was wiped
+  wiped: boolean;
+}
+
+const EMPTY_LOCK: StoredAppLock = {
+  settings: DEFAULT_APP_LOCK_SETTINGS,
+  pin: null,
+  failedAttempts: 0,
+};
+
+class AppLockService {
+  private userId: string | null = null;
+  private lock: StoredAppLock = EMPTY_LOCK;
+
+  getSettings(): AppLockSettings {
+    return this.lock.settings;
+  }
+
+  getFailedAttempts(): number {
+    return this.lock.failedAttempts;
+  }
+
+  getRemainingAttempts(): number {
+    return getRemainingAttempts(this.lock.settings, this.lock.failedAttempts);
+  }
+
+  /**
+   * Switch to a user's lock. Each user on a shared device has their own PIN.
+   */
+  async setUser(userId: string | null): Promise<AppLockSettings> {
+    this.userId = userId;
+    this.lock = EMPTY_LOCK;
+    if (!userId) return this.lock.settings;
+
+    try {
+      const raw = await secureStorage.getItem(`${LOCK_KEY_PREFIX}${userId}`);
+      if (raw && this.userId === userId) {
+        const stored = JSON.parse(raw);
+        this.lock = {
+          settings: normalizeAppLockSettings(stored.settings),
+          pin: stored.pin || null,
+          failedAttempts: Number(stored.failedAttempts) || 0,
+        };
+        // A lock without a PIN cannot be opened; treat it as switched off
+        if (!this.lock.pin) {
+          this.lock.settings = { ...this.lock.settings, enabled: false };
+        }
+      }
+    } catch (error) {
+      console.error('❌ [AppLock] Failed to read app lock settings:', error);
+    }
+    return this.lock.settings;
+  }
+
+  /**
+   * Turn the lock on with a new PIN
+   */
+  async enable(pin: string, changes: Partial<AppLockSettings> = {}): Promise<AppLockSettings> {
+    const storedPin = await this.hashNewPin(pin);
+    this.lock = {
+      settings: { ...this.lock.settings, ...changes, enabled: true },
+      pin: storedPin,
+      failedAttempts: 0,
+    };
+    await this.persist();
+    console.log('✅ [AppLock] App lock enabled');
+    return this.lock.settings;
+  }
+
+  /**
+   * Turn the lock off and forget the PIN
+   */
+  async disable(): Promise<AppLockSettings> {
+    this.lock = {
+      settings: { ...this.lock.settings, enabled: false, biometricEnabled: false },
+      pin: null,
+      failedAttempts: 0,
+    };
+    await this.persist();
+    console.log('✅ [AppLock] App lock disabled');
+    return this.lock.settings;
+  }
+
+  async changePin(pin: string): Promise<void> {
+    this.lock = { ...this.lock, pin: await this.hashNewPin(pin), failedAttempts: 0 };
+    await this.persist();
+  }
+
+  async updateSettings(changes: Partial<AppLockSettings>): Promise<AppLockSettings> {
+    this.lock = { ...this.lock, settings: normalizeAppLockSettings({ ...this.lock.settings, ...changes }) };
+    await this.persist();
+    return this.lock.settings;
+  }
+
+  /**
+   * Check a PIN. Wrong PINs count towards the limit across restarts; reaching it wipes
+   * cached customer data from the device.
+   */
+  async verifyPin(pin: string): Promise<PinCheckResult> {
+    const stored = this.lock.pin;
+    if (!stored) {
+      return { valid: false, remainingAttempts: this.getRemainingAttempts(), wiped: false };
+    }
+
+    const hash = await this.hashPin(pin, stored.salt);
+    if (hash === stored.hash) {
+      await this.resetFailedAttempts();
+      return { valid: true, remainingAttempts: this.getRemainingAttempts(), wiped: false };
+    }
+
+    this.lock = { ...this.lock, failedAttempts: this.lock.failedAttempts + 1 };
+    const remainingAttempts = this.getRemainingAttempts();
+    if (remainingAttempts > 0) {
+      await this.persist();
+      console.warn(`⚠️ [AppLock] Wrong PIN, ${remainingAttempts} attempt(s) left`);
+      return { valid: false, remainingAttempts, wiped: false };
+    }
+
+    await this.wipeLocalData();
+    return { valid: false, remainingAttempts: 0, wiped: true };
+  }
+
+  /**
+   * Whether the device has biometrics set up that can unlock the app
+   */
+  async isBiometricAvailable(): Promise<boolean> {
+    if (!LocalAuthentication) return false;
+    try {
+      const [hasHardware, isEnrolled] = await Promise.all([
+        LocalAuthentication.hasHardwareAsync(),
+        LocalAuthentication.isEnrolledAsync(),
+      ]);
+      return hasHardware && isEnrolled;
+    } catch (error) {
+      console.error('❌ [AppLock] Failed to check biometrics:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Prompt for Face ID / fingerprint. The device passcode is not accepted in its place;
+   * the fallback is the app PIN, which is what the attempt limit protects.
+   */
+  async authenticateWithBiometrics(promptMessage: string = 'Unlock MotorSync'): Promise<boolean> {
+    if (!LocalAuthentication) return false;
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage,
+        cancelLabel: 'Use PIN',
+        disableDeviceFallback: true,
+      });
+      if (result.success) {
+        await this.resetFailedAttempts();
+      }
+      return !!result.success;
+    } catch (error) {
+      console.error('❌ [AppLock] Biometric authentication failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove everything cached on the device: customer records, queued changes, stored
+   * credentials and this user's lock. The caller signs the user out afterwards.
+   */
+  async wipeLocalData(): Promise<void> {
+    const userId = this.userId;
+    console.warn('⚠️ [AppLock] Too many failed unlock attempts, wiping local data');
+
+    const steps: Array<[string, () => Promise<void>]> = [
+      ['entity cache', () => entityCache.clear()],
+      ['customer index', async () => clearCustomerIndex()],
+      ['offline queue', () => offlineQueue.clear()],
+      ['local storage', () => AsyncStorage.clear()],
+      ['credentials', () => secureStorage.clearCredentials()],
+      ['app lock', async () => {
+        if (userId) await secureStorage.removeItem(`${LOCK_KEY_PREFIX}${userId}`);
+      }],
+    ];
+    // Keep going if one step fails; the rest of the data still has to go
+    for (const [label, step] of steps) {
+      try {
+        await step();
+      } catch (error) {
+        console.error(`❌ [AppLock] Failed to wipe ${label}:`, error);
+      }
+    }
+
+    this.lock = EMPTY_LOCK;
+    console.log('✅ [AppLock] Local data wiped');
+  }
+
+  private async resetFailedAttempts(): Promise<void> {
+    if (this.lock.failedAttempts === 0) return;
+    this.lock = { ...this.lock, failedAttempts: 0 };
+    await this.persist();
+  }
+
+  private async hashNewPin(pin: string): Promise<StoredPin> {
+    if (!isValidPin(pin)) {
+      throw new Error('PIN must be 4 to 6 digits');
+    }
+    if (!Crypto) {
+      throw new Error('App lock is not supported on this device');
+    }
+    const salt = Array.from(Crypto.getRandomBytes(16) as Uint8Array)
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+    return { salt, hash: await this.hashPin(pin, salt) };
+  }
+
+  private async hashPin(pin: string, salt: string): Promise<string> {
+    if (!Crypto) {
+      throw new Error('App lock is not supported on this device');
+    }
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.userId) return;
+    await secureStorage.setItem(`${LOCK_KEY_PREFIX}${this.userId}`, JSON.stringify(this.lock));
+  }
+}
+
+export const appLockService = new AppLockService();
+export default appLockService;
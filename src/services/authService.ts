@@ -16,7 +16,8 @@ import {
 } from 'firebase/auth';
 import { auth } from '../config/firebase';
 import { AuthAPI } from '../api';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { tokenManager } from './tokenManager.service';
+import { secureStorage, SECURE_KEYS } from './secureStorage.service';
 
 /**
  * Authentication service class
@@ -88,8 +89,8 @@ export class AuthService {
         console.log('🔑 Getting and storing auth token...');
       }
       const token = await userCredential.user.getIdToken();
-      await AsyncStorage.setItem('@auth_token', token);
-      await AsyncStorage.setItem('@auth_user', JSON.stringify(userCredential.user));
+      await secureStorage.setItem(SECURE_KEYS.authToken, token);
+      await secureStorage.setItem(SECURE_KEYS.authUser, JSON.stringify(userCredential.user));
       
       if (__DEV__) {
         console.log('✅ Auth token stored successfully');
@@ -158,8 +159,8 @@ export class AuthService {
       
       // Store auth token
       const token = await userCredential.user.getIdToken();
-      await AsyncStorage.setItem('@auth_token', token);
-      await AsyncStorage.setItem('@auth_user', JSON.stringify(userCredential.user));
+      await secureStorage.setItem(SECURE_KEYS.authToken, token);
+      await secureStorage.setItem(SECURE_KEYS.authUser, JSON.stringify(userCredential.user));
       
       return userCredential;
     } catch (error: any) {
@@ -174,8 +175,7 @@ export class AuthService {
   static async signOut(): Promise<void> {
     try {
       // Clear stored data
-      await AsyncStorage.removeItem('@auth_token');
-      await AsyncStorage.removeItem('@auth_user');
+      await secureStorage.clearCredentials();
       
       // Sign out from Firebase
       await signOut(auth);
@@ -197,11 +197,10 @@ export class AuthService {
    */
   static async getCurrentUserToken(): Promise<string | null> {
     try {
-      const user = this.getCurrentUser();
-      if (user) {
-        return await user.getIdToken();
+      if (!this.getCurrentUser()) {
+        return null;
       }
-      return null;
+      return await tokenManager.getToken();
     } catch (error) {
       console.error('Get token error:', error);
       return null;
@@ -229,7 +228,7 @@ export class AuthService {
       // Note: Role assignment should be handled by backend admin, not hardcoded here
       let roleName: string | undefined;
       try {
-        const cachedProfile = await AsyncStorage.getItem('userProfile');
+        const cachedProfile = await secureStorage.getItem(SECURE_KEYS.userProfile);
         if (cachedProfile) {
           const parsedProfile = JSON.parse(cachedProfile);
           roleName =
@@ -265,13 +264,14 @@ export class AuthService {
    */
   static async refreshToken(): Promise<string | null> {
     try {
-      const user = this.getCurrentUser();
-      if (user) {
-        const token = await user.getIdToken(true); // Force refresh
-        await AsyncStorage.setItem('@auth_token', token);
-        return token;
+      if (!this.getCurrentUser()) {
+        return null;
       }
-      return null;
+      const token = await tokenManager.getToken({ forceRefresh: true });
+      if (token) {
+        await secureStorage.setItem(SECURE_KEYS.authToken, token);
+      }
+      return token;
     } catch (error) {
       console.error('Token refresh error:', error);
       return null;
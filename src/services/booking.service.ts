@@ -3,82 +3,69 @@
  * Handles all booking-related API operations for advisors
  */
 
-import { apiClient, handleApiCall, ApiResponse } from '../api/client';
+import { apiClient, handleApiCall, fetchAllPages, ApiResponse, Pagination, PaginatedResponse } from '../api/client';
 import {
   UpdateBookingRequest,
   Booking,
   BookingStatus,
   TimelineCategory,
-  PaginatedBookingsResponse,
 } from './types';
-import { bookingAPI } from '../api/bookings';
+import { bookingAPI, BookingChangeContext } from '../api/bookings';
+import { partitionBookingTransitions, BlockedTransition } from '../utils/bookingStateMachine';
+import type { UserRole } from '../context/AuthContext';
 
 /**
  * Get bookings based on user role
  * - CUSTOMER_ADVISOR: Gets only their assigned bookings
  * - Other roles (TEAM_LEAD, SALES_MANAGER, GENERAL_MANAGER): Gets all bookings
+ * List screens pass `page`/`limit` to load one page at a time; without a page every page
+ * is loaded for callers that aggregate (dashboard counts).
  */
 export async function getMyBookings(
   timeline?: TimelineCategory,
   status?: BookingStatus,
   userRole?: string,
   currentUserId?: string,
-  options?: { dealershipId?: string; dealershipCode?: string; scope?: string }
-): Promise<{ bookings: Booking[]; pagination: any; timeline?: string }> {
-  let bookings: any[];
+  options?: {
+    dealershipId?: string;
+    dealershipCode?: string;
+    scope?: string;
+    page?: number;
+    limit?: number;
+    updatedSince?: string;
+  }
+): Promise<{ bookings: Booking[]; pagination: Pagination; timeline?: string }> {
+  let bookings: Booking[];
+  let pagination: Pagination | undefined;
+  const page = options?.page ?? 1;
+  const limit = options?.limit ?? 100;
+  const load = async (
+    fetchPage: (page: number, limit: number) => Promise<PaginatedResponse<Booking>>
+  ): Promise<PaginatedResponse<Booking>> => {
+    if (options?.page) return fetchPage(page, limit);
+    const all = await fetchAllPages(fetchPage, { pageSize: limit });
+    return {
+      items: all.items,
+      pagination: { page: 1, limit: all.items.length, total: all.total, totalPages: 1 },
+    };
+  };
   
   if (userRole === 'CUSTOMER_ADVISOR') {
     // Customer advisors see only their own bookings
-    const response = await bookingAPI.getMyBookings({
-      page: 1,
-      limit: 1000,
+    const response = await load((page, limit) => bookingAPI.getMyBookings({
+      page,
+      limit,
       status: status,
       timeline: timeline, // Pass timeline filter to API
       dealershipId: options?.dealershipId,
       dealershipCode: options?.dealershipCode,
       scope: options?.scope,
-    });
+      updatedSince: options?.updatedSince,
+    }));
     
-    // Extract bookings from response - handle different API response structures
-    const responseData = response.data as any;
-    
-    // Debug logging to understand response structure
-    if (__DEV__) {
-      console.log('📦 Raw API Response:', JSON.stringify(response).substring(0, 500));
-      console.log('📦 Response Data:', JSON.stringify(responseData).substring(0, 500));
-      console.log('📦 Response Data Keys:', responseData ? Object.keys(responseData) : 'null');
-      if (responseData?.data) {
-        console.log('📦 Response Data.data Keys:', Object.keys(responseData.data));
-      }
-    }
-    
-    // Try multiple response structures
-    if (responseData?.data?.bookings && Array.isArray(responseData.data.bookings)) {
-      bookings = responseData.data.bookings;
-      if (__DEV__) console.log('✅ Found bookings in response.data.data.bookings:', bookings.length);
-    } else if (responseData?.data?.data?.bookings && Array.isArray(responseData.data.data.bookings)) {
-      bookings = responseData.data.data.bookings;
-      if (__DEV__) console.log('✅ Found bookings in response.data.data.data.bookings:', bookings.length);
-    } else if (responseData?.bookings && Array.isArray(responseData.bookings)) {
-      bookings = responseData.bookings;
-      if (__DEV__) console.log('✅ Found bookings in response.data.bookings:', bookings.length);
-    } else if (Array.isArray(responseData)) {
-      bookings = responseData;
-      if (__DEV__) console.log('✅ Response data is array:', bookings.length);
-    } else if (Array.isArray(responseData?.data)) {
-      bookings = responseData.data;
-      if (__DEV__) console.log('✅ Found bookings in response.data (array):', bookings.length);
-    } else {
-      bookings = [];
-      if (__DEV__) {
-        console.warn('⚠️ No bookings found in response. Response structure:', {
-          hasData: !!responseData,
-          hasDataData: !!responseData?.data,
-          isArray: Array.isArray(responseData),
-          keys: responseData ? Object.keys(responseData) : 'null'
-        });
-      }
-    }
+    bookings = response.items;
+    pagination = response.pagination;
+    if (__DEV__) console.log('✅ Bookings received:', bookings.length);
     
     // Client-side filtering: Ensure customer advisors only see their assigned bookings
     if (currentUserId) {
@@ -143,60 +130,19 @@ export async function getMyBookings(
     }
   } else {
     // Managers see all bookings
-    const response = await bookingAPI.getBookings({
-      page: 1,
-      limit: 1000,
+    const response = await load((page, limit) => bookingAPI.getBookings({
+      page,
+      limit,
       status: status,
       dealershipId: options?.dealershipId,
       dealershipCode: options?.dealershipCode,
       scope: options?.scope,
-    });
-    
-    // Extract bookings from response - handle different API response structures
-    const responseData = response.data as any;
-    
-    // Debug logging to understand response structure
-    if (__DEV__) {
-      console.log('📦 Raw API Response (Manager):', JSON.stringify(response).substring(0, 500));
-      console.log('📦 Response Data (Manager):', JSON.stringify(responseData).substring(0, 500));
-      console.log('📦 Response Data Keys (Manager):', responseData ? Object.keys(responseData) : 'null');
-      if (responseData?.data) {
-        console.log('📦 Response Data.data Keys (Manager):', Object.keys(responseData.data));
-      }
-    }
+      updatedSince: options?.updatedSince,
+    }));
     
-    // Try multiple response structures
-    if (responseData?.data?.bookings && Array.isArray(responseData.data.bookings)) {
-      bookings = responseData.data.bookings;
-      if (__DEV__) console.log('✅ Found bookings in response.data.data.bookings (Manager):', bookings.length);
-    } else if (responseData?.data?.data?.bookings && Array.isArray(responseData.data.data.bookings)) {
-      bookings = responseData.data.data.bookings;
-      if (__DEV__) console.log('✅ Found bookings in response.data.data.data.bookings (Manager):', bookings.length);
-    } else if (responseData?.bookings && Array.isArray(responseData.bookings)) {
-      bookings = responseData.bookings;
-      if (__DEV__) console.log('✅ Found bookings in response.data.bookings (Manager):', bookings.length);
-    } else if (Array.isArray(responseData)) {
-      bookings = responseData;
-      if (__DEV__) console.log('✅ Response data is array (Manager):', bookings.length);
-    } else if (Array.isArray(responseData?.data)) {
-      bookings = responseData.data;
-      if (__DEV__) console.log('✅ Found bookings in response.data (array) (Manager):', bookings.length);
-    } else {
-      bookings = [];
-      if (__DEV__) {
-        console.warn('⚠️ No bookings found in response (Manager). Response structure:', {
-          hasData: !!responseData,
-          hasDataData: !!responseData?.data,
-          isArray: Array.isArray(responseData),
-          keys: responseData ? Object.keys(responseData) : 'null'
-        });
-      }
-    }
-  }
-  
-  // Ensure bookings is a valid array
-  if (!Array.isArray(bookings)) {
-    bookings = [];
+    bookings = response.items;
+    pagination = response.pagination;
+    if (__DEV__) console.log('✅ Bookings received (Manager):', bookings.length);
   }
   
   // Additional safety filter: For customer advisors, ensure we NEVER show bookings without advisorId
@@ -227,9 +173,10 @@ export async function getMyBookings(
   
   return {
     bookings: uniqueBookings as Booking[],
-    pagination: {
-      page: 1,
-      limit: 1000,
+    // Totals come from the server; device-side filtering only trims the current page
+    pagination: pagination ?? {
+      page,
+      limit,
       total: uniqueBookings.length,
       totalPages: 1,
     },
@@ -297,8 +244,7 @@ export async function getOverdueBookings(
  * Get single booking by ID
  */
 export async function getBookingById(id: string): Promise<Booking> {
-  const response = await bookingAPI.getBookingById(id);
-  return response.data;
+  return bookingAPI.getBookingById(id);
 }
 
 /**
@@ -306,10 +252,10 @@ export async function getBookingById(id: string): Promise<Booking> {
  */
 export async function updateBooking(
   id: string,
-  data: UpdateBookingRequest
+  data: UpdateBookingRequest,
+  context: BookingChangeContext
 ): Promise<Booking> {
-  const response = await bookingAPI.updateBookingStatus(id, data);
-  return response.data;
+  return bookingAPI.updateBookingStatus(id, data, context);
 }
 
 /**
@@ -317,9 +263,38 @@ export async function updateBooking(
  */
 export async function updateBookingStatus(
   id: string,
-  status: BookingStatus
+  status: BookingStatus,
+  context: BookingChangeContext
 ): Promise<Booking> {
-  return updateBooking(id, { status: status as any });
+  return updateBooking(id, { status }, context);
+}
+
+/**
+ * Move several bookings to one status. Bookings that cannot legally make the move
+ * are skipped and returned with the reasons instead of failing the whole batch.
+ */
+export async function bulkUpdateBookingStatus(
+  bookings: Booking[],
+  status: BookingStatus,
+  role: UserRole
+): Promise<{ updatedIds: string[]; failedIds: string[]; blocked: BlockedTransition[] }> {
+  const { allowed, blocked } = partitionBookingTransitions(bookings, status, role);
+  if (allowed.length === 0) {
+    return { updatedIds: [], failedIds: [], blocked };
+  }
+
+  console.log(`📦 [BookingService] Bulk status ${status}: ${allowed.length} allowed, ${blocked.length} blocked`);
+  const response = await bookingAPI.bulkUpdateStatus(allowed, status, role);
+  // Only bookings the server reports as updated count; anything else it left unchanged
+  const updatedIds = (response.data?.results || [])
+    .filter(result => result.status === 'updated')
+    .map(result => result.bookingId);
+
+  return {
+    updatedIds,
+    failedIds: allowed.map(booking => booking.id).filter(id => !updatedIds.includes(id)),
+    blocked,
+  };
 }
 
 /**
@@ -327,9 +302,10 @@ export async function updateBookingStatus(
  */
 export async function addBookingRemarks(
   id: string,
-  advisorRemarks: string
+  advisorRemarks: string,
+  context: BookingChangeContext
 ): Promise<Booking> {
-  return updateBooking(id, { advisorRemarks });
+  return updateBooking(id, { advisorRemarks }, context);
 }
 
 /**
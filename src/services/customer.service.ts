@@ -0,0 +1,127 @@
+/**
+ * Customer Service
+ * Loads enquiries, quotations and bookings visible to the user and merges them into
+ * the client-side customer index
+ */
+
+import { enquiryAPI } from '../api/enquiries';
+import { bookingAPI } from '../api/bookings';
+import { QuotationsAPI } from '../api/quotations';
+import { fetchAllPages, AllPagesResult } from '../api/client';
+import { entityCache } from './entityCache.service';
+import {
+  CustomerIndex,
+  CustomerProfile,
+  buildCustomerIndex,
+  findCustomer,
+} from '../utils/customerIndex';
+
+// Reuse a built index while navigating between customers
+const INDEX_TTL_MS = 2 * 60 * 1000;
+
+// Mutations to any of these lists change the customers the index is built from
+const SOURCE_LIST_KEYS = ['list:enquiry', 'list:quotation', 'list:booking'];
+
+export interface CustomerIndexOptions {
+  userId?: string;
+  userRole?: string;
+  dealershipId?: string;
+  dealershipCode?: string;
+  forceRefresh?: boolean;
+}
+
+// Both are tagged with the user and dealership they were built for
+let cachedIndex: { key: string; index: CustomerIndex; builtAt: number } | null = null;
+let pendingIndex: { key: string; promise: Promise<CustomerIndex> } | null = null;
+
+const indexKey = (options: CustomerIndexOptions) =>
+  [options.userId, options.userRole, options.dealershipId, options.dealershipCode].join(':');
+
+function itemsOrEmpty<T>(result: PromiseSettledResult<AllPagesResult<T>>, label: string): T[] {
+  if (result.status === 'fulfilled') {
+    if (!result.value.complete) {
+      console.warn(`⚠️ [CustomerService] Indexed the first ${result.value.items.length} of ${result.value.total} ${label}`);
+    }
+    return result.value.items;
+  }
+  console.warn(`⚠️ [CustomerService] Could not load ${label} for the customer index:`, result.reason?.message);
+  return [];
+}
+
+async function loadCustomerIndex(options: CustomerIndexOptions): Promise<CustomerIndex> {
+  const scope = {
+    dealershipId: options.dealershipId,
+    dealershipCode: options.dealershipCode,
+  };
+
+  const [enquiriesResult, quotationsResult, bookingsResult] = await Promise.allSettled([
+    fetchAllPages((page, limit) => enquiryAPI.getEnquiries({ ...scope, page, limit })),
+    fetchAllPages((page, limit) => QuotationsAPI.getQuotations({ ...scope, page, limit })),
+    fetchAllPages((page, limit) =>
+      options.userRole === 'CUSTOMER_ADVISOR'
+        ? bookingAPI.getMyBookings({ ...scope, page, limit })
+        : bookingAPI.getBookings({ ...scope, page, limit })
+    ),
+  ]);
+
+  const index = buildCustomerIndex({
+    enquiries: itemsOrEmpty(enquiriesResult, 'enquiries'),
+    quotations: itemsOrEmpty(quotationsResult, 'quotations'),
+    bookings: itemsOrEmpty(bookingsResult, 'bookings'),
+  });
+  console.log(`👥 [CustomerService] Indexed ${index.size} customers`);
+  return index;
+}
+
+/**
+ * Get the customer index, rebuilding it when stale or when forced
+ */
+export async function getCustomerIndex(options: CustomerIndexOptions = {}): Promise<CustomerIndex> {
+  const key = indexKey(options);
+  if (
+    !options.forceRefresh &&
+    cachedIndex?.key === key &&
+    Date.now() - cachedIndex.builtAt < INDEX_TTL_MS
+  ) {
+    return cachedIndex.index;
+  }
+
+  if (pendingIndex?.key !== key) {
+    const pending = {
+      key,
+      promise: loadCustomerIndex(options)
+        .then(index => {
+          // Skip storing if the index was cleared (e.g. logout) while this was loading
+          if (pendingIndex === pending) cachedIndex = { key, index, builtAt: Date.now() };
+          return index;
+        })
+        .finally(() => {
+          if (pendingIndex === pending) pendingIndex = null;
+        }),
+    };
+    pendingIndex = pending;
+  }
+  return pendingIndex.promise;
+}
+
+/**
+ * Get one customer's merged profile by phone number (any formatting)
+ */
+export async function getCustomerProfile(
+  phone: string,
+  options: CustomerIndexOptions = {}
+): Promise<CustomerProfile | null> {
+  const index = await getCustomerIndex(options);
+  return findCustomer(index, phone);
+}
+
+/**
+ * Drop the cached index, e.g. after a mutation or on logout
+ */
+export function clearCustomerIndex(): void {
+  cachedIndex = null;
+  pendingIndex = null;
+}
+
+// Enquiry, quotation and booking mutations invalidate their list prefixes in the entity cache
+SOURCE_LIST_KEYS.forEach(key => entityCache.subscribe(key, clearCustomerIndex));
@@ -0,0 +1,74 @@
+/**
+ * Deep Link Router
+ * Opens the screen a notification tap or motorsync:// link points at. Targets that arrive
+ * before navigation is ready or while signed out are held and opened after login.
+ */
+
+import { Linking } from 'react-native';
+import { createNavigationContainerRef } from '@react-navigation/native';
+import type { RootStackParamList } from '../navigation/AppNavigator';
+import { NotificationTarget, parseDeepLink } from '../utils/notificationRouting';
+
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+class DeepLinkRouter {
+  private pending: NotificationTarget | null = null;
+  private authenticated = false;
+
+  open(target: NotificationTarget): void {
+    console.log('📍 [DeepLink] Opening', target.screen, target.params);
+    this.pending = target;
+    this.flush();
+  }
+
+  openUrl(url: string): boolean {
+    try {
+      const target = parseDeepLink(url);
+      if (!target) {
+        console.log('⚠️ [DeepLink] Ignoring unsupported link:', url);
+        return false;
+      }
+      this.open(target);
+      return true;
+    } catch (error) {
+      // Runs inside the Linking listener, where a throw would go unhandled
+      console.error('❌ [DeepLink] Failed to open link:', url, error);
+      return false;
+    }
+  }
+
+  /**
+   * Called by AppNavigator when the signed-in state changes
+   */
+  setAuthenticated(authenticated: boolean): void {
+    this.authenticated = authenticated;
+    this.flush();
+  }
+
+  /**
+   * Open the held target once the main stack can take it
+   */
+  flush(): void {
+    if (!this.pending || !this.authenticated || !navigationRef.isReady()) return;
+    const target = this.pending;
+    this.pending = null;
+    navigationRef.navigate('Main', target);
+  }
+
+  /**
+   * Handle the link the app was launched with and any opened while it runs
+   */
+  listen(): () => void {
+    Linking.getInitialURL()
+      .then(url => {
+        if (url) this.openUrl(url);
+      })
+      .catch(error => console.error('❌ [DeepLink] Failed to read initial URL:', error));
+
+    const subscription = Linking.addEventListener('url', ({ url }) => this.openUrl(url));
+    return () => subscription.remove();
+  }
+}
+
+export const deepLinkRouter = new DeepLinkRouter();
+export default deepLinkRouter;
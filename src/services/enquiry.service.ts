@@ -10,10 +10,25 @@ import {
   Enquiry,
   EnquiryCategory,
   EnquiryStatus,
-  PaginatedEnquiriesResponse,
+  PaginatedResponse,
   AutoBookingResponse,
-  ApiResponse
+  ApiResponse,
+  Booking,
+  StockAvailability,
 } from './types';
+import { bookingAPI } from '../api/bookings';
+import { StockAPI } from '../api/stock';
+import { remarksAPI } from '../api/remarks';
+import { isQueuedMutationError } from './offlineQueue.service';
+import { normalizePhoneNumber } from '../utils/formatting';
+import {
+  DuplicateCandidate,
+  DuplicateMatch,
+  findDuplicateEnquiries,
+} from '../utils/duplicateEnquiry';
+
+// How many of the dealership's recent enquiries the duplicate check scans
+const DUPLICATE_SCAN_LIMIT = 500;
 
 /**
  * Create a new enquiry
@@ -21,12 +36,11 @@ import {
 export async function createEnquiry(data: CreateEnquiryRequest): Promise<Enquiry> {
   console.log('📤 [EnquiryService.createEnquiry] Creating enquiry with data:', data);
   
-  const response = await enquiryAPI.createEnquiry(data);
+  const created = await enquiryAPI.createEnquiry(data);
   
-  console.log('📥 [EnquiryService.createEnquiry] Response received:', response);
-  console.log('📥 [EnquiryService.createEnquiry] Created enquiry:', response.data);
+  console.log('📥 [EnquiryService.createEnquiry] Created enquiry:', created.id);
   
-  return response.data || response;
+  return created;
 }
 
 /**
@@ -37,8 +51,9 @@ export async function getMyEnquiries(
   limit: number = 100,
   category?: EnquiryCategory,
   options?: { dealershipId?: string; dealershipCode?: string }
-): Promise<{ enquiries: Enquiry[]; pagination: any }> {
-  const response = await enquiryAPI.getEnquiries({
+): Promise<PaginatedResponse<Enquiry>> {
+  // Filtering by current user is done in the calling component
+  return enquiryAPI.getEnquiries({
     page,
     limit,
     category,
@@ -47,23 +62,43 @@ export async function getMyEnquiries(
     dealershipId: options?.dealershipId,
     dealershipCode: options?.dealershipCode,
   });
-  
-  // Handle different response structures
-  const allEnquiries = (response.data as any)?.enquiries || [];
-  
-  // Filter enquiries by current user (this will be done in the calling component)
-  const enquiries = allEnquiries;
-  const pagination = (response.data as any)?.pagination || {
-    page,
-    limit,
-    total: enquiries.length,
-    totalPages: Math.ceil(enquiries.length / limit)
-  };
-  
-  return {
-    enquiries: enquiries as Enquiry[],
-    pagination
-  };
+}
+
+/**
+ * The dealership's most recent enquiries, for matching a new enquiry against as the form
+ * is filled in. Load once per visit to the form; checkForDuplicates matches locally.
+ */
+export async function getDuplicateScanPool(
+  options?: { dealershipId?: string; dealershipCode?: string }
+): Promise<Enquiry[]> {
+  const response = await enquiryAPI.getEnquiries({
+    limit: DUPLICATE_SCAN_LIMIT,
+    sortBy: 'createdAt',
+    sortOrder: 'desc',
+    dealershipId: options?.dealershipId,
+    dealershipCode: options?.dealershipCode,
+  });
+  return response.items || [];
+}
+
+/**
+ * Enquiries for a phone number from a server-side search, so older open enquiries outside
+ * the scan pool are still found
+ */
+export async function searchEnquiriesByPhone(customerContact: string): Promise<Enquiry[]> {
+  const phoneKey = normalizePhoneNumber(customerContact);
+  if (!phoneKey) return [];
+  const response = await enquiryAPI.searchEnquiries(phoneKey);
+  return response.items || [];
+}
+
+/**
+ * Check a new enquiry against enquiries already loaded (the scan pool plus any phone
+ * search results). Enquiries present in both are only matched once.
+ */
+export function checkForDuplicates(candidate: DuplicateCandidate, existing: Enquiry[]): DuplicateMatch[] {
+  const byId = new Map(existing.map(enquiry => [enquiry.id, enquiry]));
+  return findDuplicateEnquiries(candidate, Array.from(byId.values()));
 }
 
 /**
@@ -72,11 +107,11 @@ export async function getMyEnquiries(
 export async function getEnquiryById(id: string): Promise<Enquiry> {
   console.log('🔍 [EnquiryService.getEnquiryById] Fetching enquiry:', id);
   
-  const response = await enquiryAPI.getEnquiryById(id);
+  const enquiry = await enquiryAPI.getEnquiryById(id);
   
-  console.log('📊 [EnquiryService.getEnquiryById] Response received:', response);
+  console.log('📊 [EnquiryService.getEnquiryById] Enquiry received:', enquiry.id);
   
-  return response.data || response;
+  return enquiry;
 }
 
 /**
@@ -85,33 +120,138 @@ export async function getEnquiryById(id: string): Promise<Enquiry> {
 export async function updateEnquiry(id: string, data: UpdateEnquiryRequest): Promise<Enquiry> {
   console.log('🔄 [EnquiryService.updateEnquiry] Updating enquiry:', id, data);
   
-  const response = await enquiryAPI.updateEnquiry(id, data);
+  const enquiry = await enquiryAPI.updateEnquiry(id, data);
   
-  console.log('✅ [EnquiryService.updateEnquiry] Response received:', response);
+  console.log('✅ [EnquiryService.updateEnquiry] Enquiry updated:', enquiry.id);
   
-  return response.data || response;
+  return enquiry;
+}
+
+type StockValidation = NonNullable<AutoBookingResponse['stockValidation']>;
+
+/**
+ * Check stock for the enquiry's variant, preferring units in the requested colour.
+ * Returns undefined when stock cannot be looked up so conversion is not blocked by it.
+ */
+async function validateStockForEnquiry(enquiry: Enquiry): Promise<StockValidation | undefined> {
+  if (!enquiry.variant) return undefined;
+
+  try {
+    const units = await StockAPI.getStockByVariant(enquiry.variant);
+    const sameColour = enquiry.color
+      ? units.filter(unit => unit.color?.trim().toLowerCase() === enquiry.color!.trim().toLowerCase())
+      : units;
+
+    const stockLocations = { zawlStock: 0, rasStock: 0, regionalStock: 0 };
+    sameColour.forEach(unit => {
+      const available = unit.availableQuantity ?? unit.quantity ?? 0;
+      const location = (unit.location || '').toUpperCase();
+      if (location.includes('ZAWL')) {
+        stockLocations.zawlStock += available;
+      } else if (location.includes('RAS')) {
+        stockLocations.rasStock += available;
+      } else {
+        stockLocations.regionalStock += available;
+      }
+    });
+
+    const total = stockLocations.zawlStock + stockLocations.rasStock + stockLocations.regionalStock;
+    return { variant: enquiry.variant, inStock: total > 0, stockLocations };
+  } catch (error) {
+    console.warn('⚠️ [EnquiryService.convertEnquiryToBooking] Stock check failed, continuing without it:', error);
+    return undefined;
+  }
 }
 
 /**
  * Convert enquiry to booking
- * Phase 2: Conversion should mark enquiry as BOOKED category (not CONVERTED status)
- * The backend doesn't accept CONVERTED as a status value
+ * Creates the booking from the enquiry's customer and vehicle details, links it back via
+ * enquiryId and then marks the enquiry BOOKED. If marking the enquiry fails, the new
+ * booking is deleted so neither record is left half-converted.
  */
-export async function convertEnquiryToBooking(enquiryId: string): Promise<AutoBookingResponse> {
+export async function convertEnquiryToBooking(
+  enquiryId: string,
+  options: { dealerCode?: string } = {}
+): Promise<AutoBookingResponse> {
   console.log('🔄 [EnquiryService.convertEnquiryToBooking] Converting enquiry to booking:', enquiryId);
-  
-  // Phase 2: Mark enquiry as BOOKED category instead of changing status
-  // This locks the enquiry and indicates it's been converted to a booking
-  const response = await enquiryAPI.updateCategory(enquiryId, EnquiryCategory.BOOKED, 'Converted to booking');
-  
-  console.log('✅ [EnquiryService.convertEnquiryToBooking] Conversion completed:', response);
-  
-  // Return response with enquiry data
+
+  const enquiry = await enquiryAPI.getEnquiryById(enquiryId);
+  if (enquiry.category === EnquiryCategory.BOOKED || (enquiry._count?.bookings ?? 0) > 0) {
+    throw new Error('This enquiry has already been converted to a booking.');
+  }
+
+  const dealerCode = enquiry.dealerCode || options.dealerCode;
+  if (!dealerCode) {
+    throw new Error('The enquiry has no dealer code, so a booking cannot be created for it.');
+  }
+  if (!enquiry.variant) {
+    throw new Error('Select a variant on the enquiry before converting it to a booking.');
+  }
+
+  const stockValidation = await validateStockForEnquiry(enquiry);
+
+  // Step 1: create the booking. Nothing to undo if this fails.
+  let booking: Booking;
+  try {
+    booking = await bookingAPI.createBooking({
+      customerName: enquiry.customerName,
+      customerPhone: enquiry.customerContact,
+      customerEmail: enquiry.customerEmail || undefined,
+      variant: enquiry.variant,
+      color: enquiry.color,
+      fuelType: enquiry.fuelType,
+      dealerCode,
+      advisorId: enquiry.assignedToUserId || enquiry.createdByUserId,
+      bookingDate: new Date().toISOString().split('T')[0],
+      stockAvailability: stockValidation
+        ? stockValidation.inStock
+          ? StockAvailability.VEHICLE_AVAILABLE
+          : StockAvailability.VNA
+        : undefined,
+      remarks: `Converted from enquiry ${enquiry.id}`,
+      enquiryId: enquiry.id,
+    });
+  } catch (error: any) {
+    console.error('❌ [EnquiryService.convertEnquiryToBooking] Booking creation failed:', error);
+    throw new Error(error.message || 'Failed to create the booking. The enquiry was not changed.');
+  }
+
+  if (!booking?.id) {
+    throw new Error('The server did not return the new booking. The enquiry was not changed.');
+  }
+
+  // Step 2: mark the enquiry BOOKED, removing the booking again if that fails
+  let updatedEnquiry: Enquiry;
+  try {
+    const response: any = await enquiryAPI.updateCategory(enquiryId, EnquiryCategory.BOOKED);
+    updatedEnquiry = response?.data?.data?.enquiry || response?.data?.data || { ...enquiry, category: EnquiryCategory.BOOKED };
+  } catch (error: any) {
+    console.error('❌ [EnquiryService.convertEnquiryToBooking] Marking enquiry BOOKED failed, rolling back:', error);
+    try {
+      await bookingAPI.deleteBooking(booking.id);
+    } catch (rollbackError) {
+      console.error('❌ [EnquiryService.convertEnquiryToBooking] Rollback failed:', rollbackError);
+      throw new Error(
+        `The enquiry could not be marked as booked and booking ${booking.id} could not be removed. ` +
+          'Please delete it manually before converting again.'
+      );
+    }
+    throw new Error(error.message || 'Failed to update the enquiry. The booking was not kept.');
+  }
+
+  // Best effort: leave a trail on the enquiry pointing at the booking
+  remarksAPI.addEnquiryRemark(enquiryId, `Converted to booking ${booking.id}`).catch(error => {
+    if (!isQueuedMutationError(error)) {
+      console.warn('⚠️ [EnquiryService.convertEnquiryToBooking] Failed to add conversion remark:', error);
+    }
+  });
+
+  console.log('✅ [EnquiryService.convertEnquiryToBooking] Created booking:', booking.id);
+
   return {
-    success: true,
-    message: 'Enquiry converted to booking successfully',
-    enquiry: response.data || response,
-    booking: null // Would be populated by actual conversion endpoint if available
+    enquiry: updatedEnquiry,
+    booking,
+    stockValidation,
   };
 }
 
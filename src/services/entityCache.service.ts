@@ -0,0 +1,227 @@
+/**
+ * Entity Cache
+ * Normalised, persisted cache of bookings, enquiries, quotations and stock keyed by type
+ * and id, plus named query results (lists, summaries, dashboard aggregates).
+ * Screens read from it instantly and revalidate in the background; successful mutations
+ * invalidate the entries they affect so every screen showing them refetches.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = '@entity_cache';
+const STORAGE_VERSION = 1;
+
+// Limits for what is written to storage; least recently fetched entries go first
+const MAX_PERSISTED_ENTRIES = 400;
+// Entries older than this are dropped when the cache is loaded
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const PERSIST_DELAY_MS = 1000;
+
+export type CacheEntityType = 'booking' | 'enquiry' | 'quotation' | 'stock';
+
+export interface CacheEntry<T = any> {
+  value: T;
+  fetchedAt: number;
+  stale: boolean;
+}
+
+// A list query stores ids; the records themselves live in their entity entries
+interface ListRef {
+  $refs: CacheEntityType;
+  ids: string[];
+}
+
+/**
+ * What a mutation affects: one entity, or every query whose key starts with a prefix
+ */
+export type CacheTarget = { type: CacheEntityType; id?: string | null } | { prefix: string };
+
+export type CacheEvent = 'updated' | 'invalidated';
+
+type CacheListener = (event: CacheEvent) => void;
+
+export const entityKey = (type: CacheEntityType, id: string) => `${type}:${id}`;
+
+const isListRef = (value: any): value is ListRef =>
+  !!value && typeof value === 'object' && typeof value.$refs === 'string' && Array.isArray(value.ids);
+
+class EntityCacheService {
+  private entries = new Map<string, CacheEntry>();
+  private listeners = new Map<string, Set<CacheListener>>();
+  private inFlight = new Map<string, Promise<any>>();
+  private loaded = false;
+  private loadPromise: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped by clear() so revalidations started before it (e.g. before logout) are not stored
+  private generation = 0;
+
+  /**
+   * Load the persisted cache (once per app session)
+   */
+  ready(): Promise<void> {
+    if (this.loaded) return Promise.resolve();
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(STORAGE_KEY);
+          const parsed = raw ? JSON.parse(raw) : null;
+          if (parsed?.version === STORAGE_VERSION && Array.isArray(parsed.entries)) {
+            const cutoff = Date.now() - MAX_AGE_MS;
+            (parsed.entries as Array<[string, CacheEntry]>).forEach(([key, entry]) => {
+              // Anything restored from storage is shown immediately but always revalidated
+              if (entry?.fetchedAt >= cutoff && !this.entries.has(key)) {
+                this.entries.set(key, { ...entry, stale: true });
+              }
+            });
+          }
+        } catch (error) {
+          console.error('❌ [EntityCache] Failed to read cache:', error);
+        } finally {
+          this.loaded = true;
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      const entries = Array.from(this.entries.entries())
+        .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+        .slice(0, MAX_PERSISTED_ENTRIES);
+      AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, entries })).catch(error =>
+        console.error('❌ [EntityCache] Failed to persist cache:', error)
+      );
+    }, PERSIST_DELAY_MS);
+  }
+
+  private emit(key: string, event: CacheEvent): void {
+    this.listeners.get(key)?.forEach(listener => listener(event));
+  }
+
+  /**
+   * Read an entry. List queries are resolved to their current entity records.
+   */
+  peek<T = any>(key: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || !isListRef(entry.value)) return entry;
+
+    const ref = entry.value;
+    const items = ref.ids
+      .map(id => this.entries.get(entityKey(ref.$refs, id))?.value)
+      .filter(item => item !== undefined);
+    return { ...entry, value: items as unknown as T };
+  }
+
+  put<T>(key: string, value: T): void {
+    this.entries.set(key, { value, fetchedAt: Date.now(), stale: false });
+    this.schedulePersist();
+    this.emit(key, 'updated');
+  }
+
+  putEntity<T extends { id: string }>(type: CacheEntityType, entity: T): void {
+    if (!entity?.id) return;
+    const key = entityKey(type, entity.id);
+    this.put(key, entity);
+
+    // Lists holding this record render from the entity, so tell them too
+    this.entries.forEach((entry, listKey) => {
+      if (isListRef(entry.value) && entry.value.$refs === type && entry.value.ids.includes(entity.id)) {
+        this.emit(listKey, 'updated');
+      }
+    });
+  }
+
+  putList<T extends { id: string }>(key: string, type: CacheEntityType, items: T[]): void {
+    const now = Date.now();
+    items.forEach(item => {
+      if (item?.id) this.entries.set(entityKey(type, item.id), { value: item, fetchedAt: now, stale: false });
+    });
+    const ref: ListRef = { $refs: type, ids: items.filter(item => item?.id).map(item => item.id) };
+    this.put(key, ref);
+  }
+
+  /**
+   * Mark entries stale and tell mounted screens to refetch them.
+   * An entity target without an id invalidates every entity of that type.
+   */
+  invalidate(...targets: CacheTarget[]): void {
+    const keys = new Set<string>();
+    const allKeys = new Set([...this.entries.keys(), ...this.listeners.keys()]);
+
+    targets.forEach(target => {
+      const prefix = 'prefix' in target
+        ? target.prefix
+        : target.id
+        ? entityKey(target.type, target.id)
+        : `${target.type}:`;
+      allKeys.forEach(key => {
+        if (key === prefix || key.startsWith(prefix)) keys.add(key);
+      });
+    });
+
+    keys.forEach(key => {
+      const entry = this.entries.get(key);
+      if (entry) entry.stale = true;
+      this.emit(key, 'invalidated');
+    });
+  }
+
+  /**
+   * Fetch a value and store it. Concurrent calls for the same key share one request.
+   */
+  revalidate<T>(key: string, fetcher: () => Promise<T>, store: (value: T) => void): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const generation = this.generation;
+    const request = fetcher()
+      .then(value => {
+        if (generation === this.generation) store(value);
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  subscribe(key: string, listener: CacheListener): () => void {
+    if (!this.listeners.has(key)) this.listeners.set(key, new Set());
+    this.listeners.get(key)!.add(listener);
+    return () => {
+      const set = this.listeners.get(key);
+      set?.delete(listener);
+      if (set && set.size === 0) this.listeners.delete(key);
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.generation += 1;
+    this.entries.clear();
+    this.inFlight.clear();
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export const entityCache = new EntityCacheService();
+
+/**
+ * Invalidate cache entries once a mutation request succeeds, passing the response through.
+ * Failed (or offline-queued) mutations leave the cache untouched.
+ */
+export function invalidateOnSuccess<T>(request: Promise<T>, ...targets: CacheTarget[]): Promise<T> {
+  return request.then(response => {
+    entityCache.invalidate(...targets);
+    return response;
+  });
+}
+
+export default entityCache;
@@ -0,0 +1,33 @@
+/**
+ * Lead Assignment Service
+ * Persists enquiry assignment rules per dealership. Rules are stored on this device only:
+ * they survive logout but are not shared with the dealership's other devices.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EnquiryAssignmentConfig, DEFAULT_ENQUIRY_ASSIGNMENT_CONFIG } from '../utils/leadAssignment';
+
+export const ASSIGNMENT_CONFIG_KEY_PREFIX = '@enquiry_assignment_config:';
+
+/**
+ * Get the dealership's assignment rules, falling back to round robin with no rules
+ */
+export async function getEnquiryAssignmentConfig(dealershipId?: string | null): Promise<EnquiryAssignmentConfig> {
+  if (!dealershipId) return DEFAULT_ENQUIRY_ASSIGNMENT_CONFIG;
+
+  try {
+    const raw = await AsyncStorage.getItem(`${ASSIGNMENT_CONFIG_KEY_PREFIX}${dealershipId}`);
+    return raw ? { ...DEFAULT_ENQUIRY_ASSIGNMENT_CONFIG, ...JSON.parse(raw) } : DEFAULT_ENQUIRY_ASSIGNMENT_CONFIG;
+  } catch (error) {
+    console.error('❌ [LeadAssignment] Failed to read assignment rules:', error);
+    return DEFAULT_ENQUIRY_ASSIGNMENT_CONFIG;
+  }
+}
+
+export async function saveEnquiryAssignmentConfig(
+  dealershipId: string,
+  config: EnquiryAssignmentConfig
+): Promise<void> {
+  await AsyncStorage.setItem(`${ASSIGNMENT_CONFIG_KEY_PREFIX}${dealershipId}`, JSON.stringify(config));
+  console.log('✅ [LeadAssignment] Saved assignment rules for dealership:', dealershipId);
+}
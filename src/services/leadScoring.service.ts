@@ -0,0 +1,50 @@
+/**
+ * Lead Scoring Service
+ * Reads and saves lead score weights in the dealership's settings on the backend, so every
+ * device at the dealership ranks enquiries the same way.
+ */
+
+import { DealershipAPI } from '../api/dealerships';
+import { DealershipSettings } from '../types/dealership';
+import { LeadScoreWeights, DEFAULT_LEAD_SCORE_WEIGHTS } from '../utils/leadScoring';
+
+const getDealershipSettings = async (dealershipId: string): Promise<DealershipSettings> => {
+  const response = await DealershipAPI.getDealership(dealershipId);
+  return response?.data?.dealership?.settings || {};
+};
+
+/**
+ * Get the dealership's weights, falling back to the defaults for any factor not set
+ */
+export async function getLeadScoreWeights(dealershipId?: string | null): Promise<LeadScoreWeights> {
+  if (!dealershipId) return DEFAULT_LEAD_SCORE_WEIGHTS;
+
+  try {
+    const { leadScoreWeights } = await getDealershipSettings(dealershipId);
+    return { ...DEFAULT_LEAD_SCORE_WEIGHTS, ...leadScoreWeights };
+  } catch (error) {
+    console.error('❌ [LeadScoring] Failed to load weights:', error);
+    return DEFAULT_LEAD_SCORE_WEIGHTS;
+  }
+}
+
+/**
+ * Save the weights to the dealership, keeping its other settings as they are
+ */
+export async function saveLeadScoreWeights(
+  dealershipId: string,
+  weights: LeadScoreWeights
+): Promise<void> {
+  const settings = await getDealershipSettings(dealershipId);
+  await DealershipAPI.updateDealership(dealershipId, {
+    settings: { ...settings, leadScoreWeights: weights },
+  });
+  console.log('✅ [LeadScoring] Saved weights for dealership:', dealershipId);
+}
+
+export async function resetLeadScoreWeights(dealershipId: string): Promise<LeadScoreWeights> {
+  const settings = { ...(await getDealershipSettings(dealershipId)) };
+  delete settings.leadScoreWeights;
+  await DealershipAPI.updateDealership(dealershipId, { settings });
+  return DEFAULT_LEAD_SCORE_WEIGHTS;
+}
@@ -0,0 +1,132 @@
+/**
+ * Notification Preferences Service
+ * Holds the signed-in user's notification preferences so the notification handler can
+ * apply them synchronously. Preferences are cached per user in AsyncStorage and synced
+ * with the server.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NotificationAPI from './NotificationAPI';
+import {
+  NotificationChannel,
+  NotificationPreferences,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isNotificationAllowed,
+  isWithinQuietHours,
+  deferPastQuietHours,
+  normalizeNotificationPreferences,
+  toServerPreferences,
+} from '../utils/notificationPreferences';
+
+const PREFERENCES_KEY_PREFIX = '@notification_preferences:';
+
+type PreferencesListener = (preferences: NotificationPreferences) => void;
+
+class NotificationPreferencesService {
+  private preferences: NotificationPreferences = DEFAULT_NOTIFICATION_PREFERENCES;
+  private userId: string | null = null;
+  private listeners = new Set<PreferencesListener>();
+
+  getPreferences(): NotificationPreferences {
+    return this.preferences;
+  }
+
+  /**
+   * Called whenever the active preferences change (user switch, server refresh or save),
+   * e.g. to reschedule local notifications
+   */
+  onChange(listener: PreferencesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emitChange(): void {
+    this.listeners.forEach(listener => listener(this.preferences));
+  }
+
+  /**
+   * Switch to a user's cached preferences. Signing out falls back to the defaults.
+   */
+  async setUser(userId: string | null): Promise<NotificationPreferences> {
+    this.userId = userId;
+    this.preferences = DEFAULT_NOTIFICATION_PREFERENCES;
+    if (!userId) return this.preferences;
+
+    try {
+      const raw = await AsyncStorage.getItem(`${PREFERENCES_KEY_PREFIX}${userId}`);
+      if (raw && this.userId === userId) {
+        this.preferences = normalizeNotificationPreferences(JSON.parse(raw));
+      }
+    } catch (error) {
+      console.error('❌ [NotificationPreferences] Failed to read cached preferences:', error);
+    }
+    this.emitChange();
+    return this.preferences;
+  }
+
+  /**
+   * Pull the server's copy, keeping the cached one if the request fails
+   */
+  async refresh(): Promise<NotificationPreferences> {
+    const userId = this.userId;
+    if (!userId) return this.preferences;
+
+    try {
+      const response = await NotificationAPI.getNotificationPreferences();
+      if (response.success && response.data && this.userId === userId) {
+        this.preferences = normalizeNotificationPreferences(response.data);
+        await this.persist(userId);
+        this.emitChange();
+      }
+    } catch (error) {
+      console.error('❌ [NotificationPreferences] Failed to load preferences from server:', error);
+    }
+    return this.preferences;
+  }
+
+  /**
+   * Save to the server first so the cached copy never claims a change the server rejected
+   */
+  async update(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const userId = this.userId;
+    if (!userId) throw new Error('Sign in to change notification preferences');
+
+    await NotificationAPI.updateNotificationPreferences(toServerPreferences(preferences));
+    this.preferences = preferences;
+    await this.persist(userId);
+    this.emitChange();
+    console.log('✅ [NotificationPreferences] Saved preferences');
+    return this.preferences;
+  }
+
+  /**
+   * Whether a notification with this data may be shown on a channel
+   */
+  isAllowed(data: unknown, channel: NotificationChannel): boolean {
+    return isNotificationAllowed(this.preferences, data, channel);
+  }
+
+  isQuietNow(date: Date = new Date()): boolean {
+    return isWithinQuietHours(this.preferences.quietHours, date);
+  }
+
+  /**
+   * When a notification scheduled for `date` may go off, moved past any quiet hours
+   */
+  deferPastQuietHours(date: Date): Date {
+    return deferPastQuietHours(this.preferences.quietHours, date);
+  }
+
+  private async persist(userId: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${PREFERENCES_KEY_PREFIX}${userId}`, JSON.stringify(this.preferences));
+    } catch (error) {
+      console.error('❌ [NotificationPreferences] Failed to cache preferences:', error);
+    }
+  }
+}
+
+export const notificationPreferences = new NotificationPreferencesService();
+export default notificationPreferences;
@@ -0,0 +1,282 @@
+/**
+ * Offline Mutation Queue
+ * Persistent outbox for enquiry, booking and remark mutations made without connectivity.
+ * Mutations that fail with a network error are stored in AsyncStorage and replayed
+ * in the order they were captured once the backend is reachable again.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AxiosResponse, Method } from 'axios';
+import { apiClient } from '../api/client';
+import { entityCache } from './entityCache.service';
+
+const STORAGE_KEY = '@offline_outbox';
+
+export type QueuedEntityType = 'enquiry' | 'booking';
+
+export type QueuedMutationStatus = 'queued' | 'failed';
+
+export interface QueuedMutation {
+  id: string;
+  entityType: QueuedEntityType;
+  entityId?: string;
+  label: string;
+  method: Method;
+  url: string;
+  data?: any;
+  status: QueuedMutationStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  lastAttemptAt?: string;
+}
+
+export interface QueueableRequest {
+  entityType: QueuedEntityType;
+  entityId?: string;
+  label: string;
+  method: Method;
+  url: string;
+  data?: any;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  failed: number;
+  remaining: number;
+}
+
+type QueueListener = (items: QueuedMutation[]) => void;
+type ReplayListener = (item: QueuedMutation) => void;
+
+/**
+ * Thrown when a mutation could not reach the backend and was stored in the outbox.
+ * Callers should treat this as "saved, pending sync" rather than a failure.
+ */
+export class QueuedMutationError extends Error {
+  readonly isQueued = true;
+  readonly mutation: QueuedMutation;
+
+  constructor(mutation: QueuedMutation) {
+    super('You are offline. The change was saved and will sync when the connection returns.');
+    this.name = 'QueuedMutationError';
+    this.mutation = mutation;
+  }
+}
+
+export const isQueuedMutationError = (error: any): error is QueuedMutationError =>
+  !!error && error.isQueued === true;
+
+const isNetworkFailure = (error: any): boolean =>
+  !!error && (error.isNetworkError === true || (!error.response && !!error.request));
+
+class OfflineQueueService {
+  private items: QueuedMutation[] = [];
+  private loaded = false;
+  private loadPromise: Promise<void> | null = null;
+  private replayPromise: Promise<ReplayResult> | null = null;
+  private listeners = new Set<QueueListener>();
+  private replayListeners = new Set<ReplayListener>();
+
+  /**
+   * Load the outbox from storage (once per app session)
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(STORAGE_KEY);
+          this.items = raw ? JSON.parse(raw) : [];
+        } catch (error) {
+          console.error('❌ [OfflineQueue] Failed to read outbox:', error);
+          this.items = [];
+        } finally {
+          this.loaded = true;
+        }
+      })();
+    }
+    await this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('❌ [OfflineQueue] Failed to persist outbox:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    const snapshot = [...this.items];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  /**
+   * Subscribe to outbox changes. The listener is called immediately with the current items.
+   */
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    this.ensureLoaded().then(() => listener([...this.items]));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Be told when a queued mutation has reached the backend, for side effects that need
+   * the server to have the change first
+   */
+  onReplayed(listener: ReplayListener): () => void {
+    this.replayListeners.add(listener);
+    return () => {
+      this.replayListeners.delete(listener);
+    };
+  }
+
+  async getItems(entityType?: QueuedEntityType): Promise<QueuedMutation[]> {
+    await this.ensureLoaded();
+    return entityType ? this.items.filter(item => item.entityType === entityType) : [...this.items];
+  }
+
+  async enqueue(request: QueueableRequest): Promise<QueuedMutation> {
+    await this.ensureLoaded();
+    const mutation: QueuedMutation = {
+      ...request,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      status: 'queued',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+    this.items.push(mutation);
+    await this.persist();
+    console.log('📥 [OfflineQueue] Queued mutation:', mutation.label);
+    return mutation;
+  }
+
+  /**
+   * Send a mutation to the backend, storing it in the outbox if the device is offline.
+   * Earlier queued or rejected mutations are kept ahead of this one so replay order is preserved.
+   * T is the response body. Resolves only once the backend has the change; a queued
+   * mutation rejects with QueuedMutationError, which callers check with isQueuedMutationError.
+   */
+  async runOrEnqueue<T>(request: QueueableRequest): Promise<AxiosResponse<T>> {
+    await this.ensureLoaded();
+
+    if (this.items.length > 0) {
+      const mutation = await this.enqueue(request);
+      this.replay().catch(() => undefined);
+      throw new QueuedMutationError(mutation);
+    }
+
+    try {
+      return await apiClient.request<T>({
+        method: request.method,
+        url: request.url,
+        data: request.data,
+      });
+    } catch (error: any) {
+      if (isNetworkFailure(error)) {
+        const mutation = await this.enqueue(request);
+        throw new QueuedMutationError(mutation);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replay queued mutations in order.
+   * Stops at the first network failure (still offline) and at the first server rejection,
+   * which is marked failed. Later mutations may build on the rejected one, so they wait
+   * until the user retries or discards it.
+   */
+  async replay(): Promise<ReplayResult> {
+    if (this.replayPromise) return this.replayPromise;
+
+    this.replayPromise = (async () => {
+      await this.ensureLoaded();
+      let replayed = 0;
+      let failed = 0;
+
+      for (const item of [...this.items]) {
+        if (item.status === 'failed') break;
+
+        item.attempts += 1;
+        item.lastAttemptAt = new Date().toISOString();
+
+        try {
+          await apiClient.request({ method: item.method, url: item.url, data: item.data });
+          this.items = this.items.filter(existing => existing.id !== item.id);
+          replayed += 1;
+          entityCache.invalidate(
+            ...(item.entityId ? [{ type: item.entityType, id: item.entityId }] : []),
+            { prefix: `list:${item.entityType}` },
+            { prefix: 'remarks' },
+            { prefix: 'dashboard' }
+          );
+          await this.persist();
+          this.replayListeners.forEach(listener => listener(item));
+        } catch (error: any) {
+          if (isNetworkFailure(error)) {
+            await this.persist();
+            break;
+          }
+          item.status = 'failed';
+          item.lastError = error?.message || 'Request was rejected by the server';
+          failed += 1;
+          await this.persist();
+          break;
+        }
+      }
+
+      if (replayed > 0 || failed > 0) {
+        console.log('🔁 [OfflineQueue] Replay finished:', { replayed, failed });
+      }
+
+      return {
+        replayed,
+        failed,
+        remaining: this.items.length,
+      };
+    })();
+
+    try {
+      return await this.replayPromise;
+    } finally {
+      this.replayPromise = null;
+    }
+  }
+
+  /**
+   * Put a failed mutation back in the queue and attempt replay
+   */
+  async retry(id: string): Promise<ReplayResult> {
+    await this.ensureLoaded();
+    const item = this.items.find(existing => existing.id === id);
+    if (item) {
+      item.status = 'queued';
+      item.lastError = undefined;
+      await this.persist();
+    }
+    return this.replay();
+  }
+
+  async discard(id: string): Promise<void> {
+    await this.ensureLoaded();
+    this.items = this.items.filter(existing => existing.id !== id);
+    await this.persist();
+  }
+
+  /**
+   * Remove everything from the outbox (used on logout)
+   */
+  async clear(): Promise<void> {
+    await this.ensureLoaded();
+    this.items = [];
+    await this.persist();
+  }
+}
+
+export const offlineQueue = new OfflineQueueService();
+export default offlineQueue;
@@ -3,13 +3,13 @@
  * Handles all quotation-related API operations
  */
 
-import { apiClient, handleApiCall } from '../api/client';
+import { apiClient, handleApiCall, fetchAllPages, PaginatedResponse } from '../api/client';
+import { quotationListSchema, quotationDetailSchema } from '../api/contracts';
 import {
   CreateQuotationRequest,
   UpdateQuotationRequest,
   Quotation,
   QuotationStatus,
-  PaginatedQuotationsResponse,
 } from './types';
 
 /**
@@ -18,27 +18,20 @@ import {
 export async function getQuotations(
   page: number = 1,
   limit: number = 100
-): Promise<{ quotations: Quotation[]; pagination: any }> {
+): Promise<PaginatedResponse<Quotation>> {
   const params = {
     page,
     limit,
   };
   
-  const response = await handleApiCall(() =>
-    apiClient.get<PaginatedQuotationsResponse['data']>('/quotations', { params })
-  );
-  
-  return response;
+  return handleApiCall(() => apiClient.get('/quotations', { params }), quotationListSchema);
 }
 
 /**
  * Get single quotation by ID
  */
 export async function getQuotationById(id: string): Promise<Quotation> {
-  const response = await handleApiCall(() =>
-    apiClient.get<{ quotation: Quotation }>(`/quotations/${id}`)
-  );
-  return response.quotation;
+  return handleApiCall(() => apiClient.get(`/quotations/${id}`), quotationDetailSchema);
 }
 
 /**
@@ -47,11 +40,7 @@ export async function getQuotationById(id: string): Promise<Quotation> {
 export async function createQuotation(
   data: CreateQuotationRequest
 ): Promise<Quotation> {
-  const response = await handleApiCall(() =>
-    apiClient.post<{ quotation: Quotation }>('/quotations', data)
-  );
-  
-  return response.quotation;
+  return handleApiCall(() => apiClient.post('/quotations', data), quotationDetailSchema);
 }
 
 /**
@@ -61,11 +50,7 @@ export async function updateQuotation(
   id: string,
   data: UpdateQuotationRequest
 ): Promise<Quotation> {
-  const response = await handleApiCall(() =>
-    apiClient.put<{ quotation: Quotation }>(`/quotations/${id}`, data)
-  );
-  
-  return response.quotation;
+  return handleApiCall(() => apiClient.put(`/quotations/${id}`, data), quotationDetailSchema);
 }
 
 /**
@@ -84,8 +69,7 @@ export async function updateQuotationStatus(
 export async function getQuotationsByStatus(
   status: QuotationStatus
 ): Promise<Quotation[]> {
-  const response = await getQuotations(1, 1000);
-  const quotations = response.quotations || [];
+  const { items: quotations } = await fetchAllPages(getQuotations);
   return quotations.filter(q => q.status === status);
 }
 
@@ -100,16 +84,15 @@ export async function getQuotationsStats(): Promise<{
   rejected: number;
   totalValue: number;
 }> {
-  const response = await getQuotations(1, 1000);
-  const quotations = response.quotations || [];
+  const { items: quotations } = await fetchAllPages(getQuotations);
   
   return {
     total: quotations.length,
-    pending: quotations.filter(q => q.status === QuotationStatus.PENDING).length,
-    sent: quotations.filter(q => q.status === QuotationStatus.SENT).length,
-    accepted: quotations.filter(q => q.status === QuotationStatus.ACCEPTED).length,
-    rejected: quotations.filter(q => q.status === QuotationStatus.REJECTED).length,
-    totalValue: quotations.reduce((sum, q) => sum + q.amount, 0),
+    pending: quotations.filter(q => q.status === 'PENDING').length,
+    sent: quotations.filter(q => q.status === 'SENT').length,
+    accepted: quotations.filter(q => q.status === 'ACCEPTED').length,
+    rejected: quotations.filter(q => q.status === 'REJECTED').length,
+    totalValue: quotations.reduce((sum, q) => sum + (q.amount ?? q.totalAmount ?? 0), 0),
   };
 }
 
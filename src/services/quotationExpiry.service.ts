@@ -0,0 +1,100 @@
+/**
+ * Quotation Expiry Service
+ * Marks lapsed quotations EXPIRED, lists the ones expiring this week and renews a
+ * quotation as a fresh copy priced from the current catalog
+ */
+
+import QuotationsAPI, { Quotation } from '../api/quotations';
+import { CatalogData } from '../types/catalog';
+import {
+  QUOTATION_EXPIRY_WARNING_DAYS,
+  getQuotationExpiryState,
+  getRenewalValidUntil,
+  isQuotationLapsed,
+  repriceQuotation,
+} from '../utils/quotationExpiry';
+
+// Quotations with an EXPIRED update in flight, so re-renders do not send it twice
+const expiring = new Set<string>();
+
+/**
+ * Move every lapsed quotation in the list to EXPIRED.
+ * Returns the quotations that were updated; failures are logged and retried next time.
+ */
+export async function expireLapsedQuotations(quotations: Quotation[], now: Date = new Date()): Promise<Quotation[]> {
+  const lapsed = quotations.filter(quotation => isQuotationLapsed(quotation, now) && !expiring.has(quotation.id));
+  if (lapsed.length === 0) return [];
+
+  lapsed.forEach(quotation => expiring.add(quotation.id));
+  const results = await Promise.allSettled(
+    lapsed.map(quotation => QuotationsAPI.updateQuotation(quotation.id, { status: 'EXPIRED' }))
+  );
+  lapsed.forEach(quotation => expiring.delete(quotation.id));
+
+  const expired: Quotation[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      expired.push({ ...lapsed[index], ...result.value, status: 'EXPIRED' });
+    } else {
+      console.error('❌ [QuotationExpiry] Failed to expire quotation:', lapsed[index].id, result.reason);
+    }
+  });
+  if (expired.length > 0) {
+    console.log(`✅ [QuotationExpiry] Marked ${expired.length} quotation(s) as expired`);
+  }
+  return expired;
+}
+
+/**
+ * Open quotations lapsing within the warning window, soonest first
+ */
+export async function getQuotationsExpiringThisWeek(now: Date = new Date()): Promise<Quotation[]> {
+  const quotations = (await QuotationsAPI.getExpiringQuotations(QUOTATION_EXPIRY_WARNING_DAYS)) || [];
+
+  // Anything already past validUntil is expired rather than expiring
+  expireLapsedQuotations(quotations, now).catch(() => undefined);
+
+  return quotations
+    .filter(quotation => getQuotationExpiryState(quotation, now) === 'expiring')
+    .sort((a, b) => new Date(a.validUntil).getTime() - new Date(b.validUntil).getTime());
+}
+
+export interface QuotationRenewal {
+  quotation: Quotation;
+  // False when the vehicle is no longer in the catalog and the old price was kept
+  priceRefreshed: boolean;
+}
+
+/**
+ * Renew a quotation: duplicate it, reprice the copy from the catalog and give it a new
+ * validity period. The copied PDF link is cleared because that PDF shows the old price
+ * and validity. The original is left as it is and lapses on its own date.
+ */
+export async function renewQuotation(
+  quotation: Quotation,
+  catalog: CatalogData | null,
+  dealerState?: string
+): Promise<QuotationRenewal> {
+  const copy = await QuotationsAPI.duplicateQuotation(quotation.id);
+  const pricing = repriceQuotation(quotation, catalog, dealerState);
+  const breakdown = pricing
+    ? {
+        amount: pricing.totalAmount,
+        items: pricing.items,
+        subtotal: pricing.subtotal,
+        taxAmount: pricing.taxAmount,
+        discountAmount: pricing.discountAmount,
+        totalAmount: pricing.totalAmount,
+      }
+    : {};
+
+  const renewed = await QuotationsAPI.updateQuotation(copy.id, {
+    status: 'DRAFT',
+    validUntil: getRenewalValidUntil(quotation),
+    pdfUrl: null,
+    ...breakdown,
+  });
+
+  console.log('✅ [QuotationExpiry] Renewed quotation', quotation.id, 'as', copy.id);
+  return { quotation: { ...copy, ...breakdown, ...renewed, pdfUrl: undefined }, priceRefreshed: !!pricing };
+}
@@ -0,0 +1,75 @@
+/**
+ * Quotation PDF Service
+ * Renders quotations to PDF on-device and hands them to the system share sheet
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Quotation } from '../api/quotations';
+import { Dealership } from '../context/DealershipContext';
+import { renderQuotationPdf, QuotationLetterhead } from '../utils/quotationPdf';
+
+export const DEFAULT_QUOTATION_TERMS = [
+  'Prices are ex-showroom plus statutory charges as applicable on the date of invoicing.',
+  'Registration, insurance and accessories are charged at actuals.',
+  'Delivery is subject to stock availability and realisation of full payment.',
+  'This quotation does not constitute a booking or a reservation of any vehicle.',
+].join('\n');
+
+/**
+ * Build the letterhead from the current dealership
+ */
+export function getLetterhead(dealership: Dealership | null): QuotationLetterhead {
+  if (!dealership) {
+    return { name: 'MotorSync' };
+  }
+
+  return {
+    name: dealership.name,
+    address: dealership.address,
+    city: dealership.city,
+    state: dealership.state,
+    pincode: dealership.pincode,
+    phone: dealership.phone,
+    email: dealership.email,
+    gstNumber: dealership.gstNumber || undefined,
+    panNumber: dealership.panNumber || undefined,
+  };
+}
+
+/**
+ * Render a quotation to a PDF file in the cache directory
+ */
+export function writeQuotationPdf(quotation: Quotation, letterhead: QuotationLetterhead): string {
+  const safeNumber = quotation.quotationNumber.replace(/[^A-Za-z0-9-_]/g, '_');
+  const file = new File(Paths.cache, `quotation_${safeNumber}.pdf`);
+
+  file.create({ overwrite: true });
+  file.write(renderQuotationPdf(quotation, letterhead));
+
+  console.log('💾 Quotation PDF written to:', file.uri);
+  return file.uri;
+}
+
+/**
+ * Render a quotation to PDF and open the share sheet
+ */
+export async function shareQuotationPdf(
+  quotation: Quotation,
+  letterhead: QuotationLetterhead
+): Promise<string> {
+  const fileUri = writeQuotationPdf(quotation, letterhead);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(fileUri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: `Share Quotation ${quotation.quotationNumber}`,
+  });
+
+  console.log('✅ Quotation PDF shared:', quotation.quotationNumber);
+  return fileUri;
+}
@@ -0,0 +1,585 @@
+/**
+ * Follow-up Reminder Scheduler
+ * Schedules local notifications for enquiry follow-ups (nextFollowUpDate) and booking
+ * deliveries (expectedDeliveryDate), plus a daily digest at shift start.
+ *
+ * Scheduled reminders are tracked in AsyncStorage so they can be rescheduled or
+ * cancelled when the underlying enquiry or booking changes, and so the digest can
+ * count what is due on a given day without refetching.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isQueuedMutationError } from './offlineQueue.service';
+import notificationPreferences from './notificationPreferences.service';
+import { getEnquiryOwnerId } from '../utils/teamPerformance';
+import { NotificationPayload, NOTIFICATION_CATEGORIES } from '../utils/notificationRouting';
+import {
+  Enquiry,
+  EnquiryCategory,
+  EnquiryStatus,
+  Booking,
+  BookingStatus,
+  UpdateEnquiryRequest,
+} from './types';
+
+// Conditionally import expo-notifications to avoid crashes in development builds
+let Notifications: any = null;
+
+try {
+  Notifications = require('expo-notifications');
+} catch (error: any) {
+  console.log('⚠️ expo-notifications not available:', error.message);
+}
+
+const REGISTRY_KEY = '@reminders';
+const SETTINGS_KEY_PREFIX = '@reminder_settings:';
+
+// How many days of digests to keep scheduled ahead
+const DIGEST_DAYS_AHEAD = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dealerships operate on India Standard Time (UTC+5:30)
+const DEALERSHIP_UTC_OFFSET_MINUTES = 330;
+
+export type ReminderEntityType = 'enquiry' | 'booking';
+
+export interface ReminderSettings {
+  enabled: boolean;
+  leadTimeMinutes: number;
+  dailyDigest: boolean;
+  shiftStartHour: number;
+  shiftStartMinute: number;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  leadTimeMinutes: 60,
+  dailyDigest: true,
+  shiftStartHour: 9,
+  shiftStartMinute: 30,
+};
+
+export const LEAD_TIME_OPTIONS = [15, 30, 60, 120, 24 * 60];
+
+export interface TrackedReminder {
+  key: string;
+  entityType: ReminderEntityType;
+  entityId: string;
+  customerName: string;
+  // Date as stored on the entity, and the moment it resolves to under current settings
+  dueDate: string;
+  dueAt: string;
+  notificationId?: string;
+}
+
+export interface ReminderSource {
+  id: string;
+  customerName: string;
+  dueDate: string;
+}
+
+const CLOSED_ENQUIRY_CATEGORIES: string[] = [EnquiryCategory.LOST, EnquiryCategory.BOOKED];
+const CLOSED_ENQUIRY_STATUSES: string[] = [EnquiryStatus.CONVERTED, EnquiryStatus.CLOSED];
+const CLOSED_BOOKING_STATUSES: string[] = [
+  BookingStatus.DELIVERED,
+  BookingStatus.CANCELLED,
+  BookingStatus.REJECTED,
+];
+
+const reminderKey = (entityType: ReminderEntityType, entityId: string) => `${entityType}:${entityId}`;
+
+const digestKey = (date: Date) =>
+  `digest:${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+export function formatLeadTime(minutes: number): string {
+  if (minutes >= 24 * 60) return `${Math.round(minutes / (24 * 60))} day before`;
+  if (minutes >= 60) return `${Math.round(minutes / 60)}h before`;
+  return `${minutes} min before`;
+}
+
+export function formatShiftStart(settings: ReminderSettings): string {
+  const hour12 = settings.shiftStartHour % 12 || 12;
+  const suffix = settings.shiftStartHour < 12 ? 'AM' : 'PM';
+  return `${hour12}:${String(settings.shiftStartMinute).padStart(2, '0')} ${suffix}`;
+}
+
+export function isEnquiryOpen(enquiry: Pick<Enquiry, 'category' | 'status'>): boolean {
+  return (
+    !CLOSED_ENQUIRY_CATEGORIES.includes(enquiry.category) &&
+    !CLOSED_ENQUIRY_STATUSES.includes(enquiry.status)
+  );
+}
+
+export function isBookingOpen(booking: Pick<Booking, 'status'>): boolean {
+  return !CLOSED_BOOKING_STATUSES.includes(booking.status);
+}
+
+/**
+ * Resolve a follow-up/delivery date to the moment it is due.
+ * Date-only values are due at shift start on that day; values with a time of day are used
+ * as-is. Besides plain dates, midnight timestamps count as date-only: midnight UTC (how the
+ * backend stores dates) and midnight in the dealership's timezone (how date pickers save
+ * them, e.g. 18:30 UTC the day before in IST).
+ */
+export function resolveDueDate(value: string, settings: ReminderSettings): Date | null {
+  const calendarDate = getCalendarDate(value);
+
+  if (calendarDate) {
+    const [year, month, day] = calendarDate;
+    const due = new Date(year, month - 1, day, settings.shiftStartHour, settings.shiftStartMinute);
+    return isNaN(due.getTime()) ? null : due;
+  }
+
+  const due = new Date(value);
+  return isNaN(due.getTime()) ? null : due;
+}
+
+/**
+ * The [year, month, day] a date-only value stands for, or null when it has a time of day
+ */
+function getCalendarDate(value: string): [number, number, number] | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return [year, month, day];
+  }
+
+  const timestamp = new Date(value).getTime();
+  if (isNaN(timestamp)) return null;
+
+  for (const offsetMinutes of [0, DEALERSHIP_UTC_OFFSET_MINUTES]) {
+    // Shift into the zone so its wall-clock time reads from the UTC fields
+    const zoned = new Date(timestamp + offsetMinutes * 60 * 1000);
+    const isMidnight =
+      zoned.getUTCHours() === 0 &&
+      zoned.getUTCMinutes() === 0 &&
+      zoned.getUTCSeconds() === 0 &&
+      zoned.getUTCMilliseconds() === 0;
+    if (isMidnight) {
+      return [zoned.getUTCFullYear(), zoned.getUTCMonth() + 1, zoned.getUTCDate()];
+    }
+  }
+  return null;
+}
+
+/**
+ * Run a mutation and apply its reminder side effect once it succeeds or is queued offline.
+ * Reminder failures are logged and never fail the mutation.
+ */
+export async function afterMutation<T>(mutation: Promise<T>, apply: () => Promise<void>): Promise<T> {
+  const runApply = () =>
+    apply().catch(error => console.error('❌ [Reminders] Failed to update reminder:', error));
+
+  try {
+    const result = await mutation;
+    runApply();
+    return result;
+  } catch (error) {
+    if (isQueuedMutationError(error)) {
+      runApply();
+    }
+    throw error;
+  }
+}
+
+class ReminderScheduler {
+  private reminders: Record<string, TrackedReminder> = {};
+  private settings: ReminderSettings = DEFAULT_REMINDER_SETTINGS;
+  private userId: string | null = null;
+  private loaded = false;
+  private loadPromise: Promise<void> | null = null;
+
+  private get available(): boolean {
+    return !!Notifications?.scheduleNotificationAsync && !!Notifications?.cancelScheduledNotificationAsync;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(REGISTRY_KEY);
+          const stored = raw ? JSON.parse(raw) : null;
+          this.reminders = stored?.reminders || {};
+          this.userId = stored?.userId || null;
+        } catch (error) {
+          console.error('❌ [Reminders] Failed to read reminders:', error);
+          this.reminders = {};
+        } finally {
+          this.loaded = true;
+        }
+      })();
+    }
+    await this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        REGISTRY_KEY,
+        JSON.stringify({ userId: this.userId, reminders: this.reminders })
+      );
+    } catch (error) {
+      console.error('❌ [Reminders] Failed to persist reminders:', error);
+    }
+  }
+
+  private async cancelNotification(identifier?: string): Promise<void> {
+    if (!identifier || !this.available) return;
+    try {
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+    } catch (error) {
+      console.error('❌ [Reminders] Failed to cancel notification:', error);
+    }
+  }
+
+  private async scheduleAt(identifier: string, date: Date, content: {
+    title: string;
+    body: string;
+    data: NotificationPayload;
+    categoryIdentifier?: string;
+  }): Promise<string | undefined> {
+    if (!this.available || date.getTime() <= Date.now()) return undefined;
+    // Categories the user switched off are not scheduled; quiet hours push the alert back
+    if (!notificationPreferences.isAllowed(content.data, 'push')) return undefined;
+    const fireAt = notificationPreferences.deferPastQuietHours(date);
+    try {
+      return await Notifications.scheduleNotificationAsync({
+        identifier,
+        content: { ...content, sound: 'default' },
+        trigger: { type: Notifications.SchedulableTriggerInputTypes?.DATE ?? 'date', date: fireAt },
+      });
+    } catch (error) {
+      console.error('❌ [Reminders] Failed to schedule notification:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Switch to a user's settings. Reminders left behind by a different user are cleared.
+   */
+  async setUser(userId: string | null): Promise<ReminderSettings> {
+    await this.ensureLoaded();
+    if (this.userId && this.userId !== userId) {
+      await this.clearAll();
+    }
+    this.userId = userId;
+    this.settings = DEFAULT_REMINDER_SETTINGS;
+
+    if (userId) {
+      try {
+        const raw = await AsyncStorage.getItem(`${SETTINGS_KEY_PREFIX}${userId}`);
+        this.settings = raw ? { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(raw) } : DEFAULT_REMINDER_SETTINGS;
+      } catch (error) {
+        console.error('❌ [Reminders] Failed to read reminder settings:', error);
+      }
+    }
+    return this.settings;
+  }
+
+  getSettings(): ReminderSettings {
+    return this.settings;
+  }
+
+  /**
+   * Save the current user's settings and reschedule everything against them
+   */
+  async updateSettings(changes: Partial<ReminderSettings>): Promise<ReminderSettings> {
+    await this.ensureLoaded();
+    this.settings = { ...this.settings, ...changes };
+    if (this.userId) {
+      await AsyncStorage.setItem(`${SETTINGS_KEY_PREFIX}${this.userId}`, JSON.stringify(this.settings));
+    }
+    await this.rescheduleAll();
+    return this.settings;
+  }
+
+  /**
+   * Reschedule every tracked reminder and digest, e.g. after notification preferences change
+   */
+  async rescheduleAll(): Promise<void> {
+    await this.ensureLoaded();
+    for (const reminder of Object.values(this.reminders)) {
+      await this.schedule(reminder.entityType, {
+        id: reminder.entityId,
+        customerName: reminder.customerName,
+        dueDate: reminder.dueDate,
+      }, false);
+    }
+    await this.persist();
+    await this.scheduleDigests();
+  }
+
+  async getReminders(): Promise<TrackedReminder[]> {
+    await this.ensureLoaded();
+    return Object.values(this.reminders);
+  }
+
+  isTracked(entityType: ReminderEntityType, entityId: string): boolean {
+    return !!this.reminders[reminderKey(entityType, entityId)];
+  }
+
+  /**
+   * Create or reschedule the reminder for an enquiry follow-up or booking delivery
+   */
+  private async schedule(
+    entityType: ReminderEntityType,
+    source: ReminderSource,
+    persist = true
+  ): Promise<void> {
+    await this.ensureLoaded();
+    const key = reminderKey(entityType, source.id);
+    const existing = this.reminders[key];
+    await this.cancelNotification(existing?.notificationId);
+
+    const due = resolveDueDate(source.dueDate, this.settings);
+    if (!due || due.getTime() < Date.now() - DAY_MS) {
+      delete this.reminders[key];
+      if (persist) await this.persist();
+      return;
+    }
+
+    const triggerAt = new Date(due.getTime() - this.settings.leadTimeMinutes * 60 * 1000);
+    const isEnquiry = entityType === 'enquiry';
+    const notificationId = this.settings.enabled
+      ? await this.scheduleAt(key, triggerAt, {
+          title: isEnquiry ? '📞 Follow-up due' : '🚗 Delivery due',
+          body: isEnquiry
+            ? `Follow up with ${source.customerName} by ${due.toLocaleString('en-IN', {
+                day: 'numeric',
+                month: 'short',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}`
+            : `${source.customerName}'s delivery is expected on ${due.toLocaleDateString('en-IN')}`,
+          data: {
+            type: isEnquiry ? 'follow_up_reminder' : 'delivery_reminder',
+            entityType,
+            entityId: source.id,
+          },
+          categoryIdentifier: NOTIFICATION_CATEGORIES[entityType],
+        })
+      : undefined;
+
+    this.reminders[key] = {
+      key,
+      entityType,
+      entityId: source.id,
+      customerName: source.customerName,
+      dueDate: source.dueDate,
+      dueAt: due.toISOString(),
+      notificationId,
+    };
+    if (persist) await this.persist();
+  }
+
+  async cancel(entityType: ReminderEntityType, entityId: string): Promise<void> {
+    await this.ensureLoaded();
+    const key = reminderKey(entityType, entityId);
+    const existing = this.reminders[key];
+    if (!existing) return;
+
+    await this.cancelNotification(existing.notificationId);
+    delete this.reminders[key];
+    await this.persist();
+    await this.scheduleDigests();
+    console.log('🔕 [Reminders] Cancelled reminder:', key);
+  }
+
+  /**
+   * Reminders are personal: enquiries belong to their assignee (or creator when
+   * unassigned), bookings to their advisor
+   */
+  private ownsEnquiry(enquiry: Enquiry): boolean {
+    return !!this.userId && getEnquiryOwnerId(enquiry) === this.userId;
+  }
+
+  private ownsBooking(booking: Booking): boolean {
+    return !!this.userId && booking.advisorId === this.userId;
+  }
+
+  /**
+   * Bring one enquiry's reminder in line with its current state
+   */
+  async syncEnquiry(enquiry: Enquiry): Promise<void> {
+    if (!this.ownsEnquiry(enquiry) || !isEnquiryOpen(enquiry) || !enquiry.nextFollowUpDate) {
+      await this.cancel('enquiry', enquiry.id);
+      return;
+    }
+    await this.schedule('enquiry', {
+      id: enquiry.id,
+      customerName: enquiry.customerName,
+      dueDate: enquiry.nextFollowUpDate,
+    });
+    await this.scheduleDigests();
+  }
+
+  async syncBooking(booking: Booking): Promise<void> {
+    if (!this.ownsBooking(booking) || !isBookingOpen(booking) || !booking.expectedDeliveryDate) {
+      await this.cancel('booking', booking.id);
+      return;
+    }
+    await this.schedule('booking', {
+      id: booking.id,
+      customerName: booking.customerName,
+      dueDate: booking.expectedDeliveryDate,
+    });
+    await this.scheduleDigests();
+  }
+
+  /**
+   * Apply a partial enquiry update. Closing changes cancel the reminder; a new follow-up
+   * date reschedules it if this device is tracking the enquiry.
+   */
+  async applyEnquiryUpdate(enquiryId: string, changes: UpdateEnquiryRequest): Promise<void> {
+    await this.ensureLoaded();
+    const closing =
+      (changes.category && CLOSED_ENQUIRY_CATEGORIES.includes(changes.category)) ||
+      (changes.status && CLOSED_ENQUIRY_STATUSES.includes(changes.status));
+
+    if (closing) {
+      await this.cancel('enquiry', enquiryId);
+      return;
+    }
+
+    const existing = this.reminders[reminderKey('enquiry', enquiryId)];
+    if (existing && changes.nextFollowUpDate) {
+      await this.schedule('enquiry', {
+        id: enquiryId,
+        customerName: changes.customerName || existing.customerName,
+        dueDate: changes.nextFollowUpDate,
+      });
+      await this.scheduleDigests();
+    }
+  }
+
+  async applyBookingUpdate(
+    bookingId: string,
+    changes: { status?: BookingStatus; expectedDeliveryDate?: string; customerName?: string }
+  ): Promise<void> {
+    await this.ensureLoaded();
+    if (changes.status && CLOSED_BOOKING_STATUSES.includes(changes.status)) {
+      await this.cancel('booking', bookingId);
+      return;
+    }
+
+    const existing = this.reminders[reminderKey('booking', bookingId)];
+    if (existing && changes.expectedDeliveryDate) {
+      await this.schedule('booking', {
+        id: bookingId,
+        customerName: changes.customerName || existing.customerName,
+        dueDate: changes.expectedDeliveryDate,
+      });
+      await this.scheduleDigests();
+    }
+  }
+
+  /**
+   * Reconcile reminders with the full lists of enquiries and bookings visible to the user.
+   * Only the user's own open items are scheduled; tracked reminders for anything else
+   * are cancelled. Pass complete: false when the lists were cut short, so reminders for
+   * items that simply were not fetched are kept.
+   */
+  async reconcile(enquiries: Enquiry[], bookings: Booking[], { complete = true } = {}): Promise<void> {
+    await this.ensureLoaded();
+    const wanted = new Set<string>();
+
+    for (const enquiry of enquiries) {
+      if (this.ownsEnquiry(enquiry) && isEnquiryOpen(enquiry) && enquiry.nextFollowUpDate) {
+        wanted.add(reminderKey('enquiry', enquiry.id));
+        const existing = this.reminders[reminderKey('enquiry', enquiry.id)];
+        if (existing?.dueDate !== enquiry.nextFollowUpDate || existing.customerName !== enquiry.customerName) {
+          await this.schedule('enquiry', {
+            id: enquiry.id,
+            customerName: enquiry.customerName,
+            dueDate: enquiry.nextFollowUpDate,
+          }, false);
+        }
+      }
+    }
+
+    for (const booking of bookings) {
+      if (this.ownsBooking(booking) && isBookingOpen(booking) && booking.expectedDeliveryDate) {
+        wanted.add(reminderKey('booking', booking.id));
+        const existing = this.reminders[reminderKey('booking', booking.id)];
+        if (existing?.dueDate !== booking.expectedDeliveryDate || existing.customerName !== booking.customerName) {
+          await this.schedule('booking', {
+            id: booking.id,
+            customerName: booking.customerName,
+            dueDate: booking.expectedDeliveryDate,
+          }, false);
+        }
+      }
+    }
+
+    for (const reminder of complete ? Object.values(this.reminders) : []) {
+      if (!wanted.has(reminder.key)) {
+        await this.cancelNotification(reminder.notificationId);
+        delete this.reminders[reminder.key];
+      }
+    }
+
+    await this.persist();
+    await this.scheduleDigests();
+    console.log(`⏰ [Reminders] Tracking ${Object.keys(this.reminders).length} reminders`);
+  }
+
+  /**
+   * Schedule one digest per upcoming day at shift start, summarising what is due that day
+   */
+  async scheduleDigests(): Promise<void> {
+    if (!this.available) return;
+    await this.ensureLoaded();
+
+    const reminders = Object.values(this.reminders);
+    const start = new Date();
+    start.setHours(this.settings.shiftStartHour, this.settings.shiftStartMinute, 0, 0);
+
+    for (let offset = 0; offset < DIGEST_DAYS_AHEAD; offset++) {
+      const day = new Date(start.getTime() + offset * DAY_MS);
+      day.setHours(this.settings.shiftStartHour, this.settings.shiftStartMinute, 0, 0);
+      const identifier = digestKey(day);
+      await this.cancelNotification(identifier);
+
+      if (!this.settings.enabled || !this.settings.dailyDigest) continue;
+
+      const dueThatDay = reminders.filter(reminder => isSameDay(new Date(reminder.dueAt), day));
+      const followUps = dueThatDay.filter(reminder => reminder.entityType === 'enquiry').length;
+      const deliveries = dueThatDay.length - followUps;
+      if (dueThatDay.length === 0) continue;
+
+      const parts = [
+        followUps > 0 ? `${followUps} follow-up${followUps === 1 ? '' : 's'}` : null,
+        deliveries > 0 ? `${deliveries} deliver${deliveries === 1 ? 'y' : 'ies'}` : null,
+      ].filter(Boolean);
+
+      await this.scheduleAt(identifier, day, {
+        title: '☀️ Today\'s plan',
+        body: `You have ${parts.join(' and ')} due today.`,
+        data: { type: 'daily_digest' },
+      });
+    }
+  }
+
+  /**
+   * Cancel every scheduled reminder and digest (used on logout)
+   */
+  async clearAll(): Promise<void> {
+    await this.ensureLoaded();
+    for (const reminder of Object.values(this.reminders)) {
+      await this.cancelNotification(reminder.notificationId);
+    }
+    const today = new Date();
+    for (let offset = 0; offset < DIGEST_DAYS_AHEAD; offset++) {
+      await this.cancelNotification(digestKey(new Date(today.getTime() + offset * DAY_MS)));
+    }
+    this.reminders = {};
+    await this.persist();
+  }
+}
+
+export const reminderScheduler = new ReminderScheduler();
+export default reminderScheduler;
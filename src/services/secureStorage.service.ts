@@ -0,0 +1,187 @@
+/**
+ * Secure Storage
+ * Keeps credentials and the signed-in profile in the device keychain/keystore
+ * (expo-secure-store) instead of plain AsyncStorage. Values written by older builds
+ * to AsyncStorage are moved across on first read and the plaintext copy is removed.
+ *
+ * The keystore rejects large values on some devices, so values are stored in chunks.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Conditionally import expo-secure-store; web and some development builds do not ship it
+let SecureStore: any = null;
+
+try {
+  SecureStore = require('expo-secure-store');
+} catch (error: any) {
+  console.log('⚠️ expo-secure-store not available:', error.message);
+}
+
+/**
+ * Keys that hold credentials or personal data and must never sit in plain storage
+ */
+export const SECURE_KEYS = {
+  authToken: '@auth_token',
+  authUser: '@auth_user',
+  userProfile: 'userProfile',
+  firebaseToken: 'firebaseToken',
+} as const;
+
+// Cleared together whenever the session ends
+const CREDENTIAL_KEYS = Object.values(SECURE_KEYS);
+
+// Characters per chunk; stays under the 2048 byte keystore limit even for 4-byte characters
+const CHUNK_CHARS = 500;
+
+// Secure store keys may only contain letters, digits, ".", "-" and "_"
+const toStoreKey = (key: string) => key.replace(/[^A-Za-z0-9._-]/g, '_');
+
+class SecureStorage {
+  private available: boolean | null = null;
+  // Chunked writes to the same key must not interleave, so every operation runs in turn
+  private queue: Promise<unknown> = Promise.resolve();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.enqueue(async () => {
+      if (!(await this.isAvailable())) {
+        return AsyncStorage.getItem(key);
+      }
+
+      const value = await this.readSecure(key);
+      if (value !== null) return value;
+      return this.migrateLegacy(key);
+    });
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    return this.enqueue(async () => {
+      if (!(await this.isAvailable())) {
+        await AsyncStorage.setItem(key, value);
+        return;
+      }
+      await this.writeSecure(key, value);
+      // Drop any plaintext copy an older build left behind
+      await AsyncStorage.removeItem(key);
+    });
+  }
+
+  async removeItem(key: string): Promise<void> {
+    return this.enqueue(async () => {
+      await AsyncStorage.removeItem(key);
+      if (await this.isAvailable()) {
+        await this.removeSecure(key);
+      }
+    });
+  }
+
+  /**
+   * Remove the stored token, Firebase user and profile (sign out, expired session)
+   */
+  async clearCredentials(): Promise<void> {
+    for (const key of CREDENTIAL_KEYS) {
+      try {
+        await this.removeItem(key);
+      } catch (error) {
+        console.error('❌ [SecureStorage] Failed to remove', key, error);
+      }
+    }
+  }
+
+  /**
+   * Move every credential key still in plain AsyncStorage into the secure store.
+   * Run at startup so values that are never read again do not linger in plaintext.
+   */
+  async migrateLegacyItems(): Promise<void> {
+    if (!(await this.isAvailable())) return;
+    for (const key of CREDENTIAL_KEYS) {
+      try {
+        await this.enqueue(() => this.migrateLegacy(key));
+      } catch (error) {
+        console.error('❌ [SecureStorage] Failed to migrate', key, error);
+      }
+    }
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async isAvailable(): Promise<boolean> {
+    if (this.available !== null) return this.available;
+
+    let available = false;
+    try {
+      available = !!SecureStore && (await SecureStore.isAvailableAsync());
+    } catch {
+      available = false;
+    }
+    if (!available) {
+      console.warn('⚠️ [SecureStorage] Secure store unavailable, falling back to AsyncStorage');
+    }
+    this.available = available;
+    return available;
+  }
+
+  private async migrateLegacy(key: string): Promise<string | null> {
+    const legacy = await AsyncStorage.getItem(key);
+    if (legacy === null) return null;
+
+    await this.writeSecure(key, legacy);
+    await AsyncStorage.removeItem(key);
+    console.log('✅ [SecureStorage] Moved', key, 'out of plain storage');
+    return legacy;
+  }
+
+  private async readSecure(key: string): Promise<string | null> {
+    const base = toStoreKey(key);
+    const count = await SecureStore.getItemAsync(`${base}.chunks`);
+    if (count === null) return null;
+
+    const chunks: string[] = [];
+    for (let index = 0; index < Number(count); index++) {
+      const chunk = await SecureStore.getItemAsync(`${base}.${index}`);
+      // A chunk went missing (interrupted write); treat the value as absent
+      if (chunk === null) return null;
+      chunks.push(chunk);
+    }
+    return chunks.join('');
+  }
+
+  private async writeSecure(key: string, value: string): Promise<void> {
+    const base = toStoreKey(key);
+    const previousCount = Number(await SecureStore.getItemAsync(`${base}.chunks`)) || 0;
+
+    // Split on code points so a surrogate pair is never cut in half
+    const characters = Array.from(value);
+    const chunks: string[] = [];
+    for (let start = 0; start < characters.length; start += CHUNK_CHARS) {
+      chunks.push(characters.slice(start, start + CHUNK_CHARS).join(''));
+    }
+    if (chunks.length === 0) chunks.push('');
+
+    const options = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY };
+    for (let index = 0; index < chunks.length; index++) {
+      await SecureStore.setItemAsync(`${base}.${index}`, chunks[index], options);
+    }
+    await SecureStore.setItemAsync(`${base}.chunks`, String(chunks.length), options);
+
+    for (let index = chunks.length; index < previousCount; index++) {
+      await SecureStore.deleteItemAsync(`${base}.${index}`);
+    }
+  }
+
+  private async removeSecure(key: string): Promise<void> {
+    const base = toStoreKey(key);
+    const count = Number(await SecureStore.getItemAsync(`${base}.chunks`)) || 0;
+    await SecureStore.deleteItemAsync(`${base}.chunks`);
+    for (let index = 0; index < count; index++) {
+      await SecureStore.deleteItemAsync(`${base}.${index}`);
+    }
+  }
+}
+
+export const secureStorage = new SecureStorage();
+export default secureStorage;
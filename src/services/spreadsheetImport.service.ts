@@ -0,0 +1,109 @@
+/**
+ * Spreadsheet Import Service
+ * Reads Excel/CSV files picked on device into text cells for the import previews, and
+ * writes the rows that pass review back out as a CSV for the bulk import endpoints.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as XLSX from 'xlsx';
+
+export const SUPPORTED_IMPORT_EXTENSIONS = ['xlsx', 'xls', 'csv'];
+
+// Larger files are left to the server-side import
+export const MAX_PREVIEW_ROWS = 2000;
+
+export interface PickedSpreadsheet {
+  uri: string;
+  name?: string | null;
+}
+
+export interface SpreadsheetData {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportUploadFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+export const getFileExtension = (fileName?: string | null): string =>
+  fileName?.split('.').pop()?.toLowerCase() || '';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const cellToText = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) {
+    // Date cells are turned into ISO dates so they never depend on the sheet's display format
+    return isNaN(cell.getTime())
+      ? ''
+      : `${cell.getFullYear()}-${pad(cell.getMonth() + 1)}-${pad(cell.getDate())}`;
+  }
+  return String(cell).trim();
+};
+
+/**
+ * Parse the first sheet of a picked file. The first non-empty row is treated as the header.
+ */
+export async function readSpreadsheet(file: PickedSpreadsheet): Promise<SpreadsheetData> {
+  const fileName = file.name || 'upload';
+  const extension = getFileExtension(fileName);
+  if (!SUPPORTED_IMPORT_EXTENSIONS.includes(extension)) {
+    throw new Error('Please select an Excel (.xlsx, .xls) or CSV (.csv) file.');
+  }
+
+  const source = new File(file.uri);
+  // CSV cells are kept as typed: no number or date guessing, which would drop leading
+  // zeros from phone numbers and read 05/01 as May 1st
+  const workbook =
+    extension === 'csv'
+      ? XLSX.read(await source.text(), { type: 'string', raw: true })
+      : XLSX.read(await source.base64(), { type: 'base64', cellDates: true });
+
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new Error('The file does not contain any sheets.');
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: true,
+    defval: '',
+    blankrows: false,
+  });
+
+  const [headerRow = [], ...body] = matrix;
+  const headers = headerRow.map(cellToText);
+  if (headers.every(header => !header)) {
+    throw new Error('The first row of the file must contain column headers.');
+  }
+
+  const rows = body
+    .map(row => headers.map((_, index) => cellToText(row[index])))
+    .filter(row => row.some(cell => cell !== ''));
+
+  if (rows.length > MAX_PREVIEW_ROWS) {
+    throw new Error(`The file has ${rows.length} rows. Split it into files of at most ${MAX_PREVIEW_ROWS} rows.`);
+  }
+
+  console.log('📄 [SpreadsheetImport] Parsed', fileName, { columns: headers.length, rows: rows.length });
+  return { fileName, headers, rows };
+}
+
+/**
+ * Write a table (header row first) to a CSV in the cache directory, ready for FormData
+ */
+export function writeImportCsv(table: string[][], baseName: string): ImportUploadFile {
+  const csv = XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(table));
+  const name = `${baseName.replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9-_]/g, '_')}_reviewed.csv`;
+  const file = new File(Paths.cache, name);
+
+  file.create({ overwrite: true });
+  file.write(csv);
+
+  console.log('💾 [SpreadsheetImport] Reviewed rows written to:', file.uri);
+  return { uri: file.uri, name, type: 'text/csv' };
+}
@@ -0,0 +1,162 @@
+/**
+ * Stock Reservation Service
+ * Keeps stock in step with bookings: confirming a booking (or moving it on to in progress or
+ * rescheduled) reserves a matching unit, cancellation or a no-show releases it and delivery
+ * marks it sold. The booking's reservedStockId records which stock entry holds its unit. The backend's availableQuantity decides who gets the last unit, so two
+ * advisors cannot both promise the same car.
+ */
+
+import StockAPI from '../api/stock';
+import { apiClient } from '../api/client';
+import { invalidateOnSuccess } from './entityCache.service';
+import { Stock } from '../types/stock';
+import { BookingStatus } from './types';
+import {
+  BookingStockSpec,
+  findStockCandidates,
+  getStockActionForStatus,
+} from '../utils/stockReservation';
+
+// Enough to cover every colour and location of one variant
+const STOCK_SEARCH_LIMIT = 100;
+
+export type StockSyncOutcome = 'reserved' | 'already_reserved' | 'released' | 'sold' | 'unavailable' | 'none';
+
+export interface StockSyncResult {
+  outcome: StockSyncOutcome;
+  stockId?: string;
+}
+
+export interface StockSyncBooking extends BookingStockSpec {
+  id: string;
+  status: BookingStatus;
+  reservedStockId?: string | null;
+}
+
+// Last sync per booking; a second status change waits so the two cannot double-reserve
+const inFlight = new Map<string, Promise<StockSyncResult>>();
+
+/**
+ * The stock entry the booking holds after the sync before this one. The booking passed in
+ * may have been loaded before that sync recorded its reservation.
+ */
+const heldStockId = (booking: StockSyncBooking, last?: StockSyncResult): string | null | undefined => {
+  switch (last?.outcome) {
+    case 'reserved':
+    case 'already_reserved':
+    case 'sold':
+      return last.stockId;
+    case 'released':
+      return null;
+    default:
+      return booking.reservedStockId;
+  }
+};
+
+async function findCandidates(booking: StockSyncBooking): Promise<Stock[]> {
+  const response = await StockAPI.getStock({
+    variant: [booking.variant],
+    availableOnly: true,
+    limit: STOCK_SEARCH_LIMIT,
+  });
+  return findStockCandidates(response.items || [], booking);
+}
+
+/**
+ * Record on the booking which stock entry holds its unit, or null once released
+ */
+async function recordReservedStock(bookingId: string, reservedStockId: string | null): Promise<void> {
+  await invalidateOnSuccess(
+    apiClient.put(`/bookings/${bookingId}`, { reservedStockId }),
+    { type: 'booking', id: bookingId },
+    { prefix: 'list:booking' }
+  );
+}
+
+async function reserve(booking: StockSyncBooking): Promise<StockSyncResult> {
+  if (booking.reservedStockId) {
+    return { outcome: 'already_reserved', stockId: booking.reservedStockId };
+  }
+
+  for (const stock of await findCandidates(booking)) {
+    try {
+      await StockAPI.reserveStock(stock.id, 1, booking.id);
+    } catch (error) {
+      // Someone else took the last unit since the list was fetched; try the next entry
+      console.warn('⚠️ [StockReservation] Could not reserve', stock.id, 'for booking', booking.id, error);
+      continue;
+    }
+    console.log('✅ [StockReservation] Reserved', stock.id, 'for booking', booking.id);
+    try {
+      await recordReservedStock(booking.id, stock.id);
+    } catch (error) {
+      console.error('❌ [StockReservation] Reserved', stock.id, 'but could not record it on booking', booking.id, error);
+    }
+    return { outcome: 'reserved', stockId: stock.id };
+  }
+
+  console.warn('⚠️ [StockReservation] No matching stock available for booking', booking.id);
+  return { outcome: 'unavailable' };
+}
+
+async function release(booking: StockSyncBooking): Promise<StockSyncResult> {
+  const stockId = booking.reservedStockId;
+  if (!stockId) return { outcome: 'none' };
+
+  await StockAPI.releaseStock(stockId, 1, booking.id);
+  console.log('✅ [StockReservation] Released', stockId, 'from booking', booking.id);
+  await recordReservedStock(booking.id, null);
+  return { outcome: 'released', stockId };
+}
+
+async function sell(booking: StockSyncBooking): Promise<StockSyncResult> {
+  const stockId = booking.reservedStockId;
+  if (stockId) {
+    await StockAPI.markAsSold(stockId, 1, booking.id);
+    console.log('✅ [StockReservation] Marked', stockId, 'sold for booking', booking.id);
+    return { outcome: 'sold', stockId };
+  }
+
+  // Delivered without a reservation (confirmed before reservations existed): the car still left the yard
+  const [stock] = await findCandidates(booking);
+  if (!stock) {
+    console.warn('⚠️ [StockReservation] Delivered booking has no matching stock to mark sold', booking.id);
+    return { outcome: 'unavailable' };
+  }
+  await StockAPI.markAsSold(stock.id, 1, booking.id);
+  console.log('✅ [StockReservation] Marked', stock.id, 'sold for booking', booking.id);
+  return { outcome: 'sold', stockId: stock.id };
+}
+
+/**
+ * Apply what the booking's status means for stock. Statuses with no stock meaning are a no-op.
+ * Call once the status change has reached the server.
+ */
+export function syncBookingStock(booking: StockSyncBooking): Promise<StockSyncResult> {
+  const action = getStockActionForStatus(booking.status);
+  const previous = inFlight.get(booking.id) || Promise.resolve<StockSyncResult>({ outcome: 'none' });
+
+  const next = previous
+    .catch(() => undefined)
+    .then((last): Promise<StockSyncResult> => {
+      const current = { ...booking, reservedStockId: heldStockId(booking, last) };
+      switch (action) {
+        case 'reserve':
+          return reserve(current);
+        case 'release':
+          return release(current);
+        case 'sell':
+          return sell(current);
+        default:
+          return Promise.resolve({ outcome: 'none' });
+      }
+    });
+
+  inFlight.set(booking.id, next);
+  next
+    .catch(() => undefined)
+    .then(() => {
+      if (inFlight.get(booking.id) === next) inFlight.delete(booking.id);
+    });
+  return next;
+}
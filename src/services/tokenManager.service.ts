@@ -0,0 +1,139 @@
+/**
+ * Token Manager
+ * Caches the Firebase ID token with its expiry so API calls reuse it instead of asking
+ * Firebase for a fresh token every time. The token is refreshed shortly before it
+ * expires, and concurrent refreshes share a single Firebase round trip.
+ */
+
+import { onIdTokenChanged, User } from 'firebase/auth';
+import { auth } from '../config/firebase';
+import { secureStorage, SECURE_KEYS } from './secureStorage.service';
+
+// Refresh this long before the token expires (Firebase tokens last an hour)
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Floor for the scheduled refresh, so a skewed device clock cannot cause a refresh loop
+const MIN_REFRESH_DELAY_MS = 60 * 1000;
+
+interface CachedToken {
+  uid: string;
+  token: string;
+  expiresAt: number;
+}
+
+class TokenManager {
+  private cached: CachedToken | null = null;
+  private refreshPromise: Promise<string | null> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    // Firebase also refreshes on its own (sign-in, forced refreshes elsewhere); keep the cache in step
+    onIdTokenChanged(auth, user => {
+      if (!user) {
+        this.clear();
+        return;
+      }
+      this.refresh(user, false).catch(error =>
+        console.error('❌ [TokenManager] Failed to read token after auth change:', error)
+      );
+    });
+  }
+
+  /**
+   * ID token for API requests. Reuses the cached token until it is close to expiry.
+   * Without a signed-in Firebase user the last stored token is returned, if any.
+   */
+  async getToken(options: { forceRefresh?: boolean } = {}): Promise<string | null> {
+    const user = auth.currentUser;
+    if (!user) {
+      return secureStorage.getItem(SECURE_KEYS.firebaseToken);
+    }
+
+    const cached = this.cached;
+    const isFresh = !!cached && cached.uid === user.uid && cached.expiresAt - Date.now() > REFRESH_MARGIN_MS;
+    if (isFresh && !options.forceRefresh) {
+      return cached!.token;
+    }
+
+    try {
+      // With nothing cached yet, Firebase's own copy is good enough unless a refresh was asked for
+      return await this.refresh(user, !!options.forceRefresh || !!cached);
+    } catch (error) {
+      // A refresh that fails on a flaky network can still fall back to a token that has not expired
+      if (!options.forceRefresh && cached && cached.uid === user.uid && cached.expiresAt > Date.now()) {
+        console.warn('⚠️ [TokenManager] Refresh failed, using cached token until it expires');
+        return cached.token;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drop the cached token (sign out)
+   */
+  clear(): void {
+    this.cached = null;
+    this.refreshPromise = null;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Fetch a token from Firebase. Calls made while one is in flight wait for the same result.
+   */
+  private refresh(user: User, forceRefresh: boolean): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        try {
+          const result = await user.getIdTokenResult(forceRefresh);
+          // Signed out or switched user while the request was in flight
+          if (auth.currentUser?.uid !== user.uid) return null;
+
+          this.cached = {
+            uid: user.uid,
+            token: result.token,
+            expiresAt: new Date(result.expirationTime).getTime(),
+          };
+          this.scheduleRefresh();
+          // Fallback copy read by requests made before Firebase has restored the session
+          await secureStorage.setItem(SECURE_KEYS.firebaseToken, result.token);
+
+          if (__DEV__) {
+            console.log('🔑 [TokenManager] Token refreshed, expires', result.expirationTime);
+          }
+          return result.token;
+        } finally {
+          this.refreshPromise = null;
+        }
+      })();
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Refresh ahead of expiry so the next request does not wait on Firebase.
+   * Timers pause while the app is backgrounded; getToken checks expiry again on use.
+   */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    if (!this.cached) return;
+
+    const delay = Math.max(this.cached.expiresAt - REFRESH_MARGIN_MS - Date.now(), MIN_REFRESH_DELAY_MS);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      const user = auth.currentUser;
+      if (user) {
+        this.refresh(user, true).catch(error =>
+          console.error('❌ [TokenManager] Scheduled refresh failed:', error)
+        );
+      }
+    }, delay);
+  }
+}
+
+export const tokenManager = new TokenManager();
+export default tokenManager;
@@ -5,17 +5,14 @@
 
 // ========== COMMON TYPES ==========
 
-export interface PaginatedResponse<T> {
-  success: boolean;
-  message: string;
-  data: T[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
+// Response envelopes and quotations have one canonical definition in the API layer
+export type { ApiResponse, PaginatedResponse, Pagination } from '../api/client';
+export type {
+  Quotation,
+  QuotationStatus,
+  CreateQuotationRequest,
+  UpdateQuotationRequest,
+} from '../api/quotations';
 
 // ========== ENQUIRY TYPES ==========
 
@@ -91,6 +88,7 @@ export interface EnquiryFilters {
   dealershipId?: string;
   dealershipCode?: string;
   scope?: string;
+  updatedSince?: string; // ISO timestamp; only records changed after it
 }
 
 export interface Enquiry {
@@ -137,7 +135,7 @@ export interface Enquiry {
 
 export interface AutoBookingResponse {
   enquiry: Enquiry;
-  booking?: any;
+  booking?: Booking | null;
   stockValidation?: {
     variant: string;
     inStock: boolean;
@@ -279,55 +277,13 @@ export interface Booking {
   region?: string;
   chassisNumber?: string;
   allocationOrderNumber?: string;
+  enquiryId?: string; // Set when the booking was converted from an enquiry
+  reservedStockId?: string | null; // Stock entry holding this booking's unit
   createdAt: string;
   updatedAt: string;
   source?: string;
 }
 
-// ========== QUOTATION TYPES ==========
-
-export enum QuotationStatus {
-  PENDING = 'PENDING',
-  SENT = 'SENT',
-  ACCEPTED = 'ACCEPTED',
-  REJECTED = 'REJECTED',
-  DRAFT = 'DRAFT',
-  VIEWED = 'VIEWED',
-  APPROVED = 'APPROVED',
-  EXPIRED = 'EXPIRED'
-}
-
-export interface CreateQuotationRequest {
-  enquiryId: string;
-  amount: number;
-  pdfUrl?: string;
-}
-
-export interface UpdateQuotationRequest {
-  amount?: number;
-  status?: QuotationStatus;
-  pdfUrl?: string;
-}
-
-export interface Quotation {
-  id: string;
-  enquiryId: string;
-  amount: number;
-  status: QuotationStatus;
-  pdfUrl?: string;
-  createdAt: string;
-  updatedAt: string;
-  enquiry?: Enquiry;
-}
-
-// ========== API RESPONSE TYPES ==========
-
-export interface ApiResponse<T> {
-  success: boolean;
-  message: string;
-  data: T;
-}
-
 // Booking filters interface
 export interface BookingFilters {
   page?: number;
@@ -340,6 +296,7 @@ export interface BookingFilters {
   dealershipId?: string;
   dealershipCode?: string;
   scope?: string;
+  updatedSince?: string; // ISO timestamp; only records changed after it
 }
 
 export interface BulkImportResponse {
@@ -374,47 +331,3 @@ export interface ImportProgress {
   createdAt: string;
   completedAt?: string;
 }
-
-export interface PaginatedEnquiriesResponse {
-  success: boolean;
-  message: string;
-  data: {
-    enquiries: Enquiry[];
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      totalPages: number;
-    };
-  };
-}
-
-export interface PaginatedBookingsResponse {
-  success: boolean;
-  message: string;
-  data: {
-    bookings: Booking[];
-    timeline?: string;
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      totalPages: number;
-    };
-  };
-}
-
-export interface PaginatedQuotationsResponse {
-  success: boolean;
-  message: string;
-  data: {
-    quotations: Quotation[];
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      totalPages: number;
-    };
-  };
-}
-
@@ -27,6 +27,7 @@ export interface Dealership {
   brands: string[];
   isActive: boolean;
   onboardingCompleted: boolean;
+  settings?: DealershipSettings;
   createdAt: string;
   updatedAt: string;
   _count?: {
@@ -36,6 +37,14 @@ export interface Dealership {
   };
 }
 
+/**
+ * Settings shared by every user and device at the dealership
+ */
+export interface DealershipSettings {
+  // Lead score weight per factor; factors left out use the app defaults
+  leadScoreWeights?: Record<string, number>;
+}
+
 export interface ColorOption {
   name: string;
   code: string;
@@ -95,6 +104,7 @@ export interface UpdateDealershipRequest {
   gstNumber?: string;
   panNumber?: string;
   brands?: string[];
+  settings?: DealershipSettings;
 }
 
 export interface DealershipListResponse {
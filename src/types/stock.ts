@@ -1,6 +1,8 @@
 /**
  * Stock/Vehicle Types
- * Data types for vehicle stock management
+ * Inventory domain model shared by every stock screen: aggregated counts per
+ * variant/colour/location (Stock) and the individual VIN-level units behind them
+ * (VehicleUnit). Backend payloads are mapped onto these in api/stock.
  */
 
 /**
@@ -22,19 +24,35 @@ export enum TransmissionType {
 }
 
 /**
- * Vehicle/Stock interface from backend
+ * Overall state of a stock entry
  */
-export interface Vehicle {
+export type StockStatus = 'AVAILABLE' | 'RESERVED' | 'SOLD' | 'MAINTENANCE';
+
+/**
+ * State of a single vehicle. IN_TRANSIT units have been invoiced to the dealer but
+ * have not reached the yard yet.
+ */
+export type VehicleUnitStatus = 'IN_TRANSIT' | 'AVAILABLE' | 'RESERVED' | 'SOLD';
+
+/**
+ * Stock held for one variant, colour and location.
+ * quantity = availableQuantity + reservedQuantity while nothing is in maintenance.
+ */
+export interface Stock {
   id: string;
+  vehicleId?: string;
   variant: string;
+  vcCode?: string;
   modelYear?: string;
   color: string;
   fuelType: FuelType;
   transmission: TransmissionType;
-  vinNumber?: string;
-  totalStock: number;
-  availableStock: number;
-  allocatedStock?: number;
+  quantity: number;
+  availableQuantity: number;
+  reservedQuantity: number;
+  status: StockStatus;
+  price: number;
+  discount?: number;
   dealerCode?: string;
   location?: string;
   isActive: boolean;
@@ -43,80 +61,152 @@ export interface Vehicle {
 }
 
 /**
- * Create vehicle request interface
+ * One physical vehicle, identified by its VIN, counted in a stock entry.
+ * variant and color are copied from the stock entry when the backend includes it.
+ */
+export interface VehicleUnit {
+  id: string;
+  stockId: string;
+  vin: string;
+  chassisNumber?: string;
+  engineNumber?: string;
+  variant?: string;
+  color?: string;
+  status: VehicleUnitStatus;
+  arrivalDate?: string;
+  yardLocation?: string;
+  bookingId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Vehicle unit list parameters interface
  */
-export interface CreateVehicleRequest {
+export interface VehicleUnitListParams {
+  stockId?: string;
+  status?: VehicleUnitStatus[];
+  chassisNumber?: string;
+  vin?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Fields for adding a vehicle to a stock entry. Without an arrival date the unit is
+ * recorded as in transit.
+ */
+export interface CreateVehicleUnitRequest {
+  stockId: string;
+  vin: string;
+  chassisNumber?: string;
+  engineNumber?: string;
+  arrivalDate?: string;
+  yardLocation?: string;
+}
+
+/**
+ * Fields for updating a vehicle unit
+ */
+export interface UpdateVehicleUnitRequest extends Partial<Omit<CreateVehicleUnitRequest, 'stockId'>> {
+  status?: VehicleUnitStatus;
+}
+
+/**
+ * A unit of stock held for a booking. RELEASED and SOLD entries are kept as history.
+ */
+export interface StockReservation {
+  id: string;
+  stockId: string;
+  bookingId: string;
+  quantity: number;
+  status: 'RESERVED' | 'RELEASED' | 'SOLD';
+  booking?: {
+    id: string;
+    customerName: string;
+    status: string;
+    expectedDeliveryDate?: string;
+    advisor?: {
+      firebaseUid: string;
+      name: string;
+    };
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fields for creating a stock entry
+ */
+export interface CreateStockRequest {
   variant: string;
+  vcCode?: string;
   modelYear?: string;
   color: string;
   fuelType: FuelType;
   transmission: TransmissionType;
-  vinNumber?: string;
-  totalStock: number;
-  availableStock: number;
-  allocatedStock?: number;
+  quantity: number;
+  availableQuantity?: number;
+  reservedQuantity?: number;
+  price: number;
+  discount?: number;
   dealerCode?: string;
   location?: string;
 }
 
 /**
- * Update vehicle request interface
+ * Fields for updating a stock entry
  */
-export interface UpdateVehicleRequest {
-  variant?: string;
-  modelYear?: string;
-  color?: string;
-  fuelType?: FuelType;
-  transmission?: TransmissionType;
-  vinNumber?: string;
-  totalStock?: number;
-  availableStock?: number;
-  allocatedStock?: number;
-  dealerCode?: string;
-  location?: string;
+export interface UpdateStockRequest extends Partial<CreateStockRequest> {
+  status?: StockStatus;
   isActive?: boolean;
 }
 
 /**
- * Stock statistics interface
+ * Stock filters interface
  */
-export interface StockStats {
-  totalVehicles: number;
-  inStock: number;
-  outOfStock: number;
-  stockByLocation?: Array<{
-    location: string;
-    total: number;
-  }>;
-  topModels?: Array<{
-    variant: string;
-    totalStock: number;
-  }>;
+export interface StockFilters {
+  status?: StockStatus[];
+  variant?: string[];
+  color?: string[];
+  fuelType?: FuelType[];
+  transmission?: TransmissionType[];
+  location?: string[];
+  dealerCode?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  availableOnly?: boolean;
+  search?: string;
 }
 
 /**
- * Stock filters interface
+ * Stock list parameters interface
  */
-export interface StockFilters {
+export interface StockListParams extends StockFilters {
   page?: number;
   limit?: number;
-  fuelType?: FuelType;
-  transmission?: TransmissionType;
-  availability?: 'IN_STOCK' | 'OUT_OF_STOCK';
-  search?: string;
-  dealerCode?: string;
+  sortBy?: 'createdAt' | 'updatedAt' | 'price' | 'quantity';
+  sortOrder?: 'asc' | 'desc';
 }
 
 /**
- * Paginated vehicle response
+ * Stock statistics interface. Vehicle counts are units; outOfStockEntries counts
+ * stock entries with nothing available.
  */
-export interface PaginatedVehicles {
-  vehicles: Vehicle[];
-  pagination: {
-    page: number;
-    limit: number;
+export interface StockStats {
+  totalVehicles: number;
+  availableVehicles: number;
+  reservedVehicles: number;
+  soldVehicles: number;
+  outOfStockEntries: number;
+  totalValue: number;
+  averagePrice: number;
+  stockByLocation?: Array<{
+    location: string;
     total: number;
-    totalPages: number;
-  };
+  }>;
+  topModels?: Array<{
+    variant: string;
+    quantity: number;
+  }>;
 }
-
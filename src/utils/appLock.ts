@@ -0,0 +1,71 @@
+/**
+ * App lock
+ * Settings and pure helpers for locking the app behind a PIN or device biometrics
+ * after it has been in the background for a while
+ */
+
+export interface AppLockSettings {
+  enabled: boolean;
+  // Offer Face ID / fingerprint before falling back to the PIN
+  biometricEnabled: boolean;
+  // Minutes in the background before the app locks (0 = as soon as it is reopened)
+  idleTimeoutMinutes: number;
+  // Wrong PINs in a row before cached customer data is wiped and the user signed out
+  maxFailedAttempts: number;
+}
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometricEnabled: false,
+  idleTimeoutMinutes: 5,
+  maxFailedAttempts: 5,
+};
+
+export const APP_LOCK_IDLE_TIMEOUT_OPTIONS = [0, 1, 5, 15, 30];
+
+export const APP_LOCK_MAX_ATTEMPT_OPTIONS = [3, 5, 10];
+
+export const APP_LOCK_PIN_MIN_LENGTH = 4;
+export const APP_LOCK_PIN_MAX_LENGTH = 6;
+
+const PIN_PATTERN = new RegExp(`^\\d{${APP_LOCK_PIN_MIN_LENGTH},${APP_LOCK_PIN_MAX_LENGTH}}$`);
+
+export function isValidPin(pin: string): boolean {
+  return PIN_PATTERN.test(pin);
+}
+
+/**
+ * Fill in settings saved by an older build, keeping values inside the offered ranges
+ */
+export function normalizeAppLockSettings(raw: Partial<AppLockSettings> | null | undefined): AppLockSettings {
+  const settings = { ...DEFAULT_APP_LOCK_SETTINGS, ...(raw || {}) };
+  if (!Number.isFinite(settings.idleTimeoutMinutes) || settings.idleTimeoutMinutes < 0) {
+    settings.idleTimeoutMinutes = DEFAULT_APP_LOCK_SETTINGS.idleTimeoutMinutes;
+  }
+  if (!Number.isFinite(settings.maxFailedAttempts) || settings.maxFailedAttempts < 1) {
+    settings.maxFailedAttempts = DEFAULT_APP_LOCK_SETTINGS.maxFailedAttempts;
+  }
+  return settings;
+}
+
+/**
+ * Whether returning to the app after a spell in the background should lock it
+ */
+export function isLockDue(
+  settings: AppLockSettings,
+  backgroundedAt: number | null,
+  now: number = Date.now()
+): boolean {
+  if (!settings.enabled || backgroundedAt === null) return false;
+  return now - backgroundedAt >= settings.idleTimeoutMinutes * 60 * 1000;
+}
+
+export function getRemainingAttempts(settings: AppLockSettings, failedAttempts: number): number {
+  return Math.max(settings.maxFailedAttempts - failedAttempts, 0);
+}
+
+export function formatIdleTimeout(minutes: number): string {
+  if (minutes <= 0) return 'Immediately';
+  if (minutes === 1) return 'After 1 minute';
+  return `After ${minutes} minutes`;
+}
@@ -0,0 +1,214 @@
+/**
+ * Booking import mapping and validation
+ * Turns spreadsheet rows into booking records and flags problems per row so they can be
+ * fixed or excluded in the preview before anything is sent to the bulk import endpoint.
+ */
+
+import { BookingStatus } from '../services/types';
+import { CatalogData } from '../types/catalog';
+import { isValidEmail, isValidPhoneNumber } from './validation';
+import {
+  ImportFieldDefinition,
+  ImportIssue,
+  ImportRow,
+  ColumnMapping,
+  readMappedValues,
+  parseImportDate,
+  parseImportBoolean,
+  parseImportEnum,
+} from './spreadsheetImport';
+
+export type BookingImportField =
+  | 'customerName'
+  | 'customerPhone'
+  | 'customerEmail'
+  | 'variant'
+  | 'vcCode'
+  | 'color'
+  | 'fuelType'
+  | 'transmission'
+  | 'bookingDate'
+  | 'expectedDeliveryDate'
+  | 'status'
+  | 'financeRequired'
+  | 'financerName'
+  | 'advisorRemarks';
+
+export const BOOKING_IMPORT_FIELDS: ImportFieldDefinition<BookingImportField>[] = [
+  { key: 'customerName', label: 'Customer Name', required: true, aliases: ['name', 'customer'] },
+  { key: 'customerPhone', label: 'Phone', required: true, aliases: ['mobile', 'mobile number', 'phone number', 'contact', 'customer mobile'] },
+  { key: 'customerEmail', label: 'Email', aliases: ['email id', 'customer email', 'mail'] },
+  { key: 'variant', label: 'Variant', required: true, aliases: ['model variant', 'vehicle', 'variant name'] },
+  { key: 'vcCode', label: 'VC Code', aliases: ['vc', 'vc no', 'vc number'] },
+  { key: 'color', label: 'Colour', aliases: ['color', 'colour name'] },
+  { key: 'fuelType', label: 'Fuel Type', aliases: ['fuel'] },
+  { key: 'transmission', label: 'Transmission', aliases: ['gearbox', 'mt/at'] },
+  { key: 'bookingDate', label: 'Booking Date', aliases: ['date', 'booked on', 'date of booking'] },
+  { key: 'expectedDeliveryDate', label: 'Expected Delivery', aliases: ['edd', 'delivery date', 'expected delivery date'] },
+  { key: 'status', label: 'Status', aliases: ['booking status'] },
+  { key: 'financeRequired', label: 'Finance Required', aliases: ['finance', 'loan'] },
+  { key: 'financerName', label: 'Financer', aliases: ['financer name', 'bank', 'financier'] },
+  { key: 'advisorRemarks', label: 'Remarks', aliases: ['remark', 'comments', 'notes'] },
+];
+
+export interface BookingImportRecord {
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  variant: string;
+  vcCode?: string;
+  color?: string;
+  fuelType?: string;
+  transmission?: string;
+  bookingDate?: string;
+  expectedDeliveryDate?: string;
+  status?: BookingStatus;
+  financeRequired?: boolean;
+  financerName?: string;
+  advisorRemarks?: string;
+}
+
+export type BookingImportRow = ImportRow<BookingImportField, BookingImportRecord>;
+
+interface CatalogVariantRef {
+  name: string;
+  vcCode: string;
+}
+
+// Variant lookup by lower-cased name and VC code; null when no catalog is loaded
+export type VariantLookup = Map<string, CatalogVariantRef> | null;
+
+const BOOKING_STATUSES = Object.values(BookingStatus);
+
+export function buildVariantLookup(catalog: CatalogData | null): VariantLookup {
+  if (!catalog?.brands?.length) return null;
+
+  const lookup = new Map<string, CatalogVariantRef>();
+  catalog.brands.forEach(brand => {
+    brand.models.forEach(model => {
+      model.variants.forEach(variant => {
+        const ref = { name: variant.name, vcCode: variant.vcCode };
+        lookup.set(variant.name.trim().toLowerCase(), ref);
+        lookup.set(variant.vcCode.trim().toLowerCase(), ref);
+      });
+    });
+  });
+  return lookup;
+}
+
+/**
+ * Map and validate one spreadsheet row
+ */
+export function validateBookingImportRow(
+  cells: string[],
+  rowNumber: number,
+  mapping: ColumnMapping<BookingImportField>,
+  variants: VariantLookup
+): BookingImportRow {
+  const values = readMappedValues(cells, mapping, BOOKING_IMPORT_FIELDS);
+  const errors: ImportIssue<BookingImportField>[] = [];
+
+  const record: BookingImportRecord = {
+    customerName: values.customerName,
+    customerPhone: values.customerPhone.replace(/[\s-]/g, ''),
+    customerEmail: values.customerEmail || undefined,
+    variant: values.variant,
+    vcCode: values.vcCode || undefined,
+    color: values.color || undefined,
+    fuelType: values.fuelType || undefined,
+    transmission: values.transmission || undefined,
+    financerName: values.financerName || undefined,
+    advisorRemarks: values.advisorRemarks || undefined,
+  };
+
+  if (!record.customerName) {
+    errors.push({ field: 'customerName', message: 'Customer name is required' });
+  }
+
+  if (!record.customerPhone) {
+    errors.push({ field: 'customerPhone', message: 'Phone is required' });
+  } else if (!isValidPhoneNumber(record.customerPhone)) {
+    errors.push({ field: 'customerPhone', message: `"${values.customerPhone}" is not a valid phone number` });
+  }
+
+  if (record.customerEmail && !isValidEmail(record.customerEmail)) {
+    errors.push({ field: 'customerEmail', message: `"${record.customerEmail}" is not a valid email` });
+  }
+
+  if (!record.variant) {
+    errors.push({ field: 'variant', message: 'Variant is required' });
+  } else if (variants) {
+    const match = variants.get(record.variant.toLowerCase()) || (record.vcCode && variants.get(record.vcCode.toLowerCase()));
+    if (match) {
+      record.variant = match.name;
+      record.vcCode = record.vcCode || match.vcCode;
+    } else {
+      errors.push({ field: 'variant', message: `"${record.variant}" is not in the dealership catalog` });
+    }
+  }
+
+  (['bookingDate', 'expectedDeliveryDate'] as const).forEach(field => {
+    if (!values[field]) return;
+    const parsed = parseImportDate(values[field]);
+    if (parsed) {
+      record[field] = parsed;
+    } else {
+      errors.push({ field, message: `"${values[field]}" is not a valid date (use DD/MM/YYYY)` });
+    }
+  });
+
+  if (record.bookingDate && record.expectedDeliveryDate && record.expectedDeliveryDate < record.bookingDate) {
+    errors.push({ field: 'expectedDeliveryDate', message: 'Expected delivery is before the booking date' });
+  }
+
+  if (values.status) {
+    const status = parseImportEnum(values.status, BOOKING_STATUSES);
+    if (status) {
+      record.status = status;
+    } else {
+      errors.push({ field: 'status', message: `"${values.status}" is not a booking status` });
+    }
+  }
+
+  if (values.financeRequired) {
+    const financeRequired = parseImportBoolean(values.financeRequired);
+    if (financeRequired === null) {
+      errors.push({ field: 'financeRequired', message: 'Finance Required must be Yes or No' });
+    } else {
+      record.financeRequired = financeRequired;
+    }
+  }
+
+  if (record.financeRequired && !record.financerName) {
+    errors.push({ field: 'financerName', message: 'Financer is required when finance is needed' });
+  }
+
+  return { rowNumber, cells, record, errors };
+}
+
+/**
+ * Validate every data row of a sheet. Row numbers start at 2 (row 1 is the header).
+ */
+export function buildBookingImportRows(
+  rows: string[][],
+  mapping: ColumnMapping<BookingImportField>,
+  variants: VariantLookup
+): BookingImportRow[] {
+  return rows.map((cells, index) => validateBookingImportRow(cells, index + 2, mapping, variants));
+}
+
+/**
+ * Header and cell values for the cleaned file sent to the bulk import endpoint
+ */
+export function toBookingImportTable(records: BookingImportRecord[]): string[][] {
+  const header = BOOKING_IMPORT_FIELDS.map(field => field.key);
+  const body = records.map(record =>
+    header.map(key => {
+      const value = record[key];
+      if (value === undefined || value === null) return '';
+      if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+      return String(value);
+    })
+  );
+  return [header, ...body];
+}
@@ -0,0 +1,220 @@
+/**
+ * Booking State Machine
+ * Declarative booking lifecycle: which status moves are legal, which fields a booking
+ * needs before entering a status, and which roles may make each move
+ */
+
+import { Booking, BookingStatus } from '../services/types';
+import type { UserRole } from '../context/AuthContext';
+
+const MANAGERS: UserRole[] = ['TEAM_LEAD', 'SALES_MANAGER', 'GENERAL_MANAGER', 'ADMIN'];
+const ADVISORS: UserRole[] = ['CUSTOMER_ADVISOR', 'ADMIN'];
+
+// Legal next statuses from each status. DELIVERED, CANCELLED and REJECTED are terminal.
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  [BookingStatus.PENDING]: [
+    BookingStatus.ASSIGNED,
+    BookingStatus.CONFIRMED,
+    BookingStatus.WAITLISTED,
+    BookingStatus.APPROVED,
+    BookingStatus.REJECTED,
+    BookingStatus.CANCELLED,
+  ],
+  [BookingStatus.ASSIGNED]: [
+    BookingStatus.CONFIRMED,
+    BookingStatus.IN_PROGRESS,
+    BookingStatus.WAITLISTED,
+    BookingStatus.NO_SHOW,
+    BookingStatus.CANCELLED,
+  ],
+  [BookingStatus.WAITLISTED]: [BookingStatus.ASSIGNED, BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
+  [BookingStatus.APPROVED]: [BookingStatus.CONFIRMED, BookingStatus.IN_PROGRESS, BookingStatus.CANCELLED],
+  [BookingStatus.CONFIRMED]: [
+    BookingStatus.IN_PROGRESS,
+    BookingStatus.RESCHEDULED,
+    BookingStatus.NO_SHOW,
+    BookingStatus.CANCELLED,
+  ],
+  [BookingStatus.IN_PROGRESS]: [BookingStatus.DELIVERED, BookingStatus.RESCHEDULED, BookingStatus.CANCELLED],
+  [BookingStatus.RESCHEDULED]: [BookingStatus.CONFIRMED, BookingStatus.IN_PROGRESS, BookingStatus.CANCELLED],
+  [BookingStatus.NO_SHOW]: [BookingStatus.RESCHEDULED, BookingStatus.CANCELLED],
+  [BookingStatus.DELIVERED]: [],
+  [BookingStatus.CANCELLED]: [],
+  [BookingStatus.REJECTED]: [],
+};
+
+// Roles allowed to move a booking into each status
+export const BOOKING_STATUS_ROLES: Record<BookingStatus, UserRole[]> = {
+  [BookingStatus.PENDING]: ADVISORS,
+  [BookingStatus.ASSIGNED]: MANAGERS,
+  [BookingStatus.WAITLISTED]: MANAGERS,
+  [BookingStatus.APPROVED]: MANAGERS,
+  [BookingStatus.REJECTED]: MANAGERS,
+  [BookingStatus.CONFIRMED]: ADVISORS,
+  [BookingStatus.IN_PROGRESS]: ADVISORS,
+  [BookingStatus.RESCHEDULED]: ADVISORS,
+  [BookingStatus.NO_SHOW]: ADVISORS,
+  [BookingStatus.DELIVERED]: ADVISORS,
+  [BookingStatus.CANCELLED]: ADVISORS,
+};
+
+type BookingFields = Pick<
+  Booking,
+  | 'status'
+  | 'expectedDeliveryDate'
+  | 'financeRequired'
+  | 'financerName'
+  | 'chassisNumber'
+  | 'allocationOrderNumber'
+  | 'rtoDate'
+  | 'vahanDate'
+>;
+
+export type BookingTransitionSubject = Partial<BookingFields> & { id?: string; status: BookingStatus };
+
+export interface StatusRequirement {
+  field: keyof BookingFields;
+  label: string;
+  // Only required when this returns true
+  when?: (booking: Partial<BookingFields>) => boolean;
+}
+
+const needsFinancer: StatusRequirement = {
+  field: 'financerName',
+  label: 'Financer name',
+  when: booking => !!booking.financeRequired,
+};
+
+// Fields a booking must have before it can enter each status
+export const BOOKING_STATUS_REQUIREMENTS: Partial<Record<BookingStatus, StatusRequirement[]>> = {
+  [BookingStatus.CONFIRMED]: [{ field: 'expectedDeliveryDate', label: 'Expected delivery date' }],
+  [BookingStatus.RESCHEDULED]: [{ field: 'expectedDeliveryDate', label: 'Expected delivery date' }],
+  [BookingStatus.IN_PROGRESS]: [
+    { field: 'expectedDeliveryDate', label: 'Expected delivery date' },
+    needsFinancer,
+  ],
+  [BookingStatus.DELIVERED]: [
+    { field: 'chassisNumber', label: 'Chassis number' },
+    { field: 'allocationOrderNumber', label: 'Allocation order number' },
+    { field: 'rtoDate', label: 'RTO date' },
+    { field: 'vahanDate', label: 'Vahan date' },
+    needsFinancer,
+  ],
+};
+
+export interface TransitionCheck {
+  allowed: boolean;
+  reasons: string[];
+  missingFields: Array<keyof BookingFields>;
+}
+
+export const formatBookingStatus = (status: BookingStatus | string) =>
+  status
+    .split('_')
+    .map(word => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ');
+
+const isFilled = (value: unknown) =>
+  value !== undefined && value !== null && (typeof value !== 'string' || value.trim().length > 0);
+
+/**
+ * Statuses the role may move the booking into from its current status, ignoring
+ * required fields (those are reported by checkBookingTransition)
+ */
+export function getAllowedTransitions(from: BookingStatus, role?: UserRole | null): BookingStatus[] {
+  return (BOOKING_TRANSITIONS[from] || []).filter(to => !role || BOOKING_STATUS_ROLES[to].includes(role));
+}
+
+/**
+ * Check a single status move. `changes` are unsaved edits applied on top of the booking,
+ * so a form can fill a required field in the same save that changes the status.
+ * Staying on the same status is always allowed.
+ */
+export function checkBookingTransition(
+  booking: BookingTransitionSubject,
+  to: BookingStatus,
+  role?: UserRole | null,
+  changes: Partial<BookingFields> = {}
+): TransitionCheck {
+  const from = booking.status;
+  if (from === to) {
+    return { allowed: true, reasons: [], missingFields: [] };
+  }
+
+  const reasons: string[] = [];
+  const missingFields: Array<keyof BookingFields> = [];
+
+  if (!(BOOKING_TRANSITIONS[from] || []).includes(to)) {
+    const next = BOOKING_TRANSITIONS[from] || [];
+    reasons.push(
+      next.length === 0
+        ? `${formatBookingStatus(from)} bookings are closed and cannot change status.`
+        : `A ${formatBookingStatus(from)} booking cannot move to ${formatBookingStatus(to)}. ` +
+          `Next steps are: ${next.map(formatBookingStatus).join(', ')}.`
+    );
+  }
+
+  if (role && !BOOKING_STATUS_ROLES[to].includes(role)) {
+    reasons.push(`Your role cannot set bookings to ${formatBookingStatus(to)}.`);
+  }
+
+  const merged = { ...booking, ...changes };
+  (BOOKING_STATUS_REQUIREMENTS[to] || []).forEach(requirement => {
+    if (requirement.when && !requirement.when(merged)) return;
+    if (!isFilled(merged[requirement.field])) {
+      missingFields.push(requirement.field);
+      reasons.push(`${requirement.label} is required before ${formatBookingStatus(to)}.`);
+    }
+  });
+
+  return { allowed: reasons.length === 0, reasons, missingFields };
+}
+
+export interface BlockedTransition {
+  bookingId: string;
+  reasons: string[];
+}
+
+/**
+ * Thrown when a status update is attempted on bookings that cannot legally make the move
+ */
+export class BookingTransitionError extends Error {
+  readonly isBookingTransitionError = true;
+  readonly status: BookingStatus;
+  readonly blocked: BlockedTransition[];
+
+  constructor(status: BookingStatus, blocked: BlockedTransition[]) {
+    super(
+      blocked.length === 1
+        ? blocked[0].reasons.join(' ')
+        : `${blocked.length} bookings cannot move to ${formatBookingStatus(status)}.`
+    );
+    this.name = 'BookingTransitionError';
+    this.status = status;
+    this.blocked = blocked;
+  }
+}
+
+export const isBookingTransitionError = (error: any): error is BookingTransitionError =>
+  !!error && error.isBookingTransitionError === true;
+
+/**
+ * Split bookings into those that may move to `to` and those that are blocked, with reasons
+ */
+export function partitionBookingTransitions<T extends BookingTransitionSubject & { id: string }>(
+  bookings: T[],
+  to: BookingStatus,
+  role?: UserRole | null
+): { allowed: T[]; blocked: BlockedTransition[] } {
+  const allowed: T[] = [];
+  const blocked: BlockedTransition[] = [];
+  bookings.forEach(booking => {
+    const check = checkBookingTransition(booking, to, role);
+    if (check.allowed) {
+      allowed.push(booking);
+    } else {
+      blocked.push({ bookingId: booking.id, reasons: check.reasons });
+    }
+  });
+  return { allowed, blocked };
+}
@@ -0,0 +1,239 @@
+/**
+ * Customer Index
+ * Pure helpers that group enquiries, quotations and bookings into one profile per
+ * customer, keyed by normalised phone number
+ */
+
+import { Enquiry, Booking } from '../services/types';
+import type { Quotation } from '../api/quotations';
+import { normalizePhoneNumber } from './formatting';
+import { isEnquiryOpen, isBookingOpen } from '../services/reminders.service';
+
+export type CustomerEntityType = 'enquiry' | 'quotation' | 'booking';
+
+export interface CustomerProfile {
+  key: string;
+  phone: string;
+  name: string;
+  emails: string[];
+  enquiries: Enquiry[];
+  quotations: Quotation[];
+  bookings: Booking[];
+  firstSeenAt: string | null;
+  lastActivityAt: string | null;
+}
+
+export interface CustomerActivity {
+  id: string;
+  entityType: CustomerEntityType;
+  entityId: string;
+  kind: 'created' | 'remark';
+  title: string;
+  description?: string;
+  author?: string;
+  timestamp: string;
+}
+
+export interface CustomerOpenItems {
+  enquiries: Enquiry[];
+  quotations: Quotation[];
+  bookings: Booking[];
+}
+
+export type CustomerIndex = Map<string, CustomerProfile>;
+
+const OPEN_QUOTATION_STATUSES = ['PENDING', 'DRAFT', 'SENT', 'VIEWED'];
+
+const timeOf = (value?: string | null): number => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+};
+
+export function isQuotationOpen(quotation: Pick<Quotation, 'status'>): boolean {
+  return OPEN_QUOTATION_STATUSES.includes(quotation.status);
+}
+
+/**
+ * Phone number a quotation belongs to: its own, its embedded enquiry's, or the linked
+ * enquiry's when only enquiryId is present
+ */
+function getQuotationPhone(quotation: Quotation, enquiriesById: Map<string, Enquiry>): string {
+  return (
+    quotation.customerPhone ||
+    quotation.enquiry?.customerContact ||
+    (quotation.enquiryId ? enquiriesById.get(quotation.enquiryId)?.customerContact : undefined) ||
+    ''
+  );
+}
+
+/**
+ * Build the customer index. Records without a usable phone number are left out, since
+ * names alone are too ambiguous to merge on.
+ */
+export function buildCustomerIndex(data: {
+  enquiries: Enquiry[];
+  quotations: Quotation[];
+  bookings: Booking[];
+}): CustomerIndex {
+  const index: CustomerIndex = new Map();
+  const enquiriesById = new Map(data.enquiries.map(enquiry => [enquiry.id, enquiry]));
+
+  const touch = (
+    phone: string,
+    name: string | undefined,
+    email: string | undefined,
+    timestamp: string | undefined
+  ): CustomerProfile | null => {
+    const key = normalizePhoneNumber(phone);
+    if (!key) return null;
+
+    let profile = index.get(key);
+    if (!profile) {
+      profile = {
+        key,
+        phone,
+        name: name || '',
+        emails: [],
+        enquiries: [],
+        quotations: [],
+        bookings: [],
+        firstSeenAt: null,
+        lastActivityAt: null,
+      };
+      index.set(key, profile);
+    }
+
+    // The most recent record wins for the display name
+    if (name && (!profile.name || timeOf(timestamp) >= timeOf(profile.lastActivityAt))) {
+      profile.name = name;
+    }
+    if (email && !profile.emails.includes(email)) {
+      profile.emails.push(email);
+    }
+    if (timestamp) {
+      if (!profile.firstSeenAt || timeOf(timestamp) < timeOf(profile.firstSeenAt)) {
+        profile.firstSeenAt = timestamp;
+      }
+      if (!profile.lastActivityAt || timeOf(timestamp) > timeOf(profile.lastActivityAt)) {
+        profile.lastActivityAt = timestamp;
+      }
+    }
+    return profile;
+  };
+
+  data.enquiries.forEach(enquiry => {
+    touch(
+      enquiry.customerContact,
+      enquiry.customerName,
+      enquiry.customerEmail,
+      enquiry.updatedAt || enquiry.createdAt
+    )?.enquiries.push(enquiry);
+  });
+
+  data.quotations.forEach(quotation => {
+    touch(
+      getQuotationPhone(quotation, enquiriesById),
+      quotation.customerName || quotation.enquiry?.customerName,
+      quotation.customerEmail,
+      quotation.updatedAt || quotation.createdAt
+    )?.quotations.push(quotation);
+  });
+
+  data.bookings.forEach(booking => {
+    touch(
+      booking.customerPhone,
+      booking.customerName,
+      booking.customerEmail,
+      booking.updatedAt || booking.createdAt
+    )?.bookings.push(booking);
+  });
+
+  return index;
+}
+
+/**
+ * Look up one customer by any formatting of their phone number
+ */
+export function findCustomer(index: CustomerIndex, phone: string): CustomerProfile | null {
+  return index.get(normalizePhoneNumber(phone)) || null;
+}
+
+/**
+ * Everything that happened with a customer, newest first: each enquiry, quotation and
+ * booking, plus the non-cancelled remarks recorded against them
+ */
+export function getCustomerJourney(profile: CustomerProfile): CustomerActivity[] {
+  const activities: CustomerActivity[] = [];
+
+  const addRemarks = (
+    entityType: CustomerEntityType,
+    entityId: string,
+    remarks: Enquiry['remarkHistory']
+  ) => {
+    (remarks || [])
+      .filter(entry => !entry.cancelled)
+      .forEach(entry => {
+        activities.push({
+          id: `remark:${entry.id}`,
+          entityType,
+          entityId,
+          kind: 'remark',
+          title: 'Remark',
+          description: entry.remark,
+          author: entry.createdBy?.name,
+          timestamp: entry.createdAt,
+        });
+      });
+  };
+
+  profile.enquiries.forEach(enquiry => {
+    activities.push({
+      id: `enquiry:${enquiry.id}`,
+      entityType: 'enquiry',
+      entityId: enquiry.id,
+      kind: 'created',
+      title: `Enquiry for ${[enquiry.model, enquiry.variant].filter(Boolean).join(' ')}`,
+      description: `${enquiry.category} • ${enquiry.status}`,
+      author: enquiry.createdBy?.name,
+      timestamp: enquiry.createdAt,
+    });
+    addRemarks('enquiry', enquiry.id, enquiry.remarkHistory);
+  });
+
+  profile.quotations.forEach(quotation => {
+    activities.push({
+      id: `quotation:${quotation.id}`,
+      entityType: 'quotation',
+      entityId: quotation.id,
+      kind: 'created',
+      title: `Quotation ${quotation.quotationNumber || ''}`.trim(),
+      description: [quotation.vehicleDetails, quotation.status].filter(Boolean).join(' • '),
+      author: quotation.createdBy,
+      timestamp: quotation.createdAt,
+    });
+  });
+
+  profile.bookings.forEach(booking => {
+    activities.push({
+      id: `booking:${booking.id}`,
+      entityType: 'booking',
+      entityId: booking.id,
+      kind: 'created',
+      title: `Booking for ${booking.variant}`,
+      description: booking.status,
+      author: booking.advisor?.name,
+      timestamp: booking.bookingDate || booking.createdAt,
+    });
+    addRemarks('booking', booking.id, booking.remarkHistory);
+  });
+
+  return activities.sort((a, b) => timeOf(b.timestamp) - timeOf(a.timestamp));
+}
+
+export function getOpenItems(profile: CustomerProfile): CustomerOpenItems {
+  return {
+    enquiries: profile.enquiries.filter(isEnquiryOpen),
+    quotations: profile.quotations.filter(isQuotationOpen),
+    bookings: profile.bookings.filter(isBookingOpen),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Duplicate Enquiry Detection
+ * Pure helpers that match a new enquiry against existing ones by normalised phone,
+ * fuzzy customer name and same model within a recent window
+ */
+
+import { Enquiry } from '../services/types';
+import { normalizePhoneNumber } from './formatting';
+import { isEnquiryOpen } from '../services/reminders.service';
+
+// How far back a name + model match counts as the same walk-in
+export const DUPLICATE_WINDOW_DAYS = 30;
+
+// Minimum name similarity (0-1) for two names to be treated as the same person
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DuplicateReason = 'phone' | 'name' | 'model';
+
+export interface DuplicateCandidate {
+  customerName: string;
+  customerContact: string;
+  model?: string;
+}
+
+export interface DuplicateMatch {
+  enquiry: Enquiry;
+  reasons: DuplicateReason[];
+  nameSimilarity: number;
+}
+
+/**
+ * Lower-case, strip honorifics, punctuation and repeated whitespace
+ */
+export function normalizeCustomerName(name?: string | null): string {
+  return (name || '')
+    .toLowerCase()
+    .replace(/\b(mr|mrs|ms|miss|dr|shri|smt)\b\.?/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity between two customer names, 0 (different) to 1 (same).
+ * Word order is ignored so "Sharma Rahul" matches "Rahul Sharma".
+ */
+export function nameSimilarity(a?: string | null, b?: string | null): number {
+  const left = normalizeCustomerName(a).split(' ').sort().join(' ');
+  const right = normalizeCustomerName(b).split(' ').sort().join(' ');
+  if (!left || !right) return 0;
+
+  const longest = Math.max(left.length, right.length);
+  return 1 - levenshtein(left, right) / longest;
+}
+
+const sameModel = (a?: string, b?: string) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Find existing enquiries that are probably the same customer.
+ *
+ * A phone match counts while the existing enquiry is open or recent; a fuzzy name match
+ * only counts together with the same model inside the window. Matches are ordered with
+ * phone matches first, then by name similarity.
+ */
+export function findDuplicateEnquiries(
+  candidate: DuplicateCandidate,
+  existing: Enquiry[],
+  options: { windowDays?: number; now?: Date } = {}
+): DuplicateMatch[] {
+  const windowStart =
+    (options.now ?? new Date()).getTime() - (options.windowDays ?? DUPLICATE_WINDOW_DAYS) * DAY_MS;
+  const phoneKey = normalizePhoneNumber(candidate.customerContact);
+
+  const matches: DuplicateMatch[] = [];
+  existing.forEach(enquiry => {
+    const createdAt = new Date(enquiry.createdAt).getTime();
+    const isRecent = !isNaN(createdAt) && createdAt >= windowStart;
+    const similarity = nameSimilarity(candidate.customerName, enquiry.customerName);
+
+    const reasons: DuplicateReason[] = [];
+    const phoneMatch = !!phoneKey && normalizePhoneNumber(enquiry.customerContact) === phoneKey;
+    if (phoneMatch && (isRecent || isEnquiryOpen(enquiry))) {
+      reasons.push('phone');
+    }
+    if (similarity >= NAME_SIMILARITY_THRESHOLD && sameModel(candidate.model, enquiry.model) && isRecent) {
+      reasons.push('name', 'model');
+    }
+
+    if (reasons.length > 0) {
+      matches.push({ enquiry, reasons, nameSimilarity: similarity });
+    }
+  });
+
+  return matches.sort((a, b) => {
+    const phoneOrder = Number(b.reasons.includes('phone')) - Number(a.reasons.includes('phone'));
+    return phoneOrder !== 0 ? phoneOrder : b.nameSimilarity - a.nameSimilarity;
+  });
+}
+
+export function describeDuplicateReasons(reasons: DuplicateReason[]): string {
+  const labels: Record<DuplicateReason, string> = {
+    phone: 'same phone',
+    name: 'similar name',
+    model: 'same model',
+  };
+  return reasons.map(reason => labels[reason]).join(', ');
+}
@@ -0,0 +1,213 @@
+/**
+ * Enquiry import mapping and validation
+ * Turns spreadsheet rows from BTL events and digital campaigns into enquiries, fills the
+ * mandatory dates and source when the sheet leaves them out, and flags rows for
+ * customers who already have an open enquiry.
+ */
+
+import { CreateEnquiryRequest, EnquirySource } from '../services/types';
+import { CustomerIndex, findCustomer, getOpenItems } from './customerIndex';
+import { formatEnquirySource, normalizePhoneNumber } from './formatting';
+import { isValidEmail, isValidPhoneNumber } from './validation';
+import {
+  ColumnMapping,
+  ImportFieldDefinition,
+  ImportIssue,
+  ImportRow,
+  normalizeHeader,
+  parseImportDate,
+  parseImportEnum,
+  readMappedValues,
+} from './spreadsheetImport';
+
+export type EnquiryImportField =
+  | 'customerName'
+  | 'customerContact'
+  | 'customerEmail'
+  | 'model'
+  | 'variant'
+  | 'color'
+  | 'fuelType'
+  | 'source'
+  | 'location'
+  | 'expectedBookingDate'
+  | 'nextFollowUpDate'
+  | 'caRemarks';
+
+export const ENQUIRY_IMPORT_FIELDS: ImportFieldDefinition<EnquiryImportField>[] = [
+  { key: 'customerName', label: 'Customer Name', required: true, aliases: ['name', 'customer', 'lead name'] },
+  { key: 'customerContact', label: 'Phone', required: true, aliases: ['mobile', 'mobile number', 'phone number', 'contact', 'contact number'] },
+  { key: 'customerEmail', label: 'Email', aliases: ['email id', 'mail'] },
+  { key: 'model', label: 'Model', required: true, aliases: ['vehicle', 'car', 'interested model', 'model interested'] },
+  { key: 'variant', label: 'Variant', aliases: ['trim'] },
+  { key: 'color', label: 'Colour', aliases: ['color'] },
+  { key: 'fuelType', label: 'Fuel Type', aliases: ['fuel'] },
+  { key: 'source', label: 'Source', aliases: ['lead source', 'enquiry source', 'channel'] },
+  { key: 'location', label: 'Location', aliases: ['city', 'area', 'event', 'venue'] },
+  { key: 'expectedBookingDate', label: 'Expected Booking', aliases: ['expected booking date', 'booking date', 'ebd'] },
+  { key: 'nextFollowUpDate', label: 'Next Follow-up', aliases: ['follow up', 'follow up date', 'next follow up date', 'followup'] },
+  { key: 'caRemarks', label: 'Remarks', aliases: ['remark', 'comments', 'notes'] },
+];
+
+export type EnquiryImportRecord = Omit<CreateEnquiryRequest, 'category' | 'dealerCode' | 'dealershipId'>;
+
+export type EnquiryImportRow = ImportRow<EnquiryImportField, EnquiryImportRecord>;
+
+export interface EnquiryImportOptions {
+  // Used when the sheet has no source column or the cell is empty
+  defaultSource: EnquirySource;
+  // YYYY-MM-DD; used when the sheet leaves the mandatory dates out
+  defaultExpectedBookingDate: string;
+  defaultFollowUpDate: string;
+  // Existing contacts to check against; null skips the check
+  customers: CustomerIndex | null;
+  // Compared against YYYY-MM-DD dates; defaults to today
+  today?: string;
+}
+
+const ENQUIRY_SOURCES = Object.values(EnquirySource);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local YYYY-MM-DD for a date, the format imported dates are compared in
+ */
+export const toImportDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Accept the enum value or its display label ("BTL Activity", "Tele-in")
+ */
+function parseEnquirySource(value: string): EnquirySource | null {
+  const byValue = parseImportEnum(value, ENQUIRY_SOURCES);
+  if (byValue) return byValue;
+  const text = normalizeHeader(value);
+  return ENQUIRY_SOURCES.find(source => normalizeHeader(formatEnquirySource(source)) === text) ?? null;
+}
+
+/**
+ * Map and validate one spreadsheet row
+ */
+export function validateEnquiryImportRow(
+  cells: string[],
+  rowNumber: number,
+  mapping: ColumnMapping<EnquiryImportField>,
+  options: EnquiryImportOptions
+): EnquiryImportRow {
+  const values = readMappedValues(cells, mapping, ENQUIRY_IMPORT_FIELDS);
+  const errors: ImportIssue<EnquiryImportField>[] = [];
+  const today = options.today || toImportDate(new Date());
+
+  const record: EnquiryImportRecord = {
+    customerName: values.customerName,
+    customerContact: values.customerContact.replace(/[\s-]/g, ''),
+    customerEmail: values.customerEmail || undefined,
+    model: values.model,
+    variant: values.variant,
+    color: values.color || undefined,
+    fuelType: values.fuelType || undefined,
+    source: options.defaultSource,
+    location: values.location || undefined,
+    expectedBookingDate: options.defaultExpectedBookingDate,
+    nextFollowUpDate: options.defaultFollowUpDate,
+    caRemarks: values.caRemarks || undefined,
+  };
+
+  if (!record.customerName) {
+    errors.push({ field: 'customerName', message: 'Customer name is required' });
+  }
+
+  if (!record.customerContact) {
+    errors.push({ field: 'customerContact', message: 'Phone is required' });
+  } else if (!isValidPhoneNumber(record.customerContact)) {
+    errors.push({ field: 'customerContact', message: `"${values.customerContact}" is not a valid phone number` });
+  }
+
+  if (record.customerEmail && !isValidEmail(record.customerEmail)) {
+    errors.push({ field: 'customerEmail', message: `"${record.customerEmail}" is not a valid email` });
+  }
+
+  if (!record.model) {
+    errors.push({ field: 'model', message: 'Model is required' });
+  }
+
+  if (values.source) {
+    const source = parseEnquirySource(values.source);
+    if (source) {
+      record.source = source;
+    } else {
+      errors.push({ field: 'source', message: `"${values.source}" is not an enquiry source` });
+    }
+  }
+
+  // Same rule as NewEnquiryScreen: both dates are mandatory and cannot be in the past
+  (['expectedBookingDate', 'nextFollowUpDate'] as const).forEach(field => {
+    if (!values[field]) return;
+    const parsed = parseImportDate(values[field]);
+    if (!parsed) {
+      errors.push({ field, message: `"${values[field]}" is not a valid date (use DD/MM/YYYY)` });
+    } else if (parsed < today) {
+      errors.push({ field, message: `${values[field]} is in the past` });
+    } else {
+      record[field] = parsed;
+    }
+  });
+
+  if (record.customerContact && options.customers) {
+    const customer = findCustomer(options.customers, record.customerContact);
+    const [openEnquiry] = customer ? getOpenItems(customer).enquiries : [];
+    if (openEnquiry) {
+      const owner = openEnquiry.assignedTo?.name || openEnquiry.createdBy?.name;
+      errors.push({
+        field: 'customerContact',
+        message: `${openEnquiry.customerName} already has an open enquiry${owner ? ` with ${owner}` : ''}`,
+      });
+    }
+  }
+
+  return { rowNumber, cells, record, errors };
+}
+
+/**
+ * Validate every data row of a sheet. Row numbers start at 2 (row 1 is the header).
+ * A phone repeated within the file is flagged on every row after the first.
+ */
+export function buildEnquiryImportRows(
+  rows: string[][],
+  mapping: ColumnMapping<EnquiryImportField>,
+  options: EnquiryImportOptions
+): EnquiryImportRow[] {
+  const firstRowByPhone = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const row = validateEnquiryImportRow(cells, index + 2, mapping, options);
+    const phone = normalizePhoneNumber(row.record.customerContact);
+    if (phone) {
+      const firstRow = firstRowByPhone.get(phone);
+      if (firstRow === undefined) {
+        firstRowByPhone.set(phone, row.rowNumber);
+      } else {
+        row.errors.push({ field: 'customerContact', message: `Same phone as row ${firstRow}` });
+      }
+    }
+    return row;
+  });
+}
+
+const ENQUIRY_IMPORT_COLUMNS: Array<keyof CreateEnquiryRequest> = [
+  ...ENQUIRY_IMPORT_FIELDS.map(field => field.key),
+  'assignedToUserId',
+];
+
+/**
+ * Header and cell values for the cleaned file sent to the bulk import endpoint
+ */
+export function toEnquiryImportTable(records: EnquiryImportRecord[]): string[][] {
+  const body = records.map(record =>
+    ENQUIRY_IMPORT_COLUMNS.map(key => {
+      const value = record[key as keyof EnquiryImportRecord];
+      return value === undefined || value === null ? '' : String(value);
+    })
+  );
+  return [ENQUIRY_IMPORT_COLUMNS.map(String), ...body];
+}
@@ -155,6 +155,25 @@ export function parseAPIDate(dateString: string): Date {
   return new Date(dateString);
 }
 
+/**
+ * Normalise a phone number to a comparable key
+ * Strips formatting, the +91/0 prefixes and leading zeros so the same Indian mobile
+ * number entered as "+91 98765 43210", "098765-43210" or "9876543210" compares equal.
+ * 
+ * @param phone - Phone number in any format
+ * @returns Digits-only key, or an empty string when there are no digits
+ */
+export function normalizePhoneNumber(phone?: string | null): string {
+  if (!phone) return '';
+  const cleaned = phone.replace(/\D/g, '').replace(/^0+/, '');
+
+  if (cleaned.length === 12 && cleaned.startsWith('91')) {
+    return cleaned.slice(2);
+  }
+
+  return cleaned;
+}
+
 /**
  * Format phone number for display
  * 
@@ -0,0 +1,185 @@
+/**
+ * Inventory
+ * Pure helpers over the stock domain model: how healthy an entry's stock level is,
+ * totals across a list of entries and how long individual units have been in the yard
+ */
+
+import { Stock, StockStats, VehicleUnit, VehicleUnitStatus } from '../types/stock';
+
+export type StockLevel = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+// At or below this share of units still available an entry counts as low
+export const LOW_STOCK_RATIO = 0.3;
+
+export const STOCK_LEVEL_LABELS: Record<StockLevel, string> = {
+  in_stock: 'In Stock',
+  low_stock: 'Low Stock',
+  out_of_stock: 'Out of Stock',
+};
+
+export const STOCK_LEVEL_COLORS: Record<StockLevel, string> = {
+  in_stock: '#10B981',
+  low_stock: '#F59E0B',
+  out_of_stock: '#EF4444',
+};
+
+export const UNIT_STATUS_LABELS: Record<VehicleUnitStatus, string> = {
+  IN_TRANSIT: 'In Transit',
+  AVAILABLE: 'Available',
+  RESERVED: 'Reserved',
+  SOLD: 'Sold',
+};
+
+export const UNIT_STATUS_COLORS: Record<VehicleUnitStatus, string> = {
+  IN_TRANSIT: '#3B82F6',
+  AVAILABLE: '#10B981',
+  RESERVED: '#F59E0B',
+  SOLD: '#6B7280',
+};
+
+export function getStockLevel(stock: Pick<Stock, 'quantity' | 'availableQuantity'>): StockLevel {
+  if (stock.availableQuantity <= 0) return 'out_of_stock';
+  if (stock.quantity > 0 && stock.availableQuantity / stock.quantity <= LOW_STOCK_RATIO) return 'low_stock';
+  return 'in_stock';
+}
+
+/**
+ * Statistics for a list of stock entries, for screens that already hold the list.
+ * Entries marked SOLD have left the yard and only count towards soldVehicles.
+ */
+export function summarizeStock(stocks: Stock[]): StockStats {
+  let totalVehicles = 0;
+  let availableVehicles = 0;
+  let reservedVehicles = 0;
+  let soldVehicles = 0;
+  let outOfStockEntries = 0;
+  let totalValue = 0;
+  const byLocation = new Map<string, number>();
+  const byVariant = new Map<string, number>();
+
+  stocks.forEach(stock => {
+    if (stock.status === 'SOLD') {
+      soldVehicles += stock.quantity;
+      return;
+    }
+    const held = stock.availableQuantity + stock.reservedQuantity;
+    totalVehicles += held;
+    availableVehicles += stock.availableQuantity;
+    reservedVehicles += stock.reservedQuantity;
+    if (stock.availableQuantity <= 0) outOfStockEntries += 1;
+    totalValue += held * stock.price;
+
+    const location = stock.location || stock.dealerCode || 'Unassigned';
+    byLocation.set(location, (byLocation.get(location) || 0) + held);
+    byVariant.set(stock.variant, (byVariant.get(stock.variant) || 0) + held);
+  });
+
+  return {
+    totalVehicles,
+    availableVehicles,
+    reservedVehicles,
+    soldVehicles,
+    outOfStockEntries,
+    totalValue,
+    averagePrice: totalVehicles > 0 ? totalValue / totalVehicles : 0,
+    stockByLocation: Array.from(byLocation, ([location, total]) => ({ location, total })),
+    topModels: Array.from(byVariant, ([variant, quantity]) => ({ variant, quantity }))
+      .sort((a, b) => b.quantity - a.quantity),
+  };
+}
+
+export type AgeingBucketKey = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface AgeingBucketDefinition {
+  key: AgeingBucketKey;
+  label: string;
+  minDays: number;
+  // Inclusive upper bound; null for the open-ended last bucket
+  maxDays: number | null;
+  color: string;
+}
+
+export const AGEING_BUCKETS: AgeingBucketDefinition[] = [
+  { key: '0-30', label: '0-30 days', minDays: 0, maxDays: 30, color: '#10B981' },
+  { key: '31-60', label: '31-60 days', minDays: 31, maxDays: 60, color: '#3B82F6' },
+  { key: '61-90', label: '61-90 days', minDays: 61, maxDays: 90, color: '#F59E0B' },
+  { key: '90+', label: '90+ days', minDays: 91, maxDays: null, color: '#EF4444' },
+];
+
+export interface AgedVehicleUnit {
+  unit: VehicleUnit;
+  ageDays: number;
+}
+
+export interface AgeingBucket extends AgeingBucketDefinition {
+  units: AgedVehicleUnit[];
+}
+
+export interface InventoryAgeingReport {
+  buckets: AgeingBucket[];
+  // Units in the yard with no arrival date recorded, so their age is unknown
+  undated: VehicleUnit[];
+  totalUnits: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Chassis numbers are typed by hand on bookings; compare them without case or spaces
+ */
+export const normalizeChassisNumber = (value?: string) => (value || '').replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Whole days the unit has been in the yard (0 = arrived today), or null when it has not
+ * arrived or the arrival date is unreadable
+ */
+export function getUnitAgeDays(unit: Pick<VehicleUnit, 'arrivalDate'>, now: Date = new Date()): number | null {
+  if (!unit.arrivalDate) return null;
+  const arrival = new Date(unit.arrivalDate);
+  if (Number.isNaN(arrival.getTime())) return null;
+  const days = Math.round((startOfDay(now).getTime() - startOfDay(arrival).getTime()) / DAY_MS);
+  return Math.max(days, 0);
+}
+
+export function getAgeingBucket(ageDays: number): AgeingBucketDefinition {
+  return (
+    AGEING_BUCKETS.find(bucket => bucket.maxDays === null || ageDays <= bucket.maxDays) ||
+    AGEING_BUCKETS[AGEING_BUCKETS.length - 1]
+  );
+}
+
+/**
+ * Whether the unit is physically in the yard and still counts towards ageing.
+ * Reserved units count until delivery; in-transit and sold units do not.
+ */
+export function isUnitInYard(unit: Pick<VehicleUnit, 'status'>): boolean {
+  return unit.status === 'AVAILABLE' || unit.status === 'RESERVED';
+}
+
+/**
+ * Group the units in the yard by age, oldest first within each bucket
+ */
+export function buildAgeingReport(units: VehicleUnit[], now: Date = new Date()): InventoryAgeingReport {
+  const buckets: AgeingBucket[] = AGEING_BUCKETS.map(bucket => ({ ...bucket, units: [] }));
+  const undated: VehicleUnit[] = [];
+
+  units.filter(isUnitInYard).forEach(unit => {
+    const ageDays = getUnitAgeDays(unit, now);
+    if (ageDays === null) {
+      undated.push(unit);
+      return;
+    }
+    const key = getAgeingBucket(ageDays).key;
+    buckets.find(bucket => bucket.key === key)!.units.push({ unit, ageDays });
+  });
+
+  buckets.forEach(bucket => bucket.units.sort((a, b) => b.ageDays - a.ageDays));
+
+  return {
+    buckets,
+    undated,
+    totalUnits: buckets.reduce((sum, bucket) => sum + bucket.units.length, 0) + undated.length,
+  };
+}
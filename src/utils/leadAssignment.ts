@@ -0,0 +1,181 @@
+/**
+ * Lead assignment
+ * Pure helpers that spread enquiries across customer advisors. Round robin and least load
+ * match bookingAPI.autoAssignBookings; the other strategies narrow the advisors by the
+ * dealership's model expertise and source rules before balancing load.
+ */
+
+import { Enquiry, EnquiryCategory, EnquirySource } from '../services/types';
+import { isEnquiryOpen } from '../services/reminders.service';
+import { formatEnquirySource } from './formatting';
+import { getEnquiryOwnerId } from './teamPerformance';
+
+export type LeadAssignmentStrategy =
+  | 'ROUND_ROBIN'
+  | 'LEAST_LOAD'
+  | 'LEAST_HOT'
+  | 'MODEL_EXPERTISE'
+  | 'BY_SOURCE';
+
+export const LEAD_ASSIGNMENT_STRATEGY_LABELS: Record<LeadAssignmentStrategy, string> = {
+  ROUND_ROBIN: 'Round robin',
+  LEAST_LOAD: 'Least load',
+  LEAST_HOT: 'Fewest HOT leads',
+  MODEL_EXPERTISE: 'Model expertise',
+  BY_SOURCE: 'By source',
+};
+
+/**
+ * Per-dealership assignment rules
+ */
+export interface EnquiryAssignmentConfig {
+  strategy: LeadAssignmentStrategy;
+  // Models each advisor specialises in, by advisor id
+  modelExpertise: Record<string, string[]>;
+  // Advisor ids that handle each enquiry source
+  sourceOwners: Partial<Record<EnquirySource, string[]>>;
+}
+
+export const DEFAULT_ENQUIRY_ASSIGNMENT_CONFIG: EnquiryAssignmentConfig = {
+  strategy: 'ROUND_ROBIN',
+  modelExpertise: {},
+  sourceOwners: {},
+};
+
+export interface AssignableAdvisor {
+  id: string;
+  name: string;
+  // Open enquiries the advisor already holds
+  openLeads: number;
+  // Of those, how many are HOT
+  hotLeads: number;
+}
+
+// The TeamMember fields availability is decided on. The backend only reports whether a
+// user is active, so inactive advisors are the only ones skipped.
+export interface AdvisorCandidate {
+  id: string;
+  name: string;
+  role: string;
+  status: 'active' | 'inactive' | 'on_leave';
+}
+
+export type AssignableLead = Pick<Enquiry, 'model'> & {
+  source?: EnquirySource;
+  category?: EnquiryCategory;
+};
+
+export interface LeadAssignment<L extends AssignableLead> {
+  lead: L;
+  // null when nobody is available
+  advisor: AssignableAdvisor | null;
+  // Why this advisor was picked, shown in the preview
+  reason: string;
+}
+
+/**
+ * Open enquiries per owning advisor id (see getEnquiryOwnerId)
+ */
+export function countOpenEnquiriesByAdvisor(enquiries: Enquiry[]): Record<string, number> {
+  return enquiries.reduce<Record<string, number>>((counts, enquiry) => {
+    const ownerId = getEnquiryOwnerId(enquiry);
+    if (ownerId && isEnquiryOpen(enquiry)) {
+      counts[ownerId] = (counts[ownerId] || 0) + 1;
+    }
+    return counts;
+  }, {});
+}
+
+/**
+ * Split team members into advisors who can take new leads, with their current load,
+ * and advisors who are inactive
+ */
+export function getAssignableAdvisors<M extends AdvisorCandidate>(
+  members: M[],
+  enquiries: Enquiry[]
+): { available: AssignableAdvisor[]; unavailable: M[] } {
+  const advisors = members.filter(member => member.role === 'CUSTOMER_ADVISOR');
+  const openLeads = countOpenEnquiriesByAdvisor(enquiries);
+  const hotLeads = countOpenEnquiriesByAdvisor(
+    enquiries.filter(enquiry => enquiry.category === EnquiryCategory.HOT)
+  );
+
+  return {
+    available: advisors
+      .filter(member => member.status === 'active')
+      .map(member => ({
+        id: member.id,
+        name: member.name,
+        openLeads: openLeads[member.id] || 0,
+        hotLeads: hotLeads[member.id] || 0,
+      })),
+    unavailable: advisors.filter(member => member.status !== 'active'),
+  };
+}
+
+const sameModel = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Pick an advisor for each lead, in order.
+ *
+ * ROUND_ROBIN cycles through advisors alphabetically. LEAST_LOAD and LEAST_HOT give the
+ * next lead to whoever holds the fewest open (or open HOT) enquiries, counting the ones
+ * handed out so far. MODEL_EXPERTISE and BY_SOURCE balance load among the advisors the
+ * rules name for the lead's model or source, and among everyone when none of those is
+ * available.
+ */
+export function planLeadAssignment<L extends AssignableLead>(
+  leads: L[],
+  advisors: AssignableAdvisor[],
+  config: EnquiryAssignmentConfig
+): LeadAssignment<L>[] {
+  if (advisors.length === 0) {
+    return leads.map(lead => ({ lead, advisor: null, reason: 'No advisor available' }));
+  }
+
+  const ordered = [...advisors].sort((a, b) => a.name.localeCompare(b.name));
+  const open = new Map(ordered.map(advisor => [advisor.id, advisor.openLeads]));
+  const hot = new Map(ordered.map(advisor => [advisor.id, advisor.hotLeads]));
+  let turn = 0;
+
+  const leastOf = (candidates: AssignableAdvisor[], load: Map<string, number>) =>
+    candidates.reduce((best, advisor) => (load.get(advisor.id)! < load.get(best.id)! ? advisor : best));
+
+  return leads.map(lead => {
+    let advisor: AssignableAdvisor;
+    let reason: string;
+
+    if (config.strategy === 'ROUND_ROBIN') {
+      advisor = ordered[turn++ % ordered.length];
+      reason = 'Next in rotation';
+    } else if (config.strategy === 'LEAST_HOT') {
+      advisor = leastOf(ordered, hot);
+      reason = `Holds ${hot.get(advisor.id)} HOT leads`;
+    } else if (config.strategy === 'LEAST_LOAD') {
+      advisor = leastOf(ordered, open);
+      reason = `Holds ${open.get(advisor.id)} open leads`;
+    } else {
+      const eligible =
+        config.strategy === 'MODEL_EXPERTISE'
+          ? ordered.filter(candidate =>
+              (config.modelExpertise[candidate.id] || []).some(model => sameModel(model, lead.model))
+            )
+          : ordered.filter(candidate =>
+              !!lead.source && (config.sourceOwners[lead.source] || []).includes(candidate.id)
+            );
+      const rule =
+        config.strategy === 'MODEL_EXPERTISE'
+          ? `${lead.model} specialist`
+          : `${formatEnquirySource(lead.source)} owner`;
+
+      advisor = leastOf(eligible.length > 0 ? eligible : ordered, open);
+      reason = eligible.length > 0 ? rule : `No ${rule} available, least load`;
+    }
+
+    open.set(advisor.id, open.get(advisor.id)! + 1);
+    if (lead.category === EnquiryCategory.HOT) {
+      hot.set(advisor.id, hot.get(advisor.id)! + 1);
+    }
+    return { lead, advisor, reason };
+  });
+}
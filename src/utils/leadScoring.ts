@@ -0,0 +1,167 @@
+/**
+ * Lead Scoring
+ * Pure helpers that score an enquiry 0-100 from its source, booking horizon, follow-up
+ * adherence, remark activity, quotation and stock availability
+ */
+
+import { Enquiry, EnquirySource } from '../services/types';
+import { isEnquiryOpen } from '../services/reminders.service';
+import type { Stock } from '../types/stock';
+
+export type LeadScoreFactor =
+  | 'source'
+  | 'bookingProximity'
+  | 'followUpAdherence'
+  | 'remarkActivity'
+  | 'quotation'
+  | 'stockAvailability';
+
+export type LeadScoreWeights = Record<LeadScoreFactor, number>;
+
+export const DEFAULT_LEAD_SCORE_WEIGHTS: LeadScoreWeights = {
+  source: 15,
+  bookingProximity: 25,
+  followUpAdherence: 20,
+  remarkActivity: 15,
+  quotation: 15,
+  stockAvailability: 10,
+};
+
+export const LEAD_SCORE_FACTOR_LABELS: Record<LeadScoreFactor, string> = {
+  source: 'Enquiry Source',
+  bookingProximity: 'Expected Booking Date',
+  followUpAdherence: 'Follow-up Adherence',
+  remarkActivity: 'Remark Activity',
+  quotation: 'Quotation Shared',
+  stockAvailability: 'Variant In Stock',
+};
+
+// How likely each source is to convert, 0-1
+const SOURCE_SIGNALS: Record<EnquirySource, number> = {
+  [EnquirySource.REFERRAL]: 1,
+  [EnquirySource.SHOWROOM_VISIT]: 0.9,
+  [EnquirySource.PHONE_CALL]: 0.6,
+  [EnquirySource.DIGITAL]: 0.5,
+  [EnquirySource.BTL_ACTIVITY]: 0.4,
+};
+
+// Remarks inside this window count as recent activity
+const REMARK_WINDOW_DAYS = 14;
+const REMARKS_FOR_FULL_ACTIVITY = 3;
+
+// A follow-up this many days overdue scores zero
+const FOLLOW_UP_GRACE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type LeadScoreTier = 'hot' | 'warm' | 'cold';
+
+export interface LeadScore {
+  score: number;
+  tier: LeadScoreTier;
+  signals: Record<LeadScoreFactor, number>;
+}
+
+export interface LeadScoreContext {
+  weights?: LeadScoreWeights;
+  // Lower-cased variant names with stock on hand; omit when stock is unknown
+  inStockVariants?: Set<string>;
+  now?: Date;
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+const daysFromToday = (value: string | undefined, now: Date): number | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return Math.round((startOfDay(date) - startOfDay(now)) / DAY_MS);
+};
+
+function bookingProximitySignal(enquiry: Enquiry, now: Date): number {
+  const days = daysFromToday(enquiry.expectedBookingDate, now);
+  if (days === null) return 0;
+  if (days < 0) return 0.3;
+  if (days <= 7) return 1;
+  if (days <= 15) return 0.75;
+  if (days <= 30) return 0.5;
+  if (days <= 60) return 0.25;
+  return 0.1;
+}
+
+function followUpSignal(enquiry: Enquiry, now: Date): number {
+  const days = daysFromToday(enquiry.nextFollowUpDate, now);
+  if (days === null) return 0;
+  if (days >= 0) return 1;
+  return Math.max(0, 1 + days / FOLLOW_UP_GRACE_DAYS);
+}
+
+function remarkActivitySignal(enquiry: Enquiry, now: Date): number {
+  const windowStart = now.getTime() - REMARK_WINDOW_DAYS * DAY_MS;
+  const recent = (enquiry.remarkHistory || []).filter(entry => {
+    const time = new Date(entry.createdAt).getTime();
+    return !entry.cancelled && !isNaN(time) && time >= windowStart;
+  }).length;
+  return Math.min(1, recent / REMARKS_FOR_FULL_ACTIVITY);
+}
+
+function quotationSignal(enquiry: Enquiry): number {
+  const count = enquiry._count?.quotations ?? enquiry.quotations?.length ?? 0;
+  return count > 0 ? 1 : 0;
+}
+
+function stockSignal(enquiry: Enquiry, inStockVariants?: Set<string>): number {
+  if (!inStockVariants || !enquiry.variant) return 0.5;
+  return inStockVariants.has(enquiry.variant.trim().toLowerCase()) ? 1 : 0;
+}
+
+export function getLeadScoreTier(score: number): LeadScoreTier {
+  if (score >= 70) return 'hot';
+  if (score >= 40) return 'warm';
+  return 'cold';
+}
+
+/**
+ * Score one enquiry. Closed enquiries (LOST/BOOKED) are not leads and score 0.
+ */
+export function computeLeadScore(enquiry: Enquiry, context: LeadScoreContext = {}): LeadScore {
+  const now = context.now ?? new Date();
+  const weights = context.weights ?? DEFAULT_LEAD_SCORE_WEIGHTS;
+
+  const signals: Record<LeadScoreFactor, number> = {
+    source: enquiry.source ? SOURCE_SIGNALS[enquiry.source] ?? 0.5 : 0.5,
+    bookingProximity: bookingProximitySignal(enquiry, now),
+    followUpAdherence: followUpSignal(enquiry, now),
+    remarkActivity: remarkActivitySignal(enquiry, now),
+    quotation: quotationSignal(enquiry),
+    stockAvailability: stockSignal(enquiry, context.inStockVariants),
+  };
+
+  if (!isEnquiryOpen(enquiry)) {
+    return { score: 0, tier: 'cold', signals };
+  }
+
+  const factors = Object.keys(signals) as LeadScoreFactor[];
+  const totalWeight = factors.reduce((sum, factor) => sum + Math.max(0, weights[factor] || 0), 0);
+  if (totalWeight === 0) {
+    return { score: 0, tier: 'cold', signals };
+  }
+
+  const weighted = factors.reduce(
+    (sum, factor) => sum + Math.max(0, weights[factor] || 0) * signals[factor],
+    0
+  );
+  const score = Math.round((weighted / totalWeight) * 100);
+  return { score, tier: getLeadScoreTier(score), signals };
+}
+
+/**
+ * Variants with stock on hand, in the form computeLeadScore expects
+ */
+export function getInStockVariants(stock: Array<Pick<Stock, 'variant' | 'quantity' | 'availableQuantity'>>): Set<string> {
+  return new Set(
+    stock
+      .filter(item => (item.availableQuantity ?? item.quantity) > 0)
+      .map(item => item.variant.trim().toLowerCase())
+  );
+}
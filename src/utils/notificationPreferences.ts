@@ -0,0 +1,225 @@
+/**
+ * Notification preferences
+ * Which notification categories a user receives, on which channels, and when they are
+ * silenced. The same rules run on the device so a category the user has switched off is
+ * not shown even if the server still sends it.
+ */
+
+export type NotificationCategory =
+  | 'new_assignment'
+  | 'follow_up_due'
+  | 'delivery_today'
+  | 'remark_review'
+  | 'quotation_expiring';
+
+export type NotificationChannel = 'push' | 'in_app' | 'email';
+
+export interface CategoryPreference {
+  enabled: boolean;
+  channels: NotificationChannel[];
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  startHour: number;
+  startMinute: number;
+  endHour: number;
+  endMinute: number;
+}
+
+export interface NotificationPreferences {
+  categories: Record<NotificationCategory, CategoryPreference>;
+  quietHours: QuietHours;
+  // Summary emails kept from the server's original preference flags
+  eveningReminder: boolean;
+  weeklySummary: boolean;
+}
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  new_assignment: 'New assignment',
+  follow_up_due: 'Follow-up due',
+  delivery_today: 'Delivery today',
+  remark_review: 'Remark review',
+  quotation_expiring: 'Quotation expiring',
+};
+
+export const NOTIFICATION_CATEGORY_DESCRIPTIONS: Record<NotificationCategory, string> = {
+  new_assignment: 'Enquiries and bookings assigned or handed over to you',
+  follow_up_due: 'Follow-ups that are due, overdue or flagged urgent',
+  delivery_today: 'Deliveries due today and delayed retails',
+  remark_review: 'Remarks waiting for your review',
+  quotation_expiring: 'Quotations about to lapse',
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  push: 'Push',
+  in_app: 'In-app',
+  email: 'Email',
+};
+
+const ALL_CHANNELS: NotificationChannel[] = ['push', 'in_app', 'email'];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  categories: {
+    new_assignment: { enabled: true, channels: ['push', 'in_app'] },
+    follow_up_due: { enabled: true, channels: ['push', 'in_app'] },
+    delivery_today: { enabled: true, channels: ['push', 'in_app'] },
+    remark_review: { enabled: true, channels: ['push', 'in_app'] },
+    quotation_expiring: { enabled: true, channels: ['in_app', 'email'] },
+  },
+  quietHours: {
+    enabled: false,
+    startHour: 21,
+    startMinute: 0,
+    endHour: 8,
+    endMinute: 0,
+  },
+  eveningReminder: true,
+  weeklySummary: true,
+};
+
+// Category each known notification type belongs to. Types not listed (tests, digests,
+// system messages) are always delivered.
+const TYPE_CATEGORY: Record<string, NotificationCategory> = {
+  enquiry_assigned: 'new_assignment',
+  booking_assigned: 'new_assignment',
+  lead_assigned: 'new_assignment',
+  workload_handover: 'new_assignment',
+  follow_up_enquiry: 'follow_up_due',
+  follow_up_booking: 'follow_up_due',
+  follow_up_reminder: 'follow_up_due',
+  urgent_enquiry: 'follow_up_due',
+  urgent_booking: 'follow_up_due',
+  inactivity_alert: 'follow_up_due',
+  aging_alert: 'follow_up_due',
+  aging_alert_sm: 'follow_up_due',
+  aging_alert_gm: 'follow_up_due',
+  delivery_reminder: 'delivery_today',
+  retail_delay: 'delivery_today',
+  remark_review: 'remark_review',
+  remark_pending: 'remark_review',
+  quotation_expiring: 'quotation_expiring',
+  quotation_expired: 'quotation_expiring',
+};
+
+const isCategory = (value: unknown): value is NotificationCategory =>
+  typeof value === 'string' && value in NOTIFICATION_CATEGORY_LABELS;
+
+/**
+ * Category a notification belongs to, from an explicit `category` field or its type
+ */
+export function getNotificationCategory(data: unknown): NotificationCategory | null {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as Record<string, unknown>;
+  if (isCategory(raw.category)) return raw.category;
+  return typeof raw.type === 'string' ? TYPE_CATEGORY[raw.type] || null : null;
+}
+
+/**
+ * Whether `date` falls inside the quiet window. Windows may run past midnight.
+ */
+export function isWithinQuietHours(quietHours: QuietHours, date: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+  const start = quietHours.startHour * 60 + quietHours.startMinute;
+  const end = quietHours.endHour * 60 + quietHours.endMinute;
+  const now = date.getHours() * 60 + date.getMinutes();
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * The first moment at or after `date` outside the quiet window, for moving notifications
+ * scheduled on the device out of it
+ */
+export function deferPastQuietHours(quietHours: QuietHours, date: Date): Date {
+  if (!isWithinQuietHours(quietHours, date)) return date;
+  const end = new Date(date);
+  end.setHours(quietHours.endHour, quietHours.endMinute, 0, 0);
+  if (end.getTime() <= date.getTime()) end.setDate(end.getDate() + 1);
+  return end;
+}
+
+/**
+ * Whether a notification should be shown on the given channel at all
+ */
+export function isNotificationAllowed(
+  preferences: NotificationPreferences,
+  data: unknown,
+  channel: NotificationChannel
+): boolean {
+  const category = getNotificationCategory(data);
+  if (!category) return true;
+  const preference = preferences.categories[category];
+  return preference.enabled && preference.channels.includes(channel);
+}
+
+export function formatTimeOfDay(hour: number, minute: number): string {
+  const hour12 = hour % 12 || 12;
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour12}:${String(minute).padStart(2, '0')} ${suffix}`;
+}
+
+export function formatQuietHours(quietHours: QuietHours): string {
+  if (!quietHours.enabled) return 'Off';
+  return `${formatTimeOfDay(quietHours.startHour, quietHours.startMinute)} – ${formatTimeOfDay(
+    quietHours.endHour,
+    quietHours.endMinute
+  )}`;
+}
+
+/**
+ * Read stored or server preferences, filling anything missing from the defaults.
+ * Servers that only know the original boolean flags are mapped onto the categories.
+ */
+export function normalizeNotificationPreferences(raw: any): NotificationPreferences {
+  const defaults = DEFAULT_NOTIFICATION_PREFERENCES;
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  const categories = { ...defaults.categories };
+  (Object.keys(categories) as NotificationCategory[]).forEach(category => {
+    const stored = raw.categories?.[category];
+    if (stored && typeof stored === 'object') {
+      categories[category] = {
+        enabled: stored.enabled !== false,
+        channels: Array.isArray(stored.channels)
+          ? ALL_CHANNELS.filter(channel => stored.channels.includes(channel))
+          : defaults.categories[category].channels,
+      };
+    }
+  });
+
+  if (!raw.categories) {
+    const followUps = [raw.followUpEnquiry, raw.followUpBooking, raw.urgentEnquiry, raw.urgentBooking];
+    if (followUps.some(flag => typeof flag === 'boolean')) {
+      categories.follow_up_due = { ...categories.follow_up_due, enabled: followUps.some(flag => flag !== false) };
+    }
+    if (typeof raw.deliveryReminder === 'boolean') {
+      categories.delivery_today = { ...categories.delivery_today, enabled: raw.deliveryReminder };
+    }
+  }
+
+  return {
+    categories,
+    quietHours: { ...defaults.quietHours, ...(raw.quietHours || {}) },
+    eveningReminder: typeof raw.eveningReminder === 'boolean' ? raw.eveningReminder : defaults.eveningReminder,
+    weeklySummary: typeof raw.weeklySummary === 'boolean' ? raw.weeklySummary : defaults.weeklySummary,
+  };
+}
+
+/**
+ * Preferences in the shape the server stores: the original flags plus categories and quiet hours
+ */
+export function toServerPreferences(preferences: NotificationPreferences) {
+  const followUps = preferences.categories.follow_up_due.enabled;
+  return {
+    followUpEnquiry: followUps,
+    followUpBooking: followUps,
+    urgentEnquiry: followUps,
+    urgentBooking: followUps,
+    deliveryReminder: preferences.categories.delivery_today.enabled,
+    eveningReminder: preferences.eveningReminder,
+    weeklySummary: preferences.weeklySummary,
+    categories: preferences.categories,
+    quietHours: preferences.quietHours,
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Notification routing
+ * The payload schema shared by push notifications, local reminders and motorsync:// links,
+ * and how each resolves to a screen. Older payloads that only carry enquiryId / bookingId /
+ * entityId keep working.
+ */
+
+export type NotificationEntityType = 'enquiry' | 'booking' | 'quotation';
+
+export interface NotificationPayload {
+  type: string;
+  entityType?: NotificationEntityType;
+  entityId?: string;
+  // Bookings only: open the update form instead of the details screen
+  view?: 'details' | 'update';
+  // motorsync:// link; wins over entityType/entityId when present
+  url?: string;
+}
+
+export type NotificationTarget =
+  | { screen: 'EnquiryDetails'; params: { enquiryId: string } }
+  | { screen: 'BookingDetails'; params: { bookingId: string } }
+  | { screen: 'BookingUpdate'; params: { bookingId: string } }
+  | { screen: 'QuotationDetails'; params: { quotationId: string } };
+
+export const DEEP_LINK_SCHEME = 'motorsync';
+
+// Inline action identifiers, registered as notification categories by NotificationService
+export const NOTIFICATION_ACTIONS = {
+  ADD_REMARK: 'add_remark',
+  FOLLOW_UP_DONE: 'follow_up_done',
+  UPDATE_BOOKING: 'update_booking',
+} as const;
+
+export const NOTIFICATION_CATEGORIES: Partial<Record<NotificationEntityType, string>> = {
+  enquiry: 'enquiry_actions',
+  booking: 'booking_actions',
+};
+
+// Entity each known notification type is about, for payloads that do not name it
+const TYPE_ENTITY: Record<string, NotificationEntityType> = {
+  follow_up_enquiry: 'enquiry',
+  urgent_enquiry: 'enquiry',
+  follow_up_reminder: 'enquiry',
+  inactivity_alert: 'enquiry',
+  aging_alert: 'enquiry',
+  aging_alert_sm: 'enquiry',
+  aging_alert_gm: 'enquiry',
+  follow_up_booking: 'booking',
+  urgent_booking: 'booking',
+  delivery_reminder: 'booking',
+  retail_delay: 'booking',
+};
+
+const ENTITY_ID_KEYS: Record<NotificationEntityType, string> = {
+  enquiry: 'enquiryId',
+  booking: 'bookingId',
+  quotation: 'quotationId',
+};
+
+const ENTITY_PATHS: Record<NotificationEntityType, string> = {
+  enquiry: 'enquiries',
+  booking: 'bookings',
+  quotation: 'quotations',
+};
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Read a notification's data into a payload. Returns null when there is nothing to act on.
+ */
+export function parseNotificationPayload(data: unknown): NotificationPayload | null {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as Record<string, unknown>;
+  const type = asString(raw.type) || 'general';
+  const url = asString(raw.url) || asString(raw.deepLink) || asString(raw.link);
+
+  let entityType = (Object.keys(ENTITY_PATHS) as NotificationEntityType[]).find(
+    candidate => candidate === raw.entityType
+  );
+  let entityId = asString(raw.entityId);
+
+  // Legacy payloads name the entity by key instead of entityType
+  if (!entityType) {
+    entityType =
+      (Object.keys(ENTITY_ID_KEYS) as NotificationEntityType[]).find(candidate =>
+        asString(raw[ENTITY_ID_KEYS[candidate]])
+      ) || TYPE_ENTITY[type];
+  }
+  if (entityType && !entityId) {
+    entityId = asString(raw[ENTITY_ID_KEYS[entityType]]);
+  }
+
+  if (!url && !(entityType && entityId)) {
+    return { type };
+  }
+  return {
+    type,
+    entityType,
+    entityId,
+    view: raw.view === 'update' ? 'update' : undefined,
+    url,
+  };
+}
+
+/**
+ * The screen a payload opens, if any
+ */
+export function getNotificationTarget(payload: NotificationPayload): NotificationTarget | null {
+  if (payload.url) {
+    const target = parseDeepLink(payload.url);
+    if (target) return target;
+  }
+  if (!payload.entityType || !payload.entityId) return null;
+
+  switch (payload.entityType) {
+    case 'enquiry':
+      return { screen: 'EnquiryDetails', params: { enquiryId: payload.entityId } };
+    case 'booking':
+      return payload.view === 'update'
+        ? { screen: 'BookingUpdate', params: { bookingId: payload.entityId } }
+        : { screen: 'BookingDetails', params: { bookingId: payload.entityId } };
+    case 'quotation':
+      return { screen: 'QuotationDetails', params: { quotationId: payload.entityId } };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve a motorsync:// link:
+ *   motorsync://enquiries/:id
+ *   motorsync://bookings/:id
+ *   motorsync://bookings/:id/update
+ *   motorsync://quotations/:id
+ */
+export function parseDeepLink(url: string): NotificationTarget | null {
+  const match = url.match(new RegExp(`^${DEEP_LINK_SCHEME}://+([^?#]*)`, 'i'));
+  if (!match) return null;
+
+  let segments: string[];
+  try {
+    segments = match[1].split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed percent-encoding (e.g. "%E0%A4%A") makes decodeURIComponent throw
+    return null;
+  }
+  const [section, id, action, ...rest] = segments;
+  if (!id || rest.length > 0) return null;
+
+  const entityType = (Object.keys(ENTITY_PATHS) as NotificationEntityType[]).find(
+    candidate => ENTITY_PATHS[candidate] === section?.toLowerCase()
+  );
+  if (!entityType || (action && !(entityType === 'booking' && action === 'update'))) return null;
+
+  return getNotificationTarget({
+    type: 'deep_link',
+    entityType,
+    entityId: id,
+    view: action === 'update' ? 'update' : undefined,
+  });
+}
+
+/**
+ * motorsync:// link for an entity, e.g. to embed in a notification or share
+ */
+export function buildDeepLink(entityType: NotificationEntityType, entityId: string, view?: 'update'): string {
+  const path = `${DEEP_LINK_SCHEME}://${ENTITY_PATHS[entityType]}/${encodeURIComponent(entityId)}`;
+  return view === 'update' && entityType === 'booking' ? `${path}/update` : path;
+}
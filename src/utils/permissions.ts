@@ -76,6 +76,13 @@ export const canExportData = (role: UserRole): boolean => {
   return ['ADMIN', 'GENERAL_MANAGER', 'SALES_MANAGER'].includes(role);
 };
 
+/**
+ * Check if user can bulk import data from spreadsheets
+ */
+export const canImportData = (role: UserRole): boolean => {
+  return ['ADMIN', 'GENERAL_MANAGER', 'SALES_MANAGER'].includes(role);
+};
+
 /**
  * Get permission level for role (higher number = more permissions)
  */
@@ -0,0 +1,256 @@
+/**
+ * On-road price engine
+ * Builds a GST-compliant quotation breakdown from a catalog vehicle variant
+ */
+
+import { QuotationItem } from '../api/quotations';
+import { ColorOption, VehicleVariant } from '../types/catalog';
+import {
+  GstSlab,
+  GST_SLABS,
+  GST_STATE_CODES,
+  DEFAULT_GST_SLAB_ID,
+  TCS_RATE,
+  TCS_THRESHOLD,
+  MAX_DEALER_DISCOUNT_RATE,
+} from '../config/pricing';
+
+export type DealerDiscountType = 'cash' | 'exchangeBonus' | 'corporate';
+
+export type DealerDiscounts = Partial<Record<DealerDiscountType, number>>;
+
+export const DEALER_DISCOUNT_LABELS: Record<DealerDiscountType, string> = {
+  cash: 'Cash discount',
+  exchangeBonus: 'Exchange bonus',
+  corporate: 'Corporate discount',
+};
+
+export interface OnRoadPriceInput {
+  variant: VehicleVariant;
+  vehicleName?: string;
+  color?: ColorOption | null;
+  slab?: GstSlab;
+  // Dealer's state name or GSTIN; the customer's state decides intra vs inter-state supply
+  dealerState?: string;
+  customerState?: string;
+  // Supply type to use when either state is unknown, e.g. repricing a saved quotation
+  interState?: boolean;
+  discounts?: DealerDiscounts;
+  maxDiscountRate?: number;
+  includeInsurance?: boolean;
+  includeAccessories?: boolean;
+  additionalItems?: QuotationItem[];
+}
+
+export interface OnRoadPriceBreakdown {
+  items: QuotationItem[];
+  slab: GstSlab;
+  isInterState: boolean;
+  exShowroomPrice: number;
+  discountAmount: number;
+  discountCapped: boolean;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+  taxAmount: number;
+  tcsAmount: number;
+  subtotal: number;
+  totalAmount: number;
+}
+
+const roundRupees = (value: number): number => Math.round(value);
+
+const formatRate = (rate: number): string => `${+(rate * 100).toFixed(2)}%`;
+
+/**
+ * Resolve the GST state code from a state name or a GSTIN
+ */
+export function getGstStateCode(stateOrGstin?: string): string | undefined {
+  if (!stateOrGstin) return undefined;
+  const value = stateOrGstin.trim();
+  if (/^\d{2}[A-Z0-9]{13}$/i.test(value)) {
+    return value.slice(0, 2);
+  }
+  const match = Object.keys(GST_STATE_CODES).find(
+    state => state.toLowerCase() === value.toLowerCase()
+  );
+  return match ? GST_STATE_CODES[match] : undefined;
+}
+
+/**
+ * Pick a default GST slab for a variant (electric vehicles get the EV slab)
+ */
+export function resolveGstSlab(variant: VehicleVariant): GstSlab {
+  const isElectric = variant.fuelTypes?.some(fuel => /electric|^ev$/i.test(fuel.trim()));
+  const slabId = isElectric ? 'ELECTRIC' : DEFAULT_GST_SLAB_ID;
+  return GST_SLABS.find(slab => slab.id === slabId) || GST_SLABS[0];
+}
+
+/**
+ * Calculate the on-road price for a catalog variant.
+ *
+ * The catalog ex-showroom price (plus colour premium) is GST-inclusive. Dealer discounts
+ * reduce it before tax is back-calculated, so GST and TCS apply to the discounted value.
+ * Every line is rounded to whole rupees and the tax lines absorb the rounding, so the
+ * item totals always add up to `totalAmount`.
+ */
+export function calculateOnRoadPrice(input: OnRoadPriceInput): OnRoadPriceBreakdown {
+  const {
+    variant,
+    color,
+    dealerState,
+    customerState,
+    interState = false,
+    discounts = {},
+    maxDiscountRate = MAX_DEALER_DISCOUNT_RATE,
+    includeInsurance = true,
+    includeAccessories = true,
+    additionalItems = [],
+  } = input;
+  const slab = input.slab || resolveGstSlab(variant);
+  const vehicleName = input.vehicleName || variant.name;
+
+  const exShowroomPrice = roundRupees(
+    (variant.exShowroomPrice || 0) + (color?.additionalCost || 0)
+  );
+
+  // Dealer discounts, capped at the configured share of the ex-showroom price
+  const requestedDiscount = (Object.keys(discounts) as DealerDiscountType[]).reduce(
+    (sum, key) => sum + Math.max(0, discounts[key] || 0),
+    0
+  );
+  const maxDiscount = roundRupees(exShowroomPrice * maxDiscountRate);
+  const discountAmount = roundRupees(Math.min(requestedDiscount, maxDiscount));
+  const netExShowroom = exShowroomPrice - discountAmount;
+
+  // Back-calculate taxable value from the GST-inclusive price
+  const combinedRate = slab.gstRate + slab.cessRate;
+  const grossTaxableValue = roundRupees(exShowroomPrice / (1 + combinedRate));
+  const taxableValue = roundRupees(netExShowroom / (1 + combinedRate));
+  const totalTax = netExShowroom - taxableValue;
+  const cess = combinedRate > 0 ? roundRupees((totalTax * slab.cessRate) / combinedRate) : 0;
+  const gst = totalTax - cess;
+
+  const dealerCode = getGstStateCode(dealerState);
+  const customerCode = getGstStateCode(customerState);
+  const isInterState = dealerCode && customerCode ? dealerCode !== customerCode : interState;
+
+  const cgst = isInterState ? 0 : roundRupees(gst / 2);
+  const sgst = isInterState ? 0 : gst - cgst;
+  const igst = isInterState ? gst : 0;
+
+  const tcsAmount = netExShowroom > TCS_THRESHOLD ? roundRupees(netExShowroom * TCS_RATE) : 0;
+
+  const items: QuotationItem[] = [];
+  const appliedDiscounts = (Object.keys(discounts) as DealerDiscountType[])
+    .filter(key => (discounts[key] || 0) > 0)
+    .map(key => DEALER_DISCOUNT_LABELS[key]);
+
+  items.push({
+    id: 'ex-showroom',
+    description: [
+      `Ex-showroom price (taxable value) - ${vehicleName}`,
+      color ? `Colour: ${color.name}` : null,
+      appliedDiscounts.length > 0 ? `Less: ${appliedDiscounts.join(', ')}` : null,
+    ]
+      .filter(Boolean)
+      .join(' | '),
+    quantity: 1,
+    unitPrice: grossTaxableValue,
+    discount: grossTaxableValue - taxableValue,
+    total: taxableValue,
+  });
+
+  if (isInterState) {
+    items.push({
+      id: 'igst',
+      description: `IGST @ ${formatRate(slab.gstRate)}`,
+      quantity: 1,
+      unitPrice: igst,
+      tax: igst,
+      total: igst,
+    });
+  } else {
+    items.push(
+      {
+        id: 'cgst',
+        description: `CGST @ ${formatRate(slab.gstRate / 2)}`,
+        quantity: 1,
+        unitPrice: cgst,
+        tax: cgst,
+        total: cgst,
+      },
+      {
+        id: 'sgst',
+        description: `SGST @ ${formatRate(slab.gstRate / 2)}`,
+        quantity: 1,
+        unitPrice: sgst,
+        tax: sgst,
+        total: sgst,
+      }
+    );
+  }
+
+  if (cess > 0) {
+    items.push({
+      id: 'cess',
+      description: `Compensation cess @ ${formatRate(slab.cessRate)}`,
+      quantity: 1,
+      unitPrice: cess,
+      tax: cess,
+      total: cess,
+    });
+  }
+
+  if (tcsAmount > 0) {
+    items.push({
+      id: 'tcs',
+      description: `TCS @ ${formatRate(TCS_RATE)} (sale value above ₹${TCS_THRESHOLD.toLocaleString('en-IN')})`,
+      quantity: 1,
+      unitPrice: tcsAmount,
+      total: tcsAmount,
+    });
+  }
+
+  const addCharge = (id: string, description: string, amount: number) => {
+    const value = roundRupees(amount || 0);
+    if (value > 0) {
+      items.push({ id, description, quantity: 1, unitPrice: value, total: value });
+    }
+  };
+
+  addCharge('rto', 'RTO registration & road tax', variant.rtoCharges);
+  if (includeInsurance) {
+    addCharge('insurance', 'Insurance (1st year)', variant.insurance);
+  }
+  if (includeAccessories) {
+    addCharge('accessories', 'Accessories kit', variant.accessories);
+  }
+
+  additionalItems
+    .filter(item => item.description.trim() && item.total > 0)
+    .forEach(item => items.push({ ...item, total: roundRupees(item.total) }));
+
+  const taxAmount = cgst + sgst + igst + cess;
+  const totalAmount = items.reduce((sum, item) => sum + item.total, 0);
+
+  return {
+    items,
+    slab,
+    isInterState,
+    exShowroomPrice,
+    discountAmount,
+    discountCapped: requestedDiscount > maxDiscount,
+    taxableValue,
+    cgst,
+    sgst,
+    igst,
+    cess,
+    taxAmount,
+    tcsAmount,
+    subtotal: totalAmount - taxAmount,
+    totalAmount,
+  };
+}
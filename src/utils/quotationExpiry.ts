@@ -0,0 +1,177 @@
+/**
+ * Quotation expiry
+ * Pure helpers for spotting quotations nearing validUntil, deciding when they lapse and
+ * repricing a renewal against the current catalog
+ */
+
+import { Quotation, QuotationStatus } from '../api/quotations';
+import { CatalogData, ColorOption, VehicleVariant } from '../types/catalog';
+import { OnRoadPriceBreakdown, calculateOnRoadPrice, getGstStateCode } from './pricingEngine';
+
+// Quotations due to lapse within this many days are flagged as expiring
+export const QUOTATION_EXPIRY_WARNING_DAYS = 7;
+
+// Validity given to a renewal when the original period cannot be worked out
+export const DEFAULT_QUOTATION_VALIDITY_DAYS = 30;
+
+export type QuotationExpiryState = 'expired' | 'expiring' | 'valid';
+
+// The customer has already decided; these never lapse
+const SETTLED_STATUSES: QuotationStatus[] = ['ACCEPTED', 'REJECTED'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const normalizeStatus = (status?: string) => (status || '').toUpperCase() as QuotationStatus;
+
+/**
+ * Calendar days from today until validUntil (0 = lapses today, negative = already lapsed)
+ */
+export function getDaysUntilExpiry(validUntil: string | undefined, now: Date = new Date()): number | null {
+  if (!validUntil) return null;
+  const expiry = new Date(validUntil);
+  if (isNaN(expiry.getTime())) return null;
+  return Math.round((startOfDay(expiry).getTime() - startOfDay(now).getTime()) / DAY_MS);
+}
+
+/**
+ * Where a quotation stands against its validity, or null when expiry does not apply
+ */
+export function getQuotationExpiryState(
+  quotation: Pick<Quotation, 'status' | 'validUntil'>,
+  now: Date = new Date(),
+  warningDays: number = QUOTATION_EXPIRY_WARNING_DAYS
+): QuotationExpiryState | null {
+  const status = normalizeStatus(quotation.status);
+  if (status === 'EXPIRED') return 'expired';
+  if (SETTLED_STATUSES.includes(status)) return null;
+
+  const expiry = quotation.validUntil ? new Date(quotation.validUntil) : null;
+  if (!expiry || isNaN(expiry.getTime())) return null;
+  if (expiry.getTime() < now.getTime()) return 'expired';
+
+  const daysLeft = getDaysUntilExpiry(quotation.validUntil, now);
+  return daysLeft !== null && daysLeft <= warningDays ? 'expiring' : 'valid';
+}
+
+/**
+ * Past validUntil but not yet marked EXPIRED
+ */
+export function isQuotationLapsed(
+  quotation: Pick<Quotation, 'status' | 'validUntil'>,
+  now: Date = new Date()
+): boolean {
+  return normalizeStatus(quotation.status) !== 'EXPIRED' && getQuotationExpiryState(quotation, now) === 'expired';
+}
+
+export function formatQuotationExpiry(
+  quotation: Pick<Quotation, 'status' | 'validUntil'>,
+  now: Date = new Date()
+): string {
+  const daysLeft = getDaysUntilExpiry(quotation.validUntil, now);
+  if (getQuotationExpiryState(quotation, now) === 'expired' || daysLeft === null) return 'Expired';
+  if (daysLeft <= 0) return 'Expires today';
+  if (daysLeft === 1) return 'Expires tomorrow';
+  return `Expires in ${daysLeft} days`;
+}
+
+/**
+ * New validUntil for a renewal, keeping the original quotation's validity period
+ */
+export function getRenewalValidUntil(
+  quotation: Pick<Quotation, 'createdAt' | 'validUntil'>,
+  now: Date = new Date()
+): string {
+  const created = new Date(quotation.createdAt);
+  const expiry = new Date(quotation.validUntil);
+  const period = Math.round((expiry.getTime() - created.getTime()) / DAY_MS);
+  const days = period > 0 ? period : DEFAULT_QUOTATION_VALIDITY_DAYS;
+
+  const validUntil = new Date(now);
+  validUntil.setDate(validUntil.getDate() + days);
+  return validUntil.toISOString();
+}
+
+export interface CatalogMatch {
+  variant: VehicleVariant;
+  vehicleName: string;
+  color: ColorOption | null;
+}
+
+/**
+ * Find the catalog variant a quotation was built from. Generated quotations describe the
+ * vehicle as "Brand Model Variant - Colour"; lean records fall back to the enquiry.
+ */
+export function findCatalogVariant(
+  catalog: CatalogData | null,
+  quotation: Pick<Quotation, 'vehicleDetails' | 'enquiry'>
+): CatalogMatch | null {
+  if (!catalog) return null;
+  const [vehiclePart, colorName] = (quotation.vehicleDetails || '').split(' - ');
+  const details = vehiclePart.trim().toLowerCase();
+  const enquiryModel = quotation.enquiry?.model?.toLowerCase();
+  const enquiryVariant = quotation.enquiry?.variant?.toLowerCase();
+
+  for (const brand of catalog.brands) {
+    for (const model of brand.models) {
+      for (const variant of model.variants) {
+        const vehicleName = `${brand.brand} ${model.model} ${variant.name}`;
+        const matchesDetails = !!details && details === vehicleName.toLowerCase();
+        const matchesEnquiry =
+          !!enquiryModel &&
+          !!enquiryVariant &&
+          model.model.toLowerCase() === enquiryModel &&
+          variant.name.toLowerCase() === enquiryVariant;
+
+        if (matchesDetails || matchesEnquiry) {
+          const color = colorName
+            ? variant.colors.find(option => option.name.toLowerCase() === colorName.trim().toLowerCase()) || null
+            : null;
+          return { variant, vehicleName, color };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The customer's state for a saved quotation: the enquiry's location when it names a state
+ */
+export function getQuotationCustomerState(quotation: Pick<Quotation, 'enquiry'>): string | undefined {
+  const location = quotation.enquiry?.location;
+  return getGstStateCode(location) ? location : undefined;
+}
+
+/**
+ * Whether a saved quotation was taxed as an inter-state supply (it carries an IGST line)
+ */
+export function isInterStateQuotation(quotation: Pick<Quotation, 'items'>): boolean {
+  return (quotation.items || []).some(item => /^IGST\b/i.test(item.description));
+}
+
+/**
+ * Price a renewal at today's catalog price, carrying over the original dealer discount.
+ * The customer's state comes from the enquiry; when it is unknown the original quotation's
+ * intra/inter-state treatment is kept. Returns null when the vehicle is no longer in the catalog.
+ */
+export function repriceQuotation(
+  quotation: Pick<Quotation, 'vehicleDetails' | 'enquiry' | 'discountAmount' | 'items'>,
+  catalog: CatalogData | null,
+  dealerState?: string,
+  customerState: string | undefined = getQuotationCustomerState(quotation)
+): OnRoadPriceBreakdown | null {
+  const match = findCatalogVariant(catalog, quotation);
+  if (!match || !match.variant.isAvailable) return null;
+
+  return calculateOnRoadPrice({
+    variant: match.variant,
+    vehicleName: match.vehicleName,
+    color: match.color,
+    dealerState,
+    customerState,
+    interState: isInterStateQuotation(quotation),
+    discounts: { cash: quotation.discountAmount || 0 },
+  });
+}
@@ -0,0 +1,416 @@
+/**
+ * Quotation PDF renderer
+ * Produces a branded A4 PDF for a quotation entirely on-device (no backend or native print module)
+ */
+
+import { Quotation } from '../api/quotations';
+import { formatCurrency, formatDate } from './formatting';
+
+/**
+ * Dealership details printed on the letterhead
+ */
+export interface QuotationLetterhead {
+  name: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  pincode?: string;
+  phone?: string;
+  email?: string;
+  gstNumber?: string;
+  panNumber?: string;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 40;
+const LINE_HEIGHT = 13;
+
+const BRAND_COLOR: [number, number, number] = [0.12, 0.25, 0.69];
+const MUTED_COLOR: [number, number, number] = [0.39, 0.45, 0.55];
+const TEXT_COLOR: [number, number, number] = [0.06, 0.09, 0.16];
+const TABLE_HEADER_FILL: [number, number, number] = [0.94, 0.96, 0.98];
+const RULE_COLOR: [number, number, number] = [0.8, 0.84, 0.88];
+
+// Helvetica glyph widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+type Font = 'regular' | 'bold';
+type Align = 'left' | 'right';
+type Color = [number, number, number];
+
+interface Column {
+  key: 'index' | 'description' | 'quantity' | 'unitPrice' | 'discount' | 'total';
+  title: string;
+  width: number;
+  align: Align;
+}
+
+const COLUMNS: Column[] = [
+  { key: 'index', title: '#', width: 20, align: 'left' },
+  { key: 'description', title: 'Description', width: 235, align: 'left' },
+  { key: 'quantity', title: 'Qty', width: 35, align: 'right' },
+  { key: 'unitPrice', title: 'Unit Price', width: 80, align: 'right' },
+  { key: 'discount', title: 'Discount', width: 70, align: 'right' },
+  { key: 'total', title: 'Amount', width: 75, align: 'right' },
+];
+
+const CELL_PADDING = 4;
+
+/**
+ * Map text to the WinAnsi subset supported by the built-in Helvetica font
+ */
+const sanitize = (text: string): string =>
+  text
+    .replace(/₹\s?/g, 'Rs. ')
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[•·]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+const escapePdfText = (text: string): string =>
+  sanitize(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+const textWidth = (text: string, size: number, font: Font = 'regular'): number => {
+  const units = sanitize(text)
+    .split('')
+    .reduce((sum, char) => {
+      const code = char.charCodeAt(0);
+      return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+    }, 0);
+  return ((units * size) / 1000) * (font === 'bold' ? 1.05 : 1);
+};
+
+/**
+ * Break text into lines that fit within maxWidth
+ */
+const wrapText = (text: string, size: number, maxWidth: number, font: Font = 'regular'): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach(paragraph => {
+    let current = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth || !current) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    });
+    lines.push(current);
+  });
+  return lines;
+};
+
+const formatAmount = (amount?: number): string =>
+  amount ? sanitize(formatCurrency(amount, 'INR', 'en-IN')) : '-';
+
+const colorOp = ([r, g, b]: Color, stroke = false): string =>
+  `${r} ${g} ${b} ${stroke ? 'RG' : 'rg'}`;
+
+/**
+ * Collects drawing operations per page and serialises them into a PDF document
+ */
+class PdfDocument {
+  private pages: string[][] = [];
+  private pageIndex = -1;
+
+  private get current(): string[] {
+    return this.pages[this.pageIndex];
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.pageIndex = this.pages.length - 1;
+  }
+
+  goToPage(index: number): void {
+    this.pageIndex = index;
+  }
+
+  text(
+    value: string,
+    x: number,
+    y: number,
+    options: { size?: number; font?: Font; color?: Color; align?: Align } = {}
+  ): void {
+    const { size = 10, font = 'regular', color = TEXT_COLOR, align = 'left' } = options;
+    const left = align === 'right' ? x - textWidth(value, size, font) : x;
+    this.current.push(
+      `BT ${colorOp(color)} /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapePdfText(value)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: Color = RULE_COLOR, width = 0.75): void {
+    this.current.push(
+      `${colorOp(color, true)} ${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: Color): void {
+    this.current.push(`${colorOp(color)} ${x} ${PAGE_HEIGHT - y - height} ${width} ${height} re f`);
+  }
+
+  /**
+   * Serialise to PDF bytes. All content is single-byte, so string length equals byte offset.
+   */
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    const fontRegularId = 3;
+    const fontBoldId = 4;
+    const firstPageId = 5;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${this.pages
+      .map((_, index) => `${firstPageId + index * 2} 0 R`)
+      .join(' ')}] /Count ${pageCount} >>`;
+    objects[fontRegularId] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[fontBoldId] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((ops, index) => {
+      const pageId = firstPageId + index * 2;
+      const contentId = pageId + 1;
+      const stream = ops.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontRegularId} 0 R /F2 ${fontBoldId} 0 R >> >> ` +
+        `/Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Render a quotation as a PDF document
+ */
+export function renderQuotationPdf(quotation: Quotation, letterhead: QuotationLetterhead): Uint8Array {
+  const doc = new PdfDocument();
+  let y = 0;
+
+  const drawLetterhead = () => {
+    doc.rect(0, 0, PAGE_WIDTH, 6, BRAND_COLOR);
+    y = MARGIN + 8;
+    doc.text(letterhead.name, MARGIN, y, { size: 18, font: 'bold', color: BRAND_COLOR });
+
+    const addressLines = [
+      letterhead.address,
+      [letterhead.city, letterhead.state, letterhead.pincode].filter(Boolean).join(', '),
+      [letterhead.phone && `Phone: ${letterhead.phone}`, letterhead.email && `Email: ${letterhead.email}`]
+        .filter(Boolean)
+        .join('  |  '),
+    ].filter(Boolean) as string[];
+
+    const registrations = [
+      letterhead.gstNumber && `GSTIN: ${letterhead.gstNumber}`,
+      letterhead.panNumber && `PAN: ${letterhead.panNumber}`,
+    ].filter(Boolean) as string[];
+
+    let leftY = y + 16;
+    addressLines.forEach(line => {
+      wrapText(line, 9, CONTENT_WIDTH * 0.6).forEach(wrapped => {
+        doc.text(wrapped, MARGIN, leftY, { size: 9, color: MUTED_COLOR });
+        leftY += 11;
+      });
+    });
+
+    let rightY = y;
+    registrations.forEach(line => {
+      doc.text(line, PAGE_WIDTH - MARGIN, rightY, { size: 9, font: 'bold', align: 'right' });
+      rightY += 12;
+    });
+
+    y = Math.max(leftY, rightY) + 4;
+    doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y, BRAND_COLOR, 1.5);
+    y += 20;
+  };
+
+  const startPage = () => {
+    doc.addPage();
+    drawLetterhead();
+  };
+
+  const drawTableHeader = () => {
+    doc.rect(MARGIN, y - 11, CONTENT_WIDTH, 16, TABLE_HEADER_FILL);
+    let x = MARGIN;
+    COLUMNS.forEach(column => {
+      const textX = column.align === 'right' ? x + column.width - CELL_PADDING : x + CELL_PADDING;
+      doc.text(column.title, textX, y, { size: 9, font: 'bold', align: column.align });
+      x += column.width;
+    });
+    y += 14;
+  };
+
+  const ensureSpace = (height: number, onNewPage?: () => void) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      startPage();
+      onNewPage?.();
+    }
+  };
+
+  startPage();
+
+  // Title and reference block
+  doc.text('QUOTATION', MARGIN, y, { size: 16, font: 'bold' });
+  const references = [
+    `Quotation No: ${quotation.quotationNumber}`,
+    `Date: ${formatDate(quotation.createdAt)}`,
+    `Valid Until: ${formatDate(quotation.validUntil)}`,
+  ];
+  references.forEach((reference, index) => {
+    doc.text(reference, PAGE_WIDTH - MARGIN, y + index * 12 - 4, { size: 9, align: 'right' });
+  });
+  y += 34;
+
+  // Customer block
+  doc.text('Prepared for', MARGIN, y, { size: 9, color: MUTED_COLOR });
+  y += 13;
+  doc.text(quotation.customerName, MARGIN, y, { size: 11, font: 'bold' });
+  y += 13;
+  [quotation.customerPhone, quotation.customerEmail].filter(Boolean).forEach(contact => {
+    doc.text(contact as string, MARGIN, y, { size: 9 });
+    y += 12;
+  });
+  y += 4;
+  doc.text('Vehicle', MARGIN, y, { size: 9, color: MUTED_COLOR });
+  y += 13;
+  wrapText(quotation.vehicleDetails, 10, CONTENT_WIDTH, 'bold').forEach(line => {
+    doc.text(line, MARGIN, y, { size: 10, font: 'bold' });
+    y += LINE_HEIGHT;
+  });
+  y += 12;
+
+  // Line items
+  drawTableHeader();
+  quotation.items.forEach((item, index) => {
+    const descriptionColumn = COLUMNS[1];
+    const descriptionLines = wrapText(item.description, 9, descriptionColumn.width - CELL_PADDING * 2);
+    const rowHeight = descriptionLines.length * 11 + 6;
+    ensureSpace(rowHeight, drawTableHeader);
+
+    const cells: Record<Column['key'], string[]> = {
+      index: [String(index + 1)],
+      description: descriptionLines,
+      quantity: [String(item.quantity)],
+      unitPrice: [formatAmount(item.unitPrice)],
+      discount: [formatAmount(item.discount)],
+      total: [formatAmount(item.total)],
+    };
+
+    let x = MARGIN;
+    COLUMNS.forEach(column => {
+      const textX = column.align === 'right' ? x + column.width - CELL_PADDING : x + CELL_PADDING;
+      cells[column.key].forEach((line, lineIndex) => {
+        doc.text(line, textX, y + lineIndex * 11, { size: 9, align: column.align });
+      });
+      x += column.width;
+    });
+
+    y += rowHeight - 6;
+    doc.line(MARGIN, y - 5, PAGE_WIDTH - MARGIN, y - 5);
+    y += 10;
+  });
+
+  // Totals. quotation.subtotal is pre-tax and already net of the discount. The discount
+  // shown is the pre-tax one from the item rows (quotation.discountAmount includes GST),
+  // added back to give the gross amount it is taken from
+  const itemDiscount = quotation.items.reduce((sum, item) => sum + (item.discount || 0), 0);
+  const totals: Array<[string, number, boolean]> = [
+    ['Subtotal', quotation.subtotal + itemDiscount, false],
+    ['Discount (before tax)', -itemDiscount, false],
+    ['Tax', quotation.taxAmount, false],
+    ['Total', quotation.totalAmount, true],
+  ];
+  ensureSpace(totals.length * 16 + 10);
+  y += 4;
+  totals
+    .filter(([label, amount]) => label === 'Total' || amount !== 0)
+    .forEach(([label, amount, emphasise]) => {
+      const size = emphasise ? 12 : 10;
+      const font: Font = emphasise ? 'bold' : 'regular';
+      const value = amount < 0 ? `- ${formatAmount(-amount)}` : formatAmount(amount);
+      if (emphasise) {
+        doc.line(PAGE_WIDTH - MARGIN - 220, y - 12, PAGE_WIDTH - MARGIN, y - 12, TEXT_COLOR);
+      }
+      doc.text(label, PAGE_WIDTH - MARGIN - 220, y, { size, font });
+      doc.text(value, PAGE_WIDTH - MARGIN, y, { size, font, align: 'right', color: emphasise ? BRAND_COLOR : TEXT_COLOR });
+      y += emphasise ? 20 : 15;
+    });
+  y += 10;
+
+  // Notes and terms
+  const sections: Array<[string, string | undefined]> = [
+    ['Notes', quotation.notes],
+    ['Terms & Conditions', quotation.terms],
+  ];
+  sections.forEach(([title, body]) => {
+    if (!body?.trim()) return;
+    ensureSpace(30);
+    doc.text(title, MARGIN, y, { size: 10, font: 'bold' });
+    y += 14;
+    wrapText(body, 9, CONTENT_WIDTH).forEach(line => {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, MARGIN, y, { size: 9, color: MUTED_COLOR });
+      y += 12;
+    });
+    y += 10;
+  });
+
+  // Footer on every page
+  const pageCount = doc.pageCount;
+  for (let page = 0; page < pageCount; page++) {
+    doc.goToPage(page);
+    const footerY = PAGE_HEIGHT - MARGIN + 10;
+    doc.line(MARGIN, footerY - 14, PAGE_WIDTH - MARGIN, footerY - 14);
+    doc.text(
+      'Computer-generated quotation. Prices are subject to change at the time of invoicing.',
+      MARGIN,
+      footerY,
+      { size: 7, color: MUTED_COLOR }
+    );
+    doc.text(`Page ${page + 1} of ${pageCount}`, PAGE_WIDTH - MARGIN, footerY, {
+      size: 7,
+      color: MUTED_COLOR,
+      align: 'right',
+    });
+  }
+
+  return doc.toBytes();
+}
@@ -0,0 +1,136 @@
+/**
+ * Spreadsheet import helpers
+ * Column mapping and value parsing shared by the bulk import previews. Rows arrive as
+ * plain text cells (see services/spreadsheetImport.service) and are mapped to record
+ * fields before validation.
+ */
+
+export interface ImportFieldDefinition<F extends string = string> {
+  key: F;
+  label: string;
+  required?: boolean;
+  // Header spellings seen in dealer spreadsheets, compared case- and punctuation-insensitively
+  aliases: string[];
+}
+
+// Field -> column index in the sheet
+export type ColumnMapping<F extends string = string> = Partial<Record<F, number>>;
+
+export interface ImportIssue<F extends string = string> {
+  field: F | 'row';
+  message: string;
+}
+
+export interface ImportRow<F extends string, R> {
+  // 1-based spreadsheet row, counting the header row, so it matches what the user sees
+  rowNumber: number;
+  cells: string[];
+  record: R;
+  errors: ImportIssue<F>[];
+}
+
+export const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guess which column holds each field from the header row.
+ * Every column is used at most once; fields without a match are left unmapped.
+ */
+export function suggestColumnMapping<F extends string>(
+  headers: string[],
+  fields: ImportFieldDefinition<F>[]
+): ColumnMapping<F> {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping<F> = {};
+
+  fields.forEach(field => {
+    const candidates = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+    const index = normalized.findIndex((header, i) => !used.has(i) && !!header && candidates.includes(header));
+    if (index >= 0) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Required fields that have no column assigned
+ */
+export function getUnmappedRequiredFields<F extends string>(
+  mapping: ColumnMapping<F>,
+  fields: ImportFieldDefinition<F>[]
+): ImportFieldDefinition<F>[] {
+  return fields.filter(field => field.required && mapping[field.key] === undefined);
+}
+
+/**
+ * Read the mapped cells of one row; unmapped fields come back as ''
+ */
+export function readMappedValues<F extends string>(
+  cells: string[],
+  mapping: ColumnMapping<F>,
+  fields: ImportFieldDefinition<F>[]
+): Record<F, string> {
+  return fields.reduce((values, field) => {
+    const index = mapping[field.key];
+    values[field.key] = index === undefined ? '' : (cells[index] || '').trim();
+    return values;
+  }, {} as Record<F, string>);
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  if (date.getFullYear() !== fullYear || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${fullYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Parse a spreadsheet date into YYYY-MM-DD.
+ * Accepts ISO dates, day-first dates (15/01/2024, 15-01-24, 15.01.2024) and 15-Jan-2024.
+ * Returns null for anything else, including impossible dates such as 31/02/2024.
+ */
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s,-]+(\d{2}|\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase());
+    return month >= 0 ? toIsoDate(Number(match[3]), month + 1, Number(match[1])) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse yes/no style cells. Returns null when the text is not recognised.
+ */
+export function parseImportBoolean(value: string): boolean | null {
+  const text = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(text)) return true;
+  if (['no', 'n', 'false', '0'].includes(text)) return false;
+  return null;
+}
+
+/**
+ * Match free text against enum values, ignoring case, spaces and hyphens
+ * ("In Progress" -> IN_PROGRESS)
+ */
+export function parseImportEnum<T extends string>(value: string, allowed: readonly T[]): T | null {
+  const text = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return allowed.find(option => option === text) ?? null;
+}
@@ -0,0 +1,57 @@
+/**
+ * Stock reservation
+ * Pure helpers for deciding what a booking status change means for stock and for
+ * picking the stock entry that matches a booking's vehicle
+ */
+
+import { Stock } from '../types/stock';
+import { Booking, BookingStatus } from '../services/types';
+
+export type StockAction = 'reserve' | 'release' | 'sell';
+
+export type BookingStockSpec = Pick<Booking, 'variant' | 'color' | 'fuelType' | 'transmission'>;
+
+// Booking statuses that change what the booking holds in stock. Every committed status
+// reserves, so bookings that skip CONFIRMED still hold a unit; reserving again is a no-op.
+const STATUS_STOCK_ACTIONS: Partial<Record<BookingStatus, StockAction>> = {
+  [BookingStatus.CONFIRMED]: 'reserve',
+  [BookingStatus.IN_PROGRESS]: 'reserve',
+  [BookingStatus.RESCHEDULED]: 'reserve',
+  [BookingStatus.CANCELLED]: 'release',
+  [BookingStatus.NO_SHOW]: 'release',
+  [BookingStatus.DELIVERED]: 'sell',
+};
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+export function getStockActionForStatus(status?: BookingStatus | string): StockAction | null {
+  if (!status) return null;
+  return STATUS_STOCK_ACTIONS[status as BookingStatus] || null;
+}
+
+/**
+ * Whether a stock entry is the booked vehicle. Colour, fuel and transmission are only
+ * compared when the booking records them.
+ */
+export function matchesBookingSpec(stock: Stock, booking: BookingStockSpec): boolean {
+  if (!booking.variant || normalize(stock.variant) !== normalize(booking.variant)) return false;
+  if (booking.color && normalize(stock.color) !== normalize(booking.color)) return false;
+  if (booking.fuelType && normalize(stock.fuelType) !== normalize(booking.fuelType)) return false;
+  if (booking.transmission && normalize(stock.transmission) !== normalize(booking.transmission)) return false;
+  return true;
+}
+
+/**
+ * Stock entries a booking could take a unit from, fullest first so a reservation does
+ * not use up the last unit of one entry while another has plenty
+ */
+export function findStockCandidates(stocks: Stock[], booking: BookingStockSpec): Stock[] {
+  return stocks
+    .filter(stock =>
+      matchesBookingSpec(stock, booking) &&
+      stock.availableQuantity > 0 &&
+      stock.status !== 'SOLD' &&
+      stock.status !== 'MAINTENANCE'
+    )
+    .sort((a, b) => b.availableQuantity - a.availableQuantity);
+}
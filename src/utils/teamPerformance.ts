@@ -0,0 +1,142 @@
+/**
+ * Team Performance Aggregates
+ * Pure helpers that derive per-advisor metrics from enquiries, quotations and bookings
+ */
+
+import { Enquiry, EnquiryCategory, EnquiryStatus, Booking } from '../services/types';
+import type { Quotation } from '../api/quotations';
+
+export interface AdvisorPerformance {
+  enquiriesHandled: number;
+  quotationsCreated: number;
+  bookingsManaged: number;
+  conversionRate: number;
+  avgResponseTime: string;
+  customerRating: number;
+  thisMonthSales: number;
+  lastMonthSales: number;
+  bookingsThisMonth: number;
+  bookingsLastMonth: number;
+  targetAchievement: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const WON_QUOTATION_STATUSES = ['ACCEPTED', 'APPROVED'];
+
+const toTime = (value?: string | null): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Start of the current and previous calendar month (local time)
+ */
+function getMonthBoundaries(now: Date): { thisMonthStart: number; lastMonthStart: number } {
+  return {
+    thisMonthStart: new Date(now.getFullYear(), now.getMonth(), 1).getTime(),
+    lastMonthStart: new Date(now.getFullYear(), now.getMonth() - 1, 1).getTime(),
+  };
+}
+
+/**
+ * The advisor an enquiry counts against: its assignee, or its creator when unassigned
+ */
+export function getEnquiryOwnerId(enquiry: Enquiry): string | undefined {
+  return enquiry.assignedToUserId || enquiry.createdByUserId || undefined;
+}
+
+export function isConvertedEnquiry(enquiry: Enquiry): boolean {
+  return enquiry.category === EnquiryCategory.BOOKED || enquiry.status === EnquiryStatus.CONVERTED;
+}
+
+/**
+ * Hours from enquiry creation to its first remark, or null if nobody has responded yet
+ */
+export function getFirstResponseHours(enquiry: Enquiry): number | null {
+  const createdAt = toTime(enquiry.createdAt);
+  if (createdAt === null || !Array.isArray(enquiry.remarkHistory)) return null;
+
+  const remarkTimes = enquiry.remarkHistory
+    .filter(entry => !entry.cancelled)
+    .map(entry => toTime(entry.createdAt))
+    .filter((time): time is number => time !== null && time >= createdAt);
+
+  if (remarkTimes.length === 0) return null;
+  return (Math.min(...remarkTimes) - createdAt) / HOUR_MS;
+}
+
+/**
+ * Format an average response time the way TeamMember.performance expects it ("2.4h")
+ */
+export function formatResponseTime(hours: number | null): string {
+  if (hours === null) return 'N/A';
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  return `${hours.toFixed(1)}h`;
+}
+
+/**
+ * Compute performance for one advisor
+ *
+ * Bookings are attributed by advisorId, quotations by createdById and enquiries by
+ * getEnquiryOwnerId. Sales are the value of accepted/approved quotations; target
+ * achievement is this month's bookings against last month's (capped at 100%), as the
+ * backend does not expose per-advisor targets.
+ */
+export function computeAdvisorPerformance(
+  advisorId: string,
+  data: { enquiries: Enquiry[]; quotations: Quotation[]; bookings: Booking[] },
+  now: Date = new Date()
+): AdvisorPerformance {
+  const { thisMonthStart, lastMonthStart } = getMonthBoundaries(now);
+  const inThisMonth = (time: number | null) => time !== null && time >= thisMonthStart;
+  const inLastMonth = (time: number | null) =>
+    time !== null && time >= lastMonthStart && time < thisMonthStart;
+
+  const enquiries = data.enquiries.filter(enquiry => getEnquiryOwnerId(enquiry) === advisorId);
+  const quotations = data.quotations.filter(quotation => quotation.createdById === advisorId);
+  const bookings = data.bookings.filter(booking => booking.advisorId === advisorId);
+
+  const converted = enquiries.filter(isConvertedEnquiry).length;
+  const conversionRate = enquiries.length > 0 ? Math.round((converted / enquiries.length) * 100) : 0;
+
+  const responseHours = enquiries
+    .map(getFirstResponseHours)
+    .filter((hours): hours is number => hours !== null);
+  const avgResponseHours =
+    responseHours.length > 0
+      ? responseHours.reduce((sum, hours) => sum + hours, 0) / responseHours.length
+      : null;
+
+  const bookingTime = (booking: Booking) => toTime(booking.bookingDate || booking.createdAt);
+  const bookingsThisMonth = bookings.filter(booking => inThisMonth(bookingTime(booking))).length;
+  const bookingsLastMonth = bookings.filter(booking => inLastMonth(bookingTime(booking))).length;
+
+  const salesIn = (inMonth: (time: number | null) => boolean) =>
+    quotations
+      .filter(quotation => WON_QUOTATION_STATUSES.includes(quotation.status))
+      .filter(quotation => inMonth(toTime(quotation.approvedAt || quotation.updatedAt || quotation.createdAt)))
+      .reduce((sum, quotation) => sum + (quotation.totalAmount ?? quotation.amount ?? 0), 0);
+
+  const targetAchievement =
+    bookingsLastMonth > 0
+      ? Math.min(100, Math.round((bookingsThisMonth / bookingsLastMonth) * 100))
+      : bookingsThisMonth > 0
+      ? 100
+      : 0;
+
+  return {
+    enquiriesHandled: enquiries.length,
+    quotationsCreated: quotations.length,
+    bookingsManaged: bookings.length,
+    conversionRate,
+    avgResponseTime: formatResponseTime(avgResponseHours),
+    customerRating: 0,
+    thisMonthSales: salesIn(inThisMonth),
+    lastMonthSales: salesIn(inLastMonth),
+    bookingsThisMonth,
+    bookingsLastMonth,
+    targetAchievement,
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Workload handover
+ * Pure helpers for moving an advisor's open enquiries and undelivered bookings to the rest
+ * of the team when they leave or go on leave
+ */
+
+import { Enquiry, Booking } from '../services/types';
+import { isEnquiryOpen, isBookingOpen } from '../services/reminders.service';
+import { getEnquiryOwnerId } from './teamPerformance';
+import { normalizePhoneNumber } from './formatting';
+
+export type HandoverItemType = 'enquiry' | 'booking';
+
+export interface HandoverItem {
+  type: HandoverItemType;
+  id: string;
+  customerName: string;
+  customerPhone: string;
+  // Model for enquiries, variant for bookings
+  vehicle: string;
+  status: string;
+}
+
+export interface HandoverAdvisor {
+  id: string;
+  name: string;
+  // Open enquiries and bookings the advisor already holds
+  openItems: number;
+}
+
+// Item key -> advisor id
+export type HandoverAssignments = Record<string, string>;
+
+export interface HandoverGroup {
+  advisorId: string;
+  enquiryIds: string[];
+  bookingIds: string[];
+}
+
+export const getHandoverKey = (item: Pick<HandoverItem, 'type' | 'id'>): string => `${item.type}:${item.id}`;
+
+/**
+ * Open enquiries and undelivered bookings owned by one advisor
+ */
+export function getOpenWork(ownerId: string, enquiries: Enquiry[], bookings: Booking[]): HandoverItem[] {
+  return [
+    ...enquiries
+      .filter(enquiry => getEnquiryOwnerId(enquiry) === ownerId && isEnquiryOpen(enquiry))
+      .map(enquiry => ({
+        type: 'enquiry' as const,
+        id: enquiry.id,
+        customerName: enquiry.customerName,
+        customerPhone: enquiry.customerContact,
+        vehicle: enquiry.model,
+        status: enquiry.category,
+      })),
+    ...bookings
+      .filter(booking => booking.advisorId === ownerId && isBookingOpen(booking))
+      .map(booking => ({
+        type: 'booking' as const,
+        id: booking.id,
+        customerName: booking.customerName,
+        customerPhone: booking.customerPhone,
+        vehicle: booking.variant,
+        status: booking.status,
+      })),
+  ];
+}
+
+/**
+ * Open enquiries plus open bookings per owning advisor id
+ */
+export function countOpenWorkByAdvisor(enquiries: Enquiry[], bookings: Booking[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const add = (ownerId?: string) => {
+    if (ownerId) counts[ownerId] = (counts[ownerId] || 0) + 1;
+  };
+  enquiries.filter(isEnquiryOpen).forEach(enquiry => add(getEnquiryOwnerId(enquiry)));
+  bookings.filter(isBookingOpen).forEach(booking => add(booking.advisorId));
+  return counts;
+}
+
+/**
+ * Spread the items over the advisors, least loaded first. All of a customer's enquiries
+ * and bookings go to the same advisor so the customer deals with one person.
+ */
+export function proposeHandover(items: HandoverItem[], advisors: HandoverAdvisor[]): HandoverAssignments {
+  if (advisors.length === 0) return {};
+
+  const ordered = [...advisors].sort((a, b) => a.name.localeCompare(b.name));
+  const load = new Map(ordered.map(advisor => [advisor.id, advisor.openItems]));
+
+  const byCustomer = new Map<string, HandoverItem[]>();
+  items.forEach(item => {
+    const customerKey = normalizePhoneNumber(item.customerPhone) || getHandoverKey(item);
+    byCustomer.set(customerKey, [...(byCustomer.get(customerKey) || []), item]);
+  });
+
+  const assignments: HandoverAssignments = {};
+  // Customers with the most open items are placed first, while load is most even
+  Array.from(byCustomer.values())
+    .sort((a, b) => b.length - a.length)
+    .forEach(customerItems => {
+      const advisor = ordered.reduce((best, candidate) =>
+        load.get(candidate.id)! < load.get(best.id)! ? candidate : best
+      );
+      load.set(advisor.id, load.get(advisor.id)! + customerItems.length);
+      customerItems.forEach(item => {
+        assignments[getHandoverKey(item)] = advisor.id;
+      });
+    });
+
+  return assignments;
+}
+
+/**
+ * Group assigned items by their new owner, ready for the bulk assign endpoints
+ */
+export function groupHandover(items: HandoverItem[], assignments: HandoverAssignments): HandoverGroup[] {
+  const groups = new Map<string, HandoverGroup>();
+  items.forEach(item => {
+    const advisorId = assignments[getHandoverKey(item)];
+    if (!advisorId) return;
+    const group = groups.get(advisorId) || { advisorId, enquiryIds: [], bookingIds: [] };
+    (item.type === 'enquiry' ? group.enquiryIds : group.bookingIds).push(item.id);
+    groups.set(advisorId, group);
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Remark recorded on each record that changes hands
+ */
+export function buildHandoverRemark(fromName: string, toName: string, note?: string): string {
+  const remark = `Handed over from ${fromName} to ${toName}`;
+  return note?.trim() ? `${remark}: ${note.trim()}` : remark;
+}